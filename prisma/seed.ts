@@ -17,6 +17,7 @@ async function main() {
       maximumPlayers: 50,
       questionsPerGame: 10,
       finalQuestionThreshold: 3,
+      tieToleranceMs: 0,
       maintenanceMode: false,
       allowPublicGames: true,
       allowGuestPlayers: false,
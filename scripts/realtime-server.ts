@@ -0,0 +1,42 @@
+/**
+ * Script to run the realtime (Socket.io) server on its own
+ *
+ * Usage: npm run realtime
+ *
+ * SOCKET_PORT         port to listen on (3002 by default)
+ * ROOM_STORE_URL      redis:// URL of the room store shared with the Next app
+ *                     and the other nodes (required)
+ * REALTIME_NODE_ID    name of this node in room claims (random by default)
+ * REALTIME_PUBLIC_URL URL players reach this node at, when it differs from
+ *                     http://localhost:<SOCKET_PORT>
+ */
+
+import { startRealtimeServer } from '../src/lib/socket/realtime-server'
+import { getRoomStore, requireSharedRoomStore } from '../src/lib/socket/room-store'
+
+const main = async () => {
+  const port = parseInt(process.env.SOCKET_PORT || '3002')
+
+  const server = await startRealtimeServer({
+    port,
+    roomStore: requireSharedRoomStore(),
+    ...(process.env.REALTIME_PUBLIC_URL && { publicUrl: process.env.REALTIME_PUBLIC_URL }),
+    corsOrigin: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  })
+
+  console.log(`🚀 Socket.io server ${server.nodeId} running on port ${port}`)
+
+  const shutdown = async () => {
+    await server.close()
+    await getRoomStore().close()
+    process.exit(0)
+  }
+
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
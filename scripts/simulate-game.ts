@@ -0,0 +1,39 @@
+/**
+ * Script to rehearse a game with bot players
+ *
+ * Usage: npm run simulate -- --bots 20 --profiles expert,average,novice --seed 42
+ */
+
+import { BOT_PROFILES, type BotProfile } from '../src/lib/simulator/bot-profiles'
+import { runGameSimulation } from '../src/lib/simulator/game-simulator'
+
+const readOption = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+const main = async () => {
+  const botCount = parseInt(readOption('bots') ?? '10')
+  const seed = parseInt(readOption('seed') ?? String(Date.now()))
+  const profiles = (readOption('profiles') ?? 'average')
+    .split(',')
+    .map(name => BOT_PROFILES[name as keyof typeof BOT_PROFILES] as BotProfile | undefined)
+    .filter((profile): profile is BotProfile => profile !== undefined)
+
+  const report = await runGameSimulation({
+    botCount,
+    seed,
+    ...(profiles.length > 0 && { profiles })
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+
+  if (report.violations.length > 0) {
+    process.exitCode = 1
+  }
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
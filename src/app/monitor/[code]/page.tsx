@@ -1,7 +1,7 @@
 /**
  * Monitor Display Page
- * 
- * Large display page for All Star Quiz games
+ *
+ * Large display page for All Star Quiz
  * Shows game status, questions, and results on large screens/projectors
  */
 
@@ -9,31 +9,115 @@
 
 import { type FC, useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
-import { z } from 'zod'
 import { MonitorLayout } from '@/components/layout/monitor-layout'
-import { MonitorWaitingRoom } from '@/components/monitor/monitor-waiting-room'
-import { useSocket } from '@/lib/socket/context'
-import { type GameStatusSchema } from '@/schemas/gameSchemas'
+import {
+  MonitorCountdown,
+  MonitorFinalShowdown,
+  MonitorPlayerList,
+  MonitorQuizDisplay,
+  MonitorResultsDisplay,
+  MonitorTeamStandings,
+  MonitorWaitingRoom
+} from '@/components/monitor'
+import { useGameMonitor, useSocket } from '@/lib/socket/context'
+import type { MonitorScreen, MonitorState } from '@/lib/game/monitor-state'
+import type { GamePlayer, Question, QuestionResult } from '@/types/monitor'
 
-type GameState = z.infer<typeof GameStatusSchema>
+const toGamePlayers = (state: MonitorState): GamePlayer[] => {
+  const winnerId = state.gameOver?.winnerId ?? null
+
+  return state.players.map(player => {
+    const eliminationIndex = state.eliminatedPlayers.indexOf(player.playerId)
+
+    return {
+      userId: player.playerId,
+      userName: player.playerName,
+      status: winnerId === player.playerId
+        ? 'WINNER'
+        : player.status === 'eliminated'
+          ? 'ELIMINATED'
+          : player.status === 'disconnected' ? 'DISCONNECTED' : 'ACTIVE',
+      ...(eliminationIndex >= 0 && { eliminationOrder: eliminationIndex + 1 }),
+      lives: player.lives,
+      maxLives: state.startingLives
+    }
+  })
+}
+
+// The answer key only reaches the monitor with the question's results
+const toMonitorQuestion = (state: MonitorState): Question | null => {
+  if (!state.question) return null
+  const { question } = state.question
+
+  return {
+    id: question.id,
+    text: question.text,
+    ...(question.format && { format: question.format }),
+    optionA: question.optionA,
+    optionB: question.optionB,
+    optionC: question.optionC,
+    optionD: question.optionD,
+    ...(question.unit && { unit: question.unit }),
+    correctAnswer: state.result?.correctAnswer ?? '',
+    type: state.phase === 'normal' ? 'NORMAL' : 'FINAL',
+    ...(question.difficulty && { difficulty: question.difficulty }),
+    questionNumber: state.questionNumber
+  }
+}
+
+const toQuestionResult = (state: MonitorState): QuestionResult | null => {
+  if (!state.result) return null
+  const { correctAnswerers, incorrectAnswerers } = state.result
+
+  const toPlayerResult = (playerId: string, isCorrect: boolean) => {
+    const answer = state.answers[playerId]
+    return {
+      userId: playerId,
+      ...(answer && { selectedAnswer: answer.selectedAnswer }),
+      isCorrect,
+      // Answers arrive in seconds; the results display expects milliseconds
+      responseTime: (answer?.responseTime ?? 0) * 1000
+    }
+  }
+
+  return {
+    correctAnswer: state.result.correctAnswer,
+    results: [
+      ...correctAnswerers.map(playerId => toPlayerResult(playerId, true)),
+      ...incorrectAnswerers.map(playerId => toPlayerResult(playerId, false))
+    ]
+  }
+}
+
+const getGameTitle = (screen: MonitorScreen) => {
+  switch (screen) {
+    case 'waiting':
+      return '参加者募集中'
+    case 'countdown':
+      return 'ゲーム開始中'
+    case 'standby':
+    case 'question':
+    case 'results':
+    case 'announcement':
+      return 'ゲーム進行中'
+    case 'paused':
+      return 'ゲーム一時停止'
+    case 'finished':
+    case 'ended':
+      return 'ゲーム終了'
+    default:
+      return 'オールスタークイズ'
+  }
+}
 
 const MonitorPage: FC = () => {
   const params = useParams()
   const router = useRouter()
-  const gameCode = params.code as string
+  const gameCode = (params.code as string).toUpperCase()
   const [showPlayerList, setShowPlayerList] = useState(false)
-  
-  // TODO: Implement proper game state management for monitor
-  const { socket, isConnected, connectionError } = useSocket()
-  const [gameState] = useState<GameState>('WAITING')
 
-  useEffect(() => {
-    // TODO: Implement monitor-specific socket connection
-    if (gameCode && gameCode.length === 6 && socket) {
-      console.log('Monitor connecting to game:', gameCode)
-      // socket.emit('join-monitor', { gameCode })
-    }
-  }, [gameCode, socket])
+  const { isConnected, connectionError } = useSocket()
+  const { monitorState, screen, monitorError } = useGameMonitor(gameCode)
 
   useEffect(() => {
     if (connectionError) {
@@ -67,42 +151,19 @@ const MonitorPage: FC = () => {
     return () => window.removeEventListener('keydown', handleKeyPress)
   }, [showPlayerList])
 
-  const getGameTitle = (state: GameState) => {
-    switch (state) {
-      case 'WAITING':
-        return '参加者募集中'
-      case 'STARTING':
-        return 'ゲーム開始中'
-      case 'IN_PROGRESS':
-        return 'ゲーム進行中'
-      case 'PAUSED':
-        return 'ゲーム一時停止'
-      case 'FINISHED':
-        return 'ゲーム終了'
-      case 'CANCELLED':
-        return 'ゲームキャンセル'
-      default:
-        return 'オールスタークイズ'
-    }
-  }
+  const players = toGamePlayers(monitorState)
+  const question = toMonitorQuestion(monitorState)
+  const result = toQuestionResult(monitorState)
+  const { teamStandings } = monitorState
 
-  const renderGameContent = () => {
-    if (!isConnected) {
-      return (
-        <div className="h-full flex items-center justify-center">
-          <div className="glass-card rounded-3xl p-12 text-center">
-            <div className="text-4xl lg:text-5xl font-bold text-white mb-4">
-              接続中...
-            </div>
-            <div className="text-2xl lg:text-3xl text-white/70">
-              ゲームに接続しています
-            </div>
-          </div>
-        </div>
-      )
-    }
+  const renderTeamStandings = (winningTeamId: string | null = null) => teamStandings.length > 0 && (
+    <div className="w-full max-w-4xl">
+      <MonitorTeamStandings standings={teamStandings} winningTeamId={winningTeamId} />
+    </div>
+  )
 
-    if (connectionError) {
+  const renderGameContent = () => {
+    if (connectionError || monitorError) {
       return (
         <div className="h-full flex items-center justify-center">
           <div className="glass-card rounded-3xl p-12 text-center border-2 border-red-400">
@@ -110,7 +171,7 @@ const MonitorPage: FC = () => {
               接続エラー
             </div>
             <div className="text-2xl lg:text-3xl text-white/70 mb-6">
-              ゲームが見つかりません
+              {monitorError ? 'ゲームを表示できません' : 'ゲームが見つかりません'}
             </div>
             <button
               onClick={() => router.push('/')}
@@ -123,58 +184,128 @@ const MonitorPage: FC = () => {
       )
     }
 
-    // Render based on game state
-    switch (gameState) {
-      case 'WAITING':
+    if (!isConnected || screen === 'connecting') {
+      return (
+        <div className="h-full flex items-center justify-center">
+          <div className="glass-card rounded-3xl p-12 text-center">
+            <div className="text-4xl lg:text-5xl font-bold text-white mb-4">
+              接続中...
+            </div>
+            <div className="text-2xl lg:text-3xl text-white/70">
+              ゲームに接続しています
+            </div>
+          </div>
+        </div>
+      )
+    }
+
+    switch (screen) {
+      case 'waiting':
         return (
           <MonitorWaitingRoom
-            players={[]}
+            players={players}
             gameCode={gameCode}
             isStarting={false}
           />
         )
 
-      case 'STARTING':
+      case 'countdown':
         return (
           <MonitorWaitingRoom
-            players={[]}
+            players={players}
             gameCode={gameCode}
             isStarting={true}
-            startCountdown={5}
+            {...(monitorState.countdown !== null && { startCountdown: monitorState.countdown })}
           />
         )
 
-      case 'IN_PROGRESS':
+      case 'announcement': {
+        const { announcement } = monitorState
+        if (announcement?.type === 'sudden-death') {
+          return (
+            <MonitorFinalShowdown
+              survivorCount={announcement.players.length}
+              players={players.filter(player => announcement.players.includes(player.userId))}
+              suddenDeathRound={announcement.round}
+            />
+          )
+        }
+
         return (
-          <div className="h-full flex items-center justify-center">
-            <div className="glass-card rounded-3xl p-12 text-center">
-              <div className="text-4xl lg:text-5xl font-bold text-white mb-4">
-                ゲーム進行中
-              </div>
-              <div className="text-2xl lg:text-3xl text-white/70">
-                問題が表示されています
-              </div>
-            </div>
+          <MonitorFinalShowdown
+            survivorCount={announcement?.survivorCount ?? 0}
+            players={players.filter(player => player.status === 'ACTIVE')}
+          />
+        )
+      }
+
+      case 'question':
+        if (!question || !monitorState.question) break
+        return (
+          <div className="h-full flex flex-col gap-8">
+            <MonitorQuizDisplay
+              question={question}
+              currentQuestionNumber={monitorState.questionNumber}
+              totalQuestions={monitorState.totalQuestions}
+              timeRemaining={monitorState.remainingTime ?? 0}
+              players={players}
+              playerAnswers={Object.fromEntries(
+                Object.values(monitorState.answers).map(answer => [answer.playerId, answer.selectedAnswer])
+              )}
+              isFinalShowdown={monitorState.phase !== 'normal'}
+            />
+            {renderTeamStandings()}
           </div>
         )
 
-      case 'FINISHED':
+      case 'results':
+      case 'finished': {
+        if (!question || !result) break
+        const { gameOver } = monitorState
+        const winner = players.find(player => player.status === 'WINNER')
+
+        // Numeric questions reveal every guess on the number line instead of right and wrong
+        if (question.format === 'NUMERIC' && !gameOver) {
+          return (
+            <div className="h-full flex flex-col gap-8">
+              <MonitorQuizDisplay
+                question={question}
+                currentQuestionNumber={monitorState.questionNumber}
+                totalQuestions={monitorState.totalQuestions}
+                timeRemaining={0}
+                players={players}
+                showAnswers={true}
+                correctAnswer={result.correctAnswer}
+                isFinalShowdown={monitorState.phase !== 'normal'}
+                numericRanking={monitorState.result?.numericRanking ?? []}
+              />
+              {renderTeamStandings()}
+            </div>
+          )
+        }
+
         return (
-          <div className="h-full flex items-center justify-center">
-            <div className="glass-card rounded-3xl p-12 text-center border-4 border-yellow-400">
-              <div className="text-6xl lg:text-7xl font-bold text-yellow-300 mb-6">
-                🏆 ゲーム終了 🏆
-              </div>
-              <div className="text-2xl lg:text-3xl text-white/80">
-                お疲れ様でした！
-              </div>
+          <div className="h-full flex flex-col items-center gap-8">
+            <div className="w-full flex-1">
+              <MonitorResultsDisplay
+                question={question}
+                questionNumber={monitorState.questionNumber}
+                result={result}
+                players={players}
+                eliminatedPlayers={players.filter(player => player.status === 'ELIMINATED')}
+                isGameFinished={gameOver !== null}
+                {...(winner && { winner })}
+                {...(gameOver && { finalRanking: gameOver.finalRanking })}
+              />
             </div>
+            {renderTeamStandings(gameOver?.winningTeamId ?? null)}
           </div>
         )
+      }
 
-      case 'PAUSED':
+      case 'paused':
         return (
-          <div className="h-full flex items-center justify-center">
+          <div className="h-full flex flex-col items-center justify-center gap-8">
             <div className="glass-card rounded-3xl p-12 text-center">
               <div className="text-4xl lg:text-5xl font-bold text-white mb-4">
                 ⏸️ ゲーム一時停止
@@ -183,46 +314,66 @@ const MonitorPage: FC = () => {
                 管理者が再開するまでお待ちください
               </div>
             </div>
+            {monitorState.remainingTime !== null && monitorState.question && (
+              <MonitorCountdown
+                timeRemaining={monitorState.remainingTime}
+                totalTime={monitorState.question.timeLimit}
+                isActive={false}
+              />
+            )}
           </div>
         )
 
-      case 'CANCELLED':
+      case 'ended':
         return (
           <div className="h-full flex items-center justify-center">
             <div className="glass-card rounded-3xl p-12 text-center border-2 border-red-400">
               <div className="text-4xl lg:text-5xl font-bold text-red-400 mb-4">
-                ゲームキャンセル
+                ゲーム終了
               </div>
               <div className="text-2xl lg:text-3xl text-white/70">
-                ゲームが中止されました
-              </div>
-            </div>
-          </div>
-        )
-
-      default:
-        return (
-          <div className="h-full flex items-center justify-center">
-            <div className="glass-card rounded-3xl p-12 text-center">
-              <div className="text-4xl lg:text-5xl font-bold text-white mb-4">
-                準備中...
-              </div>
-              <div className="text-2xl lg:text-3xl text-white/70">
-                ゲームの準備をしています
+                {monitorState.endedReason ?? 'お疲れ様でした！'}
               </div>
             </div>
           </div>
         )
     }
+
+    // Between questions, show who is still in the game
+    return (
+      <div className="h-full flex flex-col items-center gap-8">
+        <div className="w-full flex-1">
+          <MonitorPlayerList players={players} showStatus />
+        </div>
+        {renderTeamStandings()}
+      </div>
+    )
   }
 
   return (
     <MonitorLayout
-      title={getGameTitle(gameState)}
-      gameCode={gameCode.toUpperCase()}
+      title={getGameTitle(screen)}
+      gameCode={gameCode}
     >
       {renderGameContent()}
-      
+
+      {/* Player list overlay */}
+      {showPlayerList && screen !== 'connecting' && (
+        <div className="absolute inset-8 z-10 glass-card rounded-3xl p-8 overflow-auto">
+          <MonitorPlayerList
+            players={players}
+            {...(monitorState.gameOver && { highlightPlayer: monitorState.gameOver.winnerId })}
+          />
+        </div>
+      )}
+
+      {/* Spectator count */}
+      {monitorState.spectatorCount > 0 && (
+        <div className="absolute bottom-4 left-4 glass-card rounded-lg px-4 py-2 text-lg text-white/80">
+          👀 観戦者 {monitorState.spectatorCount}人
+        </div>
+      )}
+
       {/* Control Help */}
       <div className="absolute bottom-4 right-4 glass-card rounded-lg p-3 text-sm text-white/60">
         <div>P: プレイヤー一覧 | F: フルスクリーン | ESC: 閉じる</div>
@@ -231,4 +382,4 @@ const MonitorPage: FC = () => {
   )
 }
 
-export default MonitorPage
\ No newline at end of file
+export default MonitorPage
@@ -0,0 +1,252 @@
+/**
+ * Monitor Replay Page
+ *
+ * Plays back a past game on the big screen from its event log,
+ * for post-event screenings and dispute resolution
+ */
+
+'use client'
+
+import { type FC, useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { MonitorLayout } from '@/components/layout/monitor-layout'
+import {
+  MonitorFinalShowdown,
+  MonitorPlayerList,
+  MonitorQuizDisplay,
+  MonitorWaitingRoom
+} from '@/components/monitor'
+import { api } from '@/lib/trpc/client'
+import type { ReplayState } from '@/lib/game/event-log'
+import type { GamePlayer, Question } from '@/types/monitor'
+
+const PLAYBACK_INTERVAL_MS = 1000
+
+const toGamePlayers = (state: ReplayState, startingLives: number): GamePlayer[] => {
+  const playerIds = [...state.players, ...state.eliminatedPlayers.filter(id => !state.players.includes(id))]
+
+  return playerIds.map(playerId => {
+    const eliminationIndex = state.eliminatedPlayers.indexOf(playerId)
+
+    return {
+      userId: playerId,
+      userName: state.playerNames[playerId] ?? playerId,
+      status: state.winnerId === playerId
+        ? 'WINNER'
+        : eliminationIndex >= 0
+          ? 'ELIMINATED'
+          : state.disconnectedPlayers.includes(playerId) ? 'DISCONNECTED' : 'ACTIVE',
+      ...(eliminationIndex >= 0 && { eliminationOrder: eliminationIndex + 1 }),
+      lives: state.playerLives[playerId] ?? startingLives,
+      maxLives: startingLives
+    }
+  })
+}
+
+const toMonitorQuestion = (state: ReplayState): Question | null => {
+  if (!state.question) return null
+
+  return {
+    id: state.question.id,
+    text: state.question.text,
+    ...(state.question.format && { format: state.question.format }),
+    optionA: state.question.optionA,
+    optionB: state.question.optionB,
+    optionC: state.question.optionC,
+    optionD: state.question.optionD,
+    ...(state.question.unit && { unit: state.question.unit }),
+    correctAnswer: state.question.correctAnswer,
+    type: state.phase === 'normal' ? 'NORMAL' : 'FINAL',
+    ...(state.question.difficulty && { difficulty: state.question.difficulty }),
+    questionNumber: state.questionNumber
+  }
+}
+
+const ReplayPage: FC = () => {
+  const params = useParams()
+  const gameId = params.gameId as string
+  const [eventIndex, setEventIndex] = useState(-1)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  const { data: replay, isLoading, error } = api.games.replayGame.useQuery(
+    { gameId, eventIndex },
+    { placeholderData: previous => previous }
+  )
+  const lastIndex = (replay?.totalEvents ?? 0) - 1
+
+  // Step through the log once per interval while playing
+  useEffect(() => {
+    if (!isPlaying) return
+
+    const interval = setInterval(() => {
+      setEventIndex(index => Math.min(index + 1, lastIndex))
+    }, PLAYBACK_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [isPlaying, lastIndex])
+
+  useEffect(() => {
+    if (isPlaying && eventIndex >= lastIndex) {
+      setIsPlaying(false)
+    }
+  }, [isPlaying, eventIndex, lastIndex])
+
+  // Arrow keys step through events, space toggles playback
+  useEffect(() => {
+    const handleKeyPress = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'ArrowLeft':
+          setEventIndex(index => Math.max(index - 1, -1))
+          break
+        case 'ArrowRight':
+          setEventIndex(index => Math.min(index + 1, lastIndex))
+          break
+        case ' ':
+          e.preventDefault()
+          setIsPlaying(playing => !playing)
+          break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyPress)
+    return () => window.removeEventListener('keydown', handleKeyPress)
+  }, [lastIndex])
+
+  const renderReplayContent = () => {
+    if (error) {
+      return (
+        <div className="h-full flex items-center justify-center">
+          <div className="glass-card rounded-3xl p-12 text-center border-2 border-red-400">
+            <div className="text-4xl lg:text-5xl font-bold text-red-400 mb-4">
+              再生できません
+            </div>
+            <div className="text-2xl lg:text-3xl text-white/70">
+              {error.message}
+            </div>
+          </div>
+        </div>
+      )
+    }
+
+    if (isLoading || !replay) {
+      return (
+        <div className="h-full flex items-center justify-center">
+          <div className="glass-card rounded-3xl p-12 text-center">
+            <div className="text-4xl lg:text-5xl font-bold text-white">
+              読み込み中...
+            </div>
+          </div>
+        </div>
+      )
+    }
+
+    const { state, game } = replay
+    const players = toGamePlayers(state, game.startingLives)
+    const question = toMonitorQuestion(state)
+    const survivors = players.filter(player => player.status !== 'ELIMINATED')
+
+    if (state.status === 'waiting' || state.status === 'starting') {
+      return (
+        <MonitorWaitingRoom
+          players={players}
+          gameCode={game.code}
+          isStarting={state.status === 'starting'}
+        />
+      )
+    }
+
+    if (state.status === 'finished') {
+      return (
+        <div className="h-full flex flex-col gap-6 p-8">
+          <div className="glass-card rounded-3xl p-8 text-center border-4 border-yellow-400">
+            <div className="text-5xl lg:text-6xl font-bold text-yellow-300">
+              🏆 {state.winnerId ? state.playerNames[state.winnerId] ?? state.winnerId : 'ゲーム終了'}
+            </div>
+          </div>
+          <MonitorPlayerList players={players} {...(state.winnerId && { highlightPlayer: state.winnerId })} />
+        </div>
+      )
+    }
+
+    // Between final-showdown questions, announce the survivors
+    if (state.phase !== 'normal' && (!question || state.questionClosed)) {
+      return (
+        <MonitorFinalShowdown
+          survivorCount={state.phase === 'sudden_death' ? state.tiebreakPlayers.length : survivors.length}
+          players={survivors}
+          {...(state.phase === 'sudden_death' && { suddenDeathRound: state.tiebreakRound })}
+        />
+      )
+    }
+
+    if (question) {
+      return (
+        <MonitorQuizDisplay
+          question={question}
+          currentQuestionNumber={state.questionNumber}
+          totalQuestions={game.totalQuestions}
+          timeRemaining={Math.ceil((state.remainingMs ?? 0) / 1000)}
+          players={players}
+          playerAnswers={Object.fromEntries(
+            Object.entries(state.answers).map(([playerId, answer]) => [playerId, answer.selectedAnswer])
+          )}
+          showAnswers={state.questionClosed}
+          {...(state.questionClosed && { correctAnswer: question.correctAnswer })}
+          isFinalShowdown={state.phase !== 'normal'}
+        />
+      )
+    }
+
+    return <MonitorPlayerList players={players} showStatus />
+  }
+
+  return (
+    <MonitorLayout
+      title={replay ? `リプレイ: ${replay.game.name}` : 'リプレイ'}
+      {...(replay && { gameCode: replay.game.code })}
+    >
+      {renderReplayContent()}
+
+      {/* Playback controls */}
+      {replay && (
+        <div className="absolute bottom-4 left-4 right-4 glass-card rounded-xl p-4 flex items-center gap-4 text-white">
+          <button
+            onClick={() => setEventIndex(index => Math.max(index - 1, -1))}
+            className="px-4 py-2 rounded-lg hover:bg-white/10 transition-all"
+          >
+            ◀
+          </button>
+          <button
+            onClick={() => setIsPlaying(playing => !playing)}
+            className="px-4 py-2 rounded-lg font-semibold hover:bg-white/10 transition-all"
+          >
+            {isPlaying ? '⏸ 停止' : '▶ 再生'}
+          </button>
+          <button
+            onClick={() => setEventIndex(index => Math.min(index + 1, lastIndex))}
+            className="px-4 py-2 rounded-lg hover:bg-white/10 transition-all"
+          >
+            ▶
+          </button>
+          <input
+            type="range"
+            min={-1}
+            max={lastIndex}
+            value={eventIndex}
+            onChange={e => setEventIndex(Number(e.target.value))}
+            className="flex-1"
+            aria-label="再生位置"
+          />
+          <div className="text-sm text-white/70 min-w-48 text-right">
+            {replay.event
+              ? `#${replay.event.sequence} ${replay.event.event.type}`
+              : '開始前'}
+            {' '}({eventIndex + 1} / {replay.totalEvents})
+          </div>
+        </div>
+      )}
+    </MonitorLayout>
+  )
+}
+
+export default ReplayPage
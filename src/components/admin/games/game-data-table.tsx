@@ -26,12 +26,12 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { MoreHorizontal, Eye, Trash2, Play, Pause, Square } from 'lucide-react'
+import { MoreHorizontal, Eye, Trash2, Play, Pause, Square, History } from 'lucide-react'
+import { canTransition } from '@/lib/game/game-state'
+import type { GameStatus } from '@/schemas/gameSchemas'
 // TODO: Add Edit icon when edit functionality is implemented
 // import { Edit } from 'lucide-react'
 
-type GameStatus = 'WAITING' | 'STARTING' | 'IN_PROGRESS' | 'PAUSED' | 'FINISHED' | 'CANCELLED'
-
 const statusLabels: Record<GameStatus, string> = {
   WAITING: '待機中',
   STARTING: '開始中',
@@ -94,6 +94,11 @@ export const GameDataTable: FC = () => {
     // TODO: Navigate to game details page
   }
 
+  // Play back a finished game on the monitor from its event log
+  const handleReplayGame = (gameId: string) => {
+    window.open(`/monitor/replay/${gameId}`, '_blank')
+  }
+
   return (
     <div className="space-y-4">
       {/* Filters and Search */}
@@ -172,23 +177,29 @@ export const GameDataTable: FC = () => {
                         <Eye className="mr-2 h-4 w-4" />
                         詳細表示
                       </DropdownMenuItem>
+                      {game.status === 'FINISHED' && (
+                        <DropdownMenuItem onClick={() => handleReplayGame(game.id)}>
+                          <History className="mr-2 h-4 w-4" />
+                          リプレイ
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuSeparator />
                       
-                      {game.status === 'WAITING' && (
-                        <DropdownMenuItem onClick={() => handleUpdateStatus(game.id, 'IN_PROGRESS')}>
+                      {canTransition(game.status, 'STARTING') && (
+                        <DropdownMenuItem onClick={() => handleUpdateStatus(game.id, 'STARTING')}>
                           <Play className="mr-2 h-4 w-4" />
                           開始
                         </DropdownMenuItem>
                       )}
                       
-                      {game.status === 'IN_PROGRESS' && (
+                      {canTransition(game.status, 'PAUSED') && (
                         <DropdownMenuItem onClick={() => handleUpdateStatus(game.id, 'PAUSED')}>
                           <Pause className="mr-2 h-4 w-4" />
                           一時停止
                         </DropdownMenuItem>
                       )}
                       
-                      {(game.status === 'WAITING' || game.status === 'PAUSED') && (
+                      {canTransition(game.status, 'CANCELLED') && (
                         <DropdownMenuItem onClick={() => handleUpdateStatus(game.id, 'CANCELLED')}>
                           <Square className="mr-2 h-4 w-4" />
                           キャンセル
@@ -10,6 +10,14 @@ import { type FC, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { api } from '@/lib/trpc/client'
+import {
+  QUESTION_FORMATS,
+  QUESTION_FORMAT_LABELS,
+  getOptionLetters,
+  joinAnswerList,
+  parseAnswerList,
+  type QuestionFormat,
+} from '@/lib/game/question-formats'
 import { type QuestionFormData, questionFormSchema } from '@/schemas/questionSchemas'
 import {
   Dialog,
@@ -42,6 +50,58 @@ import { Switch } from '@/components/ui/switch'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Label } from '@/components/ui/label'
 
+// Answer key a format starts with when the author switches to it
+const DEFAULT_CORRECT_ANSWERS: Record<QuestionFormat, string> = {
+  MULTIPLE_CHOICE: 'A',
+  TRUE_FALSE: 'TRUE',
+  MULTI_SELECT: '',
+  ORDERING: '',
+  FREE_TEXT: '',
+  NUMERIC: '',
+}
+
+// Formats whose answers refer to options A-D
+const OPTION_FORMATS: QuestionFormat[] = ['MULTIPLE_CHOICE', 'MULTI_SELECT', 'ORDERING']
+
+type AnswerLetterPickerProps = {
+  letters: string[]
+  value: string
+  // Ordering answers are picked in sequence, multi-select answers are toggled
+  isOrdered: boolean
+  onChange: (value: string) => void
+}
+
+const AnswerLetterPicker: FC<AnswerLetterPickerProps> = ({ letters, value, isOrdered, onChange }) => {
+  const picked = parseAnswerList(value)
+
+  const toggle = (letter: string) => {
+    const next = picked.includes(letter)
+      ? picked.filter(pickedLetter => pickedLetter !== letter)
+      : [...picked, letter]
+    onChange(joinAnswerList(isOrdered ? next : [...next].sort()))
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {letters.map(letter => (
+        <Button
+          key={letter}
+          type="button"
+          variant={picked.includes(letter) ? 'default' : 'outline'}
+          onClick={() => toggle(letter)}
+        >
+          {isOrdered && picked.includes(letter) ? `${picked.indexOf(letter) + 1}. ${letter}` : letter}
+        </Button>
+      ))}
+      {isOrdered && (
+        <Button type="button" variant="ghost" onClick={() => onChange('')} disabled={picked.length === 0}>
+          やり直す
+        </Button>
+      )}
+    </div>
+  )
+}
+
 type Props = {
   isOpen: boolean
   onClose: () => void
@@ -82,10 +142,12 @@ export const QuestionForm: FC<Props> = ({
     resolver: zodResolver(questionFormSchema),
     defaultValues: {
       text: '',
+      format: 'MULTIPLE_CHOICE',
       optionA: '',
       optionB: '',
       optionC: '',
       optionD: '',
+      unit: '',
       correctAnswer: 'A',
       difficulty: 'MEDIUM',
       category: '',
@@ -100,11 +162,13 @@ export const QuestionForm: FC<Props> = ({
     if (questionData) {
       form.reset({
         text: questionData.text,
-        optionA: questionData.optionA,
-        optionB: questionData.optionB,
-        optionC: questionData.optionC,
-        optionD: questionData.optionD,
-        correctAnswer: questionData.correctAnswer as 'A' | 'B' | 'C' | 'D',
+        format: questionData.format,
+        optionA: questionData.optionA ?? '',
+        optionB: questionData.optionB ?? '',
+        optionC: questionData.optionC ?? '',
+        optionD: questionData.optionD ?? '',
+        unit: questionData.unit ?? '',
+        correctAnswer: questionData.correctAnswer,
         difficulty: questionData.difficulty,
         category: questionData.category || '',
         explanation: questionData.explanation || '',
@@ -114,10 +178,12 @@ export const QuestionForm: FC<Props> = ({
     } else if (!isEditMode) {
       form.reset({
         text: '',
+        format: 'MULTIPLE_CHOICE',
         optionA: '',
         optionB: '',
         optionC: '',
         optionD: '',
+        unit: '',
         correctAnswer: 'A',
         difficulty: 'MEDIUM',
         category: '',
@@ -141,6 +207,12 @@ export const QuestionForm: FC<Props> = ({
 
   const isPending = createQuestion.isPending || updateQuestion.isPending
 
+  const format = form.watch('format') ?? 'MULTIPLE_CHOICE'
+  const [optionA, optionB, optionC, optionD] = form.watch(['optionA', 'optionB', 'optionC', 'optionD'])
+  const filledLetters = getOptionLetters({ optionA, optionB, optionC, optionD })
+  // Multi-select and ordering questions need three options, the fourth is optional
+  const isOptionRequired = (letter: string) => format === 'MULTIPLE_CHOICE' || letter !== 'D'
+
   const handleClose = () => {
     if (!isPending) {
       onClose()
@@ -185,64 +257,101 @@ export const QuestionForm: FC<Props> = ({
               )}
             />
 
+            {/* 回答形式 */}
+            <FormField
+              control={form.control}
+              name="format"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>回答形式</FormLabel>
+                  <Select
+                    onValueChange={value => {
+                      field.onChange(value)
+                      form.setValue('correctAnswer', DEFAULT_CORRECT_ANSWERS[value as QuestionFormat])
+                    }}
+                    value={field.value || 'MULTIPLE_CHOICE'}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="回答形式を選択" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {QUESTION_FORMATS.map(questionFormat => (
+                        <SelectItem key={questionFormat} value={questionFormat}>
+                          {QUESTION_FORMAT_LABELS[questionFormat]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    複数選択は正解をすべて選んだ場合のみ、並べ替えは順番がすべて合っている場合のみ正解になります
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* 選択肢 */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-medium">選択肢</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="optionA"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>選択肢 A *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="選択肢Aを入力" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="optionB"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>選択肢 B *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="選択肢Bを入力" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="optionC"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>選択肢 C *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="選択肢Cを入力" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="optionD"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>選択肢 D *</FormLabel>
-                      <FormControl>
-                        <Input placeholder="選択肢Dを入力" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+            {OPTION_FORMATS.includes(format) && (
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium">{format === 'ORDERING' ? '並べ替える項目' : '選択肢'}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="optionA"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>選択肢 A{isOptionRequired('A') ? ' *' : ''}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="選択肢Aを入力" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="optionB"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>選択肢 B{isOptionRequired('B') ? ' *' : ''}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="選択肢Bを入力" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="optionC"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>選択肢 C{isOptionRequired('C') ? ' *' : ''}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="選択肢Cを入力" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="optionD"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>選択肢 D{isOptionRequired('D') ? ' *' : ''}</FormLabel>
+                        <FormControl>
+                          <Input placeholder="選択肢Dを入力" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
               </div>
-            </div>
+            )}
 
             {/* 正解 */}
             <FormField
@@ -252,34 +361,87 @@ export const QuestionForm: FC<Props> = ({
                 <FormItem className="space-y-3">
                   <FormLabel>正解 *</FormLabel>
                   <FormControl>
-                    <RadioGroup
-                      onValueChange={field.onChange}
-                      value={field.value}
-                      className="flex flex-row space-x-6"
-                    >
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="A" id="correct-a" />
-                        <Label htmlFor="correct-a">A</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="B" id="correct-b" />
-                        <Label htmlFor="correct-b">B</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="C" id="correct-c" />
-                        <Label htmlFor="correct-c">C</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="D" id="correct-d" />
-                        <Label htmlFor="correct-d">D</Label>
-                      </div>
-                    </RadioGroup>
+                    {format === 'TRUE_FALSE' ? (
+                      <RadioGroup
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        className="flex flex-row space-x-6"
+                      >
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="TRUE" id="correct-true" />
+                          <Label htmlFor="correct-true">〇 正しい</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="FALSE" id="correct-false" />
+                          <Label htmlFor="correct-false">× 誤り</Label>
+                        </div>
+                      </RadioGroup>
+                    ) : format === 'MULTI_SELECT' || format === 'ORDERING' ? (
+                      <AnswerLetterPicker
+                        letters={filledLetters}
+                        value={field.value}
+                        isOrdered={format === 'ORDERING'}
+                        onChange={field.onChange}
+                      />
+                    ) : format === 'FREE_TEXT' ? (
+                      <Input placeholder="正解の文字列を入力" {...field} />
+                    ) : format === 'NUMERIC' ? (
+                      <Input inputMode="decimal" placeholder="例: 3776" {...field} />
+                    ) : (
+                      <RadioGroup
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        className="flex flex-row space-x-6"
+                      >
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="A" id="correct-a" />
+                          <Label htmlFor="correct-a">A</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="B" id="correct-b" />
+                          <Label htmlFor="correct-b">B</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="C" id="correct-c" />
+                          <Label htmlFor="correct-c">C</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="D" id="correct-d" />
+                          <Label htmlFor="correct-d">D</Label>
+                        </div>
+                      </RadioGroup>
+                    )}
                   </FormControl>
+                  {format !== 'MULTIPLE_CHOICE' && format !== 'TRUE_FALSE' && (
+                    <FormDescription>
+                      {format === 'MULTI_SELECT' && '正解の選択肢をすべて選んでください'}
+                      {format === 'ORDERING' && '正しい順番に項目を選んでください'}
+                      {format === 'FREE_TEXT' && '全角・半角、大文字・小文字、前後の空白の違いは区別せずに判定します'}
+                      {format === 'NUMERIC' && '正解に最も近い数値を答えた人が正解になります。差が同じ場合は回答の早い人が上位です'}
+                    </FormDescription>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {/* 単位 */}
+            {format === 'NUMERIC' && (
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>単位（任意）</FormLabel>
+                    <FormControl>
+                      <Input placeholder="例: m、年、人" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* 難易度とカテゴリ */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
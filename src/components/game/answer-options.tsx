@@ -0,0 +1,197 @@
+/**
+ * Answer Options Component
+ *
+ * Answer input for every question format: one tap for multiple choice and
+ * true/false, pick-then-submit for multi-select and ordering, a text field for
+ * free text and a keypad for numeric guesses
+ */
+
+'use client'
+
+import { useState, type FC } from 'react'
+import { NumericKeypad } from '@/components/game/numeric-keypad'
+import { QuizButton } from '@/components/game/quiz-button'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { formatNumericValue, parseNumericAnswer } from '@/lib/game/numeric-answers'
+import {
+  DEFAULT_QUESTION_FORMAT,
+  MAX_ANSWER_LENGTH,
+  QUESTION_FORMAT_INSTRUCTIONS,
+  TRUE_FALSE_ANSWERS,
+  getOptionLetters,
+  isAnswerCorrect,
+  joinAnswerList,
+  normalizeAnswer,
+  parseAnswerList,
+  type QuestionFormat,
+  type QuestionOptions
+} from '@/lib/game/question-formats'
+
+type QuizButtonState = 'default' | 'selected' | 'correct' | 'incorrect' | 'disabled'
+
+type Props = {
+  question: QuestionOptions & { format?: QuestionFormat | undefined; unit?: string | null | undefined }
+  // The submitted answer, null before answering or after a timeout
+  selectedAnswer: string | null
+  // Empty until the question result reveals it
+  correctAnswer: string
+  // Answered, paused or only watching
+  isLocked: boolean
+  showResults: boolean
+  onSubmit: (answer: string) => void
+}
+
+export const AnswerOptions: FC<Props> = ({
+  question,
+  selectedAnswer,
+  correctAnswer,
+  isLocked,
+  showResults,
+  onSubmit
+}) => {
+  const format = question.format ?? DEFAULT_QUESTION_FORMAT
+  // Picked options of a multi-select or ordering question before submitting
+  const [draft, setDraft] = useState<string[]>([])
+  const [text, setText] = useState('')
+
+  const submitted = selectedAnswer ? parseAnswerList(normalizeAnswer(format, selectedAnswer)) : []
+  const correct = correctAnswer ? parseAnswerList(normalizeAnswer(format, correctAnswer)) : []
+  const picked = isLocked ? submitted : draft
+  const isPickThenSubmit = format === 'MULTI_SELECT' || format === 'ORDERING'
+
+  const options = format === 'TRUE_FALSE'
+    ? TRUE_FALSE_ANSWERS.map(answer => ({
+        key: answer,
+        choice: answer === 'TRUE' ? '〇' as const : '×' as const,
+        text: answer === 'TRUE' ? '正しい' : '誤り'
+      }))
+    : getOptionLetters(question).map(letter => ({
+        key: letter,
+        choice: letter,
+        text: question[`option${letter}`] ?? ''
+      }))
+
+  // Ordering questions number the picked items in sequence
+  const getChoice = (key: string, choice: (typeof options)[number]['choice']) => {
+    return format === 'ORDERING' && picked.includes(key) ? picked.indexOf(key) + 1 : choice
+  }
+
+  const getButtonState = (key: string): QuizButtonState => {
+    if (showResults) {
+      // An ordering item is right when it sits in its correct position
+      if (format === 'ORDERING') {
+        if (!submitted.includes(key)) return 'disabled'
+        return submitted.indexOf(key) === correct.indexOf(key) ? 'correct' : 'incorrect'
+      }
+      if (correct.includes(key)) return 'correct'
+      if (submitted.includes(key)) return 'incorrect'
+      return 'disabled'
+    }
+
+    if (picked.includes(key)) return 'selected'
+    return isLocked ? 'disabled' : 'default'
+  }
+
+  const handleOptionClick = (key: string) => {
+    if (isLocked) return
+
+    if (!isPickThenSubmit) {
+      onSubmit(key)
+      return
+    }
+
+    setDraft(prev => prev.includes(key) ? prev.filter(option => option !== key) : [...prev, key])
+  }
+
+  const canSubmitDraft = format === 'ORDERING' ? draft.length === options.length : draft.length > 0
+
+  if (format === 'NUMERIC') {
+    const target = correctAnswer ? parseNumericAnswer(correctAnswer) : null
+
+    return (
+      <div className="space-y-4">
+        <p className="text-white/70 text-sm text-center">{QUESTION_FORMAT_INSTRUCTIONS[format]}</p>
+        <NumericKeypad
+          unit={question.unit}
+          submittedValue={selectedAnswer}
+          isLocked={isLocked}
+          onSubmit={onSubmit}
+        />
+        {showResults && target !== null && (
+          <div className="rounded-lg border-2 border-yellow-500 bg-yellow-500/20 p-4 text-center text-white">
+            正解: <span className="font-bold">{formatNumericValue(target, question.unit)}</span>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (format === 'FREE_TEXT') {
+    const isCorrect = !!selectedAnswer && isAnswerCorrect(format, selectedAnswer, correctAnswer)
+
+    return (
+      <div className="space-y-4">
+        <p className="text-white/70 text-sm text-center">{QUESTION_FORMAT_INSTRUCTIONS[format]}</p>
+        <form
+          className="flex gap-3"
+          onSubmit={event => {
+            event.preventDefault()
+            if (!isLocked && text.trim()) onSubmit(text.trim())
+          }}
+        >
+          <Input
+            value={isLocked ? selectedAnswer ?? '' : text}
+            onChange={event => setText(event.target.value)}
+            maxLength={MAX_ANSWER_LENGTH}
+            disabled={isLocked}
+            placeholder="答えを入力"
+            className="flex-1 bg-white/10 text-white placeholder:text-white/50"
+          />
+          <Button type="submit" disabled={isLocked || !text.trim()}>
+            回答する
+          </Button>
+        </form>
+        {showResults && correctAnswer && (
+          <div className={`rounded-lg border-2 p-4 text-center text-white ${
+            isCorrect ? 'border-green-600 bg-green-500/30' : 'border-red-600 bg-red-500/30'
+          }`}>
+            正解: <span className="font-bold">{correctAnswer}</span>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {format !== DEFAULT_QUESTION_FORMAT && (
+        <p className="text-white/70 text-sm text-center">{QUESTION_FORMAT_INSTRUCTIONS[format]}</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {options.map(({ key, choice, text: optionText }) => (
+          <QuizButton
+            key={key}
+            choice={getChoice(key, choice)}
+            text={optionText}
+            state={getButtonState(key)}
+            showResult={showResults}
+            onClick={() => handleOptionClick(key)}
+          />
+        ))}
+      </div>
+
+      {isPickThenSubmit && !isLocked && (
+        <div className="flex justify-center gap-3">
+          <Button variant="outline" onClick={() => setDraft([])} disabled={draft.length === 0}>
+            やり直す
+          </Button>
+          <Button onClick={() => onSubmit(joinAnswerList(draft))} disabled={!canSubmitDraft}>
+            回答する
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
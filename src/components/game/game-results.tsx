@@ -9,75 +9,129 @@
 
 import { type FC } from 'react'
 import { Button } from '@/components/ui/button'
+import type { GameOverResult } from '@/lib/socket/types'
 
 type Props = {
   gameCode: string
+  results: GameOverResult | null
   onNewGame: () => void
   onLeave: () => void
 }
 
-export const GameResults: FC<Props> = ({ gameCode: _gameCode, onNewGame, onLeave }) => {
-  // Mock data for demonstration
-  // In a real implementation, this would come from the game state
-  const mockResults = {
-    winner: {
-      id: 'player1',
-      name: 'Player 1',
-      score: 100,
-      correctAnswers: 8,
-      averageResponseTime: 3.5
-    },
-    rankings: [
-      { id: 'player1', name: 'Player 1', rank: 1, score: 100, correctAnswers: 8 },
-      { id: 'player2', name: 'Player 2', rank: 2, score: 80, correctAnswers: 6 },
-      { id: 'player3', name: 'Player 3', rank: 3, score: 60, correctAnswers: 4 },
-      { id: 'player4', name: 'Player 4', rank: 4, score: 40, correctAnswers: 2 }
-    ],
-    gameStats: {
-      totalQuestions: 10,
-      totalPlayers: 8,
-      gameDuration: '5分30秒',
-      averageResponseTime: 4.2
-    }
+const formatResponseTime = (seconds: number | null) => {
+  return seconds === null ? '-' : `${seconds.toFixed(1)}s`
+}
+
+export const GameResults: FC<Props> = ({ gameCode: _gameCode, results, onNewGame, onLeave }) => {
+  const rankings = results?.finalRanking ?? []
+  const winner = rankings.find(entry => entry.playerId === results?.winnerId) ?? null
+  const teamStandings = results?.teamStandings ?? []
+  const winningTeam = teamStandings.find(team => team.id === results?.winningTeamId) ?? null
+
+  const responseTimes = rankings
+    .map(entry => entry.averageResponseTime)
+    .filter((time): time is number => time !== null)
+  const averageResponseTime = responseTimes.length > 0
+    ? responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length
+    : null
+
+  if (!results) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[70vh]">
+        <div className="glass-card rounded-lg p-8 text-center">
+          <div className="w-8 h-8 border-2 border-primary-400 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-white mb-2">結果を集計中...</h2>
+          <p className="text-white/70">しばらくお待ちください</p>
+        </div>
+      </div>
+    )
   }
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[70vh] px-4">
       {/* Winner Announcement */}
-      <div className="glass-card rounded-lg p-8 text-center max-w-2xl w-full mb-6">
-        <div className="text-6xl mb-4">🏆</div>
-        <h1 className="text-4xl font-bold gradient-text mb-4">
-          優勝！
-        </h1>
-        <h2 className="text-2xl font-bold text-white mb-2">
-          {mockResults.winner.name}
-        </h2>
-        <p className="text-white/70 mb-6">
-          おめでとうございます！見事に最後まで生き残りました！
-        </p>
+      {winner && (
+        <div className="glass-card rounded-lg p-8 text-center max-w-2xl w-full mb-6">
+          <div className="text-6xl mb-4">🏆</div>
+          <h1 className="text-4xl font-bold gradient-text mb-4">
+            優勝！
+          </h1>
+          <h2 className="text-2xl font-bold text-white mb-2">
+            {winner.playerName}
+          </h2>
+          <p className="text-white/70 mb-6">
+            おめでとうございます！見事に最後まで生き残りました！
+          </p>
 
-        {/* Winner Stats */}
-        <div className="grid grid-cols-3 gap-4 mb-6">
-          <div className="glass-card rounded-lg p-4 bg-white/5">
-            <div className="text-2xl font-bold text-yellow-400">
-              {mockResults.winner.score}
+          {/* Winner Stats */}
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div className="glass-card rounded-lg p-4 bg-white/5">
+              <div className="text-2xl font-bold text-yellow-400">
+                {winner.score}
+              </div>
+              <div className="text-white/70 text-sm">スコア</div>
             </div>
-            <div className="text-white/70 text-sm">スコア</div>
-          </div>
-          <div className="glass-card rounded-lg p-4 bg-white/5">
-            <div className="text-2xl font-bold text-green-400">
-              {mockResults.winner.correctAnswers}
+            <div className="glass-card rounded-lg p-4 bg-white/5">
+              <div className="text-2xl font-bold text-green-400">
+                {winner.correctAnswers}
+              </div>
+              <div className="text-white/70 text-sm">正解数</div>
             </div>
-            <div className="text-white/70 text-sm">正解数</div>
-          </div>
-          <div className="glass-card rounded-lg p-4 bg-white/5">
-            <div className="text-2xl font-bold text-blue-400">
-              {mockResults.winner.averageResponseTime}s
+            <div className="glass-card rounded-lg p-4 bg-white/5">
+              <div className="text-2xl font-bold text-blue-400">
+                {formatResponseTime(winner.averageResponseTime)}
+              </div>
+              <div className="text-white/70 text-sm">平均回答時間</div>
             </div>
-            <div className="text-white/70 text-sm">平均回答時間</div>
           </div>
         </div>
-      </div>
+      )}
+
+      {/* Team Standings */}
+      {teamStandings.length > 0 && (
+        <div className="glass-card rounded-lg p-6 max-w-2xl w-full mb-6">
+          <h3 className="text-xl font-bold text-white mb-2 text-center">
+            チーム順位
+          </h3>
+          {winningTeam && (
+            <p className="text-yellow-300 font-bold text-center mb-4">
+              🏆 {winningTeam.name} の勝利！
+            </p>
+          )}
+          <div className="space-y-3">
+            {teamStandings.map(team => (
+              <div
+                key={team.id}
+                className={`flex items-center justify-between p-3 rounded-lg ${
+                  team.rank === 1 ? 'bg-yellow-500/20' : 'bg-white/5'
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold ${
+                    team.rank === 1 ? 'bg-yellow-500 text-black' : 'bg-white/20 text-white'
+                  }`}>
+                    {team.rank}
+                  </div>
+                  <div>
+                    <div className="text-white font-medium flex items-center gap-2">
+                      {team.color && (
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: team.color }} />
+                      )}
+                      {team.name}
+                    </div>
+                    <div className="text-white/50 text-xs">
+                      {team.eliminatedRound === null
+                        ? `生存 ${team.survivorCount} / ${team.memberCount}人`
+                        : `第${team.eliminatedRound}問で全員脱落`}
+                    </div>
+                  </div>
+                </div>
+                <div className="text-white font-bold">{team.score}pt</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
 
       {/* Rankings */}
       <div className="glass-card rounded-lg p-6 max-w-2xl w-full mb-6">
@@ -85,26 +139,31 @@ export const GameResults: FC<Props> = ({ gameCode: _gameCode, onNewGame, onLeave
           最終順位
         </h3>
         <div className="space-y-3">
-          {mockResults.rankings.map((player, index) => (
+          {rankings.map(player => (
             <div
-              key={player.id}
+              key={player.playerId}
               className={`flex items-center justify-between p-3 rounded-lg ${
-                index === 0 ? 'bg-yellow-500/20' :
-                index === 1 ? 'bg-gray-400/20' :
-                index === 2 ? 'bg-amber-600/20' :
+                player.rank === 1 ? 'bg-yellow-500/20' :
+                player.rank === 2 ? 'bg-gray-400/20' :
+                player.rank === 3 ? 'bg-amber-600/20' :
                 'bg-white/5'
               }`}
             >
               <div className="flex items-center gap-3">
                 <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold ${
-                  index === 0 ? 'bg-yellow-500 text-black' :
-                  index === 1 ? 'bg-gray-400 text-black' :
-                  index === 2 ? 'bg-amber-600 text-black' :
+                  player.rank === 1 ? 'bg-yellow-500 text-black' :
+                  player.rank === 2 ? 'bg-gray-400 text-black' :
+                  player.rank === 3 ? 'bg-amber-600 text-black' :
                   'bg-white/20 text-white'
                 }`}>
                   {player.rank}
                 </div>
-                <span className="text-white font-medium">{player.name}</span>
+                <div>
+                  <div className="text-white font-medium">{player.playerName}</div>
+                  <div className="text-white/50 text-xs">
+                    {player.eliminatedRound === null ? '生存' : `第${player.eliminatedRound}問で脱落`}
+                  </div>
+                </div>
               </div>
               <div className="text-right">
                 <div className="text-white font-bold">{player.score}pt</div>
@@ -122,19 +181,21 @@ export const GameResults: FC<Props> = ({ gameCode: _gameCode, onNewGame, onLeave
         </h3>
         <div className="grid grid-cols-2 gap-4">
           <div className="text-center">
-            <div className="text-2xl font-bold text-white">{mockResults.gameStats.totalQuestions}</div>
+            <div className="text-2xl font-bold text-white">{results.questionsPlayed}</div>
             <div className="text-white/70 text-sm">出題数</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-white">{mockResults.gameStats.totalPlayers}</div>
+            <div className="text-2xl font-bold text-white">{rankings.length}</div>
             <div className="text-white/70 text-sm">参加者数</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-white">{mockResults.gameStats.gameDuration}</div>
-            <div className="text-white/70 text-sm">ゲーム時間</div>
+            <div className="text-2xl font-bold text-white">
+              {rankings.filter(entry => entry.eliminatedRound !== null).length}
+            </div>
+            <div className="text-white/70 text-sm">脱落者数</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-white">{mockResults.gameStats.averageResponseTime}s</div>
+            <div className="text-2xl font-bold text-white">{formatResponseTime(averageResponseTime)}</div>
             <div className="text-white/70 text-sm">平均回答時間</div>
           </div>
         </div>
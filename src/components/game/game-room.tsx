@@ -25,9 +25,8 @@ export const GameRoom: FC<Props> = ({ gameCode }) => {
   const router = useRouter()
   const { data: session } = useSession()
   const { isConnected, connect } = useSocket()
-  const { gameState, joinGame, leaveGame } = useGameRoom()
+  const { gameState, joinGame, leaveGame, chooseTeam } = useGameRoom()
 
-  const [playerName, setPlayerName] = useState('')
   const [hasJoined, setHasJoined] = useState(false)
   const [error, _setError] = useState<string | null>(null)
 
@@ -38,28 +37,18 @@ export const GameRoom: FC<Props> = ({ gameCode }) => {
     }
   }, [isConnected, connect])
 
-  // Set player name from session
+  // Auto-join game when connected; the server takes the player's name from the session
   useEffect(() => {
-    if (session?.user?.name) {
-      setPlayerName(session.user.name)
-    } else {
-      setPlayerName(`Player_${Math.random().toString(36).substr(2, 4)}`)
-    }
-  }, [session])
-
-  // Auto-join game when connected and player name is set
-  useEffect(() => {
-    if (isConnected && playerName && !hasJoined && !gameState.isJoined) {
-      const playerId = session?.user?.id || `guest_${Date.now()}`
-      joinGame(gameCode, playerId, playerName)
+    const playerId = session?.user?.id
+    if (isConnected && playerId && !hasJoined && !gameState.isJoined) {
+      joinGame(gameCode, playerId)
       setHasJoined(true)
     }
-  }, [isConnected, playerName, hasJoined, gameState.isJoined, gameCode, joinGame, session?.user?.id])
+  }, [isConnected, hasJoined, gameState.isJoined, gameCode, joinGame, session?.user?.id])
 
   // Handle leaving game
   const handleLeaveGame = () => {
-    const playerId = session?.user?.id || `guest_${Date.now()}`
-    leaveGame(gameCode, playerId)
+    leaveGame(gameCode)
     router.push('/')
   }
 
@@ -104,6 +93,9 @@ export const GameRoom: FC<Props> = ({ gameCode }) => {
             gameCode={gameCode}
             playerCount={gameState.playerCount}
             maxPlayers={gameState.maxPlayers}
+            teams={gameState.teams}
+            teamId={gameState.teamId}
+            onChooseTeam={chooseTeam}
             onLeave={handleLeaveGame}
           />
         )
@@ -120,10 +112,12 @@ export const GameRoom: FC<Props> = ({ gameCode }) => {
         )
 
       case 'in_progress':
+      case 'paused':
         return (
           <QuizGame
             gameCode={gameCode}
             playerId={session?.user?.id || `guest_${Date.now()}`}
+            stateSync={gameState.stateSync}
             onLeave={handleLeaveGame}
           />
         )
@@ -132,6 +126,7 @@ export const GameRoom: FC<Props> = ({ gameCode }) => {
         return (
           <GameResults
             gameCode={gameCode}
+            results={gameState.results}
             onNewGame={() => router.push('/')}
             onLeave={handleLeaveGame}
           />
@@ -0,0 +1,33 @@
+/**
+ * Life Hearts Component
+ *
+ * Heart indicators for the lives survival mode
+ * Filled hearts are remaining lives, outlined hearts are lives lost
+ */
+
+import { type FC } from 'react'
+import { Heart } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+type Props = {
+  lives: number
+  maxLives: number
+  className?: string
+  heartClassName?: string
+}
+
+export const LifeHearts: FC<Props> = ({ lives, maxLives, className, heartClassName = 'w-5 h-5' }) => {
+  return (
+    <div className={cn('flex items-center gap-1', className)} aria-label={`残りライフ ${lives} / ${maxLives}`}>
+      {Array.from({ length: maxLives }, (_, index) => (
+        <Heart
+          key={index}
+          className={cn(
+            heartClassName,
+            index < lives ? 'fill-red-500 text-red-500' : 'text-white/30'
+          )}
+        />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+/**
+ * Numeric Keypad Component
+ *
+ * On-screen keypad for numeric "closest answer wins" questions
+ * Players build their guess key by key and submit it once
+ */
+
+'use client'
+
+import { useState, type FC } from 'react'
+import { Delete } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { MAX_NUMERIC_ANSWER_LENGTH, parseNumericAnswer } from '@/lib/game/numeric-answers'
+import { cn } from '@/lib/utils'
+
+const DIGIT_KEYS = ['7', '8', '9', '4', '5', '6', '1', '2', '3'] as const
+
+type Props = {
+  // Unit shown after the guess, e.g. "m"
+  unit?: string | null | undefined
+  // The submitted guess, shown instead of the draft once locked
+  submittedValue: string | null
+  isLocked: boolean
+  onSubmit: (answer: string) => void
+}
+
+export const NumericKeypad: FC<Props> = ({ unit, submittedValue, isLocked, onSubmit }) => {
+  const [input, setInput] = useState('')
+
+  const display = isLocked ? submittedValue ?? '' : input
+  const canSubmit = !isLocked && parseNumericAnswer(input) !== null
+
+  const append = (key: string) => {
+    if (isLocked || input.length >= MAX_NUMERIC_ANSWER_LENGTH) return
+    if (key === '.' && input.includes('.')) return
+    setInput(prev => key === '.' && (prev === '' || prev === '-') ? `${prev}0.` : prev + key)
+  }
+
+  const toggleSign = () => {
+    if (isLocked) return
+    setInput(prev => prev.startsWith('-') ? prev.slice(1) : `-${prev}`)
+  }
+
+  const keyClassName = 'h-14 text-2xl font-bold bg-white/10 text-white border-white/20 hover:bg-white/20'
+
+  return (
+    <div className="mx-auto w-full max-w-sm space-y-3">
+      <div className={cn(
+        'flex h-16 items-center justify-end gap-2 rounded-lg border-2 px-4 text-3xl font-bold text-white',
+        isLocked ? 'border-blue-600 bg-blue-500/30' : 'border-white/20 bg-white/10'
+      )}>
+        <span className="truncate">{display || '0'}</span>
+        {unit && <span className="text-xl text-white/70">{unit}</span>}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {DIGIT_KEYS.map(key => (
+          <Button key={key} variant="outline" className={keyClassName} onClick={() => append(key)} disabled={isLocked}>
+            {key}
+          </Button>
+        ))}
+        <Button variant="outline" className={keyClassName} onClick={toggleSign} disabled={isLocked}>
+          ±
+        </Button>
+        <Button variant="outline" className={keyClassName} onClick={() => append('0')} disabled={isLocked}>
+          0
+        </Button>
+        <Button variant="outline" className={keyClassName} onClick={() => append('.')} disabled={isLocked}>
+          .
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Button
+          variant="outline"
+          className={keyClassName}
+          onClick={() => setInput(prev => prev.slice(0, -1))}
+          disabled={isLocked || input === ''}
+          aria-label="1文字消す"
+        >
+          <Delete className="h-6 w-6" />
+        </Button>
+        <Button className="col-span-2 h-14 text-xl font-bold" onClick={() => onSubmit(input)} disabled={!canSubmit}>
+          回答する
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 import { type FC, type ButtonHTMLAttributes } from 'react'
 import { cn } from '@/lib/utils'
 
-type QuizChoice = 'A' | 'B' | 'C' | 'D'
+// Option letter, 〇/× for true/false, or the picked position in an ordering question
+type QuizChoice = 'A' | 'B' | 'C' | 'D' | '〇' | '×' | number
 
 type QuizButtonState = 'default' | 'selected' | 'correct' | 'incorrect' | 'disabled'
 
@@ -52,7 +53,7 @@ export const QuizButton: FC<Props> = ({
       disabled={isDisabled}
       {...props}
     >
-      {/* Choice letter (A, B, C, D) */}
+      {/* Choice letter (A, B, C, D), 〇/× or ordering position */}
       <div className={cn(
         'flex-shrink-0 w-8 h-8 rounded-full border-2 flex items-center justify-center font-bold',
         state === 'correct' && 'bg-green-600 border-green-700',
@@ -10,25 +10,57 @@
 import { useState, useEffect, useCallback, type FC } from 'react'
 import { useSocket } from '@/lib/socket/context'
 import { CountdownTimer } from '@/components/game/countdown-timer'
-import { QuizButton } from '@/components/game/quiz-button'
+import { AnswerOptions } from '@/components/game/answer-options'
+import { LifeHearts } from '@/components/game/life-hearts'
 import { Button } from '@/components/ui/button'
+import type { EliminationReason } from '@/lib/game/elimination-rules'
+import { formatNumericValue, parseNumericAnswer, type NumericRankingEntry } from '@/lib/game/numeric-answers'
+import { formatAnswerLabel, type QuestionFormat } from '@/lib/game/question-formats'
+import type {
+  AnswerReceivedData,
+  GameOverResult,
+  GamePausedData,
+  GameResumedData,
+  LifeLostData,
+  NextQuestionData,
+  PlayerLeftData,
+  QuestionResult,
+  StateSyncData,
+  SuddenDeathData,
+  TimerUpdate
+} from '@/lib/socket/types'
+
+
+// Numeric guesses are shown with digit grouping and the question's unit
+const formatAnswer = (question: Question, answer: string): string => {
+  const value = question.format === 'NUMERIC' ? parseNumericAnswer(answer) : null
+  return value === null ? formatAnswerLabel(question.format, answer) : formatNumericValue(value, question.unit)
+}
 
-type QuizButtonState = 'default' | 'selected' | 'correct' | 'incorrect' | 'disabled'
-
+const ELIMINATION_MESSAGES: Record<EliminationReason, string> = {
+  wrong_answer: 'You were eliminated for answering incorrectly!',
+  timeout: 'You were eliminated for running out of time!',
+  slowest_correct: 'You were eliminated for being the slowest correct responder!',
+  fastest_incorrect: 'You were eliminated for being the fastest incorrect responder!'
+}
 
 type Props = {
   gameCode: string
   playerId: string
+  // Room state received after reclaiming the seat on reconnect
+  stateSync?: StateSyncData | null
   onLeave: () => void
 }
 
 type Question = {
   id: string
   text: string
-  optionA: string
-  optionB: string
-  optionC: string
-  optionD: string
+  format?: QuestionFormat | undefined
+  optionA: string | null
+  optionB: string | null
+  optionC: string | null
+  optionD: string | null
+  unit?: string | null | undefined
   correctAnswer: string
   explanation?: string | undefined
 }
@@ -42,10 +74,27 @@ type QuizState = {
   selectedAnswer: string | null
   showResults: boolean
   isEliminated: boolean
+  // Latecomers and eliminated players keep answering; their answers are scored separately
+  isSpectator: boolean
   playerCount: number
+  lives: number
+  maxLives: number
+  isFinalShowdown: boolean
+  // Sudden-death tiebreak: only the tied players answer
+  isSuddenDeath: boolean
+  isTiebreakPlayer: boolean
+  // Admin paused the game; the countdown is frozen
+  isPaused: boolean
+  score: number
+  // Points scored on the last question
+  lastPoints: number
+  shadowScore: number
+  // Numeric questions: where the player's guess ranked on the last question
+  numericResult: NumericRankingEntry | null
+  numericAnswerCount: number
 }
 
-export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
+export const QuizGame: FC<Props> = ({ gameCode, playerId, stateSync, onLeave }) => {
   const { socket } = useSocket()
 
   const [quizState, setQuizState] = useState<QuizState>({
@@ -57,32 +106,83 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
     selectedAnswer: null,
     showResults: false,
     isEliminated: false,
-    playerCount: 0
+    isSpectator: false,
+    playerCount: 0,
+    lives: 1,
+    maxLives: 1,
+    isFinalShowdown: false,
+    isSuddenDeath: false,
+    isTiebreakPlayer: false,
+    isPaused: false,
+    score: 0,
+    lastPoints: 0,
+    shadowScore: 0,
+    numericResult: null,
+    numericAnswerCount: 0
   })
 
   const [answerStartTime, setAnswerStartTime] = useState<number>(0)
 
+  // Players who are not tied watch the sudden-death rounds; spectators may still shadow answer
+  const isWatchingTiebreak = quizState.isSuddenDeath && !quizState.isTiebreakPlayer && !quizState.isSpectator
+
   // Handle new question from server
-  const handleNewQuestion = useCallback((data: {
-    questionNumber: number
-    question: Question
-    timeLimit: number
-  }) => {
+  const handleNewQuestion = useCallback((data: NextQuestionData) => {
     setQuizState(prev => ({
       ...prev,
-      currentQuestion: data.question,
+      isFinalShowdown: data.isFinalShowdown,
+      isSuddenDeath: data.isSuddenDeath,
+      isTiebreakPlayer: data.tiebreakPlayers.includes(playerId),
+      maxLives: data.startingLives,
+      lives: data.lives[playerId] ?? prev.lives,
+      // The answer key arrives with the question result
+      currentQuestion: { ...data.question, correctAnswer: '' },
       questionNumber: data.questionNumber,
       timeLeft: data.timeLimit,
       isAnswered: false,
       selectedAnswer: null,
-      showResults: false
+      showResults: false,
+      isPaused: false,
+      numericResult: null
     }))
     setAnswerStartTime(Date.now())
-  }, [])
+  }, [playerId])
+
+  // Pick up the room where it is after reconnecting, including the open question
+  useEffect(() => {
+    if (!stateSync) return
+
+    const { question } = stateSync
+    setQuizState(prev => ({
+      ...prev,
+      totalQuestions: stateSync.totalQuestions,
+      playerCount: stateSync.playerCount,
+      isEliminated: stateSync.isEliminated,
+      isSpectator: stateSync.isSpectator,
+      lives: stateSync.lives,
+      ...(stateSync.isSpectator ? { shadowScore: stateSync.score } : { score: stateSync.score }),
+      isPaused: stateSync.status === 'paused',
+      ...(question && {
+        isFinalShowdown: question.isFinalShowdown,
+        isSuddenDeath: question.isSuddenDeath,
+        isTiebreakPlayer: question.tiebreakPlayers.includes(playerId),
+        maxLives: question.startingLives,
+        currentQuestion: { ...question.question, correctAnswer: '' },
+        questionNumber: question.questionNumber,
+        timeLeft: stateSync.remainingTime ?? 0,
+        isAnswered: stateSync.selectedAnswer !== null,
+        selectedAnswer: stateSync.selectedAnswer,
+        showResults: false
+      })
+    }))
+    if (question) {
+      setAnswerStartTime(Date.now() - (question.timeLimit - (stateSync.remainingTime ?? 0)) * 1000)
+    }
+  }, [stateSync, playerId])
 
   // Handle answer submission
   const handleAnswerSelect = useCallback((answer: string) => {
-    if (quizState.isAnswered || quizState.isEliminated) return
+    if (quizState.isAnswered || quizState.isPaused || isWatchingTiebreak) return
 
     const responseTime = (Date.now() - answerStartTime) / 1000
 
@@ -96,17 +196,16 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
     if (quizState.currentQuestion && socket) {
       socket.emit('submit-answer', {
         gameCode,
-        playerId,
         questionId: quizState.currentQuestion.id,
         selectedAnswer: answer,
         responseTime
       })
     }
-  }, [quizState.isAnswered, quizState.isEliminated, quizState.currentQuestion, answerStartTime, socket, gameCode, playerId])
+  }, [quizState.isAnswered, quizState.isPaused, isWatchingTiebreak, quizState.currentQuestion, answerStartTime, socket, gameCode])
 
-  // Handle timer expiration
+  // Handle timer expiration; spectators who did not answer simply sit the question out
   const handleTimeExpired = useCallback(() => {
-    if (!quizState.isAnswered && !quizState.isEliminated) {
+    if (!quizState.isAnswered && !quizState.isSpectator && !isWatchingTiebreak) {
       const responseTime = 10 // Max time
 
       setQuizState(prev => ({
@@ -119,35 +218,13 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
       if (quizState.currentQuestion && socket) {
         socket.emit('submit-answer', {
           gameCode,
-          playerId,
           questionId: quizState.currentQuestion.id,
           selectedAnswer: '',
           responseTime
         })
       }
     }
-  }, [quizState.isAnswered, quizState.isEliminated, quizState.currentQuestion, socket, gameCode, playerId])
-
-  // Determine button state based on quiz state
-  const getButtonState = (choice: string): QuizButtonState => {
-    if (quizState.isEliminated || quizState.isAnswered) {
-      if (quizState.showResults) {
-        // Show correct/incorrect results
-        if (choice === quizState.currentQuestion?.correctAnswer) {
-          return 'correct'
-        } else if (choice === quizState.selectedAnswer) {
-          return 'incorrect'
-        } else {
-          return 'disabled'
-        }
-      } else if (choice === quizState.selectedAnswer) {
-        return 'selected'
-      } else {
-        return 'disabled'
-      }
-    }
-    return 'default'
-  }
+  }, [quizState.isAnswered, quizState.isSpectator, isWatchingTiebreak, quizState.currentQuestion, socket, gameCode])
 
   // Set up socket event listeners for elimination system
   useEffect(() => {
@@ -157,7 +234,7 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
     socket.on('next-question', handleNewQuestion)
 
     // Timer updates from server
-    const handleTimerUpdate = (data: { remainingTime: number; isUrgent: boolean }) => {
+    const handleTimerUpdate = (data: TimerUpdate) => {
       setQuizState(prev => ({
         ...prev,
         timeLeft: data.remainingTime
@@ -165,29 +242,27 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
     }
 
     // Question results with elimination logic
-    const handleQuestionResult = (data: {
-      questionId: string
-      correctAnswer: string
-      explanation?: string
-      eliminatedPlayerId: string | null
-      winnerId: string | null
-      correctAnswerers: string[]
-      incorrectAnswerers: string[]
-      survivors: string[]
-      isFinalQuestion: boolean
-    }) => {
-      const wasEliminated = data.eliminatedPlayerId === playerId
+    const handleQuestionResult = (data: QuestionResult) => {
+      const elimination = data.eliminations.find(e => e.playerId === playerId)
+      const wasEliminated = !!elimination
       const isWinner = data.winnerId === playerId
+      const award = data.scores.find(s => s.playerId === playerId)
+      const shadowAward = data.shadowScores.find(s => s.playerId === playerId)
 
       setQuizState(prev => ({
         ...prev,
         showResults: true,
-        isEliminated: wasEliminated,
+        isEliminated: prev.isEliminated || wasEliminated,
+        isSpectator: prev.isSpectator || wasEliminated,
+        lives: wasEliminated ? 0 : data.lives[playerId] ?? prev.lives,
+        score: award?.total ?? prev.score,
+        shadowScore: shadowAward?.total ?? prev.shadowScore,
+        lastPoints: (prev.isSpectator ? shadowAward?.points : award?.points) ?? 0,
+        numericResult: data.numericRanking.find(entry => entry.playerId === playerId) ?? null,
+        numericAnswerCount: data.numericRanking.length,
         isWinner: isWinner,
-        eliminationReason: wasEliminated
-          ? (data.isFinalQuestion
-            ? 'Game ended - you were not the fastest!'
-            : 'You were eliminated for being the slowest correct responder!')
+        eliminationReason: elimination
+          ? ELIMINATION_MESSAGES[elimination.reason]
           : undefined,
         currentQuestion: prev.currentQuestion ? {
           ...prev.currentQuestion,
@@ -197,16 +272,52 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
       }))
     }
 
+    // Life lost without being eliminated
+    const handleLifeLost = (data: LifeLostData) => {
+      if (data.playerId !== playerId) return
+
+      setQuizState(prev => ({
+        ...prev,
+        lives: data.livesRemaining
+      }))
+    }
+
+    // Survivors dropped to the final question threshold
+    const handleFinalShowdown = () => {
+      setQuizState(prev => ({
+        ...prev,
+        isFinalShowdown: true
+      }))
+    }
+
+    // Final question ended in a tie
+    const handleSuddenDeath = (data: SuddenDeathData) => {
+      setQuizState(prev => ({
+        ...prev,
+        isSuddenDeath: true,
+        isTiebreakPlayer: data.players.includes(playerId)
+      }))
+    }
+
+    // Admin paused the game: freeze the countdown at the server's remaining time
+    const handleGamePaused = (data: GamePausedData) => {
+      setQuizState(prev => ({
+        ...prev,
+        isPaused: true,
+        timeLeft: data.remainingTime ?? prev.timeLeft
+      }))
+    }
+
+    const handleGameResumed = (data: GameResumedData) => {
+      setQuizState(prev => ({
+        ...prev,
+        isPaused: false,
+        timeLeft: data.remainingTime ?? prev.timeLeft
+      }))
+    }
+
     // Game over with final results
-    const handleGameOver = (data: {
-      winnerId: string
-      finalRanking: Array<{
-        playerId: string
-        playerName: string
-        rank: number
-        questionsAnswered: number
-      }>
-    }) => {
+    const handleGameOver = (data: GameOverResult) => {
       const isWinner = data.winnerId === playerId
       setQuizState(prev => ({
         ...prev,
@@ -217,20 +328,14 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
     }
 
     // Answer received confirmation
-    const handleAnswerReceived = (data: {
-      playerId: string
-      questionId: string
-      timestamp: string
-      activeAnswersCount: number
-      totalActivePlayers: number
-    }) => {
+    const handleAnswerReceived = (data: AnswerReceivedData) => {
       if (data.playerId === playerId) {
         console.log('Answer confirmed received by server')
       }
     }
 
     // Player count updates
-    const handlePlayerLeft = (data: { playerCount: number }) => {
+    const handlePlayerLeft = (data: PlayerLeftData) => {
       setQuizState(prev => ({
         ...prev,
         playerCount: data.playerCount
@@ -239,6 +344,11 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
 
     socket.on('timer-update', handleTimerUpdate)
     socket.on('question-result', handleQuestionResult)
+    socket.on('life-lost', handleLifeLost)
+    socket.on('final-showdown', handleFinalShowdown)
+    socket.on('sudden-death', handleSuddenDeath)
+    socket.on('game-paused', handleGamePaused)
+    socket.on('game-resumed', handleGameResumed)
     socket.on('game-over', handleGameOver)
     socket.on('answer-received', handleAnswerReceived)
     socket.on('player-left', handlePlayerLeft)
@@ -247,6 +357,11 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
       socket.off('next-question', handleNewQuestion)
       socket.off('timer-update', handleTimerUpdate)
       socket.off('question-result', handleQuestionResult)
+      socket.off('life-lost', handleLifeLost)
+      socket.off('final-showdown', handleFinalShowdown)
+      socket.off('sudden-death', handleSuddenDeath)
+      socket.off('game-paused', handleGamePaused)
+      socket.off('game-resumed', handleGameResumed)
       socket.off('game-over', handleGameOver)
       socket.off('answer-received', handleAnswerReceived)
       socket.off('player-left', handlePlayerLeft)
@@ -255,7 +370,9 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
 
   // Timer countdown effect
   useEffect(() => {
-    if (quizState.timeLeft > 0 && !quizState.isAnswered && !quizState.isEliminated) {
+    if (quizState.isPaused) return () => {}
+
+    if (quizState.timeLeft > 0 && !quizState.isAnswered) {
       const timer = setTimeout(() => {
         setQuizState(prev => ({
           ...prev,
@@ -270,32 +387,30 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
 
     // Return cleanup function for all code paths
     return () => {}
-  }, [quizState.timeLeft, quizState.isAnswered, quizState.isEliminated, handleTimeExpired])
-
-  // Show elimination screen
-  if (quizState.isEliminated) {
-    return (
-      <div className="flex flex-col items-center justify-center min-h-[70vh]">
-        <div className="glass-card rounded-lg p-8 text-center max-w-md">
-          <div className="text-6xl mb-4">😵</div>
-          <h2 className="text-3xl font-bold text-red-400 mb-4">脱落しました</h2>
-          <p className="text-white/70 mb-6">
-            お疲れ様でした！ゲームは続行中です。
-          </p>
-          <div className="space-y-3">
-            <Button onClick={onLeave} variant="outline" className="w-full">
-              ホームに戻る
-            </Button>
-          </div>
-        </div>
+  }, [quizState.timeLeft, quizState.isAnswered, quizState.isPaused, handleTimeExpired])
+
+  // Eliminated players and latecomers keep playing as spectators
+  const spectatorBanner = quizState.isSpectator && (
+    <div className="w-full max-w-4xl mb-4 glass-card rounded-lg p-4 flex items-center justify-between gap-4 border-2 border-white/20">
+      <div>
+        <h2 className="text-xl font-bold text-white">
+          {quizState.isEliminated ? '😵 脱落しました' : '👀 観戦中'}
+        </h2>
+        <p className="text-white/70 text-sm mt-1">
+          観戦モードで回答を続けられます（スコアは別集計）
+        </p>
       </div>
-    )
-  }
+      <Button onClick={onLeave} variant="outline">
+        ホームに戻る
+      </Button>
+    </div>
+  )
 
   // Show loading if no question
   if (!quizState.currentQuestion) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[70vh]">
+        {spectatorBanner}
         <div className="glass-card rounded-lg p-8 text-center">
           <div className="w-8 h-8 border-2 border-primary-400 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
           <h2 className="text-xl font-bold text-white mb-2">問題を準備中...</h2>
@@ -307,6 +422,32 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
 
   return (
     <div className="flex flex-col items-center justify-center min-h-[70vh] px-4">
+      {spectatorBanner}
+
+      {/* Final Showdown Banner */}
+      {quizState.isFinalShowdown && (
+        <div className="w-full max-w-4xl mb-4 glass-card rounded-lg p-4 text-center border-2 border-yellow-400 bg-yellow-500/20">
+          <h2 className="text-2xl font-bold text-yellow-300">
+            {quizState.isSuddenDeath ? '⚡ サドンデス ⚡' : '🔥 ファイナルステージ 🔥'}
+          </h2>
+          <p className="text-white/80 text-sm mt-1">
+            {isWatchingTiebreak
+              ? '同点のプレイヤーが対決中です。観戦してお待ちください'
+              : '最速で正解した人が優勝です！'}
+          </p>
+        </div>
+      )}
+
+      {/* Pause Banner */}
+      {quizState.isPaused && (
+        <div className="w-full max-w-4xl mb-4 glass-card rounded-lg p-4 text-center border-2 border-white/40">
+          <h2 className="text-2xl font-bold text-white">⏸️ 一時停止中</h2>
+          <p className="text-white/80 text-sm mt-1">
+            管理者が再開するまでお待ちください。残り時間はそのまま保持されます
+          </p>
+        </div>
+      )}
+
       {/* Question Header */}
       <div className="w-full max-w-4xl mb-6">
         <div className="flex items-center justify-between mb-4">
@@ -317,6 +458,22 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
             </span>
           </div>
 
+          <div className="glass-card rounded-lg px-4 py-2">
+            <span className="text-white/70 text-sm">{quizState.isSpectator ? '観戦スコア ' : 'スコア '}</span>
+            <span className="text-white font-bold">
+              {quizState.isSpectator ? quizState.shadowScore : quizState.score}pt
+            </span>
+            {quizState.showResults && quizState.lastPoints > 0 && (
+              <span className="text-green-400 text-sm font-bold ml-2">+{quizState.lastPoints}</span>
+            )}
+          </div>
+
+          {quizState.maxLives > 1 && !quizState.isSpectator && (
+            <div className="glass-card rounded-lg px-4 py-2">
+              <LifeHearts lives={quizState.lives} maxLives={quizState.maxLives} />
+            </div>
+          )}
+
           <div className="glass-card rounded-lg px-4 py-2">
             <span className="text-white/70 text-sm">残り </span>
             <span className="text-white font-bold">
@@ -329,13 +486,13 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
         <CountdownTimer
           timeLeft={quizState.timeLeft}
           totalTime={10}
-          isActive={!quizState.isAnswered}
+          isActive={!quizState.isAnswered && !quizState.isPaused}
         />
       </div>
 
       {/* Question Card */}
       <div className="w-full max-w-4xl mb-8">
-        <div className="glass-card rounded-lg p-8">
+        <div className={`glass-card rounded-lg p-8 ${quizState.isFinalShowdown ? 'border-2 border-yellow-400' : ''}`}>
           <h2 className="text-2xl md:text-3xl font-bold text-white text-center leading-relaxed">
             {quizState.currentQuestion.text}
           </h2>
@@ -344,36 +501,15 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
 
       {/* Answer Options */}
       <div className="w-full max-w-4xl">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <QuizButton
-            choice="A"
-            text={quizState.currentQuestion.optionA}
-            state={getButtonState('A')}
-            showResult={quizState.showResults}
-            onClick={() => handleAnswerSelect('A')}
-          />
-          <QuizButton
-            choice="B"
-            text={quizState.currentQuestion.optionB}
-            state={getButtonState('B')}
-            showResult={quizState.showResults}
-            onClick={() => handleAnswerSelect('B')}
-          />
-          <QuizButton
-            choice="C"
-            text={quizState.currentQuestion.optionC}
-            state={getButtonState('C')}
-            showResult={quizState.showResults}
-            onClick={() => handleAnswerSelect('C')}
-          />
-          <QuizButton
-            choice="D"
-            text={quizState.currentQuestion.optionD}
-            state={getButtonState('D')}
-            showResult={quizState.showResults}
-            onClick={() => handleAnswerSelect('D')}
-          />
-        </div>
+        <AnswerOptions
+          key={quizState.currentQuestion.id}
+          question={quizState.currentQuestion}
+          selectedAnswer={quizState.selectedAnswer}
+          correctAnswer={quizState.currentQuestion.correctAnswer}
+          isLocked={quizState.isAnswered || quizState.isPaused || isWatchingTiebreak}
+          showResults={quizState.showResults}
+          onSubmit={handleAnswerSelect}
+        />
       </div>
 
       {/* Answer Status */}
@@ -381,10 +517,16 @@ export const QuizGame: FC<Props> = ({ gameCode, playerId, onLeave }) => {
         <div className="mt-6 glass-card rounded-lg p-4 text-center">
           <p className="text-white/70">
             {quizState.selectedAnswer
-              ? `回答: ${quizState.selectedAnswer}`
+              ? `回答: ${formatAnswer(quizState.currentQuestion, quizState.selectedAnswer)}`
               : '時間切れ'
             }
           </p>
+          {quizState.showResults && quizState.numericResult && (
+            <p className="text-white font-bold mt-1">
+              {quizState.numericAnswerCount}人中 {quizState.numericResult.rank}位
+              （正解との差 {formatNumericValue(quizState.numericResult.distance, quizState.currentQuestion.unit)}）
+            </p>
+          )}
           <p className="text-white/50 text-sm mt-1">
             次の問題をお待ちください...
           </p>
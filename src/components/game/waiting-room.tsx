@@ -11,11 +11,16 @@ import { type FC } from 'react'
 import { useSession } from 'next-auth/react'
 import { useGameAdmin } from '@/lib/socket/context'
 import { Button } from '@/components/ui/button'
+import type { Team } from '@/lib/game/teams'
 
 type Props = {
   gameCode: string
   playerCount: number
   maxPlayers: number
+  // Team battles: every team, the player's team and switching teams
+  teams?: Team[]
+  teamId?: string | null
+  onChooseTeam?: (teamId: string) => void
   onLeave: () => void
 }
 
@@ -23,6 +28,9 @@ export const WaitingRoom: FC<Props> = ({
   gameCode, 
   playerCount, 
   maxPlayers, 
+  teams = [],
+  teamId = null,
+  onChooseTeam,
   onLeave 
 }) => {
   const { data: session } = useSession()
@@ -34,13 +42,10 @@ export const WaitingRoom: FC<Props> = ({
 
   const handleStartGame = () => {
     if (isAdmin && session?.user?.id) {
+      // The number of questions comes from the game's settings
       adminAction({
         action: 'start-game',
-        gameCode,
-        adminId: session.user.id,
-        payload: {
-          totalQuestions: 10
-        }
+        gameCode
       })
     }
   }
@@ -84,6 +89,36 @@ export const WaitingRoom: FC<Props> = ({
           </div>
         </div>
 
+        {/* Team Selection */}
+        {teams.length > 0 && (
+          <div className="mb-8">
+            <h3 className="text-lg font-bold text-white mb-4">チーム</h3>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {teams.map(team => (
+                <button
+                  key={team.id}
+                  onClick={() => onChooseTeam?.(team.id)}
+                  className={`glass-card rounded-lg p-3 text-white font-semibold transition-all border-2 ${
+                    team.id === teamId ? 'bg-white/20' : 'border-transparent hover:bg-white/10'
+                  }`}
+                  style={team.id === teamId && team.color ? { borderColor: team.color } : undefined}
+                >
+                  {team.color && (
+                    <span
+                      className="inline-block w-3 h-3 rounded-full mr-2"
+                      style={{ backgroundColor: team.color }}
+                    />
+                  )}
+                  {team.name}
+                </button>
+              ))}
+            </div>
+            <p className="text-white/50 text-xs mt-2">
+              チームを選ばない場合は人数の少ないチームに自動で振り分けられます
+            </p>
+          </div>
+        )}
+
         {/* Game Rules */}
         <div className="mb-8">
           <h3 className="text-lg font-bold text-white mb-4">ゲームルール</h3>
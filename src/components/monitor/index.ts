@@ -8,4 +8,7 @@ export { MonitorWaitingRoom } from './monitor-waiting-room'
 export { MonitorQuizDisplay } from './monitor-quiz-display'
 export { MonitorResultsDisplay } from './monitor-results-display'
 export { MonitorPlayerList } from './monitor-player-list'
-export { MonitorCountdown } from './monitor-countdown'
\ No newline at end of file
+export { MonitorCountdown } from './monitor-countdown'
+export { MonitorFinalShowdown } from './monitor-final-showdown'
+export { MonitorTeamStandings } from './monitor-team-standings'
+export { MonitorNumberLine } from './monitor-number-line'
\ No newline at end of file
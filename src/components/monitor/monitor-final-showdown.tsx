@@ -0,0 +1,62 @@
+/**
+ * Monitor Final Showdown Component
+ *
+ * Large display announcement for the final showdown phase
+ * Shown when survivors drop to the final question threshold,
+ * and again for each sudden-death tiebreak round
+ */
+
+'use client'
+
+import { type FC } from 'react'
+import { type GamePlayer } from '@/types/monitor'
+import { Flame, Zap } from 'lucide-react'
+
+type Props = {
+  survivorCount: number
+  players?: GamePlayer[]
+  // Set during a sudden-death tiebreak
+  suddenDeathRound?: number
+}
+
+export const MonitorFinalShowdown: FC<Props> = ({ survivorCount, players = [], suddenDeathRound }) => {
+  return (
+    <div className="h-full flex flex-col items-center justify-center space-y-8">
+      <div className="glass-card rounded-3xl p-12 text-center border-4 border-yellow-400 bg-yellow-500/20 animate-pulse">
+        <div className="flex items-center justify-center space-x-4 mb-6">
+          <Flame className="w-16 h-16 text-orange-400" />
+          <div className="text-6xl lg:text-7xl font-bold text-yellow-300">
+            {suddenDeathRound ? `サドンデス 第${suddenDeathRound}ラウンド` : 'ファイナルステージ'}
+          </div>
+          <Flame className="w-16 h-16 text-orange-400" />
+        </div>
+        <div className="flex items-center justify-center space-x-3 text-3xl lg:text-4xl text-white">
+          <Zap className="w-10 h-10 text-yellow-300" />
+          <span>最速で正解した人が優勝！</span>
+        </div>
+      </div>
+
+      <div className="glass-card rounded-2xl px-10 py-6 text-center">
+        <div className="text-5xl lg:text-6xl font-bold text-white">
+          {survivorCount}
+        </div>
+        <div className="text-2xl text-white/80">
+          {suddenDeathRound ? '名が同点' : '名が勝ち残り'}
+        </div>
+      </div>
+
+      {players.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-4">
+          {players.map(player => (
+            <div
+              key={player.userId}
+              className="glass-card rounded-xl px-6 py-3 border-2 border-yellow-400 text-2xl font-semibold text-white"
+            >
+              {player.userName}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
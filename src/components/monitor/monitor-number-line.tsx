@@ -0,0 +1,112 @@
+/**
+ * Monitor Number Line Component
+ *
+ * Large display reveal of a numeric "closest answer wins" question
+ * Plots every guess and the target on one number line, closest guesses highlighted
+ */
+
+'use client'
+
+import { type FC } from 'react'
+import { formatNumericValue } from '@/lib/game/numeric-answers'
+import { Target } from 'lucide-react'
+
+type NumberLineGuess = {
+  playerId: string
+  // Player name when the display knows it
+  name?: string | undefined
+  value: number
+  distance: number
+  rank: number
+}
+
+type Props = {
+  target: number
+  unit?: string | null | undefined
+  // Ordered by rank
+  guesses: NumberLineGuess[]
+  // Number of guesses listed under the line
+  listCount?: number
+}
+
+// Space left on either side of the outermost points, as a share of the range
+const EDGE_PADDING = 0.1
+
+export const MonitorNumberLine: FC<Props> = ({ target, unit, guesses, listCount = 5 }) => {
+  const values = [target, ...guesses.map(guess => guess.value)]
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const padding = (max - min) * EDGE_PADDING
+  const range = max - min + padding * 2
+
+  // Position on the line in percent; a single point sits in the middle
+  const toPosition = (value: number) => range === 0 ? 50 : ((value - min + padding) / range) * 100
+
+  const closestDistance = guesses[0]?.distance
+
+  return (
+    <div className="glass-card rounded-3xl p-8 space-y-8">
+      <div className="relative h-40">
+        {/* Line */}
+        <div className="absolute left-0 right-0 top-1/2 h-1 bg-white/40 rounded-full" />
+
+        {/* Guesses, closest first so they stay on top */}
+        {[...guesses].reverse().map(guess => {
+          const isClosest = guess.distance === closestDistance
+          return (
+            <div
+              key={guess.playerId}
+              className="absolute bottom-1/2 flex -translate-x-1/2 flex-col items-center"
+              style={{ left: `${toPosition(guess.value)}%` }}
+            >
+              <div className={`mb-1 whitespace-nowrap rounded-lg px-2 py-1 text-lg font-bold ${
+                isClosest ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white/80'
+              }`}>
+                {guess.name ?? `${guess.rank}位`}
+              </div>
+              <div className={`w-4 h-4 rounded-full translate-y-1/2 border-2 ${
+                isClosest ? 'bg-yellow-400 border-yellow-200' : 'bg-blue-400 border-blue-200'
+              }`} />
+            </div>
+          )
+        })}
+
+        {/* Target */}
+        <div
+          className="absolute top-1/2 flex -translate-x-1/2 flex-col items-center"
+          style={{ left: `${toPosition(target)}%` }}
+        >
+          <div className="w-1 h-8 -translate-y-1/2 bg-green-400" />
+          <div className="flex items-center space-x-2 whitespace-nowrap text-2xl lg:text-3xl font-bold text-green-300">
+            <Target className="w-7 h-7" />
+            <span>{formatNumericValue(target, unit)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Closest guesses */}
+      {guesses.length > 0 ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+          {guesses.slice(0, listCount).map(guess => (
+            <div
+              key={guess.playerId}
+              className={`flex items-center justify-between rounded-xl px-6 py-3 border-2 ${
+                guess.distance === closestDistance ? 'border-yellow-400 bg-yellow-500/20' : 'border-white/10 bg-white/5'
+              }`}
+            >
+              <div className="text-2xl font-bold text-white">
+                {guess.rank}位{guess.name && ` ${guess.name}`}
+              </div>
+              <div className="text-right">
+                <div className="text-2xl font-bold text-white">{formatNumericValue(guess.value, unit)}</div>
+                <div className="text-lg text-white/70">差 {formatNumericValue(guess.distance, unit)}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-2xl text-white/70 text-center">数値の回答はありませんでした</div>
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,7 @@
 import { type FC } from 'react'
 import { type GamePlayer } from '@/types/monitor'
 import { Trophy, X, Wifi, WifiOff, Crown, Users } from 'lucide-react'
+import { LifeHearts } from '@/components/game/life-hearts'
 
 type Props = {
   players: GamePlayer[]
@@ -90,6 +91,13 @@ export const MonitorPlayerList: FC<Props> = ({
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          {player.maxLives !== undefined && player.maxLives > 1 && (
+            <LifeHearts
+              lives={player.lives ?? player.maxLives}
+              maxLives={player.maxLives}
+              heartClassName="w-5 h-5 lg:w-6 lg:h-6"
+            />
+          )}
           {showStatus && getPlayerStatusIcon(player)}
           {showStatus && (
             <span className="text-sm lg:text-base text-white/80 font-medium">
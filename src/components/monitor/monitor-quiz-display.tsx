@@ -9,7 +9,23 @@
 
 import { type FC } from 'react'
 import { type Question, type GamePlayer } from '@/types/monitor'
-import { Clock, Users, CheckCircle2, XCircle, AlertCircle } from 'lucide-react'
+import {
+  formatNumericValue,
+  getNumericDistance,
+  parseNumericAnswer,
+  type NumericRankingEntry
+} from '@/lib/game/numeric-answers'
+import {
+  DEFAULT_QUESTION_FORMAT,
+  QUESTION_FORMAT_INSTRUCTIONS,
+  TRUE_FALSE_ANSWERS,
+  formatAnswerLabel,
+  getOptionLetters,
+  normalizeAnswer,
+  parseAnswerList
+} from '@/lib/game/question-formats'
+import { MonitorNumberLine } from './monitor-number-line'
+import { Clock, Users, CheckCircle2, XCircle, AlertCircle, PenLine, Hash } from 'lucide-react'
 
 type Props = {
   question: Question
@@ -20,6 +36,9 @@ type Props = {
   playerAnswers?: Record<string, string>
   showAnswers?: boolean
   correctAnswer?: string
+  isFinalShowdown?: boolean
+  // Numeric questions: the server's ranking; otherwise the guesses are ranked by distance alone
+  numericRanking?: NumericRankingEntry[]
 }
 
 export const MonitorQuizDisplay: FC<Props> = ({
@@ -30,16 +49,56 @@ export const MonitorQuizDisplay: FC<Props> = ({
   players,
   playerAnswers = {},
   showAnswers = false,
-  correctAnswer
+  correctAnswer,
+  isFinalShowdown = false,
+  numericRanking
 }) => {
   const activePlayers = players.filter(player => player.status === 'ACTIVE')
   const answeredCount = Object.keys(playerAnswers).length
   const remainingCount = activePlayers.length - answeredCount
 
+  const format = question.format ?? DEFAULT_QUESTION_FORMAT
+  // Correct option letters; the sequence itself for ordering questions
+  const correctKeys = correctAnswer ? parseAnswerList(normalizeAnswer(format, correctAnswer)) : []
+
+  // True/false questions show 〇 and × instead of options
+  const options = format === 'TRUE_FALSE'
+    ? TRUE_FALSE_ANSWERS.map(answer => ({
+        key: answer,
+        label: formatAnswerLabel(format, answer),
+        text: answer === 'TRUE' ? '正しい' : '誤り'
+      }))
+    : getOptionLetters(question).map(letter => ({
+        key: letter,
+        label: letter,
+        text: question[`option${letter}`]
+      }))
+
+  const numericTarget = format === 'NUMERIC' && correctAnswer ? parseNumericAnswer(correctAnswer) : null
+
+  const getNumericGuesses = (target: number) => {
+    const ranking = numericRanking ?? Object.entries(playerAnswers)
+      .flatMap(([playerId, answer]) => {
+        const value = parseNumericAnswer(answer)
+        return value === null ? [] : [{ playerId, value, distance: getNumericDistance(value, target) }]
+      })
+      .sort((a, b) => a.distance - b.distance)
+      .map((guess, index) => ({ ...guess, rank: index + 1 }))
+
+    return ranking.map(({ playerId, value, distance, rank }) => ({
+      playerId,
+      name: players.find(player => player.userId === playerId)?.userName,
+      value,
+      distance,
+      rank
+    }))
+  }
+
   const getOptionStyle = (option: string) => {
     if (!showAnswers) return 'glass-card border-2 border-white/30'
     
-    const isCorrect = option === correctAnswer
+    // Every item has its place in an ordering question
+    const isCorrect = format === 'ORDERING' || correctKeys.includes(option)
     if (isCorrect) {
       return 'glass-card border-4 border-green-400 bg-green-500/30'
     }
@@ -48,8 +107,16 @@ export const MonitorQuizDisplay: FC<Props> = ({
 
   const getOptionIcon = (option: string) => {
     if (!showAnswers) return null
+
+    if (format === 'ORDERING') {
+      return (
+        <div className="text-3xl lg:text-4xl font-bold text-green-300">
+          {correctKeys.indexOf(option) + 1}番目
+        </div>
+      )
+    }
     
-    const isCorrect = option === correctAnswer
+    const isCorrect = correctKeys.includes(option)
     if (isCorrect) {
       return <CheckCircle2 className="w-8 h-8 text-green-400" />
     }
@@ -64,7 +131,11 @@ export const MonitorQuizDisplay: FC<Props> = ({
           <div className="text-2xl lg:text-3xl font-bold text-white">
             問題 {currentQuestionNumber} / {totalQuestions}
           </div>
-          {question.type === 'FINAL' && (
+          {isFinalShowdown ? (
+            <div className="text-xl lg:text-2xl text-yellow-300 font-semibold mt-2">
+              🔥 ファイナルステージ
+            </div>
+          ) : question.type === 'FINAL' && (
             <div className="text-xl lg:text-2xl text-yellow-300 font-semibold mt-2">
               🔔 最終問題
             </div>
@@ -105,31 +176,62 @@ export const MonitorQuizDisplay: FC<Props> = ({
       </div>
 
       {/* Question Text */}
-      <div className="glass-card rounded-3xl p-8 mb-8">
+      <div className={`glass-card rounded-3xl p-8 mb-8 ${isFinalShowdown ? 'border-4 border-yellow-400' : ''}`}>
         <div className="text-3xl lg:text-4xl xl:text-5xl font-bold text-white text-center leading-relaxed">
           {question.text}
         </div>
+        {format !== DEFAULT_QUESTION_FORMAT && (
+          <div className="text-xl lg:text-2xl text-yellow-300 text-center font-semibold mt-4">
+            {QUESTION_FORMAT_INSTRUCTIONS[format]}
+          </div>
+        )}
       </div>
 
       {/* Answer Options */}
-      <div className="flex-1 grid grid-cols-2 gap-6 lg:gap-8">
-        {(['A', 'B', 'C', 'D'] as const).map((option) => (
-          <div
-            key={option}
-            className={`${getOptionStyle(option)} rounded-3xl p-8 flex flex-col items-center justify-center text-center transition-all duration-300`}
-          >
-            <div className="flex items-center justify-between w-full mb-4">
-              <div className="text-4xl lg:text-5xl font-bold text-white">
-                {option}
-              </div>
-              {getOptionIcon(option)}
-            </div>
-            <div className="text-2xl lg:text-3xl xl:text-4xl font-semibold text-white leading-relaxed">
-              {question[`option${option}`]}
+      {format === 'NUMERIC' ? (
+        showAnswers && numericTarget !== null ? (
+          <div className="flex-1">
+            <MonitorNumberLine
+              target={numericTarget}
+              unit={question.unit}
+              guesses={getNumericGuesses(numericTarget)}
+            />
+          </div>
+        ) : (
+          <div className="flex-1 glass-card border-2 border-white/30 rounded-3xl p-8 flex flex-col items-center justify-center text-center">
+            <Hash className="w-12 h-12 text-white/70 mb-4" />
+            <div className="text-3xl lg:text-4xl xl:text-5xl font-bold text-white">
+              数値で回答中{question.unit && `（単位: ${question.unit}）`}
             </div>
           </div>
-        ))}
-      </div>
+        )
+      ) : format === 'FREE_TEXT' ? (
+        <div className={`flex-1 ${showAnswers ? 'glass-card border-4 border-green-400 bg-green-500/30' : 'glass-card border-2 border-white/30'} rounded-3xl p-8 flex flex-col items-center justify-center text-center`}>
+          <PenLine className="w-12 h-12 text-white/70 mb-4" />
+          <div className="text-3xl lg:text-4xl xl:text-5xl font-bold text-white">
+            {showAnswers ? correctAnswer : '記述式で回答中'}
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 grid grid-cols-2 gap-6 lg:gap-8">
+          {options.map(({ key, label, text }) => (
+            <div
+              key={key}
+              className={`${getOptionStyle(key)} rounded-3xl p-8 flex flex-col items-center justify-center text-center transition-all duration-300`}
+            >
+              <div className="flex items-center justify-between w-full mb-4">
+                <div className="text-4xl lg:text-5xl font-bold text-white">
+                  {label}
+                </div>
+                {getOptionIcon(key)}
+              </div>
+              <div className="text-2xl lg:text-3xl xl:text-4xl font-semibold text-white leading-relaxed">
+                {text}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
 
       {/* Bottom Status */}
       <div className="mt-8 flex items-center justify-center">
@@ -138,7 +240,9 @@ export const MonitorQuizDisplay: FC<Props> = ({
             <div className="flex items-center space-x-4 text-white">
               <CheckCircle2 className="w-6 h-6 text-green-400" />
               <span className="text-xl lg:text-2xl font-semibold">
-                正解: {correctAnswer}
+                正解: {numericTarget !== null
+                  ? formatNumericValue(numericTarget, question.unit)
+                  : correctAnswer && formatAnswerLabel(format, correctAnswer)}
               </span>
             </div>
           ) : remainingCount > 0 ? (
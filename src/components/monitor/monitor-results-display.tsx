@@ -9,6 +9,8 @@
 
 import { type FC } from 'react'
 import { type Question, type GamePlayer, type QuestionResult, type PlayerResult } from '@/types/monitor'
+import { formatAnswerLabel, getAnswerOptionTexts } from '@/lib/game/question-formats'
+import type { RankingEntry } from '@/lib/game/ranking'
 import { Trophy, X, CheckCircle2, Clock, Crown } from 'lucide-react'
 
 type Props = {
@@ -19,6 +21,8 @@ type Props = {
   eliminatedPlayers?: GamePlayer[]
   isGameFinished?: boolean
   winner?: GamePlayer
+  // Every participant's final position, sent with game-over
+  finalRanking?: RankingEntry[]
 }
 
 export const MonitorResultsDisplay: FC<Props> = ({
@@ -28,11 +32,13 @@ export const MonitorResultsDisplay: FC<Props> = ({
   players,
   eliminatedPlayers = [],
   isGameFinished = false,
-  winner
+  winner,
+  finalRanking = []
 }) => {
   const correctPlayers = result.results.filter((r: PlayerResult) => r.isCorrect)
   const incorrectPlayers = result.results.filter((r: PlayerResult) => !r.isCorrect)
   const survivingPlayers = players.filter(p => p.status === 'ACTIVE')
+  const correctOptionTexts = getAnswerOptionTexts(question.format, question, result.correctAnswer)
   
   return (
     <div className="h-full flex flex-col">
@@ -81,12 +87,14 @@ export const MonitorResultsDisplay: FC<Props> = ({
         <div className="flex items-center space-x-4 mb-4">
           <CheckCircle2 className="w-8 h-8 text-green-400" />
           <div className="text-2xl lg:text-3xl font-bold text-white">
-            正解: {result.correctAnswer}
+            正解: {formatAnswerLabel(question.format, result.correctAnswer)}
           </div>
         </div>
-        <div className="text-xl lg:text-2xl text-white/90">
-          {question[`option${result.correctAnswer}`]}
-        </div>
+        {correctOptionTexts.length > 0 && (
+          <div className="text-xl lg:text-2xl text-white/90">
+            {correctOptionTexts.join(question.format === 'ORDERING' ? ' → ' : '、')}
+          </div>
+        )}
         {question.explanation && (
           <div className="mt-4 text-lg lg:text-xl text-white/70 border-t border-white/20 pt-4">
             {question.explanation}
@@ -179,7 +187,9 @@ export const MonitorResultsDisplay: FC<Props> = ({
                       </div>
                     </div>
                     <div className="text-lg text-red-300 font-semibold">
-                      {playerResult.selectedAnswer || 'タイムアウト'}
+                      {playerResult.selectedAnswer
+                        ? formatAnswerLabel(question.format, playerResult.selectedAnswer)
+                        : 'タイムアウト'}
                     </div>
                   </div>
                 )
@@ -189,6 +199,45 @@ export const MonitorResultsDisplay: FC<Props> = ({
         </div>
       </div>
 
+      {/* Final Ranking */}
+      {isGameFinished && finalRanking.length > 0 && (
+        <div className="glass-card rounded-2xl p-6 mt-8">
+          <div className="flex items-center space-x-3 mb-6">
+            <Trophy className="w-6 h-6 text-yellow-400" />
+            <h3 className="text-2xl lg:text-3xl font-bold text-white">
+              最終順位
+            </h3>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 max-h-80 overflow-y-auto">
+            {finalRanking.map(entry => (
+              <div
+                key={entry.playerId}
+                className={`flex items-center justify-between p-4 rounded-xl border-2 ${
+                  entry.rank === 1 ? 'border-yellow-400 bg-yellow-500/20' : 'border-white/20 bg-white/5'
+                }`}
+              >
+                <div className="flex items-center space-x-4">
+                  <div className="text-xl lg:text-2xl font-bold text-white">
+                    {entry.rank}位
+                  </div>
+                  <div className="text-lg lg:text-xl text-white font-semibold">
+                    {entry.playerName}
+                  </div>
+                  {entry.rank === 1 && <Crown className="w-5 h-5 text-yellow-400" />}
+                </div>
+                <div className="text-right text-white/80">
+                  <div className="text-lg font-semibold">{entry.correctAnswers}問正解</div>
+                  <div className="text-sm text-white/60">
+                    {entry.eliminatedRound === null ? '生存' : `第${entry.eliminatedRound}問で脱落`}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Next Action */}
       <div className="mt-8 text-center">
         <div className="glass-card rounded-2xl px-8 py-4 inline-block">
@@ -0,0 +1,61 @@
+/**
+ * Monitor Team Standings Component
+ *
+ * Large display of the team standings in a team battle
+ * Updated after every question and shown with the final results
+ */
+
+'use client'
+
+import { type FC } from 'react'
+import type { TeamStanding } from '@/lib/game/teams'
+import { Crown, Users } from 'lucide-react'
+
+type Props = {
+  standings: TeamStanding[]
+  // Set once the game is over and a team won outright
+  winningTeamId?: string | null
+}
+
+export const MonitorTeamStandings: FC<Props> = ({ standings, winningTeamId = null }) => {
+  return (
+    <div className="glass-card rounded-2xl p-6 space-y-4">
+      <div className="flex items-center space-x-3 text-2xl lg:text-3xl font-bold text-white">
+        <Users className="w-8 h-8" />
+        <span>チーム順位</span>
+      </div>
+
+      {standings.map(team => (
+        <div
+          key={team.id}
+          className={`flex items-center justify-between rounded-xl px-6 py-4 border-2 ${
+            team.id === winningTeamId ? 'border-yellow-400 bg-yellow-500/20' : 'border-white/10 bg-white/5'
+          } ${team.eliminatedRound !== null ? 'opacity-50' : ''}`}
+        >
+          <div className="flex items-center space-x-4">
+            <div className="text-3xl lg:text-4xl font-bold text-white w-12 text-center">
+              {team.rank}
+            </div>
+            {team.color && (
+              <div className="w-5 h-5 rounded-full" style={{ backgroundColor: team.color }} />
+            )}
+            <div>
+              <div className="flex items-center space-x-2 text-2xl lg:text-3xl font-bold text-white">
+                <span>{team.name}</span>
+                {team.id === winningTeamId && <Crown className="w-7 h-7 text-yellow-300" />}
+              </div>
+              <div className="text-lg text-white/70">
+                {team.eliminatedRound === null
+                  ? `生存 ${team.survivorCount} / ${team.memberCount}人`
+                  : `第${team.eliminatedRound}問で全員脱落`}
+              </div>
+            </div>
+          </div>
+          <div className="text-3xl lg:text-4xl font-bold text-yellow-300">
+            {team.score}pt
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
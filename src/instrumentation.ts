@@ -0,0 +1,28 @@
+/**
+ * Next.js instrumentation
+ *
+ * Runs once when the server starts. Game changes made in the app reach the
+ * live rooms through the room store. In production, or whenever a shared
+ * store is configured, the realtime server runs on its own and the store must
+ * be shared. In development without one, the realtime server runs in this
+ * process on the in-memory store.
+ */
+
+export const register = async () => {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { hasSharedRoomStore, requireSharedRoomStore } = await import('./lib/socket/room-store')
+  if (hasSharedRoomStore() || process.env.NODE_ENV === 'production') {
+    requireSharedRoomStore()
+    return
+  }
+
+  const { startRealtimeServer } = await import('./lib/socket/realtime-server')
+  const port = parseInt(process.env.SOCKET_PORT || '3002')
+  const server = await startRealtimeServer({
+    port,
+    corsOrigin: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  })
+
+  console.log(`🚀 Socket.io server ${server.nodeId} running in the app on port ${port}`)
+}
@@ -227,6 +227,46 @@ describe('Elimination Logic', () => {
         expect(result.correctAnswerers).toEqual(['player1'])
         expect(result.incorrectAnswerers).toEqual([])
       })
+
+      it('should let the closest numeric guess win, the earlier answer breaking a tie', () => {
+        // Arrange
+        const answers: PlayerAnswer[] = [
+          {
+            playerId: 'player1',
+            questionId: 'q1',
+            selectedAnswer: '3800',
+            responseTime: 3.0,
+            serverTimestamp: new Date('2024-01-01T12:00:03Z')
+          },
+          {
+            playerId: 'player2',
+            questionId: 'q1',
+            selectedAnswer: '3752',
+            responseTime: 2.0,
+            serverTimestamp: new Date('2024-01-01T12:00:02Z') // Same distance, answered first
+          },
+          {
+            playerId: 'player3',
+            questionId: 'q1',
+            selectedAnswer: '4000',
+            responseTime: 1.0,
+            serverTimestamp: new Date('2024-01-01T12:00:01Z')
+          }
+        ]
+
+        // Act
+        const result = processAnswersAndDetermineElimination(answers, '3776', true, { format: 'NUMERIC' })
+
+        // Assert
+        expect(result.winnerId).toBe('player2')
+        expect(result.correctAnswerers).toEqual(['player2', 'player1'])
+        expect(result.incorrectAnswerers).toEqual(['player3'])
+        expect(result.numericRanking.map(entry => [entry.playerId, entry.rank])).toEqual([
+          ['player2', 1],
+          ['player1', 2],
+          ['player3', 3]
+        ])
+      })
     })
 
     describe('Edge Cases and Validation', () => {
@@ -297,6 +337,41 @@ describe('Elimination Logic', () => {
         expect(result.correctAnswerers).toEqual(['player-1_test@domain.com'])
         expect(result.allAnswers[0]?.playerId).toBe('player-1_test@domain.com')
       })
+
+      it('should check answers with the question format', () => {
+        // Arrange
+        const answers: PlayerAnswer[] = [
+          {
+            playerId: 'player1',
+            questionId: 'q1',
+            selectedAnswer: 'C,A',
+            responseTime: 4.0,
+            serverTimestamp: new Date('2024-01-01T12:00:01Z')
+          },
+          {
+            playerId: 'player2',
+            questionId: 'q1',
+            selectedAnswer: 'A',
+            responseTime: 5.0,
+            serverTimestamp: new Date('2024-01-01T12:00:02Z')
+          },
+          {
+            playerId: 'player3',
+            questionId: 'q1',
+            selectedAnswer: '',
+            responseTime: 10,
+            serverTimestamp: new Date('2024-01-01T12:00:03Z')
+          }
+        ]
+
+        // Act
+        const result = processAnswersAndDetermineElimination(answers, 'A,C', false, { format: 'MULTI_SELECT' })
+
+        // Assert
+        expect(result.correctAnswerers).toEqual(['player1'])
+        expect(result.incorrectAnswerers).toEqual(['player2', 'player3'])
+        expect(result.timedOutPlayers).toEqual(['player3'])
+      })
     })
 
     describe('Type Safety and Error Handling', () => {
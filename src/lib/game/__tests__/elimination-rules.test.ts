@@ -0,0 +1,176 @@
+/**
+ * Unit Tests for Elimination Rules
+ *
+ * Covers every built-in rule set and how the elimination logic applies them
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  ELIMINATION_STRATEGIES,
+  getEliminationStrategy,
+  type EliminationContext
+} from '../elimination-rules'
+import {
+  processAnswersAndDetermineElimination,
+  type PlayerAnswer
+} from '../elimination-logic'
+
+const answer = (playerId: string, selectedAnswer: string, second: number): PlayerAnswer => ({
+  playerId,
+  questionId: 'q1',
+  selectedAnswer,
+  responseTime: second,
+  serverTimestamp: new Date(`2024-01-01T12:00:0${second}Z`)
+})
+
+const createContext = (overrides: Partial<EliminationContext> = {}): EliminationContext => ({
+  correctAnswers: [answer('fast', 'A', 1), answer('middle', 'A', 2), answer('slow', 'A', 3)],
+  wrongAnswers: [answer('wrong1', 'B', 1), answer('wrong2', 'C', 4)],
+  timedOutPlayerIds: ['idle'],
+  eliminationCount: 1,
+  ...overrides
+})
+
+describe('Elimination Rules', () => {
+  describe('SLOWEST_CORRECT', () => {
+    const strategy = ELIMINATION_STRATEGIES.SLOWEST_CORRECT
+
+    it('should eliminate only the slowest correct answerer', () => {
+      expect(strategy.selectEliminations(createContext())).toEqual([
+        { playerId: 'slow', reason: 'slowest_correct' }
+      ])
+    })
+
+    it('should not eliminate when one or fewer answered correctly', () => {
+      const context = createContext({ correctAnswers: [answer('fast', 'A', 1)] })
+      expect(strategy.selectEliminations(context)).toEqual([])
+    })
+  })
+
+  describe('ALL_WRONG_OUT', () => {
+    it('should eliminate every wrong answer but not timeouts', () => {
+      expect(ELIMINATION_STRATEGIES.ALL_WRONG_OUT.selectEliminations(createContext())).toEqual([
+        { playerId: 'wrong1', reason: 'wrong_answer' },
+        { playerId: 'wrong2', reason: 'wrong_answer' }
+      ])
+    })
+  })
+
+  describe('BOTTOM_N', () => {
+    const strategy = ELIMINATION_STRATEGIES.BOTTOM_N
+
+    it('should eliminate the last N players of the ranking', () => {
+      const context = createContext({ eliminationCount: 3 })
+      expect(strategy.selectEliminations(context)).toEqual([
+        { playerId: 'wrong1', reason: 'wrong_answer' },
+        { playerId: 'wrong2', reason: 'wrong_answer' },
+        { playerId: 'idle', reason: 'timeout' }
+      ])
+    })
+
+    it('should reach into correct answers when N exceeds the wrong answers', () => {
+      const context = createContext({ wrongAnswers: [], timedOutPlayerIds: [], eliminationCount: 2 })
+      expect(strategy.selectEliminations(context)).toEqual([
+        { playerId: 'middle', reason: 'slowest_correct' },
+        { playerId: 'slow', reason: 'slowest_correct' }
+      ])
+    })
+
+    it('should not eliminate anyone when N is zero', () => {
+      expect(strategy.selectEliminations(createContext({ eliminationCount: 0 }))).toEqual([])
+    })
+
+    it('should keep the top player when N reaches the number of players', () => {
+      const context = createContext({ wrongAnswers: [], timedOutPlayerIds: [], eliminationCount: 3 })
+      expect(strategy.selectEliminations(context)).toEqual([
+        { playerId: 'middle', reason: 'slowest_correct' },
+        { playerId: 'slow', reason: 'slowest_correct' }
+      ])
+    })
+  })
+
+  describe('WRONG_OR_TIMEOUT_OUT', () => {
+    it('should eliminate wrong answers and timeouts', () => {
+      expect(ELIMINATION_STRATEGIES.WRONG_OR_TIMEOUT_OUT.selectEliminations(createContext())).toEqual([
+        { playerId: 'wrong1', reason: 'wrong_answer' },
+        { playerId: 'wrong2', reason: 'wrong_answer' },
+        { playerId: 'idle', reason: 'timeout' }
+      ])
+    })
+  })
+
+  describe('getEliminationStrategy', () => {
+    it('should default to the slowest correct rule', () => {
+      expect(getEliminationStrategy().rule).toBe('SLOWEST_CORRECT')
+    })
+
+    it('should return the requested rule set', () => {
+      expect(getEliminationStrategy('BOTTOM_N').rule).toBe('BOTTOM_N')
+    })
+  })
+
+  describe('processAnswersAndDetermineElimination with rule options', () => {
+    const answers = [
+      answer('player1', 'A', 1),
+      answer('player2', 'B', 2),
+      answer('player3', '', 3)
+    ]
+
+    it('should treat empty answers and missing active players as timeouts', () => {
+      // Act
+      const result = processAnswersAndDetermineElimination(answers, 'A', false, {
+        rule: 'WRONG_OR_TIMEOUT_OUT',
+        activePlayerIds: ['player1', 'player2', 'player3', 'player4']
+      })
+
+      // Assert
+      expect(result.timedOutPlayers).toEqual(['player3', 'player4'])
+      expect(result.eliminations).toEqual([
+        { playerId: 'player2', reason: 'wrong_answer' },
+        { playerId: 'player3', reason: 'timeout' },
+        { playerId: 'player4', reason: 'timeout' }
+      ])
+      expect(result.eliminatedPlayerId).toBe('player2')
+    })
+
+    it('should not eliminate every remaining player', () => {
+      // Act
+      const result = processAnswersAndDetermineElimination(
+        [answer('player1', 'B', 1), answer('player2', 'C', 2)],
+        'A',
+        false,
+        { rule: 'ALL_WRONG_OUT' }
+      )
+
+      // Assert
+      expect(result.eliminations).toEqual([])
+      expect(result.eliminatedPlayerId).toBeNull()
+    })
+
+    it('should eliminate all but the best player when N covers the whole field', () => {
+      // Act
+      const result = processAnswersAndDetermineElimination(answers, 'A', false, {
+        rule: 'BOTTOM_N',
+        eliminationCount: 5,
+        activePlayerIds: ['player1', 'player2', 'player3']
+      })
+
+      // Assert
+      expect(result.eliminations).toEqual([
+        { playerId: 'player2', reason: 'wrong_answer' },
+        { playerId: 'player3', reason: 'timeout' }
+      ])
+    })
+
+    it('should ignore the rule set on the final question', () => {
+      // Act
+      const result = processAnswersAndDetermineElimination(answers, 'A', true, {
+        rule: 'WRONG_OR_TIMEOUT_OUT'
+      })
+
+      // Assert
+      expect(result.winnerId).toBe('player1')
+      expect(result.eliminations).toEqual([])
+    })
+  })
+})
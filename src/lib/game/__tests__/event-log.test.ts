@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for Game Event Log Replay
+ *
+ * Verifies that replaying logged events rebuilds the room state
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applyGameEvent,
+  createReplayState,
+  replayGameEvents,
+  type GameLogEvent
+} from '../event-log'
+
+const question = {
+  id: 'q1',
+  text: 'Question 1',
+  optionA: 'A1',
+  optionB: 'B1',
+  optionC: 'C1',
+  optionD: 'D1',
+  correctAnswer: 'B'
+}
+
+const gameLog: GameLogEvent[] = [
+  { type: 'player-joined', playerId: 'p1', playerName: 'Alice' },
+  { type: 'player-joined', playerId: 'p2', playerName: 'Bob' },
+  { type: 'player-joined', playerId: 'p3', playerName: 'Carol' },
+  { type: 'admin-action', action: 'start-game', adminId: 'admin1' },
+  { type: 'status-changed', status: 'starting' },
+  { type: 'status-changed', status: 'in_progress' },
+  {
+    type: 'question-sent',
+    questionNumber: 1,
+    question,
+    phase: 'normal',
+    isFinalQuestion: false,
+    tiebreakPlayers: []
+  },
+  { type: 'timer-boundary', questionId: 'q1', boundary: 'started', remainingMs: 10000 },
+  { type: 'answer-received', playerId: 'p1', questionId: 'q1', selectedAnswer: 'B', responseTime: 1.2, isCorrect: true },
+  { type: 'answer-received', playerId: 'p2', questionId: 'q1', selectedAnswer: 'A', responseTime: 2.5, isCorrect: false },
+  {
+    type: 'question-result',
+    questionId: 'q1',
+    correctAnswerers: ['p1'],
+    incorrectAnswerers: ['p2'],
+    survivors: ['p1', 'p3'],
+    lives: { p1: 1, p3: 1 },
+    scores: { p1: 140, p2: 0, p3: 0 }
+  },
+  { type: 'player-eliminated', playerId: 'p2', questionId: 'q1', reason: 'wrong_answer' },
+  { type: 'phase-changed', phase: 'final_showdown', tiebreakPlayers: [], tiebreakRound: 0 },
+  { type: 'status-changed', status: 'finished' },
+  { type: 'game-over', winnerId: 'p1', questionsPlayed: 1 }
+]
+
+describe('Game Event Log', () => {
+  describe('replayGameEvents', () => {
+    it('should rebuild the lobby from join events', () => {
+      // Act
+      const state = replayGameEvents(gameLog, 2, 2)
+
+      // Assert
+      expect(state.status).toBe('waiting')
+      expect(state.players).toEqual(['p1', 'p2', 'p3'])
+      expect(state.playerNames).toEqual({ p1: 'Alice', p2: 'Bob', p3: 'Carol' })
+      expect(state.playerLives).toEqual({ p1: 2, p2: 2, p3: 2 })
+    })
+
+    it('should show the open question and the answers received so far', () => {
+      // Act
+      const state = replayGameEvents(gameLog, 1, 8)
+
+      // Assert
+      expect(state).toMatchObject({
+        status: 'in_progress',
+        questionNumber: 1,
+        question,
+        questionClosed: false,
+        remainingMs: 10000,
+        answers: { p1: { selectedAnswer: 'B', responseTime: 1.2, isCorrect: true } }
+      })
+    })
+
+    it('should apply results and eliminations', () => {
+      // Act
+      const state = replayGameEvents(gameLog, 1, 12)
+
+      // Assert
+      expect(state.questionClosed).toBe(true)
+      expect(state.eliminatedPlayers).toEqual(['p2'])
+      expect(state.playerLives).toEqual({ p1: 1, p2: 0, p3: 1 })
+      expect(state.playerScores).toEqual({ p1: 140, p2: 0, p3: 0 })
+      expect(state.phase).toBe('final_showdown')
+    })
+
+    it('should replay the whole log without an index', () => {
+      // Act
+      const state = replayGameEvents(gameLog)
+
+      // Assert
+      expect(state).toMatchObject({ status: 'finished', winnerId: 'p1' })
+    })
+
+    it('should return the initial state before the first event', () => {
+      expect(replayGameEvents(gameLog, 1, -1)).toEqual(createReplayState())
+    })
+  })
+
+  describe('applyGameEvent', () => {
+    it('should keep the seat of disconnected players until they reconnect', () => {
+      // Arrange
+      const state = replayGameEvents(gameLog, 1, 8)
+
+      // Act
+      const disconnected = applyGameEvent(state, { type: 'player-disconnected', playerId: 'p3' })
+      const reconnected = applyGameEvent(disconnected, { type: 'player-reconnected', playerId: 'p3' })
+
+      // Assert
+      expect(disconnected.players).toEqual(['p1', 'p2', 'p3'])
+      expect(disconnected.disconnectedPlayers).toEqual(['p3'])
+      expect(disconnected.eliminatedPlayers).toEqual([])
+      expect(reconnected.disconnectedPlayers).toEqual([])
+    })
+
+    it('should eliminate players whose reconnect window expires during the game', () => {
+      // Arrange
+      const state = applyGameEvent(replayGameEvents(gameLog, 2, 8), { type: 'player-disconnected', playerId: 'p3' })
+
+      // Act
+      const next = applyGameEvent(state, { type: 'reconnect-expired', playerId: 'p3' })
+
+      // Assert
+      expect(next.eliminatedPlayers).toEqual(['p3'])
+      expect(next.playerLives.p3).toBe(0)
+      expect(next.disconnectedPlayers).toEqual([])
+    })
+
+    it('should release the lobby seat when the reconnect window expires before the start', () => {
+      // Arrange
+      const state = replayGameEvents(gameLog, 1, 2)
+
+      // Act
+      const next = applyGameEvent(state, { type: 'reconnect-expired', playerId: 'p3' })
+
+      // Assert
+      expect(next.players).toEqual(['p1', 'p2'])
+      expect(next.eliminatedPlayers).toEqual([])
+    })
+
+    it('should keep the lives of players who rejoin', () => {
+      // Arrange
+      const state = { ...createReplayState(), playerLives: { p1: 1 } }
+
+      // Act
+      const next = applyGameEvent(state, { type: 'player-joined', playerId: 'p1', playerName: 'Alice' }, 3)
+
+      // Assert
+      expect(next.playerLives).toEqual({ p1: 1 })
+    })
+
+    it('should clear the remaining time when the timer expires', () => {
+      // Arrange
+      const state = { ...createReplayState(), remainingMs: 4000 }
+
+      // Act
+      const next = applyGameEvent(state, { type: 'timer-boundary', questionId: 'q1', boundary: 'expired', remainingMs: 0 })
+
+      // Assert
+      expect(next.remainingMs).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,31 @@
+/**
+ * Unit Tests for Final Showdown Logic
+ */
+
+import { describe, it, expect } from 'vitest'
+import { shouldStartFinalShowdown } from '../final-showdown'
+
+describe('Final Showdown Logic', () => {
+  describe('shouldStartFinalShowdown', () => {
+    it('should start once survivors drop to the threshold', () => {
+      expect(shouldStartFinalShowdown('normal', 3, 3)).toBe(true)
+      expect(shouldStartFinalShowdown('normal', 2, 3)).toBe(true)
+    })
+
+    it('should not start above the threshold', () => {
+      expect(shouldStartFinalShowdown('normal', 4, 3)).toBe(false)
+    })
+
+    it('should not start with a single survivor', () => {
+      expect(shouldStartFinalShowdown('normal', 1, 3)).toBe(false)
+    })
+
+    it('should not start twice', () => {
+      expect(shouldStartFinalShowdown('final_showdown', 2, 3)).toBe(false)
+    })
+
+    it('should use the default threshold', () => {
+      expect(shouldStartFinalShowdown('normal', 3)).toBe(true)
+    })
+  })
+})
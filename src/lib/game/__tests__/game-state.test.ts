@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for the Game State Machine
+ *
+ * Verifies which status transitions are allowed, the errors refused ones
+ * report, and the columns a transition writes
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  MIN_PLAYERS_TO_START,
+  buildStatusUpdate,
+  canTransition,
+  checkTransition,
+  getNextStatuses,
+  toSessionStatus
+} from '../game-state'
+
+describe('Game State Machine', () => {
+  describe('getNextStatuses', () => {
+    it('should list the statuses each game may move to', () => {
+      expect(getNextStatuses('WAITING')).toEqual(['STARTING', 'CANCELLED'])
+      expect(getNextStatuses('IN_PROGRESS')).toEqual(['PAUSED', 'FINISHED', 'CANCELLED'])
+      expect(getNextStatuses('PAUSED')).toEqual(['IN_PROGRESS', 'FINISHED', 'CANCELLED'])
+      expect(getNextStatuses('FINISHED')).toEqual([])
+      expect(getNextStatuses('CANCELLED')).toEqual([])
+    })
+  })
+
+  describe('canTransition', () => {
+    it('should follow the lobby, play and pause cycle', () => {
+      expect(canTransition('WAITING', 'STARTING')).toBe(true)
+      expect(canTransition('STARTING', 'IN_PROGRESS')).toBe(true)
+      expect(canTransition('IN_PROGRESS', 'PAUSED')).toBe(true)
+      expect(canTransition('PAUSED', 'IN_PROGRESS')).toBe(true)
+      expect(canTransition('WAITING', 'IN_PROGRESS')).toBe(false)
+      expect(canTransition('WAITING', 'PAUSED')).toBe(false)
+      expect(canTransition('IN_PROGRESS', 'WAITING')).toBe(false)
+    })
+  })
+
+  describe('checkTransition', () => {
+    it('should return the effects of an allowed transition', () => {
+      // Act
+      const start = checkTransition('WAITING', 'STARTING', { playerCount: MIN_PLAYERS_TO_START })
+      const finish = checkTransition('PAUSED', 'FINISHED')
+
+      // Assert
+      expect(start).toEqual({ allowed: true, effects: ['stamp-started-at'] })
+      expect(finish).toEqual({
+        allowed: true,
+        effects: ['clear-timers', 'stamp-ended-at', 'record-statistics']
+      })
+    })
+
+    it('should refuse conflicting transitions with the shared error codes', () => {
+      // Act & Assert
+      expect(checkTransition('FINISHED', 'IN_PROGRESS')).toMatchObject({ allowed: false, errorCode: 'GAME_ALREADY_ENDED' })
+      expect(checkTransition('CANCELLED', 'CANCELLED')).toMatchObject({ allowed: false, errorCode: 'GAME_ALREADY_ENDED' })
+      expect(checkTransition('IN_PROGRESS', 'STARTING')).toMatchObject({ allowed: false, errorCode: 'GAME_ALREADY_STARTED' })
+      expect(checkTransition('WAITING', 'PAUSED')).toMatchObject({ allowed: false, errorCode: 'GAME_NOT_STARTED' })
+      expect(checkTransition('IN_PROGRESS', 'IN_PROGRESS')).toMatchObject({
+        allowed: false,
+        errorCode: 'INVALID_STATE_TRANSITION'
+      })
+    })
+
+    it('should refuse to start without enough players', () => {
+      // Act
+      const result = checkTransition('WAITING', 'STARTING', { playerCount: MIN_PLAYERS_TO_START - 1 })
+
+      // Assert
+      expect(result).toMatchObject({ allowed: false, errorCode: 'INSUFFICIENT_PLAYERS' })
+      expect(checkTransition('WAITING', 'STARTING').allowed).toBe(true)
+    })
+  })
+
+  describe('buildStatusUpdate', () => {
+    it('should stamp the start and end times the effects call for', () => {
+      // Arrange
+      const now = new Date('2026-01-01T00:00:00Z')
+
+      // Act & Assert
+      expect(buildStatusUpdate('STARTING', ['stamp-started-at'], now)).toEqual({ status: 'STARTING', startedAt: now })
+      expect(buildStatusUpdate('CANCELLED', ['clear-timers', 'stamp-ended-at'], now))
+        .toEqual({ status: 'CANCELLED', endedAt: now })
+      expect(buildStatusUpdate('PAUSED', ['freeze-timer'], now)).toEqual({ status: 'PAUSED' })
+    })
+  })
+
+  describe('toSessionStatus', () => {
+    it('should map room statuses back to session statuses', () => {
+      expect(toSessionStatus('waiting')).toBe('WAITING')
+      expect(toSessionStatus('starting')).toBe('STARTING')
+      expect(toSessionStatus('in_progress')).toBe('IN_PROGRESS')
+      expect(toSessionStatus('paused')).toBe('PAUSED')
+      expect(toSessionStatus('finished')).toBe('FINISHED')
+    })
+  })
+})
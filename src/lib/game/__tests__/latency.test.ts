@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for Latency Compensation
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  addLatencySample,
+  computeAnswerTiming,
+  estimateRoundTripLatency,
+  MAX_LATENCY_COMPENSATION_MS,
+  MAX_LATENCY_SAMPLES
+} from '../latency'
+
+describe('Latency Compensation', () => {
+  describe('addLatencySample', () => {
+    it('should keep only the most recent samples', () => {
+      // Arrange
+      const samples = Array.from({ length: MAX_LATENCY_SAMPLES }, (_, index) => index)
+
+      // Act
+      const updated = addLatencySample(samples, 99)
+
+      // Assert
+      expect(updated).toHaveLength(MAX_LATENCY_SAMPLES)
+      expect(updated[updated.length - 1]).toBe(99)
+      expect(updated[0]).toBe(1)
+    })
+
+    it('should ignore invalid samples', () => {
+      expect(addLatencySample([10], -5)).toEqual([10])
+      expect(addLatencySample([10], Number.NaN)).toEqual([10])
+    })
+  })
+
+  describe('estimateRoundTripLatency', () => {
+    it('should return zero without samples', () => {
+      expect(estimateRoundTripLatency([])).toBe(0)
+    })
+
+    it('should use the median round trip', () => {
+      expect(estimateRoundTripLatency([100, 40, 900])).toBe(100)
+      expect(estimateRoundTripLatency([40, 60, 80, 100])).toBe(70)
+    })
+  })
+
+  describe('computeAnswerTiming', () => {
+    it('should subtract the round trip from the server-measured time', () => {
+      // Act
+      const timing = computeAnswerTiming(1_000, 4_000, 100)
+
+      // Assert
+      expect(timing).toEqual({
+        responseTime: 2.9,
+        answeredAt: new Date(3_900),
+        compensationMs: 100
+      })
+    })
+
+    it('should cap the compensation', () => {
+      // Act
+      const timing = computeAnswerTiming(1_000, 4_000, 2_000)
+
+      // Assert
+      expect(timing.compensationMs).toBe(MAX_LATENCY_COMPENSATION_MS)
+      expect(timing.responseTime).toBe((3_000 - MAX_LATENCY_COMPENSATION_MS) / 1000)
+    })
+
+    it('should never produce a negative response time', () => {
+      // Act
+      const timing = computeAnswerTiming(1_000, 1_020, 100)
+
+      // Assert
+      expect(timing.compensationMs).toBe(20)
+      expect(timing.responseTime).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Lives Logic
+ *
+ * Verifies how elimination penalties are converted into lost lives
+ */
+
+import { describe, it, expect } from 'vitest'
+import { applyLifeLosses, forfeitLives } from '../lives'
+
+describe('Lives Logic', () => {
+  describe('applyLifeLosses', () => {
+    it('should eliminate every penalized player with the default single life', () => {
+      // Act
+      const outcome = applyLifeLosses(
+        [{ playerId: 'player1', reason: 'wrong_answer' }],
+        new Map()
+      )
+
+      // Assert
+      expect(outcome.eliminations).toEqual([{ playerId: 'player1', reason: 'wrong_answer' }])
+      expect(outcome.lifeLosses).toEqual([
+        { playerId: 'player1', reason: 'wrong_answer', livesRemaining: 0 }
+      ])
+    })
+
+    it('should only take a life while the player has lives left', () => {
+      // Arrange
+      const lives = new Map([['player1', 3], ['player2', 1]])
+
+      // Act
+      const outcome = applyLifeLosses(
+        [
+          { playerId: 'player1', reason: 'timeout' },
+          { playerId: 'player2', reason: 'slowest_correct' }
+        ],
+        lives,
+        3
+      )
+
+      // Assert
+      expect(outcome.lifeLosses).toEqual([
+        { playerId: 'player1', reason: 'timeout', livesRemaining: 2 },
+        { playerId: 'player2', reason: 'slowest_correct', livesRemaining: 0 }
+      ])
+      expect(outcome.eliminations).toEqual([{ playerId: 'player2', reason: 'slowest_correct' }])
+    })
+
+    it('should use the starting lives for players without a recorded count', () => {
+      // Act
+      const outcome = applyLifeLosses([{ playerId: 'player1', reason: 'wrong_answer' }], new Map(), 2)
+
+      // Assert
+      expect(outcome.lifeLosses[0]?.livesRemaining).toBe(1)
+      expect(outcome.eliminations).toEqual([])
+    })
+
+    it('should not mutate the given life counts', () => {
+      // Arrange
+      const lives = new Map([['player1', 2]])
+
+      // Act
+      applyLifeLosses([{ playerId: 'player1', reason: 'wrong_answer' }], lives, 2)
+
+      // Assert
+      expect(lives.get('player1')).toBe(2)
+    })
+  })
+  describe('forfeitLives', () => {
+    it('should eliminate forfeiting players whatever their lives', () => {
+      // Arrange
+      const outcome = applyLifeLosses([{ playerId: 'player1', reason: 'wrong_answer' }], new Map(), 3)
+
+      // Act
+      const forfeited = forfeitLives(outcome, ['player2'])
+
+      // Assert
+      expect(forfeited.eliminations).toEqual([{ playerId: 'player2', reason: 'timeout' }])
+      expect(forfeited.lifeLosses).toEqual([
+        { playerId: 'player1', reason: 'wrong_answer', livesRemaining: 2 },
+        { playerId: 'player2', reason: 'timeout', livesRemaining: 0 }
+      ])
+    })
+  })
+})
@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for the Live Monitor State
+ *
+ * Verifies that server events fold into the monitor state and that the
+ * screen follows the game from the lobby to the final results
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applyMonitorEvent,
+  createMonitorState,
+  getMonitorScreen,
+  type MonitorEvent,
+  type MonitorState
+} from '../monitor-state'
+import type { MonitorStateData, NextQuestionData, QuestionResult } from '../../socket/types'
+
+const monitorState: MonitorStateData = {
+  gameCode: 'ABC123',
+  status: 'waiting',
+  phase: 'normal',
+  players: [
+    { playerId: 'p1', playerName: 'Alice', status: 'active', lives: 1, score: 0, teamId: null }
+  ],
+  eliminatedPlayers: [],
+  spectatorCount: 0,
+  startingLives: 1,
+  currentQuestion: 0,
+  totalQuestions: 5,
+  question: null,
+  remainingTime: null,
+  answers: [],
+  tiebreakPlayers: [],
+  tiebreakRound: 0,
+  teams: [],
+  teamStandings: []
+}
+
+const nextQuestion: NextQuestionData = {
+  questionNumber: 1,
+  question: {
+    id: 'q1',
+    text: 'Question 1',
+    optionA: 'A1',
+    optionB: 'B1',
+    optionC: 'C1',
+    optionD: 'D1'
+  },
+  timeLimit: 10,
+  isFinalQuestion: false,
+  isFinalShowdown: false,
+  isSuddenDeath: false,
+  tiebreakPlayers: [],
+  activePlayersCount: 2,
+  startingLives: 1,
+  lives: { p1: 1, p2: 1 }
+}
+
+const questionResult: QuestionResult = {
+  questionId: 'q1',
+  correctAnswer: 'B',
+  eliminatedPlayerId: 'p2',
+  eliminations: [{ playerId: 'p2', reason: 'wrong_answer' }],
+  winnerId: null,
+  correctAnswerers: ['p1'],
+  incorrectAnswerers: ['p2'],
+  survivors: ['p1'],
+  lifeLosses: [],
+  lives: { p1: 1 },
+  scores: [{ playerId: 'p1', points: 120, total: 120, streak: 1 }],
+  shadowScores: [],
+  teamStandings: [],
+  numericRanking: [],
+  isFinalQuestion: false
+}
+
+const applyEvents = (events: MonitorEvent[], state: MonitorState = createMonitorState()) =>
+  events.reduce(applyMonitorEvent, state)
+
+describe('Live Monitor State', () => {
+  it('should wait for the room state before showing anything', () => {
+    // Act
+    const state = applyEvents([{ type: 'spectator-count', data: { spectatorCount: 3 } }])
+
+    // Assert
+    expect(getMonitorScreen(state)).toBe('connecting')
+    expect(state.spectatorCount).toBe(3)
+  })
+
+  it('should follow players joining the lobby and count down the start', () => {
+    // Act
+    const state = applyEvents([
+      { type: 'monitor-state', data: monitorState },
+      { type: 'player-joined', data: { playerId: 'p2', playerName: 'Bob', playerCount: 2, maxPlayers: 20, teamId: null } },
+      { type: 'player-joined', data: { playerId: 'p3', playerName: 'Carol', playerCount: 3, maxPlayers: 20, teamId: null } },
+      { type: 'player-left', data: { playerId: 'p3', playerCount: 2 } },
+      { type: 'game-starting', data: { countdown: 5, message: 'Starting' } },
+      { type: 'countdown-tick' },
+      { type: 'countdown-tick' }
+    ])
+
+    // Assert
+    expect(state.players.map(player => player.playerName)).toEqual(['Alice', 'Bob'])
+    expect(state.countdown).toBe(3)
+    expect(getMonitorScreen(state)).toBe('countdown')
+  })
+
+  it('should show the question with its answers, then the results', () => {
+    // Arrange
+    const lobby = applyEvents([
+      { type: 'monitor-state', data: monitorState },
+      { type: 'player-joined', data: { playerId: 'p2', playerName: 'Bob', playerCount: 2, maxPlayers: 20, teamId: null } },
+      { type: 'game-started', data: { currentQuestion: 0, totalQuestions: 5 } }
+    ])
+
+    // Act
+    const asked = applyEvents([
+      { type: 'next-question', data: nextQuestion },
+      { type: 'timer-update', data: { remainingTime: 7, isUrgent: false } },
+      { type: 'monitor-answer', data: { playerId: 'p1', questionId: 'q1', selectedAnswer: 'B', responseTime: 1.2 } },
+      { type: 'monitor-answer', data: { playerId: 'p2', questionId: 'q0', selectedAnswer: 'A', responseTime: 2 } }
+    ], lobby)
+    const answered = applyEvents([{ type: 'question-result', data: questionResult }], asked)
+
+    // Assert
+    expect(getMonitorScreen(lobby)).toBe('standby')
+    expect(getMonitorScreen(asked)).toBe('question')
+    expect(asked.remainingTime).toBe(7)
+    expect(Object.keys(asked.answers)).toEqual(['p1'])
+    expect(getMonitorScreen(answered)).toBe('results')
+    expect(answered.eliminatedPlayers).toEqual(['p2'])
+    expect(answered.players).toMatchObject([
+      { playerId: 'p1', status: 'active', score: 120 },
+      { playerId: 'p2', status: 'eliminated', lives: 0 }
+    ])
+  })
+
+  it('should announce a sudden death until the next question', () => {
+    // Arrange
+    const answered = applyEvents([
+      { type: 'monitor-state', data: { ...monitorState, status: 'in_progress', question: nextQuestion, remainingTime: 4 } },
+      { type: 'question-result', data: questionResult }
+    ])
+
+    // Act
+    const announced = applyEvents([
+      { type: 'sudden-death', data: { players: ['p1', 'p3'], round: 1, reason: 'dead_heat' } }
+    ], answered)
+    const nextRound = applyEvents([
+      { type: 'next-question', data: { ...nextQuestion, questionNumber: 2, isSuddenDeath: true } }
+    ], announced)
+
+    // Assert
+    expect(getMonitorScreen(announced)).toBe('announcement')
+    expect(announced.tiebreakPlayers).toEqual(['p1', 'p3'])
+    expect(getMonitorScreen(nextRound)).toBe('question')
+    expect(nextRound.phase).toBe('sudden_death')
+  })
+
+  it('should freeze the question while paused and end on the final results', () => {
+    // Arrange
+    const asked = applyEvents([
+      { type: 'monitor-state', data: { ...monitorState, status: 'in_progress', question: nextQuestion, remainingTime: 8 } }
+    ])
+
+    // Act
+    const paused = applyEvents([{ type: 'game-paused', data: { reason: 'Break', remainingTime: 6 } }], asked)
+    const finished = applyEvents([
+      { type: 'game-resumed', data: { remainingTime: 6 } },
+      { type: 'question-result', data: { ...questionResult, isFinalQuestion: true } },
+      {
+        type: 'game-over',
+        data: { winnerId: 'p1', finalRanking: [], questionsPlayed: 1, teamStandings: [], winningTeamId: null }
+      },
+      { type: 'game-ended', data: { reason: 'Closed by the host' } }
+    ], paused)
+
+    // Assert
+    expect(getMonitorScreen(paused)).toBe('paused')
+    expect(paused.remainingTime).toBe(6)
+    expect(getMonitorScreen(finished)).toBe('finished')
+    expect(finished.gameOver?.winnerId).toBe('p1')
+  })
+
+  it('should show a game stopped without a winner as ended', () => {
+    // Act
+    const state = applyEvents([
+      { type: 'monitor-state', data: { ...monitorState, status: 'in_progress' } },
+      { type: 'game-ended', data: { reason: 'Cancelled' } }
+    ])
+
+    // Assert
+    expect(getMonitorScreen(state)).toBe('ended')
+    expect(state.endedReason).toBe('Cancelled')
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Numeric Answers
+ *
+ * Verifies parsing and distance ranking of "closest answer wins" guesses
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { PlayerAnswer } from '../elimination-logic'
+import {
+  findClosestPlayerIds,
+  formatNumericValue,
+  parseNumericAnswer,
+  rankNumericAnswers
+} from '../numeric-answers'
+
+const createAnswer = (playerId: string, selectedAnswer: string, second: number): PlayerAnswer => ({
+  playerId,
+  questionId: 'q1',
+  selectedAnswer,
+  responseTime: second,
+  serverTimestamp: new Date(`2024-01-01T12:00:0${second}Z`)
+})
+
+describe('Numeric Answers', () => {
+  describe('parseNumericAnswer', () => {
+    it('should read plain, grouped, full-width and negative numbers', () => {
+      // Act & Assert
+      expect(parseNumericAnswer('3776')).toBe(3776)
+      expect(parseNumericAnswer('3,776')).toBe(3776)
+      expect(parseNumericAnswer('３７７６')).toBe(3776)
+      expect(parseNumericAnswer('-12.5')).toBe(-12.5)
+      expect(parseNumericAnswer('.5')).toBe(0.5)
+    })
+
+    it('should reject anything that is not a number', () => {
+      // Act & Assert
+      expect(parseNumericAnswer('')).toBeNull()
+      expect(parseNumericAnswer('abc')).toBeNull()
+      expect(parseNumericAnswer('1e3')).toBeNull()
+      expect(parseNumericAnswer('1.2.3')).toBeNull()
+    })
+  })
+
+  describe('rankNumericAnswers', () => {
+    it('should rank guesses by distance, the earlier answer first on equal distance', () => {
+      // Arrange
+      const answers = [
+        createAnswer('player1', '110', 3),
+        createAnswer('player2', '90', 2),
+        createAnswer('player3', '101', 4),
+        createAnswer('player4', '', 5)
+      ]
+
+      // Act
+      const ranking = rankNumericAnswers(answers, 100)
+
+      // Assert
+      expect(ranking).toEqual([
+        { playerId: 'player3', value: 101, distance: 1, responseTime: 4, rank: 1 },
+        { playerId: 'player2', value: 90, distance: 10, responseTime: 2, rank: 2 },
+        { playerId: 'player1', value: 110, distance: 10, responseTime: 3, rank: 3 }
+      ])
+    })
+
+    it('should treat decimal guesses equally far from the target as tied', () => {
+      // Arrange
+      const answers = [createAnswer('player1', '0.3', 2), createAnswer('player2', '0.1', 1)]
+
+      // Act
+      const ranking = rankNumericAnswers(answers, 0.2)
+
+      // Assert
+      expect(findClosestPlayerIds(ranking)).toEqual(['player2', 'player1'])
+    })
+  })
+
+  describe('formatNumericValue', () => {
+    it('should group digits and append the unit', () => {
+      // Act & Assert
+      expect(formatNumericValue(3776, 'm')).toBe('3,776m')
+      expect(formatNumericValue(0.25)).toBe('0.25')
+    })
+  })
+})
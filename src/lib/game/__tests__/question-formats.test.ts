@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for Question Formats
+ *
+ * Verifies answer normalization and correctness for every question format
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  formatAnswerLabel,
+  getAnswerOptionTexts,
+  getOptionLetters,
+  isAnswerCorrect
+} from '../question-formats'
+
+describe('Question Formats', () => {
+  describe('isAnswerCorrect', () => {
+    it('should match a multiple choice answer exactly', () => {
+      // Act & Assert
+      expect(isAnswerCorrect('MULTIPLE_CHOICE', 'B', 'B')).toBe(true)
+      expect(isAnswerCorrect('MULTIPLE_CHOICE', 'b', 'B')).toBe(false)
+      expect(isAnswerCorrect(undefined, 'C', 'C')).toBe(true)
+    })
+
+    it('should match a true/false answer', () => {
+      // Act & Assert
+      expect(isAnswerCorrect('TRUE_FALSE', 'TRUE', 'TRUE')).toBe(true)
+      expect(isAnswerCorrect('TRUE_FALSE', 'FALSE', 'TRUE')).toBe(false)
+    })
+
+    it('should require every correct option of a multi-select answer in any order', () => {
+      // Act & Assert
+      expect(isAnswerCorrect('MULTI_SELECT', 'C,A', 'A,C')).toBe(true)
+      expect(isAnswerCorrect('MULTI_SELECT', 'A', 'A,C')).toBe(false)
+      expect(isAnswerCorrect('MULTI_SELECT', 'A,C,D', 'A,C')).toBe(false)
+    })
+
+    it('should require the exact sequence of an ordering answer', () => {
+      // Act & Assert
+      expect(isAnswerCorrect('ORDERING', 'C, A, D, B', 'C,A,D,B')).toBe(true)
+      expect(isAnswerCorrect('ORDERING', 'A,C,D,B', 'C,A,D,B')).toBe(false)
+    })
+
+    it('should match free text regardless of width, case and spacing', () => {
+      // Act & Assert
+      expect(isAnswerCorrect('FREE_TEXT', '  Ｍｔ．  Fuji ', 'Mt. Fuji')).toBe(true)
+      expect(isAnswerCorrect('FREE_TEXT', '富士山', '富士山')).toBe(true)
+      expect(isAnswerCorrect('FREE_TEXT', '富士', '富士山')).toBe(false)
+    })
+
+    it('should only accept an exact numeric hit', () => {
+      // Act & Assert
+      expect(isAnswerCorrect('NUMERIC', '3,776', '3776')).toBe(true)
+      expect(isAnswerCorrect('NUMERIC', '3775', '3776')).toBe(false)
+    })
+
+        it('should never accept a timeout', () => {
+      // Act & Assert
+      expect(isAnswerCorrect('FREE_TEXT', '', '')).toBe(false)
+      expect(isAnswerCorrect('MULTI_SELECT', '', 'A')).toBe(false)
+    })
+  })
+
+  describe('getOptionLetters', () => {
+    it('should list only the options that are filled in', () => {
+      // Act
+      const letters = getOptionLetters({ optionA: 'Tokyo', optionB: 'Osaka', optionC: 'Nagoya', optionD: ' ' })
+
+      // Assert
+      expect(letters).toEqual(['A', 'B', 'C'])
+    })
+  })
+
+  describe('formatAnswerLabel', () => {
+    it('should format answers for display', () => {
+      // Act & Assert
+      expect(formatAnswerLabel('TRUE_FALSE', 'FALSE')).toBe('×')
+      expect(formatAnswerLabel('MULTI_SELECT', 'C,A')).toBe('A・C')
+      expect(formatAnswerLabel('ORDERING', 'C,A,B')).toBe('C → A → B')
+      expect(formatAnswerLabel('MULTIPLE_CHOICE', 'D')).toBe('D')
+    })
+  })
+
+  describe('getAnswerOptionTexts', () => {
+    it('should list the options an answer refers to in answer order', () => {
+      // Arrange
+      const question = { optionA: 'Hokkaido', optionB: 'Honshu', optionC: 'Kyushu', optionD: null }
+
+      // Act & Assert
+      expect(getAnswerOptionTexts('ORDERING', question, 'B,A,C')).toEqual(['Honshu', 'Hokkaido', 'Kyushu'])
+      expect(getAnswerOptionTexts('MULTI_SELECT', question, 'C,A')).toEqual(['Hokkaido', 'Kyushu'])
+      expect(getAnswerOptionTexts('TRUE_FALSE', question, 'TRUE')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Final Ranking Logic
+ *
+ * Verifies elimination-order ranking and its tie-breakers
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildFinalRanking, type RankingCandidate } from '../ranking'
+
+const candidate = (
+  playerId: string,
+  eliminatedRound: number | null,
+  correctAnswers = 0,
+  averageResponseTime: number | null = null
+): RankingCandidate => ({
+  playerId,
+  playerName: `Name ${playerId}`,
+  eliminatedRound,
+  correctAnswers,
+  questionsAnswered: correctAnswers,
+  averageResponseTime,
+  score: 0
+})
+
+describe('Ranking Logic', () => {
+  describe('buildFinalRanking', () => {
+    it('should rank survivors above players eliminated later, then earlier', () => {
+      // Act
+      const ranking = buildFinalRanking(
+        [candidate('early', 1), candidate('survivor', null), candidate('late', 5)],
+        null
+      )
+
+      // Assert
+      expect(ranking.map(entry => [entry.playerId, entry.rank])).toEqual([
+        ['survivor', 1],
+        ['late', 2],
+        ['early', 3]
+      ])
+    })
+
+    it('should always put the winner first', () => {
+      // Act
+      const ranking = buildFinalRanking(
+        [candidate('other', null, 9, 1), candidate('winner', null, 3, 4)],
+        'winner'
+      )
+
+      // Assert
+      expect(ranking[0]).toMatchObject({ playerId: 'winner', rank: 1 })
+      expect(ranking[1]).toMatchObject({ playerId: 'other', rank: 2 })
+    })
+
+    it('should break same-round ties by correct answers, then average response time', () => {
+      // Act
+      const ranking = buildFinalRanking(
+        [
+          candidate('slow', 3, 2, 5),
+          candidate('fewer', 3, 1, 1),
+          candidate('fast', 3, 2, 2),
+          candidate('silent', 3, 2, null)
+        ],
+        null
+      )
+
+      // Assert
+      expect(ranking.map(entry => entry.playerId)).toEqual(['fast', 'slow', 'silent', 'fewer'])
+    })
+
+    it('should share a rank between players tied on every criterion', () => {
+      // Act
+      const ranking = buildFinalRanking(
+        [candidate('winner', null), candidate('a', 2, 1, 3), candidate('b', 2, 1, 3), candidate('c', 1)],
+        'winner'
+      )
+
+      // Assert
+      expect(ranking.map(entry => entry.rank)).toEqual([1, 2, 2, 4])
+    })
+
+    it('should keep the player names and statistics on each entry', () => {
+      // Act
+      const [entry] = buildFinalRanking([candidate('player1', null, 4, 2.5)], 'player1')
+
+      // Assert
+      expect(entry).toEqual({
+        playerId: 'player1',
+        playerName: 'Name player1',
+        eliminatedRound: null,
+        correctAnswers: 4,
+        questionsAnswered: 4,
+        averageResponseTime: 2.5,
+        score: 0,
+        rank: 1
+      })
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for Scoring Logic
+ *
+ * Verifies the speed, difficulty and streak components of the point table
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SCORE_TABLE,
+  MAX_STREAK_BONUS_STEPS,
+  calculateAnswerPoints,
+  scoreQuestion,
+  type ScoreTable
+} from '../scoring'
+import type { PlayerAnswer } from '../elimination-logic'
+
+const answer = (playerId: string, responseTime: number, isCorrect: boolean): PlayerAnswer => ({
+  playerId,
+  questionId: 'q1',
+  selectedAnswer: isCorrect ? 'A' : 'B',
+  responseTime,
+  serverTimestamp: new Date('2024-01-01T12:00:00Z'),
+  isCorrect
+})
+
+const flatTable: ScoreTable = {
+  pointsPerCorrect: 100,
+  speedBonusPoints: 50,
+  streakBonusPoints: 10,
+  difficultyMultipliers: { EASY: 1, MEDIUM: 1, HARD: 2 }
+}
+
+describe('Scoring Logic', () => {
+  describe('calculateAnswerPoints', () => {
+    it('should scale the speed bonus by the time left', () => {
+      expect(calculateAnswerPoints({ responseTime: 0, timeLimit: 10, streak: 1 }, flatTable)).toBe(150)
+      expect(calculateAnswerPoints({ responseTime: 5, timeLimit: 10, streak: 1 }, flatTable)).toBe(125)
+      expect(calculateAnswerPoints({ responseTime: 12, timeLimit: 10, streak: 1 }, flatTable)).toBe(100)
+    })
+
+    it('should multiply the answer points by the question difficulty', () => {
+      // Act
+      const points = calculateAnswerPoints(
+        { responseTime: 10, timeLimit: 10, difficulty: 'HARD', streak: 1 },
+        flatTable
+      )
+
+      // Assert
+      expect(points).toBe(200)
+    })
+
+    it('should treat questions without a difficulty as medium', () => {
+      expect(calculateAnswerPoints({ responseTime: 10, timeLimit: 10, streak: 1 })).toBe(
+        DEFAULT_SCORE_TABLE.pointsPerCorrect * DEFAULT_SCORE_TABLE.difficultyMultipliers.MEDIUM
+      )
+    })
+
+    it('should add a capped streak bonus after the first correct answer', () => {
+      // Arrange
+      const input = { responseTime: 10, timeLimit: 10, difficulty: 'EASY' as const }
+
+      // Act & Assert
+      expect(calculateAnswerPoints({ ...input, streak: 3 }, flatTable)).toBe(120)
+      expect(calculateAnswerPoints({ ...input, streak: 50 }, flatTable)).toBe(
+        100 + 10 * MAX_STREAK_BONUS_STEPS
+      )
+    })
+  })
+
+  describe('scoreQuestion', () => {
+    it('should award points and extend streaks for correct answers only', () => {
+      // Arrange
+      const scores = new Map([
+        ['player1', { total: 300, streak: 2 }],
+        ['player2', { total: 150, streak: 1 }]
+      ])
+
+      // Act
+      const awards = scoreQuestion(
+        [answer('player1', 10, true), answer('player2', 1, false)],
+        ['player1', 'player2', 'player3'],
+        scores,
+        { timeLimit: 10, table: flatTable }
+      )
+
+      // Assert
+      expect(awards).toEqual([
+        { playerId: 'player1', points: 120, total: 420, streak: 3 },
+        { playerId: 'player2', points: 0, total: 150, streak: 0 },
+        { playerId: 'player3', points: 0, total: 0, streak: 0 }
+      ])
+    })
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for Game Statistics
+ *
+ * Verifies how answers and asked questions are aggregated for GameStatistics
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calculateGameDuration,
+  summarizeGameStatistics,
+  type StatisticsAnswer
+} from '../statistics'
+
+const answer = (overrides: Partial<StatisticsAnswer> = {}): StatisticsAnswer => ({
+  isCorrect: true,
+  isTimeout: false,
+  responseTime: 2,
+  wasEliminated: false,
+  eliminationReason: null,
+  ...overrides
+})
+
+describe('Game Statistics', () => {
+  describe('calculateGameDuration', () => {
+    it('should return the duration in whole seconds', () => {
+      expect(calculateGameDuration(
+        new Date('2024-01-01T12:00:00Z'),
+        new Date('2024-01-01T12:05:30.400Z')
+      )).toBe(330)
+    })
+
+    it('should return 0 for games that never started', () => {
+      expect(calculateGameDuration(null, new Date())).toBe(0)
+    })
+  })
+
+  describe('summarizeGameStatistics', () => {
+    const summary = summarizeGameStatistics({
+      totalPlayers: 4,
+      startedAt: new Date('2024-01-01T12:00:00Z'),
+      endedAt: new Date('2024-01-01T12:02:00Z'),
+      askedQuestions: ['EASY', 'MEDIUM', 'MEDIUM', 'HARD'],
+      answers: [
+        answer({ responseTime: 1 }),
+        answer({ responseTime: 5, wasEliminated: true, eliminationReason: 'slowest_correct' }),
+        answer({ isCorrect: false, responseTime: 3, wasEliminated: true, eliminationReason: 'wrong_answer' }),
+        answer({ isCorrect: false, responseTime: 2, wasEliminated: true, eliminationReason: 'fastest_incorrect' }),
+        answer({ isCorrect: false, isTimeout: true, responseTime: null, wasEliminated: true, eliminationReason: 'timeout' }),
+        // A lost life is recorded with a reason but is not an elimination
+        answer({ isCorrect: false, isTimeout: true, responseTime: null, eliminationReason: 'timeout' })
+      ]
+    })
+
+    it('should summarize the game overview and response times', () => {
+      expect(summary).toMatchObject({
+        totalPlayers: 4,
+        questionsAsked: 4,
+        gameDuration: 120,
+        averageResponseTime: 2.75,
+        fastestOverallResponse: 1,
+        slowestOverallResponse: 5
+      })
+    })
+
+    it('should count the answer distribution and difficulty mix', () => {
+      expect(summary).toMatchObject({
+        totalCorrectAnswers: 2,
+        totalIncorrectAnswers: 2,
+        totalTimeouts: 2,
+        easyQuestionsAsked: 1,
+        mediumQuestionsAsked: 2,
+        hardQuestionsAsked: 1
+      })
+    })
+
+    it('should group eliminations by cause', () => {
+      expect(summary).toMatchObject({
+        eliminatedByWrongAnswer: 2,
+        eliminatedByTimeout: 1,
+        eliminatedBySlowest: 1
+      })
+    })
+
+    it('should leave response times empty without answers', () => {
+      // Act
+      const empty = summarizeGameStatistics({
+        totalPlayers: 0,
+        startedAt: null,
+        endedAt: null,
+        askedQuestions: [],
+        answers: []
+      })
+
+      // Assert
+      expect(empty).toMatchObject({
+        gameDuration: 0,
+        averageResponseTime: null,
+        fastestOverallResponse: null,
+        slowestOverallResponse: null
+      })
+    })
+  })
+})
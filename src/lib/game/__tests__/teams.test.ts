@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for Team Battle Logic
+ *
+ * Verifies auto-balancing, team elimination and both team scorings
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildTeamStandings,
+  findEliminatedTeams,
+  getWinningTeamId,
+  pickBalancedTeam,
+  type Team
+} from '../teams'
+
+const teams: Team[] = [
+  { id: 'red', name: 'Red', color: '#ef4444' },
+  { id: 'blue', name: 'Blue', color: '#3b82f6' },
+  { id: 'green', name: 'Green', color: null }
+]
+
+const playerTeams = new Map([
+  ['r1', 'red'],
+  ['r2', 'red'],
+  ['b1', 'blue'],
+  ['b2', 'blue'],
+  ['g1', 'green']
+])
+
+const scores = (totals: Record<string, number>) => new Map(
+  Object.entries(totals).map(([playerId, total]) => [playerId, { total }])
+)
+
+describe('Team Battle Logic', () => {
+  describe('pickBalancedTeam', () => {
+    it('should pick the smallest team', () => {
+      // Act & Assert
+      expect(pickBalancedTeam(teams, playerTeams)).toBe('green')
+    })
+
+    it('should pick the earliest team on ties', () => {
+      // Act & Assert
+      expect(pickBalancedTeam(teams, new Map())).toBe('red')
+      expect(pickBalancedTeam([], new Map())).toBeNull()
+    })
+  })
+
+  describe('findEliminatedTeams', () => {
+    it('should report teams whose members are all eliminated', () => {
+      // Act
+      const eliminated = findEliminatedTeams(teams, playerTeams, new Set(['r1', 'r2', 'b1']))
+
+      // Assert
+      expect(eliminated).toEqual(['red'])
+    })
+
+    it('should ignore teams without members', () => {
+      // Act
+      const eliminated = findEliminatedTeams(teams, new Map([['r1', 'red']]), new Set(['r1']))
+
+      // Assert
+      expect(eliminated).toEqual(['red'])
+    })
+  })
+
+  describe('buildTeamStandings', () => {
+    it('should rank teams by the sum of their members\' points', () => {
+      // Act
+      const standings = buildTeamStandings(teams, 'SPEED_POINTS', {
+        playerTeams,
+        eliminatedPlayers: new Set(['r1', 'r2']),
+        playerScores: scores({ r1: 300, r2: 200, b1: 150, b2: 100, g1: 250 }),
+        teamEliminations: new Map([['red', 2]])
+      })
+
+      // Assert
+      expect(standings.map(team => [team.id, team.score, team.rank])).toEqual([
+        ['red', 500, 1],
+        ['blue', 250, 2],
+        ['green', 250, 2]
+      ])
+      expect(getWinningTeamId(standings)).toBe('red')
+    })
+
+    it('should rank surviving teams first in a last-team-standing game', () => {
+      // Act
+      const standings = buildTeamStandings(teams, 'LAST_TEAM_STANDING', {
+        playerTeams,
+        eliminatedPlayers: new Set(['r1', 'r2', 'b1', 'g1']),
+        playerScores: scores({ r1: 900, b2: 100 }),
+        teamEliminations: new Map([['green', 1], ['red', 3]])
+      })
+
+      // Assert
+      expect(standings.map(team => [team.id, team.rank])).toEqual([
+        ['blue', 1],
+        ['red', 2],
+        ['green', 3]
+      ])
+      expect(standings[0]).toMatchObject({ memberCount: 2, survivorCount: 1, eliminatedRound: null })
+    })
+
+    it('should put the individual winner\'s team first in a last-team-standing game', () => {
+      // Act
+      const standings = buildTeamStandings(teams, 'LAST_TEAM_STANDING', {
+        playerTeams,
+        eliminatedPlayers: new Set(),
+        playerScores: scores({ r1: 500 }),
+        teamEliminations: new Map(),
+        winnerId: 'g1'
+      })
+
+      // Assert
+      expect(standings[0]).toMatchObject({ id: 'green', rank: 1 })
+      expect(getWinningTeamId(standings)).toBe('green')
+    })
+
+    it('should report no outright winner when first place is shared', () => {
+      // Act
+      const standings = buildTeamStandings(teams.slice(0, 2), 'SPEED_POINTS', {
+        playerTeams,
+        eliminatedPlayers: new Set(),
+        playerScores: scores({ r1: 100, b1: 100 }),
+        teamEliminations: new Map()
+      })
+
+      // Assert
+      expect(standings.map(team => team.rank)).toEqual([1, 1])
+      expect(getWinningTeamId(standings)).toBeNull()
+    })
+  })
+})
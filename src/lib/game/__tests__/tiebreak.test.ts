@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for Tiebreak Logic
+ *
+ * Covers dead heat detection and how final questions hand ties to sudden death
+ */
+
+import { describe, it, expect } from 'vitest'
+import { findDeadHeat } from '../tiebreak'
+import {
+  processAnswersAndDetermineElimination,
+  type PlayerAnswer
+} from '../elimination-logic'
+
+const answer = (playerId: string, selectedAnswer: string, millisecond: number): PlayerAnswer => ({
+  playerId,
+  questionId: 'final',
+  selectedAnswer,
+  responseTime: 1,
+  serverTimestamp: new Date(Date.UTC(2024, 0, 1, 12, 0, 0, millisecond))
+})
+
+describe('Tiebreak Logic', () => {
+  describe('findDeadHeat', () => {
+    it('should return nobody without correct answers', () => {
+      expect(findDeadHeat([])).toEqual([])
+    })
+
+    it('should only tie identical timestamps by default', () => {
+      const answers = [answer('player1', 'A', 100), answer('player2', 'A', 100), answer('player3', 'A', 101)]
+      expect(findDeadHeat(answers)).toEqual(['player1', 'player2'])
+    })
+
+    it('should tie answers within the tolerance of the fastest', () => {
+      const answers = [answer('player1', 'A', 100), answer('player2', 'A', 130), answer('player3', 'A', 160)]
+      expect(findDeadHeat(answers, 50)).toEqual(['player1', 'player2'])
+    })
+  })
+
+  describe('processAnswersAndDetermineElimination on the final question', () => {
+    it('should crown a single fastest correct answer', () => {
+      // Act
+      const result = processAnswersAndDetermineElimination(
+        [answer('player1', 'A', 100), answer('player2', 'A', 200)],
+        'A',
+        true,
+        { tieToleranceMs: 50 }
+      )
+
+      // Assert
+      expect(result.winnerId).toBe('player1')
+      expect(result.tiedPlayers).toEqual([])
+      expect(result.tiebreakReason).toBeNull()
+    })
+
+    it('should report a dead heat instead of picking a winner', () => {
+      // Act
+      const result = processAnswersAndDetermineElimination(
+        [answer('player2', 'A', 100), answer('player1', 'A', 120), answer('player3', 'B', 90)],
+        'A',
+        true,
+        { tieToleranceMs: 50 }
+      )
+
+      // Assert
+      expect(result.winnerId).toBeNull()
+      expect(result.tiedPlayers).toEqual(['player2', 'player1'])
+      expect(result.tiebreakReason).toBe('dead_heat')
+    })
+
+    it('should tie every contender when nobody answers correctly', () => {
+      // Act
+      const result = processAnswersAndDetermineElimination(
+        [answer('player1', 'B', 100)],
+        'A',
+        true,
+        { activePlayerIds: ['player1', 'player2'] }
+      )
+
+      // Assert
+      expect(result.winnerId).toBeNull()
+      expect(result.tiedPlayers).toEqual(['player1', 'player2'])
+      expect(result.tiebreakReason).toBe('no_correct_answer')
+    })
+  })
+})
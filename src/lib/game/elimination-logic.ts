@@ -2,9 +2,24 @@
  * Elimination Logic for All Star Quiz
  * 
  * Core game logic for processing answers and determining eliminated players
- * Implements the "slowest correct responder is eliminated" rule
+ * Elimination rule sets are defined in ./elimination-rules
  */
 
+import {
+  getEliminationStrategy,
+  type EliminationRule,
+  type PlayerElimination
+} from './elimination-rules'
+import {
+  findClosestPlayerIds,
+  parseNumericAnswer,
+  rankNumericAnswers,
+  type NumericRankingEntry
+} from './numeric-answers'
+import { isAnswerCorrect, type QuestionFormat } from './question-formats'
+import { findDeadHeat, type TiebreakReason } from './tiebreak'
+import type { AnswerTiming } from './latency'
+
 export type PlayerAnswer = {
   playerId: string
   questionId: string
@@ -12,63 +27,159 @@ export type PlayerAnswer = {
   responseTime: number
   serverTimestamp: Date
   isCorrect?: boolean
+  // Set when the server measured the timing (see ./latency)
+  clientResponseTime?: number
+  latencyCompensationMs?: number
+}
+
+export type EliminationOptions = {
+  // Rule set used for normal questions
+  rule?: EliminationRule
+  // Number of players eliminated per question for count-based rules
+  eliminationCount?: number
+  // Players still in the game; those without an answer are treated as timeouts
+  activePlayerIds?: string[]
+  // Final answers this close to the fastest correct answer are a dead heat
+  tieToleranceMs?: number
+  // How answers are checked against the answer key (multiple choice by default)
+  format?: QuestionFormat
 }
 
 export type EliminationResult = {
   eliminatedPlayerId: string | null
+  eliminations: PlayerElimination[]
   winnerId: string | null
   correctAnswerers: string[]
   incorrectAnswerers: string[]
+  timedOutPlayers: string[]
+  // Players going into a sudden-death tiebreak after a final question without a winner
+  tiedPlayers: string[]
+  tiebreakReason: TiebreakReason | null
   allAnswers: PlayerAnswer[]
+  // Numeric questions: every numeric guess ranked by distance to the target (empty otherwise)
+  numericRanking: NumericRankingEntry[]
+}
+
+/**
+ * Mark each answer correct or incorrect. Numeric guesses are ranked instead:
+ * the guesses closest to the target count as correct.
+ */
+export const judgeAnswers = (
+  answers: PlayerAnswer[],
+  correctAnswer: string,
+  format?: QuestionFormat
+): { answers: PlayerAnswer[]; numericRanking: NumericRankingEntry[] } => {
+  if (format === 'NUMERIC') {
+    const target = parseNumericAnswer(correctAnswer)
+    const numericRanking = target === null ? [] : rankNumericAnswers(answers, target)
+    const closestPlayerIds = findClosestPlayerIds(numericRanking)
+
+    return {
+      answers: answers.map(answer => ({ ...answer, isCorrect: closestPlayerIds.includes(answer.playerId) })),
+      numericRanking
+    }
+  }
+
+  return {
+    answers: answers.map(answer => ({
+      ...answer,
+      isCorrect: isAnswerCorrect(format, answer.selectedAnswer, correctAnswer)
+    })),
+    numericRanking: []
+  }
 }
 
 /**
  * Process all answers and determine elimination based on All Star Quiz rules
- * - Normal questions: slowest correct answerer is eliminated
- * - Final question: fastest correct answerer wins
+ * - Normal questions: the game's elimination rule set decides who is out
+ *   (default: slowest correct answerer is eliminated)
+ * - Final question: fastest correct answerer wins; a dead heat or no correct
+ *   answer at all leaves the tied players for a sudden-death tiebreak
+ * - Numeric questions: the closest guesses are the correct answers, so the
+ *   closest guess wins a final with the answer time as the tiebreaker
+ *
+ * A rule never eliminates every remaining player; if it would, nobody is eliminated
+ * (BOTTOM_N instead stops short of its best-ranked player).
  */
 export const processAnswersAndDetermineElimination = (
   answers: PlayerAnswer[],
   correctAnswer: string,
-  isFinalQuestion = false
+  isFinalQuestion = false,
+  options: EliminationOptions = {}
 ): EliminationResult => {
   // Mark correct/incorrect answers
-  const processedAnswers = answers.map(answer => ({
-    ...answer,
-    isCorrect: answer.selectedAnswer === correctAnswer
-  }))
+  const { answers: processedAnswers, numericRanking } = judgeAnswers(answers, correctAnswer, options.format)
+
+  const byServerTime = (a: PlayerAnswer, b: PlayerAnswer) =>
+    a.serverTimestamp.getTime() - b.serverTimestamp.getTime()
 
   // Separate correct and incorrect answerers
   const correctAnswerers = processedAnswers
     .filter(answer => answer.isCorrect)
-    .sort((a, b) => a.serverTimestamp.getTime() - b.serverTimestamp.getTime())
+    .sort(byServerTime)
 
   const incorrectAnswerers = processedAnswers
     .filter(answer => !answer.isCorrect)
 
-  let eliminatedPlayerId: string | null = null
+  // Empty selections and missing answers from active players are timeouts
+  const answeredPlayerIds = new Set(processedAnswers.map(answer => answer.playerId))
+  const timedOutPlayers = [
+    ...incorrectAnswerers
+      .filter(answer => answer.selectedAnswer === '')
+      .map(answer => answer.playerId),
+    ...(options.activePlayerIds ?? []).filter(playerId => !answeredPlayerIds.has(playerId))
+  ]
+
+  let eliminations: PlayerElimination[] = []
   let winnerId: string | null = null
+  let tiedPlayers: string[] = []
+  let tiebreakReason: TiebreakReason | null = null
 
   if (isFinalQuestion) {
     // Final question: fastest correct answerer wins
-    if (correctAnswerers.length > 0) {
-      winnerId = correctAnswerers[0]?.playerId || null
+    const deadHeat = findDeadHeat(correctAnswerers, options.tieToleranceMs)
+    const contenders = Array.from(new Set([...answeredPlayerIds, ...(options.activePlayerIds ?? [])]))
+
+    if (deadHeat.length === 1) {
+      winnerId = deadHeat[0] ?? null
+    } else if (deadHeat.length > 1) {
+      tiedPlayers = deadHeat
+      tiebreakReason = 'dead_heat'
+    } else if (contenders.length > 1) {
+      tiedPlayers = contenders
+      tiebreakReason = 'no_correct_answer'
+    } else {
+      winnerId = contenders[0] ?? null
     }
   } else {
-    // Normal question: slowest correct answerer is eliminated
-    if (correctAnswerers.length > 1) {
-      // Multiple correct answers - eliminate the slowest
-      eliminatedPlayerId = correctAnswerers[correctAnswerers.length - 1]?.playerId || null
+    const strategy = getEliminationStrategy(options.rule)
+    eliminations = strategy.selectEliminations({
+      correctAnswers: correctAnswerers,
+      wrongAnswers: incorrectAnswerers
+        .filter(answer => answer.selectedAnswer !== '')
+        .sort(byServerTime),
+      timedOutPlayerIds: timedOutPlayers,
+      eliminationCount: options.eliminationCount ?? 1
+    })
+
+    // Never eliminate the whole field
+    const contenderCount = new Set([...answeredPlayerIds, ...(options.activePlayerIds ?? [])]).size
+    if (eliminations.length > 0 && eliminations.length >= contenderCount) {
+      eliminations = []
     }
-    // If only 0 or 1 correct answer, no elimination occurs
   }
 
   return {
-    eliminatedPlayerId,
+    eliminatedPlayerId: eliminations[0]?.playerId ?? null,
+    eliminations,
     winnerId,
     correctAnswerers: correctAnswerers.map(a => a.playerId),
     incorrectAnswerers: incorrectAnswerers.map(a => a.playerId),
-    allAnswers: processedAnswers
+    timedOutPlayers,
+    tiedPlayers,
+    tiebreakReason,
+    allAnswers: processedAnswers,
+    numericRanking
   }
 }
 
@@ -87,17 +198,33 @@ export const canPlayerSubmitAnswer = (
 }
 
 /**
- * Create a standardized player answer object
+ * Create a standardized player answer object.
+ * With server-measured timing, the client-reported response time is only kept for auditing.
  */
 export const createPlayerAnswer = (
   playerId: string,
   questionId: string,
   selectedAnswer: string,
-  responseTime: number
-): PlayerAnswer => ({
-  playerId,
-  questionId,
-  selectedAnswer,
-  responseTime,
-  serverTimestamp: new Date()
-})
\ No newline at end of file
+  responseTime: number,
+  timing?: AnswerTiming
+): PlayerAnswer => {
+  if (!timing) {
+    return {
+      playerId,
+      questionId,
+      selectedAnswer,
+      responseTime,
+      serverTimestamp: new Date()
+    }
+  }
+
+  return {
+    playerId,
+    questionId,
+    selectedAnswer,
+    responseTime: timing.responseTime,
+    serverTimestamp: timing.answeredAt,
+    clientResponseTime: responseTime,
+    latencyCompensationMs: timing.compensationMs
+  }
+}
\ No newline at end of file
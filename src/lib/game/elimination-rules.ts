@@ -0,0 +1,109 @@
+/**
+ * Elimination Rules for All Star Quiz
+ *
+ * Pluggable elimination strategies. Each rule set receives the classified
+ * answers for a question and decides who is eliminated and why.
+ */
+
+import type { PlayerAnswer } from './elimination-logic'
+
+export type EliminationRule =
+  | 'SLOWEST_CORRECT'
+  | 'ALL_WRONG_OUT'
+  | 'BOTTOM_N'
+  | 'WRONG_OR_TIMEOUT_OUT'
+
+export type EliminationReason =
+  | 'wrong_answer'
+  | 'timeout'
+  | 'slowest_correct'
+  | 'fastest_incorrect'
+
+export type PlayerElimination = {
+  playerId: string
+  reason: EliminationReason
+}
+
+export type EliminationContext = {
+  // Correct answers, fastest first
+  correctAnswers: PlayerAnswer[]
+  // Answers with a wrong selection, fastest first
+  wrongAnswers: PlayerAnswer[]
+  // Players who sent an empty answer or never answered
+  timedOutPlayerIds: string[]
+  // Number of players eliminated per question for count-based rules
+  eliminationCount: number
+}
+
+export type EliminationStrategy = {
+  rule: EliminationRule
+  selectEliminations: (context: EliminationContext) => PlayerElimination[]
+}
+
+export const DEFAULT_ELIMINATION_RULE: EliminationRule = 'SLOWEST_CORRECT'
+
+/**
+ * Slowest correct answerer is eliminated (only when more than one answered correctly)
+ */
+const slowestCorrectStrategy: EliminationStrategy = {
+  rule: 'SLOWEST_CORRECT',
+  selectEliminations: ({ correctAnswers }) => {
+    if (correctAnswers.length <= 1) return []
+
+    const slowest = correctAnswers[correctAnswers.length - 1]!
+    return [{ playerId: slowest.playerId, reason: 'slowest_correct' }]
+  }
+}
+
+/**
+ * Every player who selected a wrong answer is eliminated
+ */
+const allWrongOutStrategy: EliminationStrategy = {
+  rule: 'ALL_WRONG_OUT',
+  selectEliminations: ({ wrongAnswers }) =>
+    wrongAnswers.map(answer => ({ playerId: answer.playerId, reason: 'wrong_answer' }))
+}
+
+/**
+ * The last N players in the ranking are eliminated, but never the top player.
+ * Ranking: correct answers by speed, then wrong answers by speed, then timeouts.
+ */
+const bottomNStrategy: EliminationStrategy = {
+  rule: 'BOTTOM_N',
+  selectEliminations: ({ correctAnswers, wrongAnswers, timedOutPlayerIds, eliminationCount }) => {
+    const ranking: PlayerElimination[] = [
+      ...correctAnswers.map(answer => ({ playerId: answer.playerId, reason: 'slowest_correct' as const })),
+      ...wrongAnswers.map(answer => ({ playerId: answer.playerId, reason: 'wrong_answer' as const })),
+      ...timedOutPlayerIds.map(playerId => ({ playerId, reason: 'timeout' as const }))
+    ]
+
+    const count = Math.min(eliminationCount, ranking.length - 1)
+    if (count <= 0) return []
+    return ranking.slice(-count)
+  }
+}
+
+/**
+ * Every player who answered wrong or did not answer in time is eliminated
+ */
+const wrongOrTimeoutOutStrategy: EliminationStrategy = {
+  rule: 'WRONG_OR_TIMEOUT_OUT',
+  selectEliminations: ({ wrongAnswers, timedOutPlayerIds }) => [
+    ...wrongAnswers.map(answer => ({ playerId: answer.playerId, reason: 'wrong_answer' as const })),
+    ...timedOutPlayerIds.map(playerId => ({ playerId, reason: 'timeout' as const }))
+  ]
+}
+
+export const ELIMINATION_STRATEGIES: Record<EliminationRule, EliminationStrategy> = {
+  SLOWEST_CORRECT: slowestCorrectStrategy,
+  ALL_WRONG_OUT: allWrongOutStrategy,
+  BOTTOM_N: bottomNStrategy,
+  WRONG_OR_TIMEOUT_OUT: wrongOrTimeoutOutStrategy
+}
+
+/**
+ * Get the strategy for a rule set, falling back to the default rule
+ */
+export const getEliminationStrategy = (rule: EliminationRule = DEFAULT_ELIMINATION_RULE): EliminationStrategy => {
+  return ELIMINATION_STRATEGIES[rule] ?? ELIMINATION_STRATEGIES[DEFAULT_ELIMINATION_RULE]
+}
@@ -0,0 +1,267 @@
+/**
+ * Game Event Log for All Star Quiz
+ *
+ * Every room transition is appended to the game's event log. Replaying the
+ * events in order rebuilds the room state at any point of the game, which the
+ * monitor uses to play back past games.
+ */
+
+import type { EliminationReason } from './elimination-rules'
+import type { GamePhase } from './final-showdown'
+import type { QuestionFormat } from './question-formats'
+import type { QuestionDifficulty } from './scoring'
+import type { GameRoomStatus } from '../socket/game-rooms'
+
+export type TimerBoundary = 'started' | 'paused' | 'resumed' | 'expired'
+
+// The question as it was shown, with its answer key for dispute resolution
+export type LoggedQuestion = {
+  id: string
+  text: string
+  // Absent in events logged before question formats existed (multiple choice)
+  format?: QuestionFormat
+  optionA: string | null
+  optionB: string | null
+  optionC: string | null
+  optionD: string | null
+  unit?: string
+  correctAnswer: string
+  difficulty?: QuestionDifficulty
+}
+
+export type GameLogEvent =
+  | { type: 'player-joined'; playerId: string; playerName: string }
+  | { type: 'player-left'; playerId: string }
+  | { type: 'player-disconnected'; playerId: string }
+  | { type: 'player-reconnected'; playerId: string }
+  | { type: 'reconnect-expired'; playerId: string }
+  | { type: 'admin-action'; action: string; adminId: string; reason?: string }
+  | { type: 'status-changed'; status: GameRoomStatus }
+  | {
+      type: 'question-sent'
+      questionNumber: number
+      question: LoggedQuestion
+      phase: GamePhase
+      isFinalQuestion: boolean
+      tiebreakPlayers: string[]
+    }
+  | {
+      type: 'answer-received'
+      playerId: string
+      questionId: string
+      selectedAnswer: string
+      // Server-measured response time in seconds
+      responseTime: number
+      isCorrect: boolean
+    }
+  | { type: 'timer-boundary'; questionId: string; boundary: TimerBoundary; remainingMs: number }
+  | {
+      type: 'question-result'
+      questionId: string
+      correctAnswerers: string[]
+      incorrectAnswerers: string[]
+      survivors: string[]
+      lives: Record<string, number>
+      // Running score totals of the question's contenders
+      scores: Record<string, number>
+    }
+  | { type: 'player-eliminated'; playerId: string; questionId: string; reason: EliminationReason }
+  | { type: 'phase-changed'; phase: GamePhase; tiebreakPlayers: string[]; tiebreakRound: number }
+  | { type: 'game-over'; winnerId: string | null; questionsPlayed: number }
+
+export type GameLogEventType = GameLogEvent['type']
+
+export type LoggedGameEvent = {
+  sequence: number
+  createdAt: Date
+  event: GameLogEvent
+}
+
+export type ReplayedAnswer = {
+  selectedAnswer: string
+  responseTime: number
+  isCorrect: boolean
+}
+
+export type ReplayState = {
+  status: GameRoomStatus
+  // Players in the room, in join order
+  players: string[]
+  playerNames: Record<string, string>
+  // Eliminated players, in elimination order
+  eliminatedPlayers: string[]
+  // Players holding their seat while they reconnect
+  disconnectedPlayers: string[]
+  questionNumber: number
+  question: LoggedQuestion | null
+  isFinalQuestion: boolean
+  // Answers to the current question by player ID
+  answers: Record<string, ReplayedAnswer>
+  // Set once the current question's results are in
+  questionClosed: boolean
+  // Time left on the current question at its last timer boundary
+  remainingMs: number | null
+  playerLives: Record<string, number>
+  playerScores: Record<string, number>
+  phase: GamePhase
+  tiebreakPlayers: string[]
+  tiebreakRound: number
+  winnerId: string | null
+}
+
+/**
+ * State of a room before its first event
+ */
+export const createReplayState = (): ReplayState => ({
+  status: 'waiting',
+  players: [],
+  playerNames: {},
+  eliminatedPlayers: [],
+  disconnectedPlayers: [],
+  questionNumber: 0,
+  question: null,
+  isFinalQuestion: false,
+  answers: {},
+  questionClosed: false,
+  remainingMs: null,
+  playerLives: {},
+  playerScores: {},
+  phase: 'normal',
+  tiebreakPlayers: [],
+  tiebreakRound: 0,
+  winnerId: null
+})
+
+const withoutPlayer = (players: string[], playerId: string) =>
+  players.filter(id => id !== playerId)
+
+const withPlayer = (players: string[], playerId: string) =>
+  players.includes(playerId) ? players : [...players, playerId]
+
+/**
+ * Apply one event to a replayed room state
+ */
+export const applyGameEvent = (
+  state: ReplayState,
+  event: GameLogEvent,
+  startingLives = 1
+): ReplayState => {
+  switch (event.type) {
+    case 'player-joined':
+      return {
+        ...state,
+        players: withPlayer(state.players, event.playerId),
+        playerNames: { ...state.playerNames, [event.playerId]: event.playerName },
+        playerLives: { [event.playerId]: startingLives, ...state.playerLives }
+      }
+
+    case 'player-left':
+      return { ...state, players: withoutPlayer(state.players, event.playerId) }
+
+    // Disconnected players keep their seat until their reconnect window expires
+    case 'player-disconnected':
+      return { ...state, disconnectedPlayers: withPlayer(state.disconnectedPlayers, event.playerId) }
+
+    case 'player-reconnected':
+      return {
+        ...state,
+        players: withPlayer(state.players, event.playerId),
+        disconnectedPlayers: withoutPlayer(state.disconnectedPlayers, event.playerId)
+      }
+
+    // Lobby seats are released; in a running game the player is eliminated
+    case 'reconnect-expired': {
+      const disconnectedPlayers = withoutPlayer(state.disconnectedPlayers, event.playerId)
+
+      if (state.status === 'waiting') {
+        return { ...state, disconnectedPlayers, players: withoutPlayer(state.players, event.playerId) }
+      }
+
+      return {
+        ...state,
+        disconnectedPlayers,
+        eliminatedPlayers: withPlayer(state.eliminatedPlayers, event.playerId),
+        playerLives: { ...state.playerLives, [event.playerId]: 0 }
+      }
+    }
+
+    case 'status-changed':
+      return { ...state, status: event.status }
+
+    case 'question-sent':
+      return {
+        ...state,
+        questionNumber: event.questionNumber,
+        question: event.question,
+        isFinalQuestion: event.isFinalQuestion,
+        answers: {},
+        questionClosed: false,
+        remainingMs: null,
+        phase: event.phase,
+        tiebreakPlayers: event.tiebreakPlayers
+      }
+
+    case 'answer-received':
+      return {
+        ...state,
+        answers: {
+          ...state.answers,
+          [event.playerId]: {
+            selectedAnswer: event.selectedAnswer,
+            responseTime: event.responseTime,
+            isCorrect: event.isCorrect
+          }
+        }
+      }
+
+    case 'timer-boundary':
+      return { ...state, remainingMs: event.boundary === 'expired' ? 0 : event.remainingMs }
+
+    case 'question-result':
+      return {
+        ...state,
+        questionClosed: true,
+        playerLives: { ...state.playerLives, ...event.lives },
+        playerScores: { ...state.playerScores, ...event.scores }
+      }
+
+    case 'player-eliminated':
+      return {
+        ...state,
+        eliminatedPlayers: withPlayer(state.eliminatedPlayers, event.playerId),
+        playerLives: { ...state.playerLives, [event.playerId]: 0 }
+      }
+
+    case 'phase-changed':
+      return {
+        ...state,
+        phase: event.phase,
+        tiebreakPlayers: event.tiebreakPlayers,
+        tiebreakRound: event.tiebreakRound
+      }
+
+    case 'game-over':
+      return { ...state, status: 'finished', winnerId: event.winnerId }
+
+    // Admin actions are logged for the record; their effects arrive as their own events
+    case 'admin-action':
+      return state
+  }
+}
+
+/**
+ * Rebuild the room state after the event at the given index.
+ * Without an index every event is applied.
+ */
+export const replayGameEvents = (
+  events: GameLogEvent[],
+  startingLives = 1,
+  eventIndex = events.length - 1
+): ReplayState => {
+  return events
+    .slice(0, eventIndex + 1)
+    .reduce(
+      (state, event) => applyGameEvent(state, event, startingLives),
+      createReplayState()
+    )
+}
@@ -0,0 +1,23 @@
+/**
+ * Final Showdown Logic for All Star Quiz
+ *
+ * Once the survivors drop to the system's final question threshold, the game
+ * switches to the final showdown: FINAL questions where the fastest correct answer wins.
+ * Ties on a final question continue in sudden death (see ./tiebreak).
+ */
+
+export type GamePhase = 'normal' | 'final_showdown' | 'sudden_death'
+
+// Matches the SystemSettings.finalQuestionThreshold default
+export const DEFAULT_FINAL_QUESTION_THRESHOLD = 3
+
+/**
+ * Check whether the game should switch to the final showdown after a question
+ */
+export const shouldStartFinalShowdown = (
+  phase: GamePhase,
+  survivorCount: number,
+  threshold = DEFAULT_FINAL_QUESTION_THRESHOLD
+): boolean => {
+  return phase === 'normal' && survivorCount > 1 && survivorCount <= threshold
+}
@@ -0,0 +1,167 @@
+/**
+ * Game State Machine for All Star Quiz
+ *
+ * The one definition of how a game moves between statuses, used by the tRPC
+ * routers and the Socket.io handlers alike. Statuses are the GameSession
+ * (Prisma) values; live rooms use a lowercase projection of them in which
+ * cancelled games count as finished.
+ *
+ *   WAITING → STARTING → IN_PROGRESS ⇄ PAUSED
+ *   every status before FINISHED/CANCELLED may end or be cancelled;
+ *   FINISHED and CANCELLED are final
+ */
+
+import type { GameStatus } from '@/schemas/gameSchemas'
+import type { AppErrorCode } from '@/lib/trpc/errors'
+
+export const ROOM_STATUSES = ['waiting', 'starting', 'in_progress', 'paused', 'finished'] as const
+
+export type RoomStatus = typeof ROOM_STATUSES[number]
+
+// Players needed before a game may start counting down
+export const MIN_PLAYERS_TO_START = 2
+
+// What a transition sets off besides the status change itself
+export type GameTransitionEffect =
+  | 'stamp-started-at'
+  | 'stamp-ended-at'
+  | 'freeze-timer'
+  | 'resume-timer'
+  | 'clear-timers'
+  | 'record-statistics'
+
+const END_EFFECTS: GameTransitionEffect[] = ['clear-timers', 'stamp-ended-at']
+
+// Allowed transitions and their effects, by current status
+const TRANSITIONS: Record<GameStatus, Partial<Record<GameStatus, GameTransitionEffect[]>>> = {
+  WAITING: {
+    STARTING: ['stamp-started-at'],
+    CANCELLED: END_EFFECTS
+  },
+  STARTING: {
+    IN_PROGRESS: [],
+    FINISHED: [...END_EFFECTS, 'record-statistics'],
+    CANCELLED: END_EFFECTS
+  },
+  IN_PROGRESS: {
+    PAUSED: ['freeze-timer'],
+    FINISHED: [...END_EFFECTS, 'record-statistics'],
+    CANCELLED: END_EFFECTS
+  },
+  PAUSED: {
+    IN_PROGRESS: ['resume-timer'],
+    FINISHED: [...END_EFFECTS, 'record-statistics'],
+    CANCELLED: END_EFFECTS
+  },
+  FINISHED: {},
+  CANCELLED: {}
+}
+
+// Facts the guards check, supplied by the layer requesting the transition
+export type GameTransitionContext = {
+  playerCount?: number
+}
+
+export type GameTransitionRefusal = { allowed: false; errorCode: AppErrorCode; message: string }
+
+export type GameTransitionCheck =
+  | { allowed: true; effects: GameTransitionEffect[] }
+  | GameTransitionRefusal
+
+/**
+ * Get the statuses a game may move to next
+ */
+export const getNextStatuses = (from: GameStatus): GameStatus[] => {
+  return Object.keys(TRANSITIONS[from]) as GameStatus[]
+}
+
+export const canTransition = (from: GameStatus, to: GameStatus): boolean => {
+  return TRANSITIONS[from][to] !== undefined
+}
+
+const refuse = (errorCode: AppErrorCode, message: string): GameTransitionRefusal => ({
+  allowed: false,
+  errorCode,
+  message
+})
+
+/**
+ * Check a transition against the allowed transitions and their guards.
+ * Refusals carry the application error code both layers report.
+ */
+export const checkTransition = (
+  from: GameStatus,
+  to: GameStatus,
+  context: GameTransitionContext = {}
+): GameTransitionCheck => {
+  const effects = TRANSITIONS[from][to]
+
+  if (!effects) {
+    if (from === 'FINISHED' || from === 'CANCELLED') {
+      return refuse('GAME_ALREADY_ENDED', 'This game has already ended')
+    }
+    if (to === 'STARTING') {
+      return refuse('GAME_ALREADY_STARTED', 'This game has already started')
+    }
+    if (from === 'WAITING') {
+      return refuse('GAME_NOT_STARTED', 'This game has not started yet')
+    }
+    return refuse('INVALID_STATE_TRANSITION', `A ${from} game cannot move to ${to}`)
+  }
+
+  if (to === 'STARTING' && context.playerCount !== undefined && context.playerCount < MIN_PLAYERS_TO_START) {
+    return refuse('INSUFFICIENT_PLAYERS', `At least ${MIN_PLAYERS_TO_START} players are required to start the game`)
+  }
+
+  return { allowed: true, effects }
+}
+
+/**
+ * Build the GameSession columns a transition writes
+ */
+export const buildStatusUpdate = (
+  status: GameStatus,
+  effects: GameTransitionEffect[],
+  now = new Date()
+): { status: GameStatus; startedAt?: Date; endedAt?: Date } => ({
+  status,
+  ...(effects.includes('stamp-started-at') && { startedAt: now }),
+  ...(effects.includes('stamp-ended-at') && { endedAt: now })
+})
+
+/**
+ * Map a GameSession status to the room status vocabulary
+ */
+export const toRoomStatus = (status: GameStatus): RoomStatus => {
+  switch (status) {
+    case 'WAITING':
+      return 'waiting'
+    case 'STARTING':
+      return 'starting'
+    case 'IN_PROGRESS':
+      return 'in_progress'
+    case 'PAUSED':
+      return 'paused'
+    case 'FINISHED':
+    case 'CANCELLED':
+      return 'finished'
+  }
+}
+
+/**
+ * Map a room status back to a GameSession status (finished rooms count as FINISHED)
+ */
+export const toSessionStatus = (status: RoomStatus): GameStatus => {
+  switch (status) {
+    case 'waiting':
+      return 'WAITING'
+    case 'starting':
+      return 'STARTING'
+    case 'in_progress':
+      return 'IN_PROGRESS'
+    case 'paused':
+      return 'PAUSED'
+    case 'finished':
+      return 'FINISHED'
+  }
+}
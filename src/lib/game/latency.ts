@@ -0,0 +1,65 @@
+/**
+ * Latency Compensation for All Star Quiz
+ *
+ * Answer timing is measured by the server: from when a question was delivered
+ * to a socket until its answer arrived. That span includes a full network round
+ * trip (the question going out and the answer coming back), estimated from ping
+ * round trips; it is subtracted up to a fixed cap so a slow connection is not
+ * penalized and a faked latency gains little.
+ */
+
+// Round-trip samples kept per socket
+export const MAX_LATENCY_SAMPLES = 5
+
+// Most compensation any single answer can receive
+export const MAX_LATENCY_COMPENSATION_MS = 150
+
+export type AnswerTiming = {
+  // Compensated response time in seconds
+  responseTime: number
+  // Compensated moment the answer was given, used to order answers
+  answeredAt: Date
+  compensationMs: number
+}
+
+/**
+ * Add a round-trip sample, keeping only the most recent ones
+ */
+export const addLatencySample = (samples: number[], roundTripMs: number): number[] => {
+  if (!Number.isFinite(roundTripMs) || roundTripMs < 0) return samples
+  return [...samples, roundTripMs].slice(-MAX_LATENCY_SAMPLES)
+}
+
+/**
+ * Estimate the round-trip latency as the median sample
+ */
+export const estimateRoundTripLatency = (samples: number[]): number => {
+  if (samples.length === 0) return 0
+
+  const sorted = [...samples].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const median = sorted.length % 2 === 0
+    ? (sorted[middle - 1]! + sorted[middle]!) / 2
+    : sorted[middle]!
+
+  return median
+}
+
+/**
+ * Compute the compensated timing of an answer from server-side timestamps
+ */
+export const computeAnswerTiming = (
+  deliveredAtMs: number,
+  receivedAtMs: number,
+  roundTripMs: number,
+  maxCompensationMs = MAX_LATENCY_COMPENSATION_MS
+): AnswerTiming => {
+  const elapsedMs = Math.max(receivedAtMs - deliveredAtMs, 0)
+  const compensationMs = Math.min(Math.max(roundTripMs, 0), maxCompensationMs, elapsedMs)
+
+  return {
+    responseTime: (elapsedMs - compensationMs) / 1000,
+    answeredAt: new Date(receivedAtMs - compensationMs),
+    compensationMs
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Lives Logic for All Star Quiz
+ *
+ * Survival mode: the elimination rule set decides who is penalized,
+ * and each penalty costs a life. Players are only eliminated at zero lives.
+ */
+
+import type { PlayerElimination } from './elimination-rules'
+
+export const DEFAULT_STARTING_LIVES = 1
+export const MAX_STARTING_LIVES = 5
+
+export type LifeLoss = PlayerElimination & {
+  livesRemaining: number
+}
+
+export type LifeOutcome = {
+  // Players who lost their last life
+  eliminations: PlayerElimination[]
+  // Every life lost this question, including the final ones
+  lifeLosses: LifeLoss[]
+}
+
+/**
+ * Apply a question's penalties to the players' life counts.
+ * Players without a recorded count are assumed to have the starting lives.
+ */
+export const applyLifeLosses = (
+  penalties: PlayerElimination[],
+  lives: ReadonlyMap<string, number>,
+  startingLives = DEFAULT_STARTING_LIVES
+): LifeOutcome => {
+  const lifeLosses = penalties.map(penalty => ({
+    ...penalty,
+    livesRemaining: Math.max((lives.get(penalty.playerId) ?? startingLives) - 1, 0)
+  }))
+
+  return {
+    eliminations: lifeLosses
+      .filter(loss => loss.livesRemaining === 0)
+      .map(({ playerId, reason }) => ({ playerId, reason })),
+    lifeLosses
+  }
+}
+
+/**
+ * Take every remaining life from players who forfeit a question,
+ * e.g. by missing it while disconnected, on top of the rule penalties
+ */
+export const forfeitLives = (outcome: LifeOutcome, playerIds: string[]): LifeOutcome => {
+  const forfeits = playerIds.map(playerId => ({ playerId, reason: 'timeout' as const }))
+
+  return {
+    eliminations: [...outcome.eliminations, ...forfeits],
+    lifeLosses: [...outcome.lifeLosses, ...forfeits.map(forfeit => ({ ...forfeit, livesRemaining: 0 }))]
+  }
+}
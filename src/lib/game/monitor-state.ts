@@ -0,0 +1,371 @@
+/**
+ * Live Monitor State for All Star Quiz
+ *
+ * The big screen starts from the room state sent when it joins the monitor
+ * channel, then folds in every event the server broadcasts to the room.
+ * The screen to show (waiting room, countdown, question, results...) is
+ * derived from the state, so the monitor switches on its own as the game runs.
+ */
+
+import type { GamePhase } from './final-showdown'
+import type { Team, TeamStanding } from './teams'
+import type { ServerToClientEvents } from '../socket/events'
+import type {
+  GameOverResult,
+  GameStatus,
+  MonitorAnswerData,
+  MonitorPlayer,
+  NextQuestionData,
+  QuestionResult
+} from '../socket/types'
+
+// Server events the monitor follows
+export const MONITOR_EVENTS = [
+  'monitor-state',
+  'monitor-answer',
+  'player-joined',
+  'player-left',
+  'player-disconnected',
+  'player-reconnected',
+  'reconnect-expired',
+  'spectator-count',
+  'team-assigned',
+  'game-starting',
+  'game-started',
+  'game-paused',
+  'game-resumed',
+  'game-ended',
+  'game-over',
+  'game-room-deleted',
+  'next-question',
+  'timer-update',
+  'question-result',
+  'life-lost',
+  'player-eliminated',
+  'final-showdown',
+  'sudden-death'
+] as const satisfies ReadonlyArray<keyof ServerToClientEvents>
+
+export type MonitorEventName = typeof MONITOR_EVENTS[number]
+
+export type MonitorEvent =
+  | {
+      [E in MonitorEventName]: { type: E; data: Parameters<ServerToClientEvents[E]>[0] }
+    }[MonitorEventName]
+  // One second of the start countdown passed (counted on the monitor)
+  | { type: 'countdown-tick' }
+
+export type MonitorAnnouncement =
+  | { type: 'final-showdown'; survivorCount: number }
+  | { type: 'sudden-death'; players: string[]; round: number }
+
+export type MonitorScreen =
+  | 'connecting'
+  | 'waiting'
+  | 'countdown'
+  | 'standby'
+  | 'question'
+  | 'results'
+  | 'announcement'
+  | 'paused'
+  | 'finished'
+  | 'ended'
+
+export type MonitorState = {
+  // Set once the server has sent the room state
+  joined: boolean
+  status: GameStatus
+  // Players who joined, in join order, including eliminated players
+  players: MonitorPlayer[]
+  // Eliminated players, in elimination order
+  eliminatedPlayers: string[]
+  spectatorCount: number
+  startingLives: number
+  totalQuestions: number
+  questionNumber: number
+  question: NextQuestionData | null
+  // Seconds left on the open question, or on the frozen one while paused
+  remainingTime: number | null
+  // Seconds left on the start countdown
+  countdown: number | null
+  // Answers to the current question by player ID
+  answers: Record<string, MonitorAnswerData>
+  // Set once the current question's results are in
+  result: QuestionResult | null
+  phase: GamePhase
+  // Shown from the phase change until the next question
+  announcement: MonitorAnnouncement | null
+  tiebreakPlayers: string[]
+  tiebreakRound: number
+  teams: Team[]
+  teamStandings: TeamStanding[]
+  gameOver: GameOverResult | null
+  // Why the game was stopped before a winner was decided
+  endedReason: string | null
+}
+
+/**
+ * State of the monitor before the server answers its join
+ */
+export const createMonitorState = (): MonitorState => ({
+  joined: false,
+  status: 'waiting',
+  players: [],
+  eliminatedPlayers: [],
+  spectatorCount: 0,
+  startingLives: 1,
+  totalQuestions: 0,
+  questionNumber: 0,
+  question: null,
+  remainingTime: null,
+  countdown: null,
+  answers: {},
+  result: null,
+  phase: 'normal',
+  announcement: null,
+  tiebreakPlayers: [],
+  tiebreakRound: 0,
+  teams: [],
+  teamStandings: [],
+  gameOver: null,
+  endedReason: null
+})
+
+const updatePlayer = (
+  state: MonitorState,
+  playerId: string,
+  update: (player: MonitorPlayer) => MonitorPlayer
+): MonitorPlayer[] => state.players.map(player => player.playerId === playerId ? update(player) : player)
+
+// Eliminated players keep their status whatever happens to their connection
+const withConnectionStatus = (status: 'active' | 'disconnected') => (player: MonitorPlayer): MonitorPlayer =>
+  player.status === 'eliminated' ? player : { ...player, status }
+
+const eliminatePlayer = (state: MonitorState, playerId: string): MonitorState => ({
+  ...state,
+  players: updatePlayer(state, playerId, player => ({ ...player, status: 'eliminated', lives: 0 })),
+  eliminatedPlayers: state.eliminatedPlayers.includes(playerId)
+    ? state.eliminatedPlayers
+    : [...state.eliminatedPlayers, playerId]
+})
+
+const withLives = (players: MonitorPlayer[], lives: Record<string, number>): MonitorPlayer[] =>
+  players.map(player => {
+    const playerLives = lives[player.playerId]
+    return playerLives === undefined ? player : { ...player, lives: playerLives }
+  })
+
+/**
+ * Apply one server event to the monitor state
+ */
+export const applyMonitorEvent = (state: MonitorState, event: MonitorEvent): MonitorState => {
+  switch (event.type) {
+    case 'monitor-state': {
+      const { data } = event
+      return {
+        ...createMonitorState(),
+        joined: true,
+        status: data.status,
+        players: data.players,
+        eliminatedPlayers: data.eliminatedPlayers,
+        spectatorCount: data.spectatorCount,
+        startingLives: data.startingLives,
+        totalQuestions: data.totalQuestions,
+        questionNumber: data.currentQuestion,
+        question: data.question,
+        remainingTime: data.remainingTime,
+        answers: Object.fromEntries(data.answers.map(answer => [answer.playerId, answer])),
+        phase: data.phase,
+        tiebreakPlayers: data.tiebreakPlayers,
+        tiebreakRound: data.tiebreakRound,
+        teams: data.teams,
+        teamStandings: data.teamStandings
+      }
+    }
+
+    // Answers to a question that already closed arrive too late to show
+    case 'monitor-answer':
+      if (event.data.questionId !== state.question?.question.id || state.result) return state
+      return { ...state, answers: { ...state.answers, [event.data.playerId]: event.data } }
+
+    case 'player-joined': {
+      const { playerId, playerName, teamId } = event.data
+      if (state.players.some(player => player.playerId === playerId)) {
+        return {
+          ...state,
+          players: updatePlayer(state, playerId, player => ({
+            ...withConnectionStatus('active')(player),
+            playerName,
+            teamId
+          }))
+        }
+      }
+
+      return {
+        ...state,
+        players: [
+          ...state.players,
+          { playerId, playerName, status: 'active', lives: state.startingLives, score: 0, teamId }
+        ]
+      }
+    }
+
+    // Eliminated players stay on the screen after leaving
+    case 'player-left':
+      return {
+        ...state,
+        players: state.players.filter(player =>
+          player.playerId !== event.data.playerId || player.status === 'eliminated'
+        )
+      }
+
+    case 'player-disconnected':
+      return { ...state, players: updatePlayer(state, event.data.playerId, withConnectionStatus('disconnected')) }
+
+    case 'player-reconnected':
+      return { ...state, players: updatePlayer(state, event.data.playerId, withConnectionStatus('active')) }
+
+    // Lobby seats are released; in a running game the player is eliminated
+    case 'reconnect-expired':
+      if (state.status === 'waiting') {
+        return { ...state, players: state.players.filter(player => player.playerId !== event.data.playerId) }
+      }
+      return eliminatePlayer(state, event.data.playerId)
+
+    case 'spectator-count':
+      return { ...state, spectatorCount: event.data.spectatorCount }
+
+    case 'team-assigned':
+      return {
+        ...state,
+        players: updatePlayer(state, event.data.playerId, player => ({ ...player, teamId: event.data.teamId }))
+      }
+
+    case 'game-starting':
+      return { ...state, status: 'starting', countdown: event.data.countdown }
+
+    case 'countdown-tick':
+      if (state.countdown === null) return state
+      return { ...state, countdown: Math.max(state.countdown - 1, 0) }
+
+    case 'game-started':
+      return {
+        ...state,
+        status: 'in_progress',
+        countdown: null,
+        questionNumber: event.data.currentQuestion,
+        totalQuestions: event.data.totalQuestions
+      }
+
+    case 'game-paused':
+      return { ...state, status: 'paused', remainingTime: event.data.remainingTime }
+
+    case 'game-resumed':
+      return { ...state, status: 'in_progress', remainingTime: event.data.remainingTime }
+
+    case 'game-ended':
+      return { ...state, status: 'finished', endedReason: event.data.reason }
+
+    case 'game-room-deleted':
+      return { ...state, status: 'finished', endedReason: event.data.message }
+
+    case 'game-over':
+      return {
+        ...state,
+        status: 'finished',
+        gameOver: event.data,
+        teamStandings: event.data.teamStandings
+      }
+
+    case 'next-question': {
+      const { data } = event
+      return {
+        ...state,
+        questionNumber: data.questionNumber,
+        question: data,
+        remainingTime: data.timeLimit,
+        answers: {},
+        result: null,
+        phase: data.isSuddenDeath ? 'sudden_death' : data.isFinalShowdown ? 'final_showdown' : 'normal',
+        announcement: null,
+        tiebreakPlayers: data.tiebreakPlayers,
+        startingLives: data.startingLives,
+        players: withLives(state.players, data.lives)
+      }
+    }
+
+    case 'timer-update':
+      return { ...state, remainingTime: event.data.remainingTime }
+
+    case 'question-result': {
+      const { data } = event
+      const scores = new Map(data.scores.map(award => [award.playerId, award.total]))
+      const players = withLives(state.players, data.lives).map(player => ({
+        ...player,
+        score: scores.get(player.playerId) ?? player.score
+      }))
+
+      const closed: MonitorState = {
+        ...state,
+        players,
+        remainingTime: 0,
+        result: data,
+        ...(data.teamStandings.length > 0 && { teamStandings: data.teamStandings })
+      }
+
+      return data.eliminations.reduce((next, { playerId }) => eliminatePlayer(next, playerId), closed)
+    }
+
+    case 'life-lost':
+      return {
+        ...state,
+        players: updatePlayer(state, event.data.playerId, player => ({ ...player, lives: event.data.livesRemaining }))
+      }
+
+    case 'player-eliminated':
+      return eliminatePlayer(state, event.data.playerId)
+
+    case 'final-showdown':
+      return {
+        ...state,
+        phase: 'final_showdown',
+        announcement: { type: 'final-showdown', survivorCount: event.data.survivors.length }
+      }
+
+    case 'sudden-death':
+      return {
+        ...state,
+        phase: 'sudden_death',
+        tiebreakPlayers: event.data.players,
+        tiebreakRound: event.data.round,
+        announcement: { type: 'sudden-death', players: event.data.players, round: event.data.round }
+      }
+  }
+}
+
+/**
+ * Pick the screen the monitor shows for a state
+ */
+export const getMonitorScreen = (state: MonitorState): MonitorScreen => {
+  if (!state.joined) return 'connecting'
+  // A game decided by its last question ends on its results, even if closed afterwards
+  if (state.gameOver) return 'finished'
+  if (state.endedReason !== null) return 'ended'
+
+  switch (state.status) {
+    case 'waiting':
+      return 'waiting'
+    case 'starting':
+      return 'countdown'
+    // A pause overrides every other screen until the admin resumes
+    case 'paused':
+      return 'paused'
+    case 'finished':
+      return 'ended'
+  }
+
+  if (state.announcement) return 'announcement'
+  if (state.result) return 'results'
+  if (state.question) return 'question'
+  return 'standby'
+}
@@ -0,0 +1,77 @@
+/**
+ * Numeric Answers for All Star Quiz
+ *
+ * "Closest answer wins" questions: players guess a number and are ranked by the
+ * distance of their guess to the target value. On equal distance the earlier
+ * answer ranks first. Guesses that are not a number are left out of the ranking.
+ */
+
+import type { PlayerAnswer } from './elimination-logic'
+
+// Longest numeric answer accepted from the keypad (digits, sign and decimal point)
+export const MAX_NUMERIC_ANSWER_LENGTH = 15
+
+// Distances are rounded so guesses equally far above and below the target tie
+const DISTANCE_PRECISION = 1e6
+
+export type NumericRankingEntry = {
+  playerId: string
+  value: number
+  distance: number
+  responseTime: number
+  rank: number
+}
+
+/**
+ * Read a guess such as "3,776" or "－１２.５"; null when it is not a number
+ */
+export const parseNumericAnswer = (answer: string): number | null => {
+  const normalized = answer.normalize('NFKC').replace(/[,\s]/g, '').replace(/^−/, '-')
+  if (!/^-?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) return null
+
+  const value = Number(normalized)
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Format a number for display with digit grouping and the question's unit, e.g. "3,776m"
+ */
+export const formatNumericValue = (value: number, unit?: string | null): string => {
+  return `${value.toLocaleString('ja-JP', { maximumFractionDigits: 6 })}${unit ?? ''}`
+}
+
+export const getNumericDistance = (value: number, target: number): number => {
+  return Math.round(Math.abs(value - target) * DISTANCE_PRECISION) / DISTANCE_PRECISION
+}
+
+/**
+ * Rank the numeric guesses by distance to the target, the earlier answer first on equal distance
+ */
+export const rankNumericAnswers = (answers: PlayerAnswer[], target: number): NumericRankingEntry[] => {
+  return answers
+    .flatMap(answer => {
+      const value = parseNumericAnswer(answer.selectedAnswer)
+      return value === null ? [] : [{ answer, value, distance: getNumericDistance(value, target) }]
+    })
+    .sort((a, b) =>
+      a.distance - b.distance ||
+      a.answer.serverTimestamp.getTime() - b.answer.serverTimestamp.getTime()
+    )
+    .map(({ answer, value, distance }, index) => ({
+      playerId: answer.playerId,
+      value,
+      distance,
+      responseTime: answer.responseTime,
+      rank: index + 1
+    }))
+}
+
+/**
+ * Get the players whose guess is closest to the target
+ */
+export const findClosestPlayerIds = (ranking: NumericRankingEntry[]): string[] => {
+  const closest = ranking[0]?.distance
+  return ranking
+    .filter(entry => entry.distance === closest)
+    .map(entry => entry.playerId)
+}
@@ -0,0 +1,163 @@
+/**
+ * Question Formats for All Star Quiz
+ *
+ * How a question is answered, independent of its NORMAL/FINAL type. Answers and
+ * answer keys are plain strings so they fit `PlayerAnswer.selectedAnswer`:
+ * - MULTIPLE_CHOICE: one option letter ("B")
+ * - TRUE_FALSE: "TRUE" or "FALSE"; the question has no options
+ * - MULTI_SELECT: every correct option letter, comma-separated ("A,C")
+ * - ORDERING: the option letters in sequence, comma-separated ("C,A,D,B")
+ * - FREE_TEXT: the typed answer, matched exactly after normalizing width, case and spacing
+ * - NUMERIC: a number; the answer key is the target value and the closest guesses
+ *   count as correct (see ./numeric-answers)
+ */
+
+import { parseNumericAnswer } from './numeric-answers'
+
+export const QUESTION_FORMATS = [
+  'MULTIPLE_CHOICE',
+  'TRUE_FALSE',
+  'MULTI_SELECT',
+  'ORDERING',
+  'FREE_TEXT',
+  'NUMERIC'
+] as const
+
+export type QuestionFormat = typeof QUESTION_FORMATS[number]
+
+export const DEFAULT_QUESTION_FORMAT: QuestionFormat = 'MULTIPLE_CHOICE'
+
+// Names shown in the question editor
+export const QUESTION_FORMAT_LABELS: Record<QuestionFormat, string> = {
+  MULTIPLE_CHOICE: '4択',
+  TRUE_FALSE: '〇×',
+  MULTI_SELECT: '複数選択',
+  ORDERING: '並べ替え',
+  FREE_TEXT: '記述',
+  NUMERIC: '数値（ニアピン）'
+}
+
+// How to answer, shown with the question to players and on the monitor
+export const QUESTION_FORMAT_INSTRUCTIONS: Record<QuestionFormat, string> = {
+  MULTIPLE_CHOICE: '正しい選択肢を1つ選んでください',
+  TRUE_FALSE: '正しければ〇、誤りなら×を選んでください',
+  MULTI_SELECT: '正しい選択肢をすべて選んでください',
+  ORDERING: '正しい順番になるように選んでください',
+  FREE_TEXT: '答えを入力してください',
+  NUMERIC: '数値で答えてください。正解に最も近い人が正解です'
+}
+
+export const OPTION_LETTERS = ['A', 'B', 'C', 'D'] as const
+
+export type OptionLetter = typeof OPTION_LETTERS[number]
+
+export const TRUE_FALSE_ANSWERS = ['TRUE', 'FALSE'] as const
+
+// Longest answer accepted from a player (free-text answers)
+export const MAX_ANSWER_LENGTH = 100
+
+const ANSWER_SEPARATOR = ','
+
+export type QuestionOptions = {
+  optionA?: string | null | undefined
+  optionB?: string | null | undefined
+  optionC?: string | null | undefined
+  optionD?: string | null | undefined
+}
+
+/**
+ * Get the letters of the options a question actually has
+ */
+export const getOptionLetters = (question: QuestionOptions): OptionLetter[] => {
+  return OPTION_LETTERS.filter(letter => !!question[`option${letter}`]?.trim())
+}
+
+/**
+ * Split a comma-separated answer into its option letters
+ */
+export const parseAnswerList = (answer: string): string[] => {
+  return answer
+    .split(ANSWER_SEPARATOR)
+    .map(part => part.trim().toUpperCase())
+    .filter(Boolean)
+}
+
+export const joinAnswerList = (letters: readonly string[]): string => {
+  return letters.join(ANSWER_SEPARATOR)
+}
+
+/**
+ * Normalize typed text: full-width to half-width, case, and surrounding or repeated spaces
+ */
+export const normalizeFreeText = (text: string): string => {
+  return text.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Bring an answer into the form it is compared in
+ */
+export const normalizeAnswer = (format: QuestionFormat, answer: string): string => {
+  switch (format) {
+    case 'TRUE_FALSE':
+      return answer.trim().toUpperCase()
+    case 'MULTI_SELECT':
+      // Selection order does not matter
+      return joinAnswerList(Array.from(new Set(parseAnswerList(answer))).sort())
+    case 'ORDERING':
+      return joinAnswerList(parseAnswerList(answer))
+    case 'FREE_TEXT':
+      return normalizeFreeText(answer)
+    case 'NUMERIC': {
+      const value = parseNumericAnswer(answer)
+      return value === null ? answer.trim() : String(value)
+    }
+    default:
+      return answer
+  }
+}
+
+/**
+ * Check an answer against the answer key. An empty answer (timeout) is never correct.
+ * A numeric answer is only correct here when it hits the target exactly; the elimination
+ * logic ranks numeric guesses by distance instead.
+ */
+export const isAnswerCorrect = (
+  format: QuestionFormat = DEFAULT_QUESTION_FORMAT,
+  selectedAnswer: string,
+  correctAnswer: string
+): boolean => {
+  if (selectedAnswer === '') return false
+  return normalizeAnswer(format, selectedAnswer) === normalizeAnswer(format, correctAnswer)
+}
+
+/**
+ * Format an answer for display, e.g. "〇", "A・C" or "C → A → D → B"
+ */
+export const formatAnswerLabel = (format: QuestionFormat = DEFAULT_QUESTION_FORMAT, answer: string): string => {
+  switch (format) {
+    case 'TRUE_FALSE':
+      return normalizeAnswer(format, answer) === 'TRUE' ? '〇' : '×'
+    case 'MULTI_SELECT':
+      return parseAnswerList(normalizeAnswer(format, answer)).join('・')
+    case 'ORDERING':
+      return parseAnswerList(answer).join(' → ')
+    default:
+      return answer
+  }
+}
+
+/**
+ * Get the option texts an answer refers to, in answer order.
+ * True/false and free-text answers refer to no options.
+ */
+export const getAnswerOptionTexts = (
+  format: QuestionFormat = DEFAULT_QUESTION_FORMAT,
+  question: QuestionOptions,
+  answer: string
+): string[] => {
+  if (format === 'TRUE_FALSE' || format === 'FREE_TEXT') return []
+
+  return parseAnswerList(normalizeAnswer(format, answer))
+    .map(letter => question[`option${letter}` as keyof QuestionOptions])
+    .filter((text): text is string => !!text)
+}
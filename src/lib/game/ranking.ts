@@ -0,0 +1,74 @@
+/**
+ * Final Ranking Logic for All Star Quiz
+ *
+ * Orders every participant by how long they survived. Players eliminated in
+ * the same round are separated by correct answers, then by average response time.
+ */
+
+export type RankingCandidate = {
+  playerId: string
+  playerName: string
+  // Question round the player was eliminated in, null for survivors
+  eliminatedRound: number | null
+  correctAnswers: number
+  questionsAnswered: number
+  // Average response time in seconds, null when the player never answered
+  averageResponseTime: number | null
+  score: number
+}
+
+export type RankingEntry = RankingCandidate & {
+  rank: number
+}
+
+/**
+ * Compare two candidates: negative when `a` ranks above `b`, zero for a full tie
+ */
+export const compareRankingCandidates = (a: RankingCandidate, b: RankingCandidate): number => {
+  // Survivors first, then the players who were eliminated last
+  if (a.eliminatedRound !== b.eliminatedRound) {
+    if (a.eliminatedRound === null) return -1
+    if (b.eliminatedRound === null) return 1
+    return b.eliminatedRound - a.eliminatedRound
+  }
+
+  if (a.correctAnswers !== b.correctAnswers) {
+    return b.correctAnswers - a.correctAnswers
+  }
+
+  if (a.averageResponseTime !== b.averageResponseTime) {
+    if (a.averageResponseTime === null) return 1
+    if (b.averageResponseTime === null) return -1
+    return a.averageResponseTime - b.averageResponseTime
+  }
+
+  return 0
+}
+
+/**
+ * Rank every candidate. The winner always takes first place; players who are
+ * tied on every criterion share a rank (1, 2, 2, 4).
+ */
+export const buildFinalRanking = (
+  candidates: RankingCandidate[],
+  winnerId: string | null
+): RankingEntry[] => {
+  const isWinner = (candidate: RankingCandidate) => candidate.playerId === winnerId
+
+  const sorted = [...candidates].sort((a, b) => {
+    if (isWinner(a) !== isWinner(b)) return isWinner(a) ? -1 : 1
+    return compareRankingCandidates(a, b)
+  })
+
+  const ranking: RankingEntry[] = []
+  sorted.forEach((candidate, index) => {
+    const previous = ranking[index - 1]
+    const sharesRank = previous
+      && !isWinner(previous)
+      && compareRankingCandidates(previous, candidate) === 0
+
+    ranking.push({ ...candidate, rank: sharesRank ? previous.rank : index + 1 })
+  })
+
+  return ranking
+}
@@ -0,0 +1,108 @@
+/**
+ * Scoring Logic for All Star Quiz
+ *
+ * Awards points for correct answers: a base amount plus a bonus for the time
+ * left on the clock, scaled by question difficulty, plus a bonus for streaks
+ * of consecutive correct answers. Wrong answers and timeouts break the streak.
+ */
+
+import type { PlayerAnswer } from './elimination-logic'
+
+export type QuestionDifficulty = 'EASY' | 'MEDIUM' | 'HARD'
+
+export type ScoreTable = {
+  // Points for any correct answer
+  pointsPerCorrect: number
+  // Extra points for answering instantly, scaled down to 0 at the time limit
+  speedBonusPoints: number
+  // Extra points per consecutive correct answer after the first
+  streakBonusPoints: number
+  difficultyMultipliers: Record<QuestionDifficulty, number>
+}
+
+export const DEFAULT_SCORE_TABLE: ScoreTable = {
+  pointsPerCorrect: 100,
+  speedBonusPoints: 50,
+  streakBonusPoints: 10,
+  difficultyMultipliers: {
+    EASY: 1,
+    MEDIUM: 1.5,
+    HARD: 2
+  }
+}
+
+// Streak bonus stops growing after this many consecutive correct answers
+export const MAX_STREAK_BONUS_STEPS = 5
+
+export type PlayerScore = {
+  total: number
+  // Consecutive correct answers up to and including the last question
+  streak: number
+}
+
+export type ScoreAward = PlayerScore & {
+  playerId: string
+  points: number
+}
+
+type AnswerPointsInput = {
+  responseTime: number
+  timeLimit: number
+  difficulty?: QuestionDifficulty | undefined
+  // Consecutive correct answers including this one
+  streak: number
+}
+
+type ScoreQuestionOptions = {
+  timeLimit: number
+  difficulty?: QuestionDifficulty | undefined
+  table?: ScoreTable
+}
+
+/**
+ * Points for a single correct answer
+ */
+export const calculateAnswerPoints = (
+  { responseTime, timeLimit, difficulty = 'MEDIUM', streak }: AnswerPointsInput,
+  table: ScoreTable = DEFAULT_SCORE_TABLE
+): number => {
+  const remainingRatio = timeLimit > 0
+    ? Math.min(Math.max((timeLimit - responseTime) / timeLimit, 0), 1)
+    : 0
+
+  const answerPoints = (table.pointsPerCorrect + table.speedBonusPoints * remainingRatio)
+    * table.difficultyMultipliers[difficulty]
+  const streakPoints = table.streakBonusPoints * Math.min(Math.max(streak - 1, 0), MAX_STREAK_BONUS_STEPS)
+
+  return Math.round(answerPoints + streakPoints)
+}
+
+/**
+ * Score one question for every contender. Contenders without a correct answer
+ * get no points and lose their streak.
+ */
+export const scoreQuestion = (
+  answers: PlayerAnswer[],
+  contenders: string[],
+  scores: ReadonlyMap<string, PlayerScore>,
+  { timeLimit, difficulty, table = DEFAULT_SCORE_TABLE }: ScoreQuestionOptions
+): ScoreAward[] => {
+  const answersByPlayer = new Map(answers.map(answer => [answer.playerId, answer]))
+
+  return contenders.map(playerId => {
+    const previous = scores.get(playerId) ?? { total: 0, streak: 0 }
+    const answer = answersByPlayer.get(playerId)
+
+    if (!answer?.isCorrect) {
+      return { playerId, points: 0, total: previous.total, streak: 0 }
+    }
+
+    const streak = previous.streak + 1
+    const points = calculateAnswerPoints(
+      { responseTime: answer.responseTime, timeLimit, difficulty, streak },
+      table
+    )
+
+    return { playerId, points, total: previous.total + points, streak }
+  })
+}
@@ -0,0 +1,106 @@
+/**
+ * Game Statistics for All Star Quiz
+ *
+ * Aggregates a finished game's answers and questions into the figures
+ * stored on GameStatistics: duration, response times, answer distribution,
+ * difficulty mix and elimination causes.
+ */
+
+import type { EliminationReason } from './elimination-rules'
+import type { QuestionDifficulty } from './scoring'
+
+export type StatisticsAnswer = {
+  isCorrect: boolean
+  isTimeout: boolean
+  // Response time in seconds, null for timeouts
+  responseTime: number | null
+  wasEliminated: boolean
+  eliminationReason: string | null
+}
+
+export type StatisticsInput = {
+  totalPlayers: number
+  startedAt: Date | null
+  endedAt: Date | null
+  // Difficulty of every question that was actually asked
+  askedQuestions: QuestionDifficulty[]
+  answers: StatisticsAnswer[]
+}
+
+export type GameStatisticsSummary = {
+  totalPlayers: number
+  questionsAsked: number
+  gameDuration: number
+  averageResponseTime: number | null
+  fastestOverallResponse: number | null
+  slowestOverallResponse: number | null
+  totalCorrectAnswers: number
+  totalIncorrectAnswers: number
+  totalTimeouts: number
+  easyQuestionsAsked: number
+  mediumQuestionsAsked: number
+  hardQuestionsAsked: number
+  eliminatedByWrongAnswer: number
+  eliminatedByTimeout: number
+  eliminatedBySlowest: number
+}
+
+// Elimination reasons grouped into the causes GameStatistics tracks
+const ELIMINATION_CAUSES: Record<EliminationReason, 'wrong' | 'timeout' | 'slowest'> = {
+  wrong_answer: 'wrong',
+  fastest_incorrect: 'wrong',
+  timeout: 'timeout',
+  slowest_correct: 'slowest'
+}
+
+/**
+ * Game duration in whole seconds, 0 when the game never started
+ */
+export const calculateGameDuration = (startedAt: Date | null, endedAt: Date | null): number => {
+  if (!startedAt || !endedAt) return 0
+  return Math.max(Math.round((endedAt.getTime() - startedAt.getTime()) / 1000), 0)
+}
+
+/**
+ * Aggregate a game's answers and asked questions
+ */
+export const summarizeGameStatistics = ({
+  totalPlayers,
+  startedAt,
+  endedAt,
+  askedQuestions,
+  answers
+}: StatisticsInput): GameStatisticsSummary => {
+  const times = answers
+    .map(answer => answer.responseTime)
+    .filter((time): time is number => time !== null)
+
+  const eliminationCauses = answers
+    .filter(answer => answer.wasEliminated && answer.eliminationReason)
+    .map(answer => ELIMINATION_CAUSES[answer.eliminationReason as EliminationReason])
+
+  const countDifficulty = (difficulty: QuestionDifficulty) =>
+    askedQuestions.filter(asked => asked === difficulty).length
+  const countCause = (cause: 'wrong' | 'timeout' | 'slowest') =>
+    eliminationCauses.filter(eliminationCause => eliminationCause === cause).length
+
+  return {
+    totalPlayers,
+    questionsAsked: askedQuestions.length,
+    gameDuration: calculateGameDuration(startedAt, endedAt),
+    averageResponseTime: times.length > 0
+      ? times.reduce((sum, time) => sum + time, 0) / times.length
+      : null,
+    fastestOverallResponse: times.length > 0 ? Math.min(...times) : null,
+    slowestOverallResponse: times.length > 0 ? Math.max(...times) : null,
+    totalCorrectAnswers: answers.filter(answer => answer.isCorrect).length,
+    totalIncorrectAnswers: answers.filter(answer => !answer.isCorrect && !answer.isTimeout).length,
+    totalTimeouts: answers.filter(answer => answer.isTimeout).length,
+    easyQuestionsAsked: countDifficulty('EASY'),
+    mediumQuestionsAsked: countDifficulty('MEDIUM'),
+    hardQuestionsAsked: countDifficulty('HARD'),
+    eliminatedByWrongAnswer: countCause('wrong'),
+    eliminatedByTimeout: countCause('timeout'),
+    eliminatedBySlowest: countCause('slowest')
+  }
+}
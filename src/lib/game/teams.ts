@@ -0,0 +1,152 @@
+/**
+ * Team Battle Logic for All Star Quiz
+ *
+ * Players play for teams, picked at join or auto-balanced. The team scoring
+ * decides how teams compete: a team is out once all its members are eliminated,
+ * or teams are ranked by the sum of their members' points.
+ */
+
+export const MAX_TEAMS = 10
+
+export type TeamScoring = 'LAST_TEAM_STANDING' | 'SPEED_POINTS'
+
+export type Team = {
+  id: string
+  name: string
+  color: string | null
+}
+
+export type TeamStanding = Team & {
+  // Sum of the members' points
+  score: number
+  memberCount: number
+  survivorCount: number
+  // Question round the last member was eliminated in, null while a member survives
+  eliminatedRound: number | null
+  rank: number
+}
+
+export type TeamStandingsInput = {
+  // Team ID by player ID
+  playerTeams: ReadonlyMap<string, string>
+  eliminatedPlayers: ReadonlySet<string>
+  playerScores: ReadonlyMap<string, { total: number }>
+  // Round each team went out in, by team ID
+  teamEliminations: ReadonlyMap<string, number>
+  // Individual winner of the game; their team takes first place in a last-team-standing game
+  winnerId?: string | null
+}
+
+/**
+ * Get the players assigned to a team
+ */
+export const getTeamMembers = (teamId: string, playerTeams: ReadonlyMap<string, string>): string[] => {
+  return Array.from(playerTeams)
+    .filter(([, playerTeamId]) => playerTeamId === teamId)
+    .map(([playerId]) => playerId)
+}
+
+/**
+ * Pick the team with the fewest members for a new player, the earliest team on ties.
+ * Returns null when there are no teams.
+ */
+export const pickBalancedTeam = (
+  teams: Team[],
+  playerTeams: ReadonlyMap<string, string>
+): string | null => {
+  const [smallest] = [...teams].sort((a, b) =>
+    getTeamMembers(a.id, playerTeams).length - getTeamMembers(b.id, playerTeams).length
+  )
+
+  return smallest?.id ?? null
+}
+
+/**
+ * Find the teams that have members and have lost all of them
+ */
+export const findEliminatedTeams = (
+  teams: Team[],
+  playerTeams: ReadonlyMap<string, string>,
+  eliminatedPlayers: ReadonlySet<string>
+): string[] => {
+  return teams
+    .filter(team => {
+      const members = getTeamMembers(team.id, playerTeams)
+      return members.length > 0 && members.every(playerId => eliminatedPlayers.has(playerId))
+    })
+    .map(team => team.id)
+}
+
+/**
+ * Compare two standings: negative when `a` ranks above `b`, zero for a full tie
+ */
+export const compareTeamStandings = (
+  a: Omit<TeamStanding, 'rank'>,
+  b: Omit<TeamStanding, 'rank'>,
+  scoring: TeamScoring
+): number => {
+  if (scoring === 'LAST_TEAM_STANDING') {
+    // Surviving teams first, then the teams that went out last
+    if (a.eliminatedRound !== b.eliminatedRound) {
+      if (a.eliminatedRound === null) return -1
+      if (b.eliminatedRound === null) return 1
+      return b.eliminatedRound - a.eliminatedRound
+    }
+
+    if (a.survivorCount !== b.survivorCount) {
+      return b.survivorCount - a.survivorCount
+    }
+  }
+
+  return b.score - a.score
+}
+
+/**
+ * Rank every team. Teams tied on every criterion share a rank (1, 2, 2, 4).
+ */
+export const buildTeamStandings = (
+  teams: Team[],
+  scoring: TeamScoring,
+  { playerTeams, eliminatedPlayers, playerScores, teamEliminations, winnerId = null }: TeamStandingsInput
+): TeamStanding[] => {
+  const winnerTeamId = scoring === 'LAST_TEAM_STANDING' && winnerId ? playerTeams.get(winnerId) ?? null : null
+  const isWinnerTeam = (team: Team) => team.id === winnerTeamId
+
+  const candidates = teams.map(team => {
+    const members = getTeamMembers(team.id, playerTeams)
+
+    return {
+      ...team,
+      score: members.reduce((sum, playerId) => sum + (playerScores.get(playerId)?.total ?? 0), 0),
+      memberCount: members.length,
+      survivorCount: members.filter(playerId => !eliminatedPlayers.has(playerId)).length,
+      eliminatedRound: teamEliminations.get(team.id) ?? null
+    }
+  })
+
+  const sorted = candidates.sort((a, b) => {
+    if (isWinnerTeam(a) !== isWinnerTeam(b)) return isWinnerTeam(a) ? -1 : 1
+    return compareTeamStandings(a, b, scoring)
+  })
+
+  const standings: TeamStanding[] = []
+  sorted.forEach((candidate, index) => {
+    const previous = standings[index - 1]
+    const sharesRank = previous
+      && !isWinnerTeam(previous)
+      && compareTeamStandings(previous, candidate, scoring) === 0
+
+    standings.push({ ...candidate, rank: sharesRank ? previous.rank : index + 1 })
+  })
+
+  return standings
+}
+
+/**
+ * Get the team that won outright, or null when first place is shared
+ */
+export const getWinningTeamId = (standings: TeamStanding[]): string | null => {
+  const [first, second] = standings
+  if (!first || second?.rank === first.rank) return null
+  return first.id
+}
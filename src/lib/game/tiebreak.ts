@@ -0,0 +1,30 @@
+/**
+ * Tiebreak Logic for All Star Quiz
+ *
+ * Detects ties on final questions. A tie sends the tied players into a
+ * sudden-death round that repeats until a single winner emerges.
+ */
+
+import type { PlayerAnswer } from './elimination-logic'
+
+export type TiebreakReason = 'no_correct_answer' | 'dead_heat'
+
+// Exact timestamp matches are a dead heat unless a tolerance is configured
+export const DEFAULT_TIE_TOLERANCE_MS = 0
+
+/**
+ * Find the players tied for the fastest correct answer.
+ * Correct answers must be sorted fastest first; answers within the tolerance of the fastest are tied.
+ */
+export const findDeadHeat = (
+  correctAnswers: PlayerAnswer[],
+  toleranceMs = DEFAULT_TIE_TOLERANCE_MS
+): string[] => {
+  const fastest = correctAnswers[0]
+  if (!fastest) return []
+
+  const cutoff = fastest.serverTimestamp.getTime() + toleranceMs
+  return correctAnswers
+    .filter(answer => answer.serverTimestamp.getTime() <= cutoff)
+    .map(answer => answer.playerId)
+}
@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for Bot Profiles
+ *
+ * Verifies seeded randomness and how bots pick answers and think times
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  BOT_PROFILES,
+  createSeededRandom,
+  decideBotAnswer,
+  type BotProfile
+} from '../bot-profiles'
+
+const profile = (overrides: Partial<BotProfile>): BotProfile => ({
+  name: 'test',
+  accuracy: 1,
+  minLatencyMs: 100,
+  maxLatencyMs: 200,
+  timeoutRate: 0,
+  ...overrides
+})
+
+describe('Bot Profiles', () => {
+  describe('createSeededRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      // Arrange
+      const first = createSeededRandom(42)
+      const second = createSeededRandom(42)
+
+      // Act
+      const firstValues = Array.from({ length: 5 }, first)
+      const secondValues = Array.from({ length: 5 }, second)
+
+      // Assert
+      expect(secondValues).toEqual(firstValues)
+      firstValues.forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThan(1)
+      })
+    })
+
+    it('should produce different sequences for different seeds', () => {
+      expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)())
+    })
+  })
+
+  describe('decideBotAnswer', () => {
+    it('should always answer correctly with full accuracy', () => {
+      // Arrange
+      const random = createSeededRandom(7)
+
+      // Act
+      const decisions = Array.from({ length: 20 }, () => decideBotAnswer(profile({}), 'C', random))
+
+      // Assert
+      decisions.forEach(decision => {
+        expect(decision).toMatchObject({ type: 'answer', selectedAnswer: 'C' })
+      })
+    })
+
+    it('should always pick a wrong option with zero accuracy', () => {
+      // Arrange
+      const random = createSeededRandom(7)
+
+      // Act
+      const decisions = Array.from({ length: 20 }, () =>
+        decideBotAnswer(profile({ accuracy: 0 }), 'C', random)
+      )
+
+      // Assert
+      decisions.forEach(decision => {
+        expect(decision.type).toBe('answer')
+        expect(decision.type === 'answer' && decision.selectedAnswer).not.toBe('C')
+      })
+    })
+
+    it('should keep the think time within the profile range', () => {
+      // Arrange
+      const random = createSeededRandom(11)
+
+      // Act
+      const delays = Array.from({ length: 50 }, () => decideBotAnswer(profile({}), 'A', random))
+        .map(decision => decision.type === 'answer' ? decision.delayMs : -1)
+
+      // Assert
+      expect(Math.min(...delays)).toBeGreaterThanOrEqual(100)
+      expect(Math.max(...delays)).toBeLessThanOrEqual(200)
+    })
+
+    it('should let the question time out at the timeout rate', () => {
+      // Act
+      const decision = decideBotAnswer(profile({ timeoutRate: 1 }), 'A', createSeededRandom(1))
+
+      // Assert
+      expect(decision).toEqual({ type: 'timeout' })
+    })
+  })
+
+  it('should only ship profiles with valid probabilities and ranges', () => {
+    Object.values(BOT_PROFILES).forEach(preset => {
+      expect(preset.accuracy).toBeGreaterThanOrEqual(0)
+      expect(preset.accuracy).toBeLessThanOrEqual(1)
+      expect(preset.minLatencyMs).toBeLessThanOrEqual(preset.maxLatencyMs)
+    })
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Integration Tests for the Game Simulator
+ *
+ * Plays full games against the in-process socket server with bot clients
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+
+// Simulated rooms are not bound to a GameSession, so the database is never queried
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+import { BOT_PROFILES } from '../bot-profiles'
+import { runGameSimulation } from '../game-simulator'
+import { gameRooms } from '../../socket/game-rooms'
+
+describe('Game Simulator', () => {
+  it('should play a game to the end without invariant violations', async () => {
+    // Act
+    const report = await runGameSimulation({
+      botCount: 5,
+      profiles: [BOT_PROFILES.expert, BOT_PROFILES.average, BOT_PROFILES.novice],
+      seed: 42,
+      timeoutMs: 15000
+    })
+
+    // Assert
+    expect(report.violations).toEqual([])
+    expect(report.timedOut).toBe(false)
+    expect(report.players).toHaveLength(5)
+    expect(report.winnerId).toMatch(/-bot\d$/)
+    expect(report.finalRanking).toHaveLength(5)
+    expect(report.finalRanking[0]?.playerId).toBe(report.winnerId)
+    expect(report.eliminations.length).toBeGreaterThan(0)
+  })
+
+  it('should report latency for every client-visible event', async () => {
+    // Act
+    const report = await runGameSimulation({ botCount: 3, seed: 7, timeoutMs: 15000 })
+
+    // Assert
+    expect(Object.keys(report.latencies)).toEqual(expect.arrayContaining([
+      'joined-game',
+      'game-started',
+      'next-question',
+      'answer-received',
+      'question-result'
+    ]))
+    expect(report.latencies['joined-game']?.count).toBe(3)
+  })
+
+  it('should reuse the game code and bot profiles for the same seed', async () => {
+    // Act
+    const first = await runGameSimulation({ botCount: 2, seed: 99, timeoutMs: 15000 })
+    const second = await runGameSimulation({ botCount: 2, seed: 99, timeoutMs: 15000 })
+
+    // Assert
+    expect(second.gameCode).toBe(first.gameCode)
+    expect(second.players).toEqual(first.players)
+  })
+
+  it('should remove the simulated room afterwards', async () => {
+    // Act
+    const report = await runGameSimulation({ botCount: 2, seed: 3, timeoutMs: 15000 })
+
+    // Assert
+    expect(gameRooms.has(report.gameCode)).toBe(false)
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for Simulator Invariants
+ *
+ * Verifies that broken game rules observed by a client are reported
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createInvariantChecker } from '../invariants'
+import type { GameOverResult, QuestionResult } from '../../socket/types'
+
+const questionResult = (overrides: Partial<QuestionResult>): QuestionResult => ({
+  questionId: 'q1',
+  correctAnswer: 'A',
+  eliminatedPlayerId: null,
+  eliminations: [],
+  winnerId: null,
+  correctAnswerers: [],
+  incorrectAnswerers: [],
+  survivors: ['p1', 'p2', 'p3'],
+  lifeLosses: [],
+  lives: {},
+  scores: [],
+  shadowScores: [],
+  teamStandings: [],
+  numericRanking: [],
+  isFinalQuestion: false,
+  ...overrides
+})
+
+const rankingEntry = (playerId: string, rank: number) => ({
+  playerId,
+  playerName: playerId,
+  eliminatedRound: null,
+  correctAnswers: 0,
+  questionsAnswered: 0,
+  averageResponseTime: null,
+  score: 0,
+  rank
+})
+
+const gameOver = (overrides: Partial<GameOverResult> = {}): GameOverResult => ({
+  winnerId: 'p1',
+  finalRanking: [rankingEntry('p1', 1), rankingEntry('p2', 2), rankingEntry('p3', 3)],
+  questionsPlayed: 2,
+  teamStandings: [],
+  winningTeamId: null,
+  ...overrides
+})
+
+describe('Simulator Invariants', () => {
+  it('should accept a consistent game', () => {
+    // Arrange
+    const checker = createInvariantChecker(['p1', 'p2', 'p3'])
+
+    // Act
+    checker.onQuestion(1)
+    checker.onQuestionResult(questionResult({
+      eliminations: [{ playerId: 'p3', reason: 'wrong_answer' }],
+      survivors: ['p1', 'p2']
+    }))
+    checker.onQuestion(2)
+    checker.onQuestionResult(questionResult({
+      eliminations: [{ playerId: 'p2', reason: 'slowest_correct' }],
+      correctAnswerers: ['p1', 'p2'],
+      survivors: ['p1']
+    }))
+    checker.onGameOver(gameOver())
+
+    // Assert
+    expect(checker.finish()).toEqual([])
+  })
+
+  it('should report skipped questions and questions after the game ended', () => {
+    // Arrange
+    const checker = createInvariantChecker(['p1', 'p2', 'p3'])
+
+    // Act
+    checker.onQuestion(2)
+    checker.onGameOver(gameOver())
+    checker.onQuestion(3)
+
+    // Assert
+    expect(checker.finish().map(violation => violation.message)).toEqual([
+      'Question number jumped from 0 to 2',
+      'Question 3 was sent after the game ended'
+    ])
+  })
+
+  it('should report answers and survivors from eliminated players', () => {
+    // Arrange
+    const checker = createInvariantChecker(['p1', 'p2', 'p3'])
+    checker.onQuestionResult(questionResult({
+      eliminations: [{ playerId: 'p3', reason: 'timeout' }],
+      survivors: ['p1', 'p2']
+    }))
+
+    // Act
+    checker.onQuestionResult(questionResult({
+      eliminations: [{ playerId: 'p3', reason: 'timeout' }],
+      correctAnswerers: ['p3'],
+      survivors: ['p1', 'p2', 'p3']
+    }))
+
+    // Assert
+    expect(checker.finish().map(violation => violation.message)).toEqual([
+      'Answer accepted from eliminated player p3',
+      'Player p3 was eliminated twice',
+      'Eliminated player p3 is listed as a survivor',
+      'Survivors grew from 2 to 3',
+      'The game did not finish'
+    ])
+  })
+
+  it('should report an incomplete or misordered final ranking', () => {
+    // Arrange
+    const checker = createInvariantChecker(['p1', 'p2', 'p3'])
+
+    // Act
+    checker.onGameOver(gameOver({
+      winnerId: 'p2',
+      finalRanking: [rankingEntry('p1', 1), rankingEntry('p2', 3), rankingEntry('p1', 2)]
+    }))
+
+    // Assert
+    expect(checker.finish().map(violation => violation.message)).toEqual([
+      'Final ranking does not list every player once (missing: p3)',
+      'Final ranking is not in rank order',
+      'Winner p2 is not ranked first'
+    ])
+  })
+
+  it('should report errors sent to any client', () => {
+    // Arrange
+    const checker = createInvariantChecker(['p1'])
+
+    // Act
+    checker.onError('p1', 'Invalid answer submission')
+
+    // Assert
+    expect(checker.finish()[0]).toEqual({
+      event: 'error',
+      message: 'p1 received an error: Invalid answer submission'
+    })
+  })
+})
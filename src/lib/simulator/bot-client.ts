@@ -0,0 +1,203 @@
+/**
+ * Bot Clients for the Game Simulator
+ *
+ * Player bots join a game over socket.io-client and answer questions following
+ * their profile; the host bot drives the game through admin actions. Each bot
+ * presents its user ID in the handshake, which the simulator's server trusts.
+ */
+
+import { io } from 'socket.io-client'
+import type { QuizClientSocket, SocketErrorData } from '../socket/events'
+import type {
+  AdminActionPayload,
+  AdminActionType,
+  AnswerReceivedData,
+  NextQuestionData,
+  PlayerEliminatedData
+} from '../socket/types'
+import { decideBotAnswer, type BotProfile, type RandomSource } from './bot-profiles'
+import type { LatencyRecorder } from './metrics'
+
+export type BotPlayerOptions = {
+  url: string
+  gameCode: string
+  playerId: string
+  playerName: string
+  profile: BotProfile
+  // Correct answer by question ID
+  answerKey: ReadonlyMap<string, string>
+  random: RandomSource
+  latencies: LatencyRecorder
+  onError: (message: string) => void
+}
+
+export type BotPlayer = {
+  playerId: string
+  profile: BotProfile
+  socket: QuizClientSocket
+  join: () => Promise<void>
+  disconnect: () => void
+}
+
+export type HostBotOptions = {
+  url: string
+  gameCode: string
+  adminId: string
+  latencies: LatencyRecorder
+  onError: (message: string) => void
+}
+
+export type HostBot = {
+  socket: QuizClientSocket
+  startGame: () => void
+  nextQuestion: () => void
+  endGame: (reason: string) => void
+  disconnect: () => void
+}
+
+const connectBot = (url: string, userId: string, userName: string): QuizClientSocket => {
+  const socket: QuizClientSocket = io(url, {
+    auth: { userId, userName },
+    transports: ['websocket'],
+    forceNew: true,
+    reconnection: false
+  })
+
+  // Acknowledge latency pings like the real client does
+  socket.on('latency-ping', (ack) => {
+    ack()
+  })
+
+  return socket
+}
+
+/**
+ * Connect a player bot
+ */
+export const createBotPlayer = ({
+  url,
+  gameCode,
+  playerId,
+  playerName,
+  profile,
+  answerKey,
+  random,
+  latencies,
+  onError
+}: BotPlayerOptions): BotPlayer => {
+  const socket = connectBot(url, playerId, playerName)
+  const pendingAnswers = new Set<NodeJS.Timeout>()
+  let isEliminated = false
+  let submittedAt: number | null = null
+
+  socket.on('next-question', (data: NextQuestionData) => {
+    latencies.recordSince('next-question')
+
+    // Eliminated players and players outside a sudden-death tiebreak sit the question out
+    if (isEliminated || (data.isSuddenDeath && !data.tiebreakPlayers.includes(playerId))) {
+      return
+    }
+
+    const decision = decideBotAnswer(profile, answerKey.get(data.question.id) ?? 'A', random)
+    if (decision.type === 'timeout') return
+
+    const timer = setTimeout(() => {
+      pendingAnswers.delete(timer)
+      submittedAt = Date.now()
+      latencies.mark('question-result', submittedAt)
+      socket.emit('submit-answer', {
+        gameCode,
+        questionId: data.question.id,
+        selectedAnswer: decision.selectedAnswer,
+        responseTime: decision.delayMs / 1000
+      })
+    }, decision.delayMs)
+    pendingAnswers.add(timer)
+  })
+
+  socket.on('answer-received', (data: AnswerReceivedData) => {
+    if (data.playerId === playerId && submittedAt !== null) {
+      latencies.record('answer-received', Date.now() - submittedAt)
+      submittedAt = null
+    }
+  })
+
+  socket.on('player-eliminated', (data: PlayerEliminatedData) => {
+    if (data.playerId === playerId) {
+      isEliminated = true
+    }
+  })
+
+  socket.on('error', (data: SocketErrorData) => {
+    onError(data.message)
+  })
+
+  const join = () => new Promise<void>((resolve, reject) => {
+    const joinedAt = Date.now()
+
+    const handleJoined = () => {
+      latencies.record('joined-game', Date.now() - joinedAt)
+      socket.off('error', handleError)
+      resolve()
+    }
+    const handleError = (data: SocketErrorData) => {
+      socket.off('joined-game', handleJoined)
+      reject(new Error(`${playerId} could not join: ${data.message}`))
+    }
+
+    socket.once('joined-game', handleJoined)
+    socket.once('error', handleError)
+    socket.emit('join-game', { gameCode })
+  })
+
+  return {
+    playerId,
+    profile,
+    socket,
+    join,
+    disconnect: () => {
+      pendingAnswers.forEach(timer => clearTimeout(timer))
+      pendingAnswers.clear()
+      socket.disconnect()
+    }
+  }
+}
+
+/**
+ * Connect a host bot that sends admin actions for a game
+ */
+export const createHostBot = ({
+  url,
+  gameCode,
+  adminId,
+  latencies,
+  onError
+}: HostBotOptions): HostBot => {
+  const socket = connectBot(url, adminId, 'Host')
+
+  socket.on('error', (data: SocketErrorData) => {
+    onError(data.message)
+  })
+
+  const adminAction = (action: AdminActionType, payload?: AdminActionPayload) => {
+    socket.emit('admin-action', { action, gameCode, ...(payload && { payload }) })
+  }
+
+  return {
+    socket,
+    startGame: () => {
+      latencies.mark('game-started')
+      adminAction('start-game')
+    },
+    nextQuestion: () => {
+      latencies.mark('next-question')
+      adminAction('next-question')
+    },
+    endGame: (reason) => {
+      adminAction('end-game', { reason })
+    },
+    disconnect: () => {
+      socket.disconnect()
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Bot Profiles for the Game Simulator
+ *
+ * Describes how a simulated player answers: how often it is right, how long it
+ * takes and how often it lets the timer run out. Randomness comes from a seeded
+ * generator so a simulation can be replayed exactly.
+ */
+
+export type BotProfile = {
+  name: string
+  // Probability of choosing the correct answer (0-1)
+  accuracy: number
+  // Think time before answering, drawn uniformly from the range (ms)
+  minLatencyMs: number
+  maxLatencyMs: number
+  // Probability of not answering at all (0-1)
+  timeoutRate: number
+}
+
+export type BotDecision =
+  | { type: 'answer'; selectedAnswer: string; delayMs: number }
+  | { type: 'timeout' }
+
+export type RandomSource = () => number
+
+export const ANSWER_OPTIONS = ['A', 'B', 'C', 'D'] as const
+
+export const BOT_PROFILES = {
+  expert: { name: 'expert', accuracy: 0.95, minLatencyMs: 20, maxLatencyMs: 80, timeoutRate: 0 },
+  average: { name: 'average', accuracy: 0.7, minLatencyMs: 40, maxLatencyMs: 150, timeoutRate: 0 },
+  novice: { name: 'novice', accuracy: 0.4, minLatencyMs: 80, maxLatencyMs: 250, timeoutRate: 0 },
+  // Slow and distracted: regularly lets the question time out
+  sleepy: { name: 'sleepy', accuracy: 0.6, minLatencyMs: 500, maxLatencyMs: 3000, timeoutRate: 0.3 }
+} satisfies Record<string, BotProfile>
+
+/**
+ * Deterministic random source (mulberry32) returning numbers in [0, 1)
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = state
+    value = Math.imul(value ^ (value >>> 15), value | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Decide how a bot responds to a question with the given correct answer
+ */
+export const decideBotAnswer = (
+  profile: BotProfile,
+  correctAnswer: string,
+  random: RandomSource
+): BotDecision => {
+  if (random() < profile.timeoutRate) {
+    return { type: 'timeout' }
+  }
+
+  const delayMs = Math.round(
+    profile.minLatencyMs + (profile.maxLatencyMs - profile.minLatencyMs) * random()
+  )
+
+  if (random() < profile.accuracy) {
+    return { type: 'answer', selectedAnswer: correctAnswer, delayMs }
+  }
+
+  const wrongOptions = ANSWER_OPTIONS.filter(option => option !== correctAnswer)
+  const selectedAnswer = wrongOptions[Math.floor(random() * wrongOptions.length)] ?? 'A'
+
+  return { type: 'answer', selectedAnswer, delayMs }
+}
@@ -0,0 +1,259 @@
+/**
+ * Headless Game Simulator for All Star Quiz
+ *
+ * Runs a complete game locally: starts the socket server in-process on a free
+ * port, connects bot players and a host bot through socket.io-client and plays
+ * until the game is over. Simulated rooms are not bound to a GameSession and
+ * draw questions from an in-memory set, so no database is needed.
+ *
+ * The simulator registers its server as the process's socket server; run it
+ * from Vitest or a script, not inside the app's server process.
+ */
+
+import type { PlayerElimination } from '../game/elimination-rules'
+import { clearQuestionTimers } from '../socket/elimination-handler'
+import {
+  createGameRoom,
+  deleteGameRoom,
+  getGameRoom,
+  type CreateGameRoomOptions
+} from '../socket/game-rooms'
+import { startRealtimeServer } from '../socket/realtime-server'
+import { clearReconnectTimers } from '../socket/reconnect'
+import type { SocketAuthenticator } from '../socket/socket-auth'
+import type { GameOverResult, Question, QuestionResult } from '../socket/types'
+import {
+  BOT_PROFILES,
+  createSeededRandom,
+  type BotProfile
+} from './bot-profiles'
+import { createBotPlayer, createHostBot, type BotPlayer } from './bot-client'
+import { createInvariantChecker, type InvariantViolation } from './invariants'
+import { createLatencyRecorder, type LatencySummary } from './metrics'
+
+const DEFAULT_QUESTION_COUNT = 10
+const DEFAULT_QUESTION_INTERVAL_MS = 20
+const DEFAULT_TIMEOUT_MS = 60000
+
+export type SimulationOptions = {
+  botCount: number
+  // Assigned to the bots in turn
+  profiles?: BotProfile[]
+  // Asked in order, cycling for final and sudden-death questions
+  questions?: Question[]
+  // Seeds the game code and every bot's answers
+  seed?: number
+  room?: Omit<CreateGameRoomOptions, 'gameSessionId' | 'status' | 'currentQuestion'>
+  // Host pause between a question result and the next question
+  questionIntervalMs?: number
+  // The game is ended by the host and reported as timed out after this long
+  timeoutMs?: number
+}
+
+export type SimulatedElimination = PlayerElimination & {
+  questionNumber: number
+}
+
+export type SimulationReport = {
+  gameCode: string
+  players: Array<{ playerId: string; profile: string }>
+  winnerId: string | null
+  questionsPlayed: number
+  eliminations: SimulatedElimination[]
+  finalRanking: GameOverResult['finalRanking']
+  // Latency samples by event name
+  latencies: Record<string, LatencySummary>
+  violations: InvariantViolation[]
+  timedOut: boolean
+  durationMs: number
+}
+
+/**
+ * Trust the user ID and name each bot presents in its handshake; the host bot signs in as the game's admin
+ */
+const authenticateBot = (adminId: string): SocketAuthenticator => async ({ auth }) => {
+  const userId: unknown = auth.userId
+  const userName: unknown = auth.userName
+  if (typeof userId !== 'string' || !userId) return null
+
+  return {
+    id: userId,
+    name: typeof userName === 'string' && userName ? userName : userId,
+    role: userId === adminId ? 'ADMIN' : 'PLAYER'
+  }
+}
+
+/**
+ * Build a question set with rotating correct answers
+ */
+export const createSimulationQuestions = (count = DEFAULT_QUESTION_COUNT): Question[] => {
+  const answers = ['A', 'B', 'C', 'D']
+
+  return Array.from({ length: count }, (_, index) => ({
+    id: `sim-q${index + 1}`,
+    text: `Simulated question ${index + 1}`,
+    optionA: 'Option A',
+    optionB: 'Option B',
+    optionC: 'Option C',
+    optionD: 'Option D',
+    correctAnswer: answers[index % answers.length] ?? 'A',
+    difficulty: 'MEDIUM'
+  }))
+}
+
+/**
+ * Play a full game with bots and report latencies, eliminations and invariant violations
+ */
+export const runGameSimulation = async ({
+  botCount,
+  profiles = [BOT_PROFILES.average],
+  questions = createSimulationQuestions(),
+  seed = Date.now(),
+  room = {},
+  questionIntervalMs = DEFAULT_QUESTION_INTERVAL_MS,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+}: SimulationOptions): Promise<SimulationReport> => {
+  const startedAt = Date.now()
+  const random = createSeededRandom(seed)
+  const gameCode = `SIM${Math.floor(random() * 1000000).toString().padStart(6, '0')}`
+  const adminId = `${gameCode}-host`
+  const answerKey = new Map(questions.map(question => [question.id, question.correctAnswer]))
+
+  const server = await startRealtimeServer({
+    port: 0,
+    host: '127.0.0.1',
+    transports: ['websocket'],
+    // Simulated rooms have no GameSession to recover
+    recoverRooms: false,
+    handlers: {
+      startCountdownMs: 0,
+      authenticate: authenticateBot(adminId),
+      // Simulated rooms have no GameParticipants; every bot may take a seat
+      authorizeJoin: async () => true,
+      loadQuestion: async (gameRoom) =>
+        questions[(gameRoom.currentQuestion - 1) % questions.length] ?? null
+    }
+  })
+  const { url } = server
+
+  createGameRoom(gameCode, adminId, {
+    totalQuestions: questions.length,
+    ...room,
+    maxPlayers: Math.max(room.maxPlayers ?? 0, botCount)
+  })
+
+  const playerIds = Array.from({ length: botCount }, (_, index) => `${gameCode}-bot${index + 1}`)
+  const checker = createInvariantChecker(playerIds)
+  const latencies = createLatencyRecorder()
+  const eliminations: SimulatedElimination[] = []
+
+  const bots: BotPlayer[] = playerIds.map((playerId, index) => createBotPlayer({
+    url,
+    gameCode,
+    playerId,
+    playerName: `Bot ${index + 1}`,
+    profile: profiles[index % profiles.length] ?? BOT_PROFILES.average,
+    answerKey,
+    // Each bot draws from its own sequence so answers do not depend on event order
+    random: createSeededRandom(seed + index + 1),
+    latencies,
+    onError: message => checker.onError(playerId, message)
+  }))
+  const host = createHostBot({
+    url,
+    gameCode,
+    adminId,
+    latencies,
+    onError: message => checker.onError('host', message)
+  })
+
+  let gameOver: GameOverResult | null = null
+  let timedOut = false
+  let questionNumber = 0
+  let pendingNextQuestion: NodeJS.Timeout | null = null
+  let timeout: NodeJS.Timeout | null = null
+
+  try {
+    await Promise.all(bots.map(bot => bot.join()))
+
+    // The first bot observes the room on behalf of the simulation
+    const observer = bots[0]?.socket
+    const finished = new Promise<void>(resolve => {
+      timeout = setTimeout(() => {
+        timedOut = true
+        host.endGame('Simulation timed out')
+        resolve()
+      }, timeoutMs)
+
+      if (!observer) {
+        resolve()
+        return
+      }
+
+      observer.on('game-started', () => {
+        latencies.recordSince('game-started')
+        host.nextQuestion()
+      })
+
+      observer.on('next-question', (data: { questionNumber: number }) => {
+        questionNumber = data.questionNumber
+        checker.onQuestion(data.questionNumber)
+      })
+
+      observer.on('question-result', (result: QuestionResult) => {
+        latencies.recordSince('question-result')
+        checker.onQuestionResult(result)
+        eliminations.push(...result.eliminations.map(elimination => ({ ...elimination, questionNumber })))
+
+        // The game ends with this result; game-over follows
+        if (result.winnerId || result.survivors.length <= 1) return
+
+        pendingNextQuestion = setTimeout(() => {
+          pendingNextQuestion = null
+          if (!gameOver) host.nextQuestion()
+        }, questionIntervalMs)
+      })
+
+      observer.on('game-over', (result: GameOverResult) => {
+        checker.onGameOver(result)
+        gameOver = result
+        resolve()
+      })
+    })
+
+    host.startGame()
+    await finished
+  } catch (error) {
+    checker.onError('simulator', error instanceof Error ? error.message : String(error))
+  } finally {
+    if (timeout) clearTimeout(timeout)
+    if (pendingNextQuestion) clearTimeout(pendingNextQuestion)
+
+    bots.forEach(bot => bot.disconnect())
+    host.disconnect()
+
+    const gameRoom = getGameRoom(gameCode)
+    if (gameRoom) {
+      clearQuestionTimers(gameRoom)
+      clearReconnectTimers(gameRoom)
+    }
+    deleteGameRoom(gameCode)
+
+    await server.close()
+  }
+
+  const result = gameOver as GameOverResult | null
+
+  return {
+    gameCode,
+    players: bots.map(bot => ({ playerId: bot.playerId, profile: bot.profile.name })),
+    winnerId: result?.winnerId ?? null,
+    questionsPlayed: result?.questionsPlayed ?? questionNumber,
+    eliminations,
+    finalRanking: result?.finalRanking ?? [],
+    latencies: latencies.summarize(),
+    violations: checker.finish(),
+    timedOut,
+    durationMs: Date.now() - startedAt
+  }
+}
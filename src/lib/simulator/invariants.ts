@@ -0,0 +1,116 @@
+/**
+ * Game Invariants for the Game Simulator
+ *
+ * Watches the events one client receives during a simulated game and records
+ * every broken rule: skipped questions, eliminated players coming back,
+ * answers accepted from eliminated players and inconsistent final rankings.
+ */
+
+import type { GameOverResult, QuestionResult } from '../socket/types'
+
+export type InvariantViolation = {
+  event: string
+  message: string
+}
+
+export type InvariantChecker = {
+  onQuestion: (questionNumber: number) => void
+  onQuestionResult: (result: QuestionResult) => void
+  onGameOver: (result: GameOverResult) => void
+  onError: (source: string, message: string) => void
+  // Final checks once the simulation stops
+  finish: () => InvariantViolation[]
+}
+
+/**
+ * Create a checker for a game joined by the given players
+ */
+export const createInvariantChecker = (playerIds: string[]): InvariantChecker => {
+  const violations: InvariantViolation[] = []
+  const eliminated = new Set<string>()
+  let lastQuestionNumber = 0
+  let survivorCount = playerIds.length
+  let gameOver = false
+
+  const violate = (event: string, message: string) => {
+    violations.push({ event, message })
+  }
+
+  return {
+    onQuestion: (questionNumber) => {
+      if (gameOver) {
+        violate('next-question', `Question ${questionNumber} was sent after the game ended`)
+      }
+      if (questionNumber !== lastQuestionNumber + 1) {
+        violate('next-question', `Question number jumped from ${lastQuestionNumber} to ${questionNumber}`)
+      }
+      lastQuestionNumber = questionNumber
+    },
+
+    onQuestionResult: (result) => {
+      const answerers = [...result.correctAnswerers, ...result.incorrectAnswerers]
+      answerers
+        .filter(playerId => eliminated.has(playerId))
+        .forEach(playerId => {
+          violate('question-result', `Answer accepted from eliminated player ${playerId}`)
+        })
+
+      result.eliminations
+        .filter(elimination => eliminated.has(elimination.playerId))
+        .forEach(elimination => {
+          violate('question-result', `Player ${elimination.playerId} was eliminated twice`)
+        })
+      result.eliminations.forEach(elimination => eliminated.add(elimination.playerId))
+
+      result.survivors
+        .filter(playerId => eliminated.has(playerId))
+        .forEach(playerId => {
+          violate('question-result', `Eliminated player ${playerId} is listed as a survivor`)
+        })
+
+      if (result.survivors.length > survivorCount) {
+        violate('question-result', `Survivors grew from ${survivorCount} to ${result.survivors.length}`)
+      }
+      survivorCount = result.survivors.length
+    },
+
+    onGameOver: (result) => {
+      if (gameOver) {
+        violate('game-over', 'Game over was sent more than once')
+      }
+      gameOver = true
+
+      if (eliminated.has(result.winnerId)) {
+        violate('game-over', `Winner ${result.winnerId} had been eliminated`)
+      }
+
+      const rankedIds = result.finalRanking.map(entry => entry.playerId)
+      const missing = playerIds.filter(playerId => !rankedIds.includes(playerId))
+      if (missing.length > 0 || rankedIds.length !== playerIds.length) {
+        violate('game-over', `Final ranking does not list every player once (missing: ${missing.join(', ') || 'none'})`)
+      }
+
+      const ranks = result.finalRanking.map(entry => entry.rank)
+      if (ranks[0] !== undefined && ranks[0] !== 1) {
+        violate('game-over', `Final ranking starts at rank ${ranks[0]}`)
+      }
+      if (ranks.some((rank, index) => index > 0 && rank < (ranks[index - 1] ?? rank))) {
+        violate('game-over', 'Final ranking is not in rank order')
+      }
+      if (playerIds.includes(result.winnerId) && rankedIds[0] !== result.winnerId) {
+        violate('game-over', `Winner ${result.winnerId} is not ranked first`)
+      }
+    },
+
+    onError: (source, message) => {
+      violate('error', `${source} received an error: ${message}`)
+    },
+
+    finish: () => {
+      if (!gameOver) {
+        violate('game-over', 'The game did not finish')
+      }
+      return [...violations]
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Latency Metrics for the Game Simulator
+ *
+ * Records how long each server event took to reach the bots after the
+ * client action that triggered it, and summarizes the samples per event.
+ */
+
+export type LatencySummary = {
+  count: number
+  minMs: number
+  maxMs: number
+  meanMs: number
+  p95Ms: number
+}
+
+export type LatencyRecorder = {
+  // Remember when the action that triggers an event was sent
+  mark: (event: string, atMs?: number) => void
+  // Record the time since the event's last mark, if any
+  recordSince: (event: string, atMs?: number) => void
+  record: (event: string, latencyMs: number) => void
+  summarize: () => Record<string, LatencySummary>
+}
+
+/**
+ * Summarize latency samples in milliseconds
+ */
+export const summarizeLatencies = (samples: number[]): LatencySummary => {
+  if (samples.length === 0) {
+    return { count: 0, minMs: 0, maxMs: 0, meanMs: 0, p95Ms: 0 }
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b)
+  const p95Index = Math.min(Math.ceil(sorted.length * 0.95) - 1, sorted.length - 1)
+
+  return {
+    count: sorted.length,
+    minMs: sorted[0] ?? 0,
+    maxMs: sorted[sorted.length - 1] ?? 0,
+    meanMs: Math.round(sorted.reduce((sum, sample) => sum + sample, 0) / sorted.length),
+    p95Ms: sorted[p95Index] ?? 0
+  }
+}
+
+/**
+ * Create an empty latency recorder
+ */
+export const createLatencyRecorder = (): LatencyRecorder => {
+  const marks = new Map<string, number>()
+  const samples = new Map<string, number[]>()
+
+  const record = (event: string, latencyMs: number) => {
+    samples.set(event, [...samples.get(event) ?? [], Math.max(latencyMs, 0)])
+  }
+
+  return {
+    mark: (event, atMs = Date.now()) => {
+      marks.set(event, atMs)
+    },
+    recordSince: (event, atMs = Date.now()) => {
+      const markedAt = marks.get(event)
+      if (markedAt !== undefined) {
+        record(event, atMs - markedAt)
+      }
+    },
+    record,
+    summarize: () => Object.fromEntries(
+      Array.from(samples, ([event, eventSamples]) => [event, summarizeLatencies(eventSamples)])
+    )
+  }
+}
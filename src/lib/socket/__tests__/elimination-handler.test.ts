@@ -11,9 +11,16 @@ import {
   startQuestionTimer,
   handleAnswerSubmission,
   clearQuestionTimers,
-  getActivePlayersCount
+  finishGame,
+  getActivePlayersCount,
+  getPlayerLives,
+  pauseQuestionTimer,
+  processQuestionResults,
+  resumeQuestionTimer
 } from '../elimination-handler'
+import { DEFAULT_SCORE_TABLE } from '../../game/scoring'
 import type { GameRoom } from '../game-rooms'
+import { recordQuestionDelivery, resolveAnswerTiming } from '../latency-tracker'
 
 // Mock Socket.io Server
 const createMockIo = () => ({
@@ -25,18 +32,49 @@ const createMockIo = () => ({
 // Create mock game room
 const createMockGameRoom = (): GameRoom => ({
   code: 'ABC123',
+  gameSessionId: null,
   adminId: 'admin1',
   players: new Set(['player1', 'player2', 'player3']),
+  playerNames: new Map(),
   eliminatedPlayers: new Set(),
   status: 'waiting',
   activeAnswers: new Map(),
+  questionDeliveries: new Map(),
   currentQuestion: 1,
   currentQuestionId: null,
+  processedQuestionIds: new Set(),
   maxPlayers: 10,
   questionTimer: null,
   timerInterval: null,
   totalQuestions: 10,
-  currentQuestionData: null
+  questionTimeLimit: 10,
+  eliminationRule: 'SLOWEST_CORRECT',
+  eliminationCount: 1,
+  startingLives: 1,
+  playerLives: new Map(),
+  phase: 'normal',
+  finalQuestionThreshold: 3,
+  tieToleranceMs: 0,
+  tiebreakPlayers: [],
+  tiebreakRound: 0,
+  scoreTable: DEFAULT_SCORE_TABLE,
+  playerScores: new Map(),
+  spectators: new Set(),
+  shadowAnswers: new Map(),
+  shadowScores: new Map(),
+  teamScoring: null,
+  teams: [],
+  playerTeams: new Map(),
+  teamEliminations: new Map(),
+  currentQuestionData: null,
+  questionEndsAt: null,
+  pausedRemainingMs: null,
+  questionPausedAt: null,
+  resumePending: false,
+  reconnectGraceMs: 30000,
+  disconnectedPlayers: new Map(),
+  resumeTokens: new Map(),
+  deliveredQuestion: null
 })
 
 describe('Elimination Handler', () => {
@@ -81,6 +119,21 @@ describe('Elimination Handler', () => {
       expect(gameRoom.timerInterval).not.toBeNull()
     })
 
+    it('should close the question after the game\'s time limit', () => {
+      // Arrange
+      gameRoom.questionTimeLimit = 20
+
+      // Act
+      startQuestionTimer(gameRoom, testQuestion, mockIo, false)
+      vi.advanceTimersByTime(19900)
+      const openBeforeLimit = gameRoom.questionTimer !== null
+      vi.advanceTimersByTime(100)
+
+      // Assert
+      expect(openBeforeLimit).toBe(true)
+      expect(gameRoom.questionTimer).toBeNull()
+    })
+
     it('should emit initial timer update', () => {
       // Act
       startQuestionTimer(gameRoom, testQuestion, mockIo, false)
@@ -157,6 +210,7 @@ describe('Elimination Handler', () => {
   describe('handleAnswerSubmission', () => {
     beforeEach(() => {
       gameRoom.currentQuestionId = 'q1'
+      gameRoom.questionEndsAt = Date.now() + 10000
     })
 
     it('should accept valid answer submission', () => {
@@ -180,6 +234,28 @@ describe('Elimination Handler', () => {
       })
     })
 
+    it('should use server-measured timing over the client response time', () => {
+      // Arrange
+      gameRoom.currentQuestionId = 'q1'
+      gameRoom.questionEndsAt = Date.now() + 10000
+      const answeredAt = new Date('2024-01-01T12:00:02Z')
+
+      // Act
+      handleAnswerSubmission(gameRoom, 'player1', 'q1', 'A', 0.1, {
+        responseTime: 2.4,
+        answeredAt,
+        compensationMs: 60
+      })
+
+      // Assert
+      expect(gameRoom.activeAnswers.get('player1')).toMatchObject({
+        responseTime: 2.4,
+        serverTimestamp: answeredAt,
+        clientResponseTime: 0.1,
+        latencyCompensationMs: 60
+      })
+    })
+
     it('should reject answer for wrong question ID', () => {
       // Act
       const result = handleAnswerSubmission(
@@ -298,6 +374,100 @@ describe('Elimination Handler', () => {
       expect(result).toBe(true)
       expect(gameRoom.activeAnswers.get('player1')?.selectedAnswer).toBe('A - 答案')
     })
+
+    it('should reject answers while the game is paused', () => {
+      // Arrange
+      gameRoom.status = 'paused'
+
+      // Act
+      const result = handleAnswerSubmission(gameRoom, 'player1', 'q1', 'A', 2)
+
+      // Assert
+      expect(result).toBe(false)
+      expect(gameRoom.activeAnswers.size).toBe(0)
+    })
+
+    it('should reject late answers once the question has closed', () => {
+      // Arrange
+      startQuestionTimer(gameRoom, { id: 'q1', correctAnswer: 'A' }, mockIo, false)
+      vi.advanceTimersByTime(10000)
+
+      // Act - The timeout answer a client sends at zero seconds arrives after the close
+      const result = handleAnswerSubmission(gameRoom, 'player1', 'q1', '', 10)
+
+      // Assert
+      expect(result).toBe(false)
+      expect(gameRoom.activeAnswers.size).toBe(0)
+    })
+  })
+
+  describe('pauseQuestionTimer and resumeQuestionTimer', () => {
+    const testQuestion = { id: 'q1', correctAnswer: 'A' }
+
+    it('should freeze the remaining time and stop the countdown', () => {
+      // Arrange
+      const emit = mockIo.to('ABC123').emit
+      startQuestionTimer(gameRoom, testQuestion, mockIo, false)
+      vi.advanceTimersByTime(4000)
+
+      // Act
+      const remainingMs = pauseQuestionTimer(gameRoom)
+      vi.mocked(emit).mockClear()
+      vi.advanceTimersByTime(20000)
+
+      // Assert
+      expect(remainingMs).toBe(6000)
+      expect(gameRoom.pausedRemainingMs).toBe(6000)
+      expect(gameRoom.questionTimer).toBeNull()
+      expect(gameRoom.timerInterval).toBeNull()
+      expect(emit).not.toHaveBeenCalled()
+    })
+
+    it('should return null when no question is running', () => {
+      expect(pauseQuestionTimer(gameRoom)).toBeNull()
+      expect(resumeQuestionTimer(gameRoom, mockIo)).toBeNull()
+    })
+
+    it('should resume with the exact remaining time', () => {
+      // Arrange
+      const emit = mockIo.to('ABC123').emit
+      startQuestionTimer(gameRoom, testQuestion, mockIo, false)
+      vi.advanceTimersByTime(7500)
+      pauseQuestionTimer(gameRoom)
+      vi.advanceTimersByTime(60000)
+      vi.mocked(emit).mockClear()
+
+      // Act
+      const remainingMs = resumeQuestionTimer(gameRoom, mockIo)
+
+      // Assert
+      expect(remainingMs).toBe(2500)
+      expect(gameRoom.pausedRemainingMs).toBeNull()
+      expect(emit).toHaveBeenCalledWith('timer-update', { remainingTime: 3, isUrgent: true })
+
+      vi.advanceTimersByTime(2400)
+      expect(gameRoom.questionTimer).not.toBeNull()
+
+      vi.advanceTimersByTime(100)
+      expect(gameRoom.questionTimer).toBeNull()
+    })
+
+    it('should not count the pause in the response time of later answers', () => {
+      // Arrange
+      startQuestionTimer(gameRoom, testQuestion, mockIo, false)
+      recordQuestionDelivery(gameRoom, 'player1')
+      vi.advanceTimersByTime(2000)
+      pauseQuestionTimer(gameRoom)
+      vi.advanceTimersByTime(60000)
+      resumeQuestionTimer(gameRoom, mockIo)
+      vi.advanceTimersByTime(1000)
+
+      // Act
+      const timing = resolveAnswerTiming(gameRoom, 'player1', 'socket1')
+
+      // Assert
+      expect(timing?.responseTime).toBe(3)
+    })
   })
 
   describe('clearQuestionTimers', () => {
@@ -407,6 +577,330 @@ describe('Elimination Handler', () => {
     })
   })
 
+  describe('getPlayerLives', () => {
+    it('should report remaining lives for players still in the game', () => {
+      // Arrange
+      gameRoom.startingLives = 3
+      gameRoom.playerLives.set('player1', 1)
+      gameRoom.eliminatedPlayers.add('player3')
+
+      // Act
+      const lives = getPlayerLives(gameRoom)
+
+      // Assert
+      expect(lives).toEqual({ player1: 1, player2: 3 })
+    })
+  })
+
+  describe('processQuestionResults', () => {
+    const testQuestion = { id: 'q1', correctAnswer: 'A' }
+
+    beforeEach(() => {
+      gameRoom.status = 'in_progress'
+      gameRoom.players.add('player4')
+      gameRoom.currentQuestionId = 'q1'
+      gameRoom.questionEndsAt = Date.now() + 10000
+    })
+
+    it('should start the final showdown when survivors drop to the threshold', async () => {
+      // Arrange
+      const emit = mockIo.to('ABC123').emit
+      ;['player1', 'player2', 'player3', 'player4'].forEach(playerId => {
+        handleAnswerSubmission(gameRoom, playerId, 'q1', 'A', 2)
+      })
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo)
+
+      // Assert
+      expect(gameRoom.eliminatedPlayers.has('player4')).toBe(true)
+      expect(gameRoom.phase).toBe('final_showdown')
+      expect(emit).toHaveBeenCalledWith('final-showdown', expect.objectContaining({
+        survivors: ['player1', 'player2', 'player3'],
+        threshold: 3
+      }))
+    })
+
+    it('should process each question only once', async () => {
+      // Arrange
+      gameRoom.playerScores.set('player1', { total: 100, streak: 1 })
+      handleAnswerSubmission(gameRoom, 'player1', 'q1', 'A', 2)
+      handleAnswerSubmission(gameRoom, 'player2', 'q1', 'B', 2)
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo)
+      await processQuestionResults(gameRoom, testQuestion, mockIo)
+
+      // Assert
+      const questionResults = vi.mocked(mockIo.to('ABC123').emit).mock.calls
+        .filter(([event]) => event === 'question-result')
+      expect(questionResults).toHaveLength(1)
+      expect(gameRoom.playerScores.get('player1')?.streak).toBe(2)
+    })
+
+    it('should broadcast points and running totals with the question result', async () => {
+      // Arrange
+      gameRoom.playerScores.set('player1', { total: 100, streak: 1 })
+      handleAnswerSubmission(gameRoom, 'player1', 'q1', 'A', 2)
+      handleAnswerSubmission(gameRoom, 'player2', 'q1', 'B', 2)
+
+      // Act
+      await processQuestionResults(gameRoom, { ...testQuestion, difficulty: 'HARD' }, mockIo)
+
+      // Assert
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('question-result', expect.objectContaining({
+        scores: expect.arrayContaining([
+          { playerId: 'player1', points: 290, total: 390, streak: 2 },
+          { playerId: 'player2', points: 0, total: 0, streak: 0 }
+        ])
+      }))
+      expect(gameRoom.playerScores.get('player1')).toEqual({ total: 390, streak: 2 })
+    })
+
+    it('should score shadow answers separately without affecting eliminations', async () => {
+      // Arrange
+      gameRoom.finalQuestionThreshold = 2
+      gameRoom.status = 'in_progress'
+      gameRoom.questionEndsAt = Date.now() + 10000
+      gameRoom.spectators.add('latecomer')
+      ;['player1', 'player2', 'player3', 'player4'].forEach(playerId => {
+        handleAnswerSubmission(gameRoom, playerId, 'q1', 'A', 2)
+      })
+      gameRoom.shadowAnswers.set('latecomer', {
+        playerId: 'latecomer',
+        questionId: 'q1',
+        selectedAnswer: 'A',
+        responseTime: 0.5,
+        serverTimestamp: new Date()
+      })
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo)
+
+      // Assert
+      expect(gameRoom.eliminatedPlayers.has('latecomer')).toBe(false)
+      expect(gameRoom.eliminatedPlayers.size).toBe(1)
+      expect(gameRoom.playerScores.has('latecomer')).toBe(false)
+      expect(gameRoom.shadowScores.get('latecomer')?.total).toBeGreaterThan(0)
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('question-result', expect.objectContaining({
+        shadowScores: [expect.objectContaining({ playerId: 'latecomer' })]
+      }))
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('spectator-count', { spectatorCount: 2 })
+    })
+
+    it('should end a last-team-standing battle once one team has members left', async () => {
+      // Arrange
+      gameRoom.finalQuestionThreshold = 1
+      gameRoom.eliminationRule = 'ALL_WRONG_OUT'
+      gameRoom.teamScoring = 'LAST_TEAM_STANDING'
+      gameRoom.teams = [
+        { id: 'red', name: 'Red', color: null },
+        { id: 'blue', name: 'Blue', color: null }
+      ]
+      gameRoom.playerTeams = new Map([
+        ['player1', 'red'],
+        ['player2', 'red'],
+        ['player3', 'blue'],
+        ['player4', 'blue']
+      ])
+      handleAnswerSubmission(gameRoom, 'player1', 'q1', 'A', 2)
+      handleAnswerSubmission(gameRoom, 'player2', 'q1', 'A', 1)
+      handleAnswerSubmission(gameRoom, 'player3', 'q1', 'B', 2)
+      handleAnswerSubmission(gameRoom, 'player4', 'q1', 'C', 2)
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo)
+
+      // Assert
+      const emit = mockIo.to('ABC123').emit
+      expect(gameRoom.status).toBe('finished')
+      expect(gameRoom.teamEliminations.get('blue')).toBe(1)
+      expect(emit).toHaveBeenCalledWith('team-eliminated', { teamId: 'blue', name: 'Blue', questionId: 'q1' })
+      expect(emit).toHaveBeenCalledWith('game-over', expect.objectContaining({
+        winningTeamId: 'red',
+        teamStandings: [
+          expect.objectContaining({ id: 'red', rank: 1, survivorCount: 2 }),
+          expect.objectContaining({ id: 'blue', rank: 2, eliminatedRound: 1 })
+        ]
+      }))
+    })
+
+    it('should stay in the normal phase above the threshold', async () => {
+      // Arrange
+      gameRoom.finalQuestionThreshold = 2
+      ;['player1', 'player2', 'player3', 'player4'].forEach(playerId => {
+        handleAnswerSubmission(gameRoom, playerId, 'q1', 'A', 2)
+      })
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo)
+
+      // Assert
+      expect(gameRoom.phase).toBe('normal')
+      expect(mockIo.to('ABC123').emit).not.toHaveBeenCalledWith('final-showdown', expect.anything())
+    })
+
+    it('should eliminate disconnected players who miss the question whatever their lives', async () => {
+      // Arrange
+      gameRoom.startingLives = 3
+      gameRoom.finalQuestionThreshold = 2
+      const graceTimer = setTimeout(() => {}, 30000)
+      gameRoom.disconnectedPlayers.set('player4', graceTimer)
+      ;['player1', 'player2', 'player3'].forEach(playerId => {
+        handleAnswerSubmission(gameRoom, playerId, 'q1', 'A', 2)
+      })
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo)
+
+      // Assert
+      expect(gameRoom.eliminatedPlayers.has('player4')).toBe(true)
+      expect(gameRoom.playerLives.get('player4')).toBe(0)
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('player-eliminated', expect.objectContaining({
+        playerId: 'player4',
+        reason: 'timeout'
+      }))
+      clearTimeout(graceTimer)
+    })
+
+    it('should start sudden death when nobody answers the final question correctly', async () => {
+      // Arrange
+      gameRoom.phase = 'final_showdown'
+      handleAnswerSubmission(gameRoom, 'player1', 'q1', 'B', 2)
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo, true)
+
+      // Assert
+      expect(gameRoom.status).not.toBe('finished')
+      expect(gameRoom.phase).toBe('sudden_death')
+      expect(gameRoom.tiebreakPlayers).toEqual(['player1', 'player2', 'player3', 'player4'])
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('sudden-death', {
+        players: ['player1', 'player2', 'player3', 'player4'],
+        round: 1,
+        reason: 'no_correct_answer'
+      })
+      expect(mockIo.to('ABC123').emit).not.toHaveBeenCalledWith('game-over', expect.anything())
+    })
+
+    it('should send a dead heat into sudden death', async () => {
+      // Arrange
+      gameRoom.phase = 'final_showdown'
+      handleAnswerSubmission(gameRoom, 'player2', 'q1', 'A', 3)
+      handleAnswerSubmission(gameRoom, 'player3', 'q1', 'A', 3)
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo, true)
+
+      // Assert
+      expect(gameRoom.phase).toBe('sudden_death')
+      expect(gameRoom.tiebreakPlayers).toEqual(['player2', 'player3'])
+    })
+
+    it('should only accept answers from tied players during sudden death', () => {
+      // Arrange
+      gameRoom.phase = 'sudden_death'
+      gameRoom.tiebreakPlayers = ['player2', 'player3']
+
+      // Act & Assert
+      expect(handleAnswerSubmission(gameRoom, 'player1', 'q1', 'A', 2)).toBe(false)
+      expect(handleAnswerSubmission(gameRoom, 'player2', 'q1', 'A', 2)).toBe(true)
+    })
+
+    it('should crown the sudden-death winner', async () => {
+      // Arrange
+      gameRoom.phase = 'sudden_death'
+      gameRoom.tiebreakPlayers = ['player2', 'player3']
+      gameRoom.tiebreakRound = 1
+      handleAnswerSubmission(gameRoom, 'player3', 'q1', 'A', 2)
+      vi.advanceTimersByTime(100)
+      handleAnswerSubmission(gameRoom, 'player2', 'q1', 'A', 2)
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo, true)
+
+      // Assert
+      expect(gameRoom.status).toBe('finished')
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('game-over', expect.objectContaining({
+        winnerId: 'player3'
+      }))
+    })
+
+    it('should end the game when the fastest correct answer wins the showdown', async () => {
+      // Arrange
+      gameRoom.phase = 'final_showdown'
+      handleAnswerSubmission(gameRoom, 'player2', 'q1', 'A', 3)
+      vi.advanceTimersByTime(100)
+      handleAnswerSubmission(gameRoom, 'player1', 'q1', 'A', 4)
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo, true)
+
+      // Assert
+      expect(gameRoom.status).toBe('finished')
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('game-over', expect.objectContaining({
+        winnerId: 'player2'
+      }))
+    })
+ 
+    it('should rank every player in elimination order when the game ends', async () => {
+      // Arrange
+      gameRoom.phase = 'final_showdown'
+      gameRoom.eliminatedPlayers = new Set(['player4', 'player3'])
+      handleAnswerSubmission(gameRoom, 'player2', 'q1', 'A', 3)
+      vi.advanceTimersByTime(100)
+      handleAnswerSubmission(gameRoom, 'player1', 'q1', 'A', 4)
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo, true)
+
+      // Assert
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('game-over', expect.objectContaining({
+        questionsPlayed: 1,
+        finalRanking: [
+          expect.objectContaining({ playerId: 'player2', rank: 1, eliminatedRound: null }),
+          expect.objectContaining({ playerId: 'player1', rank: 2, eliminatedRound: null }),
+          expect.objectContaining({ playerId: 'player3', rank: 3, eliminatedRound: 2 }),
+          expect.objectContaining({ playerId: 'player4', rank: 4, eliminatedRound: 1 })
+        ]
+      }))
+    })
+
+    it('should not rank a game again once the admin has ended it', async () => {
+      // Arrange
+      gameRoom.phase = 'final_showdown'
+      handleAnswerSubmission(gameRoom, 'player2', 'q1', 'A', 3)
+      gameRoom.status = 'finished'
+
+      // Act
+      await processQuestionResults(gameRoom, testQuestion, mockIo, true)
+
+      // Assert
+      expect(mockIo.to('ABC123').emit).not.toHaveBeenCalledWith('game-over', expect.anything())
+    })
+  })
+
+  describe('finishGame', () => {
+    it('should rank and announce a game ended by the admin', async () => {
+      // Arrange
+      gameRoom.status = 'finished'
+      gameRoom.currentQuestion = 4
+      gameRoom.eliminatedPlayers = new Set(['player3'])
+
+      // Act
+      await finishGame(gameRoom, null, mockIo, ['clear-timers', 'record-statistics'])
+
+      // Assert
+      expect(mockIo.to('ABC123').emit).toHaveBeenCalledWith('game-over', expect.objectContaining({
+        winnerId: 'unknown',
+        questionsPlayed: 4,
+        finalRanking: expect.arrayContaining([
+          expect.objectContaining({ playerId: 'player3', rank: 3 })
+        ])
+      }))
+    })
+  })
+
   describe('Integration Tests', () => {
     it('should handle complete question cycle', () => {
       // Arrange
@@ -491,6 +985,7 @@ describe('Elimination Handler', () => {
     it('should handle invalid player IDs', () => {
       // Arrange
       gameRoom.currentQuestionId = 'q1'
+      gameRoom.questionEndsAt = Date.now() + 10000
 
       // Act
       const result = handleAnswerSubmission(
@@ -525,6 +1020,7 @@ describe('Elimination Handler', () => {
     it('should maintain answer integrity with rapid submissions', () => {
       // Arrange
       gameRoom.currentQuestionId = 'q1'
+      gameRoom.questionEndsAt = Date.now() + 10000
 
       // Act - Rapid answer submissions
       const results = []
@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for the Socket Event Contract
+ *
+ * Verifies that inbound payloads are parsed against their event's schema and
+ * that invalid ones are refused with a structured error
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MAX_ANSWER_LENGTH } from '@/lib/game/question-formats'
+import { createSocketError, parseClientPayload } from '../events'
+
+describe('Socket Event Contract', () => {
+  describe('parseClientPayload', () => {
+    it('should accept a valid payload and drop fields outside the contract', () => {
+      // Arrange
+      const data = {
+        gameCode: 'ABC123',
+        questionId: 'q1',
+        selectedAnswer: 'B',
+        responseTime: 2.5,
+        // Identities come from the session, never from the payload
+        playerId: 'someone-else'
+      }
+
+      // Act
+      const result = parseClientPayload('submit-answer', data)
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        data: { gameCode: 'ABC123', questionId: 'q1', selectedAnswer: 'B', responseTime: 2.5 }
+      })
+    })
+
+    it('should accept an empty answer as a timeout', () => {
+      // Act
+      const result = parseClientPayload('submit-answer', {
+        gameCode: 'ABC123',
+        questionId: 'q1',
+        selectedAnswer: '',
+        responseTime: 10
+      })
+
+      // Assert
+      expect(result.success).toBe(true)
+    })
+
+    it('should refuse an invalid payload with the failing fields', () => {
+      // Act
+      const result = parseClientPayload('submit-answer', {
+        gameCode: 'ABC123',
+        questionId: 'q1',
+        selectedAnswer: 'x'.repeat(MAX_ANSWER_LENGTH + 1),
+        responseTime: -1
+      })
+
+      // Assert
+      expect(result.success).toBe(false)
+      if (result.success) return
+      expect(result.error).toMatchObject({ code: 'INVALID_PAYLOAD', event: 'submit-answer' })
+      expect(result.error.issues?.map(issue => issue.path)).toEqual(['selectedAnswer', 'responseTime'])
+    })
+
+    it('should refuse payloads that are not objects or use unknown admin actions', () => {
+      // Act & Assert
+      expect(parseClientPayload('join-game', undefined).success).toBe(false)
+      expect(parseClientPayload('leave-game', 'ABC123').success).toBe(false)
+      expect(parseClientPayload('admin-action', { action: 'delete-game', gameCode: 'ABC123' }).success).toBe(false)
+      expect(parseClientPayload('admin-action', { action: 'end-game', gameCode: 'ABC123', payload: { reason: 'Done' } }))
+        .toEqual({ success: true, data: { action: 'end-game', gameCode: 'ABC123', payload: { reason: 'Done' } } })
+    })
+  })
+
+  describe('createSocketError', () => {
+    it('should name the refused event only when given', () => {
+      // Act & Assert
+      expect(createSocketError('NOT_FOUND', 'Game room not found', 'join-game'))
+        .toEqual({ code: 'NOT_FOUND', message: 'Game room not found', event: 'join-game' })
+      expect(createSocketError('INTERNAL_ERROR', 'Failed')).toEqual({ code: 'INTERNAL_ERROR', message: 'Failed' })
+    })
+  })
+})
@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for the Game Event Recorder
+ *
+ * Verifies event ordering in the GameEvent log and replay from stored events
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const mockPrisma = vi.hoisted(() => ({
+  gameEvent: {
+    aggregate: vi.fn(),
+    create: vi.fn(),
+    findMany: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import { createGameRoom, gameRooms, getGameRoom } from '../game-rooms'
+import { loadGameEvents, recordGameEvent, replayGame } from '../game-events'
+
+const storedEvent = (sequence: number, payload: object) => ({
+  sequence,
+  payload: JSON.stringify(payload),
+  createdAt: new Date('2024-01-01T12:00:00Z')
+})
+
+describe('Game Event Recorder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    gameRooms.clear()
+    mockPrisma.gameEvent.aggregate.mockResolvedValue({ _max: { sequence: 4 } })
+    mockPrisma.gameEvent.create.mockResolvedValue({})
+  })
+
+  describe('recordGameEvent', () => {
+    it('should append events with consecutive sequence numbers in call order', async () => {
+      // Arrange
+      createGameRoom('ABC123', 'admin1', { gameSessionId: 'game1' })
+      const gameRoom = getGameRoom('ABC123')!
+
+      // Act
+      await Promise.all([
+        recordGameEvent(gameRoom, { type: 'player-joined', playerId: 'p1', playerName: 'Alice' }),
+        recordGameEvent(gameRoom, { type: 'status-changed', status: 'starting' })
+      ])
+
+      // Assert
+      expect(mockPrisma.gameEvent.aggregate).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.gameEvent.create.mock.calls.map(([args]) => args.data)).toEqual([
+        {
+          gameId: 'game1',
+          sequence: 5,
+          type: 'player-joined',
+          playerId: 'p1',
+          payload: JSON.stringify({ type: 'player-joined', playerId: 'p1', playerName: 'Alice' })
+        },
+        {
+          gameId: 'game1',
+          sequence: 6,
+          type: 'status-changed',
+          playerId: null,
+          payload: JSON.stringify({ type: 'status-changed', status: 'starting' })
+        }
+      ])
+    })
+
+    it('should re-read the sequence after a failed append', async () => {
+      // Arrange
+      createGameRoom('FAIL01', 'admin1', { gameSessionId: 'game2' })
+      const gameRoom = getGameRoom('FAIL01')!
+      mockPrisma.gameEvent.create.mockRejectedValueOnce(new Error('write failed'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      // Act
+      await recordGameEvent(gameRoom, { type: 'player-left', playerId: 'p1' })
+      await recordGameEvent(gameRoom, { type: 'player-left', playerId: 'p2' })
+
+      // Assert
+      expect(mockPrisma.gameEvent.aggregate).toHaveBeenCalledTimes(2)
+      expect(mockPrisma.gameEvent.create).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not log rooms without a game session', async () => {
+      // Arrange
+      createGameRoom('XYZ789', 'admin1')
+
+      // Act
+      await recordGameEvent(getGameRoom('XYZ789')!, { type: 'player-left', playerId: 'p1' })
+
+      // Assert
+      expect(mockPrisma.gameEvent.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('loadGameEvents', () => {
+    it('should parse the stored payloads in sequence order', async () => {
+      // Arrange
+      mockPrisma.gameEvent.findMany.mockResolvedValue([
+        storedEvent(0, { type: 'player-joined', playerId: 'p1', playerName: 'Alice' })
+      ])
+
+      // Act
+      const events = await loadGameEvents('game1')
+
+      // Assert
+      expect(mockPrisma.gameEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { gameId: 'game1' },
+        orderBy: { sequence: 'asc' }
+      }))
+      expect(events).toEqual([{
+        sequence: 0,
+        createdAt: new Date('2024-01-01T12:00:00Z'),
+        event: { type: 'player-joined', playerId: 'p1', playerName: 'Alice' }
+      }])
+    })
+  })
+
+  describe('replayGame', () => {
+    beforeEach(() => {
+      mockPrisma.gameEvent.findMany.mockResolvedValue([
+        storedEvent(0, { type: 'player-joined', playerId: 'p1', playerName: 'Alice' }),
+        storedEvent(1, { type: 'player-joined', playerId: 'p2', playerName: 'Bob' }),
+        storedEvent(2, { type: 'game-over', winnerId: 'p2', questionsPlayed: 3 })
+      ])
+    })
+
+    it('should rebuild the room at the requested event index', async () => {
+      // Act
+      const replay = await replayGame('game1', 2, 1)
+
+      // Assert
+      expect(replay.totalEvents).toBe(3)
+      expect(replay.eventIndex).toBe(1)
+      expect(replay.event?.event).toEqual({ type: 'player-joined', playerId: 'p2', playerName: 'Bob' })
+      expect(replay.state.players).toEqual(['p1', 'p2'])
+      expect(replay.state.playerLives).toEqual({ p1: 2, p2: 2 })
+      expect(replay.state.winnerId).toBeNull()
+    })
+
+    it('should replay to the end by default and clamp indexes past the end', async () => {
+      // Act
+      const latest = await replayGame('game1', 1)
+      const clamped = await replayGame('game1', 1, 99)
+
+      // Assert
+      expect(latest.state).toMatchObject({ status: 'finished', winnerId: 'p2' })
+      expect(clamped.eventIndex).toBe(2)
+    })
+  })
+})
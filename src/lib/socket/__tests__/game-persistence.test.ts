@@ -0,0 +1,557 @@
+/**
+ * Unit Tests for Game Persistence
+ *
+ * Verifies how socket question results are mapped to database writes
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { EliminationResult } from '../../game/elimination-logic'
+import { DEFAULT_SCORE_TABLE } from '../../game/scoring'
+import type { GameRoom } from '../game-rooms'
+
+const mockPrisma = vi.hoisted(() => {
+  const client = {
+    gameParticipant: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    gameSession: {
+      update: vi.fn(),
+    },
+    user: {
+      update: vi.fn(),
+    },
+    gameQuestion: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    playerAnswer: {
+      upsert: vi.fn(),
+      groupBy: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  }
+  client.$transaction.mockImplementation(
+    async (fn: (tx: typeof client) => Promise<unknown>) => fn(client)
+  )
+  return client
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import {
+  buildAnswerRecords,
+  persistFinalRanking,
+  persistQuestionResults,
+  summarizeResponseTimes
+} from '../game-persistence'
+
+const createMockGameRoom = (): GameRoom => ({
+  code: 'ABC123',
+  gameSessionId: 'game1',
+  adminId: 'admin1',
+  players: new Set(['player1', 'player2', 'player3']),
+  playerNames: new Map(),
+  eliminatedPlayers: new Set(),
+  status: 'in_progress',
+  activeAnswers: new Map(),
+  questionDeliveries: new Map(),
+  currentQuestion: 2,
+  currentQuestionId: 'q1',
+  processedQuestionIds: new Set(),
+  maxPlayers: 10,
+  questionTimer: null,
+  timerInterval: null,
+  totalQuestions: 10,
+  questionTimeLimit: 10,
+  eliminationRule: 'SLOWEST_CORRECT',
+  eliminationCount: 1,
+  startingLives: 1,
+  playerLives: new Map(),
+  phase: 'normal',
+  finalQuestionThreshold: 3,
+  tieToleranceMs: 0,
+  tiebreakPlayers: [],
+  tiebreakRound: 0,
+  scoreTable: DEFAULT_SCORE_TABLE,
+  playerScores: new Map(),
+  spectators: new Set(),
+  shadowAnswers: new Map(),
+  shadowScores: new Map(),
+  teamScoring: null,
+  teams: [],
+  playerTeams: new Map(),
+  teamEliminations: new Map(),
+  currentQuestionData: null,
+  questionEndsAt: null,
+  pausedRemainingMs: null,
+  questionPausedAt: null,
+  resumePending: false,
+  reconnectGraceMs: 30000,
+  disconnectedPlayers: new Map(),
+  resumeTokens: new Map(),
+  deliveredQuestion: null
+})
+
+const createEliminationResult = (): EliminationResult => ({
+  eliminatedPlayerId: 'player2',
+  eliminations: [{ playerId: 'player2', reason: 'slowest_correct' }],
+  winnerId: null,
+  correctAnswerers: ['player1', 'player2'],
+  incorrectAnswerers: [],
+  timedOutPlayers: [],
+  tiedPlayers: [],
+  tiebreakReason: null,
+  numericRanking: [],
+  allAnswers: [
+    {
+      playerId: 'player1',
+      questionId: 'q1',
+      selectedAnswer: 'A',
+      responseTime: 2,
+      serverTimestamp: new Date('2024-01-01T12:00:01Z'),
+      isCorrect: true
+    },
+    {
+      playerId: 'player2',
+      questionId: 'q1',
+      selectedAnswer: 'A',
+      responseTime: 4,
+      serverTimestamp: new Date('2024-01-01T12:00:03Z'),
+      isCorrect: true
+    }
+  ]
+})
+
+describe('Game Persistence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('summarizeResponseTimes', () => {
+    it('should return nulls for an empty list', () => {
+      expect(summarizeResponseTimes([])).toEqual({
+        average: null,
+        fastest: null,
+        slowest: null
+      })
+    })
+
+    it('should compute average, fastest and slowest', () => {
+      expect(summarizeResponseTimes([2, 4, 6])).toEqual({
+        average: 4,
+        fastest: 2,
+        slowest: 6
+      })
+    })
+  })
+
+  describe('buildAnswerRecords', () => {
+    const participantIds = new Map([
+      ['player1', 'part1'],
+      ['player2', 'part2'],
+      ['player3', 'part3']
+    ])
+
+    it('should record players without an answer as timeouts', () => {
+      // Act
+      const records = buildAnswerRecords(
+        ['player1', 'player2', 'player3'],
+        participantIds,
+        createEliminationResult()
+      )
+
+      // Assert
+      expect(records).toHaveLength(3)
+      expect(records[2]).toMatchObject({
+        participantId: 'part3',
+        selectedAnswer: null,
+        isCorrect: false,
+        isTimeout: true,
+        responseTime: null
+      })
+    })
+
+    it('should treat an empty selected answer as a timeout', () => {
+      // Arrange
+      const result = createEliminationResult()
+      result.allAnswers[0] = { ...result.allAnswers[0]!, selectedAnswer: '', isCorrect: false }
+
+      // Act
+      const [record] = buildAnswerRecords(['player1'], participantIds, result)
+
+      // Assert
+      expect(record).toMatchObject({ isTimeout: true, selectedAnswer: null })
+    })
+
+    it('should mark the eliminated player with a reason', () => {
+      // Act
+      const records = buildAnswerRecords(
+        ['player1', 'player2'],
+        participantIds,
+        createEliminationResult()
+      )
+
+      // Assert
+      expect(records[0]).toMatchObject({ wasEliminated: false, eliminationReason: null })
+      expect(records[1]).toMatchObject({
+        wasEliminated: true,
+        eliminationReason: 'slowest_correct'
+      })
+    })
+
+    it('should mark a lost life that did not eliminate the player', () => {
+      // Arrange
+      const result = { ...createEliminationResult(), eliminatedPlayerId: null, eliminations: [] }
+
+      // Act
+      const records = buildAnswerRecords(['player1', 'player2'], participantIds, result, [
+        { playerId: 'player2', reason: 'slowest_correct', livesRemaining: 1 }
+      ])
+
+      // Assert
+      expect(records[0]).toMatchObject({ lifeLost: false, livesRemaining: null })
+      expect(records[1]).toMatchObject({
+        wasEliminated: false,
+        lifeLost: true,
+        livesRemaining: 1,
+        eliminationReason: 'slowest_correct'
+      })
+    })
+
+    it('should skip players without a participant record', () => {
+      // Act
+      const records = buildAnswerRecords(
+        ['guest1', 'player1'],
+        participantIds,
+        createEliminationResult()
+      )
+
+      // Assert
+      expect(records.map(r => r.playerId)).toEqual(['player1'])
+    })
+  })
+
+  describe('persistQuestionResults', () => {
+    beforeEach(() => {
+      mockPrisma.gameParticipant.findMany.mockResolvedValue([
+        { id: 'part1', playerId: 'player1' },
+        { id: 'part2', playerId: 'player2' },
+        { id: 'part3', playerId: 'player3' }
+      ])
+      mockPrisma.gameQuestion.findFirst.mockResolvedValue({ id: 'gq1' })
+      mockPrisma.playerAnswer.groupBy.mockResolvedValue([
+        {
+          participantId: 'part2',
+          _avg: { responseTime: 3 },
+          _min: { responseTime: 2 },
+          _max: { responseTime: 4 }
+        }
+      ])
+    })
+
+    it('should skip rooms that are not bound to a game session', async () => {
+      // Arrange
+      const gameRoom = { ...createMockGameRoom(), gameSessionId: null }
+
+      // Act
+      await persistQuestionResults(gameRoom, 'q1', createEliminationResult())
+
+      // Assert
+      expect(mockPrisma.gameParticipant.findMany).not.toHaveBeenCalled()
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should only close the question when there is nobody to record', async () => {
+      // Arrange
+      mockPrisma.gameParticipant.findMany.mockResolvedValue([])
+
+      // Act
+      await persistQuestionResults(createMockGameRoom(), 'q1', createEliminationResult())
+
+      // Assert
+      expect(mockPrisma.gameQuestion.update).toHaveBeenCalledWith({
+        where: { id: 'gq1' },
+        data: { endedAt: expect.any(Date) }
+      })
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should upsert an answer for every contender', async () => {
+      // Act
+      await persistQuestionResults(createMockGameRoom(), 'q1', createEliminationResult())
+
+      // Assert
+      expect(mockPrisma.playerAnswer.upsert).toHaveBeenCalledTimes(3)
+      expect(mockPrisma.playerAnswer.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            participantId_gameQuestionId: { participantId: 'part3', gameQuestionId: 'gq1' }
+          },
+          create: expect.objectContaining({
+            gameId: 'game1',
+            questionId: 'q1',
+            isTimeout: true
+          })
+        })
+      )
+    })
+
+    it('should store question totals and response time statistics', async () => {
+      // Act
+      await persistQuestionResults(createMockGameRoom(), 'q1', createEliminationResult())
+
+      // Assert
+      expect(mockPrisma.gameQuestion.update).toHaveBeenCalledWith({
+        where: { id: 'gq1' },
+        data: expect.objectContaining({
+          totalAnswers: 3,
+          correctAnswers: 2,
+          incorrectAnswers: 0,
+          timeoutAnswers: 1,
+          averageResponseTime: 3,
+          fastestResponseTime: 2,
+          slowestResponseTime: 4
+        })
+      })
+    })
+
+    it('should mark the eliminated participant with the current round', async () => {
+      // Act
+      await persistQuestionResults(createMockGameRoom(), 'q1', createEliminationResult())
+
+      // Assert
+      expect(mockPrisma.gameParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'part2' },
+        data: expect.objectContaining({
+          status: 'ELIMINATED',
+          eliminatedRound: 2,
+          eliminatedAt: expect.any(Date),
+          averageResponseTime: 3
+        })
+      })
+    })
+
+    it('should add the points scored to the answer, participant and user totals', async () => {
+      // Act
+      await persistQuestionResults(createMockGameRoom(), 'q1', createEliminationResult(), [], [
+        { playerId: 'player1', points: 140, total: 240, streak: 2 },
+        { playerId: 'player2', points: 0, total: 0, streak: 0 }
+      ])
+
+      // Assert
+      expect(mockPrisma.playerAnswer.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ participantId: 'part1', pointsAwarded: 140 })
+      }))
+      expect(mockPrisma.gameParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'part1' },
+        data: expect.objectContaining({ score: { increment: 140 } })
+      })
+      expect(mockPrisma.user.update).toHaveBeenCalledTimes(1)
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'player1' },
+        data: { totalScore: { increment: 140 } }
+      })
+    })
+
+    it('should store the remaining lives of participants who lost a life', async () => {
+      // Arrange
+      const result = { ...createEliminationResult(), eliminatedPlayerId: null, eliminations: [] }
+
+      // Act
+      await persistQuestionResults(createMockGameRoom(), 'q1', result, [
+        { playerId: 'player2', reason: 'slowest_correct', livesRemaining: 1 }
+      ])
+
+      // Assert
+      expect(mockPrisma.gameParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'part2' },
+        data: expect.objectContaining({ livesRemaining: 1 })
+      })
+      expect(mockPrisma.gameParticipant.update).not.toHaveBeenCalledWith({
+        where: { id: 'part2' },
+        data: expect.objectContaining({ status: 'ELIMINATED' })
+      })
+    })
+
+    it('should record sudden-death tiebreak rounds on the game question', async () => {
+      // Arrange
+      const gameRoom = {
+        ...createMockGameRoom(),
+        phase: 'sudden_death' as const,
+        tiebreakPlayers: ['player1', 'player2'],
+        tiebreakRound: 2
+      }
+
+      // Act
+      await persistQuestionResults(gameRoom, 'q1', { ...createEliminationResult(), eliminations: [] })
+
+      // Assert
+      expect(mockPrisma.playerAnswer.upsert).toHaveBeenCalledTimes(2)
+      expect(mockPrisma.gameQuestion.update).toHaveBeenCalledWith({
+        where: { id: 'gq1' },
+        data: expect.objectContaining({
+          tiebreakRound: 2,
+          tiebreakPlayerIds: 'player1,player2'
+        })
+      })
+    })
+
+    it('should create a game question when the question was not prepared', async () => {
+      // Arrange
+      mockPrisma.gameQuestion.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ questionOrder: 4 })
+      mockPrisma.gameQuestion.create.mockResolvedValue({ id: 'gq5' })
+
+      // Act
+      await persistQuestionResults(createMockGameRoom(), 'q1', createEliminationResult())
+
+      // Assert
+      expect(mockPrisma.gameQuestion.create).toHaveBeenCalledWith({
+        data: { gameId: 'game1', questionId: 'q1', questionOrder: 5 },
+        select: { id: true }
+      })
+    })
+  })
+
+  describe('persistFinalRanking', () => {
+    const participants = [
+      {
+        id: 'part1',
+        playerId: 'player1',
+        eliminatedRound: 3,
+        correctAnswers: 2,
+        incorrectAnswers: 1,
+        averageResponseTime: 4,
+        score: 20,
+        player: { name: 'Aiko' }
+      },
+      {
+        id: 'part2',
+        playerId: 'player2',
+        eliminatedRound: null,
+        correctAnswers: 4,
+        incorrectAnswers: 0,
+        averageResponseTime: 2,
+        score: 40,
+        player: { name: 'Ben' }
+      },
+      {
+        id: 'part3',
+        playerId: 'player3',
+        eliminatedRound: 3,
+        correctAnswers: 2,
+        incorrectAnswers: 1,
+        averageResponseTime: 3,
+        score: 20,
+        player: { name: null }
+      }
+    ]
+
+    beforeEach(() => {
+      mockPrisma.gameParticipant.count.mockResolvedValue(0)
+      mockPrisma.gameParticipant.findMany.mockResolvedValue(participants)
+    })
+
+    it('should rank participants with their user names', async () => {
+      // Act
+      const ranking = await persistFinalRanking(createMockGameRoom(), 'player2')
+
+      // Assert
+      expect(ranking.map(entry => [entry.playerName, entry.rank])).toEqual([
+        ['Ben', 1],
+        ['player3', 2],
+        ['Aiko', 3]
+      ])
+      expect(ranking[0]).toMatchObject({ questionsAnswered: 4, score: 40 })
+    })
+
+    it('should write the ranking and the winner back to the database', async () => {
+      // Act
+      await persistFinalRanking(createMockGameRoom(), 'player2')
+
+      // Assert
+      expect(mockPrisma.gameParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'part2' },
+        data: { finalRank: 1, status: 'WINNER' }
+      })
+      expect(mockPrisma.gameParticipant.update).toHaveBeenCalledWith({
+        where: { id: 'part1' },
+        data: { finalRank: 3 }
+      })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'player2' },
+        data: { gamesPlayed: { increment: 1 }, gamesWon: { increment: 1 } }
+      })
+      expect(mockPrisma.gameSession.update).toHaveBeenCalledWith({
+        where: { id: 'game1' },
+        data: { winnerId: 'player2', winnerScore: 40 }
+      })
+    })
+
+    it('should leave participants who never played out of the ranking and their totals', async () => {
+      // Arrange
+      mockPrisma.gameParticipant.findMany.mockResolvedValue([
+        ...participants,
+        {
+          id: 'part4',
+          playerId: 'player4',
+          eliminatedRound: null,
+          correctAnswers: 0,
+          incorrectAnswers: 0,
+          averageResponseTime: null,
+          score: 0,
+          player: { name: 'No-show' }
+        }
+      ])
+
+      // Act
+      const ranking = await persistFinalRanking(createMockGameRoom(), 'player2')
+
+      // Assert
+      expect(ranking.map(entry => entry.playerId)).toEqual(['player2', 'player3', 'player1'])
+      expect(mockPrisma.gameParticipant.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'part4' } })
+      )
+      expect(mockPrisma.user.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'player4' } })
+      )
+    })
+
+    it('should leave a game that was already ranked and its player totals alone', async () => {
+      // Arrange
+      mockPrisma.gameParticipant.count.mockResolvedValue(3)
+
+      // Act
+      const ranking = await persistFinalRanking(createMockGameRoom(), 'player2')
+
+      // Assert
+      expect(ranking).toHaveLength(3)
+      expect(mockPrisma.gameParticipant.count).toHaveBeenCalledWith({
+        where: { gameId: 'game1', finalRank: { not: null } }
+      })
+      expect(mockPrisma.gameParticipant.update).not.toHaveBeenCalled()
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+      expect(mockPrisma.gameSession.update).not.toHaveBeenCalled()
+    })
+
+    it('should rank rooms without a game session from the elimination order', async () => {
+      // Arrange
+      const gameRoom = {
+        ...createMockGameRoom(),
+        gameSessionId: null,
+        eliminatedPlayers: new Set(['player3', 'player1'])
+      }
+
+      // Act
+      const ranking = await persistFinalRanking(gameRoom, 'player2')
+
+      // Assert
+      expect(ranking.map(entry => entry.playerId)).toEqual(['player2', 'player1', 'player3'])
+      expect(mockPrisma.gameParticipant.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for the Game Statistics Recorder
+ *
+ * Verifies that GameStatistics rows are built from the database records
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const mockPrisma = vi.hoisted(() => ({
+  gameSession: {
+    findUnique: vi.fn(),
+  },
+  gameQuestion: {
+    findMany: vi.fn(),
+  },
+  playerAnswer: {
+    findMany: vi.fn(),
+  },
+  gameStatistics: {
+    upsert: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import { recordGameStatistics } from '../game-statistics'
+
+describe('Game Statistics Recorder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma.gameSession.findUnique.mockResolvedValue({
+      startedAt: new Date('2024-01-01T12:00:00Z'),
+      endedAt: new Date('2024-01-01T12:01:00Z'),
+      _count: { participants: 3 }
+    })
+    mockPrisma.gameQuestion.findMany.mockResolvedValue([
+      { question: { difficulty: 'HARD' } }
+    ])
+    mockPrisma.playerAnswer.findMany.mockResolvedValue([
+      { isCorrect: true, isTimeout: false, responseTime: 2, wasEliminated: false, eliminationReason: null },
+      { isCorrect: false, isTimeout: false, responseTime: 4, wasEliminated: true, eliminationReason: 'wrong_answer' }
+    ])
+    mockPrisma.gameStatistics.upsert.mockImplementation(async ({ create }) => ({ id: 'stats1', ...create }))
+  })
+
+  it('should return null for unknown games', async () => {
+    // Arrange
+    mockPrisma.gameSession.findUnique.mockResolvedValue(null)
+
+    // Act & Assert
+    await expect(recordGameStatistics('missing')).resolves.toBeNull()
+    expect(mockPrisma.gameStatistics.upsert).not.toHaveBeenCalled()
+  })
+
+  it('should only count questions whose results were recorded', async () => {
+    // Act
+    await recordGameStatistics('game1')
+
+    // Assert
+    expect(mockPrisma.gameQuestion.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { gameId: 'game1', endedAt: { not: null } }
+    }))
+  })
+
+  it('should upsert the aggregated statistics so games can be recalculated', async () => {
+    // Act
+    const statistics = await recordGameStatistics('game1')
+
+    // Assert
+    expect(mockPrisma.gameStatistics.upsert).toHaveBeenCalledWith({
+      where: { gameId: 'game1' },
+      create: expect.objectContaining({
+        gameId: 'game1',
+        totalPlayers: 3,
+        questionsAsked: 1,
+        gameDuration: 60,
+        hardQuestionsAsked: 1,
+        totalCorrectAnswers: 1,
+        eliminatedByWrongAnswer: 1
+      }),
+      update: expect.objectContaining({
+        totalPlayers: 3,
+        calculatedAt: expect.any(Date)
+      })
+    })
+    expect(statistics).toMatchObject({ averageResponseTime: 3 })
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for Latency Tracker
+ *
+ * Verifies per-socket round-trip tracking and server-side answer timing
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Socket } from 'socket.io'
+import { createGameRoom, gameRooms, getGameRoom, type GameRoom } from '../game-rooms'
+import {
+  getSocketLatency,
+  recordLatencySample,
+  recordQuestionDelivery,
+  resolveAnswerTiming,
+  startLatencyPings
+} from '../latency-tracker'
+
+describe('Latency Tracker', () => {
+  let gameRoom: GameRoom
+
+  beforeEach(() => {
+    gameRooms.clear()
+    createGameRoom('ABC123', 'admin1')
+    gameRoom = getGameRoom('ABC123')!
+  })
+
+  describe('startLatencyPings', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should record acknowledged pings and forget them when stopped', () => {
+      // Arrange
+      const emit = vi.fn((_event: string, ack: (error: Error | null) => void) => {
+        vi.advanceTimersByTime(80)
+        ack(null)
+      })
+      const socket = { id: 'socket-ping', timeout: () => ({ emit }) } as unknown as Socket
+
+      // Act
+      const stop = startLatencyPings(socket)
+
+      // Assert
+      expect(emit).toHaveBeenCalledWith('latency-ping', expect.any(Function))
+      expect(getSocketLatency('socket-ping')).toBe(80)
+
+      stop()
+      expect(getSocketLatency('socket-ping')).toBe(0)
+    })
+  })
+
+  describe('resolveAnswerTiming', () => {
+    it('should time answers from the player delivery stamp minus latency', () => {
+      // Arrange
+      recordLatencySample('socket1', 100)
+      recordQuestionDelivery(gameRoom, 'player1', 10_000)
+
+      // Act
+      const timing = resolveAnswerTiming(gameRoom, 'player1', 'socket1', 12_000)
+
+      // Assert
+      expect(timing).toEqual({
+        responseTime: 1.9,
+        answeredAt: new Date(11_900),
+        compensationMs: 100
+      })
+    })
+
+    it('should fall back to the earliest delivery for players without a stamp', () => {
+      // Arrange
+      recordQuestionDelivery(gameRoom, 'player1', 10_000)
+      recordQuestionDelivery(gameRoom, 'player2', 10_200)
+
+      // Act
+      const timing = resolveAnswerTiming(gameRoom, 'player3', 'socket3', 13_000)
+
+      // Assert
+      expect(timing?.responseTime).toBe(3)
+    })
+
+    it('should time answers from the question timer when nobody has a delivery stamp', () => {
+      // Arrange - A 10 second question with 6 seconds left
+      gameRoom.deliveredQuestion = {
+        questionNumber: 1,
+        question: { id: 'q1', text: 'Question 1', optionA: 'A', optionB: 'B', optionC: 'C', optionD: 'D' },
+        timeLimit: 10,
+        isFinalQuestion: false,
+        isFinalShowdown: false,
+        isSuddenDeath: false,
+        tiebreakPlayers: [],
+        activePlayersCount: 1,
+        startingLives: 1,
+        lives: {}
+      }
+      gameRoom.questionEndsAt = 19_000
+
+      // Act
+      const timing = resolveAnswerTiming(gameRoom, 'player1', 'socket-unknown', 13_000)
+
+      // Assert
+      expect(timing?.responseTime).toBe(4)
+    })
+
+    it('should return null before the question was delivered', () => {
+      expect(resolveAnswerTiming(gameRoom, 'player1', 'socket1', 13_000)).toBeNull()
+    })
+  })
+})
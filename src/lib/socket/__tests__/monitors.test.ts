@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for Monitors
+ *
+ * Verifies the room state sent to a monitor on join and that accepted
+ * answers reach the game's monitor room only
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { QuizServer } from '../events'
+import { createGameRoom, gameRooms, getGameRoom, type GameRoom } from '../game-rooms'
+import { buildMonitorState, emitMonitorAnswer, getMonitorRoom } from '../monitors'
+import type { NextQuestionData } from '../types'
+
+const NOW = 1_000_000
+
+const deliveredQuestion: NextQuestionData = {
+  questionNumber: 3,
+  question: {
+    id: 'q3',
+    text: 'Question 3',
+    optionA: 'A3',
+    optionB: 'B3',
+    optionC: 'C3',
+    optionD: 'D3',
+    difficulty: 'HARD'
+  },
+  timeLimit: 10,
+  isFinalQuestion: false,
+  isFinalShowdown: false,
+  isSuddenDeath: false,
+  tiebreakPlayers: [],
+  activePlayersCount: 2,
+  startingLives: 2,
+  lives: { player1: 2, player2: 1 }
+}
+
+const createRoom = (): GameRoom => {
+  createGameRoom('ABC123', 'admin1', { status: 'in_progress', currentQuestion: 3, startingLives: 2 })
+  const gameRoom = getGameRoom('ABC123')!
+  ;[['player1', 'Alice'], ['player2', 'Bob']].forEach(([playerId, playerName]) => {
+    gameRoom.players.add(playerId!)
+    gameRoom.playerNames.set(playerId!, playerName!)
+  })
+  gameRoom.playerNames.set('player3', 'Carol')
+  gameRoom.eliminatedPlayers.add('player3')
+  gameRoom.disconnectedPlayers.set('player2', setTimeout(() => {}, 0))
+  gameRoom.playerLives.set('player1', 2)
+  gameRoom.playerLives.set('player2', 1)
+  gameRoom.playerScores.set('player1', { total: 240, streak: 2 })
+  gameRoom.deliveredQuestion = deliveredQuestion
+  gameRoom.currentQuestionId = 'q3'
+  gameRoom.questionEndsAt = NOW + 6500
+  gameRoom.activeAnswers.set('player1', {
+    playerId: 'player1',
+    questionId: 'q3',
+    selectedAnswer: 'C',
+    responseTime: 2.4,
+    serverTimestamp: new Date(NOW)
+  })
+  return gameRoom
+}
+
+describe('Monitors', () => {
+  let gameRoom: GameRoom
+
+  beforeEach(() => {
+    gameRooms.clear()
+    gameRoom = createRoom()
+  })
+
+  describe('buildMonitorState', () => {
+    it('should include every player, the open question and its answers', () => {
+      // Act
+      const state = buildMonitorState(gameRoom, NOW)
+
+      // Assert
+      expect(state).toMatchObject({
+        gameCode: 'ABC123',
+        status: 'in_progress',
+        currentQuestion: 3,
+        startingLives: 2,
+        question: deliveredQuestion,
+        remainingTime: 7,
+        eliminatedPlayers: ['player3'],
+        answers: [{ playerId: 'player1', questionId: 'q3', selectedAnswer: 'C', responseTime: 2.4 }]
+      })
+      expect(state.players).toEqual([
+        { playerId: 'player1', playerName: 'Alice', status: 'active', lives: 2, score: 240, teamId: null },
+        { playerId: 'player2', playerName: 'Bob', status: 'disconnected', lives: 1, score: 0, teamId: null },
+        { playerId: 'player3', playerName: 'Carol', status: 'eliminated', lives: 0, score: 0, teamId: null }
+      ])
+    })
+
+    it('should leave out the question and answers between questions', () => {
+      // Arrange
+      gameRoom.questionEndsAt = null
+
+      // Act
+      const state = buildMonitorState(gameRoom, NOW)
+
+      // Assert
+      expect(state.question).toBeNull()
+      expect(state.remainingTime).toBeNull()
+      expect(state.answers).toEqual([])
+    })
+  })
+
+  describe('emitMonitorAnswer', () => {
+    it('should send an accepted answer to the monitor room', () => {
+      // Arrange
+      const emit = vi.fn()
+      const to = vi.fn(() => ({ emit }))
+      const io = { to } as unknown as QuizServer
+
+      // Act
+      emitMonitorAnswer(io, gameRoom, 'player1')
+      emitMonitorAnswer(io, gameRoom, 'player2')
+
+      // Assert
+      expect(to).toHaveBeenCalledOnce()
+      expect(to).toHaveBeenCalledWith(getMonitorRoom('ABC123'))
+      expect(emit).toHaveBeenCalledWith('monitor-answer', {
+        playerId: 'player1',
+        questionId: 'q3',
+        selectedAnswer: 'C',
+        responseTime: 2.4
+      })
+    })
+  })
+})
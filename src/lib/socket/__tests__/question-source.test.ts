@@ -0,0 +1,217 @@
+/**
+ * Unit Tests for Question Source
+ *
+ * Verifies how live rooms draw questions from the question bank
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createGameRoom, gameRooms, getGameRoom } from '../game-rooms'
+
+const mockPrisma = vi.hoisted(() => ({
+  gameQuestion: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  gameSession: {
+    update: vi.fn(),
+  },
+  question: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import { loadFinalQuestion, loadNextQuestion, markQuestionDelivered } from '../question-source'
+
+const finalQuestion = {
+  id: 'final1',
+  text: 'Final question',
+  optionA: 'A1',
+  optionB: 'B1',
+  optionC: 'C1',
+  optionD: 'D1',
+  correctAnswer: 'C',
+  explanation: null,
+  difficulty: 'HARD'
+}
+
+describe('Question Source', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    gameRooms.clear()
+    createGameRoom('ABC123', 'admin1', { gameSessionId: 'game1' })
+  })
+
+  describe('loadFinalQuestion', () => {
+    it('should pick an unused FINAL question', async () => {
+      // Arrange
+      mockPrisma.gameQuestion.findMany.mockResolvedValue([{ questionId: 'q1' }, { questionId: 'q2' }])
+      mockPrisma.question.findMany.mockResolvedValue([finalQuestion])
+
+      // Act
+      const question = await loadFinalQuestion(getGameRoom('ABC123')!)
+
+      // Assert
+      expect(mockPrisma.question.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { type: 'FINAL', isActive: true, id: { notIn: ['q1', 'q2'] } }
+      }))
+      expect(question).toEqual({
+        id: 'final1',
+        text: 'Final question',
+        optionA: 'A1',
+        optionB: 'B1',
+        optionC: 'C1',
+        optionD: 'D1',
+        correctAnswer: 'C',
+        difficulty: 'HARD'
+      })
+    })
+
+    it('should include HARD questions for sudden death', async () => {
+      // Arrange
+      mockPrisma.gameQuestion.findMany.mockResolvedValue([])
+      mockPrisma.question.findMany.mockResolvedValue([finalQuestion])
+
+      // Act
+      await loadFinalQuestion(getGameRoom('ABC123')!, { includeHard: true })
+
+      // Assert
+      expect(mockPrisma.question.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          OR: [{ type: 'FINAL' }, { difficulty: 'HARD' }],
+          isActive: true,
+          id: { notIn: [] }
+        }
+      }))
+    })
+
+    it('should fall back to any unused question once the FINAL pool is used up', async () => {
+      // Arrange
+      const normalQuestion = { ...finalQuestion, id: 'q3', difficulty: 'EASY' }
+      mockPrisma.gameQuestion.findMany.mockResolvedValue([{ questionId: 'q1' }])
+      mockPrisma.question.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([normalQuestion])
+
+      // Act
+      const question = await loadFinalQuestion(getGameRoom('ABC123')!)
+
+      // Assert
+      expect(mockPrisma.question.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: { isActive: true, id: { notIn: ['q1'] } }
+      }))
+      expect(question?.id).toBe('q3')
+    })
+
+    it('should return null when no question is left', async () => {
+      // Arrange
+      mockPrisma.gameQuestion.findMany.mockResolvedValue([])
+      mockPrisma.question.findMany.mockResolvedValue([])
+
+      // Act & Assert
+      await expect(loadFinalQuestion(getGameRoom('ABC123')!)).resolves.toBeNull()
+    })
+
+    it('should not query rooms without a game session', async () => {
+      // Arrange
+      createGameRoom('XYZ789', 'admin1')
+
+      // Act
+      const question = await loadFinalQuestion(getGameRoom('XYZ789')!)
+
+      // Assert
+      expect(question).toBeNull()
+      expect(mockPrisma.gameQuestion.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('loadNextQuestion', () => {
+    it('should load the prepared question at the current question order', async () => {
+      // Arrange
+      const gameRoom = getGameRoom('ABC123')!
+      gameRoom.currentQuestion = 3
+      mockPrisma.gameQuestion.findFirst.mockResolvedValue({
+        question: { ...finalQuestion, id: 'q3', explanation: 'Because' }
+      })
+
+      // Act
+      const question = await loadNextQuestion(gameRoom)
+
+      // Assert
+      expect(mockPrisma.gameQuestion.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { gameId: 'game1', questionOrder: 3 }
+      }))
+      expect(question).toMatchObject({ id: 'q3', correctAnswer: 'C', explanation: 'Because' })
+    })
+
+    it('should return null when the question set is exhausted', async () => {
+      // Arrange
+      mockPrisma.gameQuestion.findFirst.mockResolvedValue(null)
+
+      // Act & Assert
+      await expect(loadNextQuestion(getGameRoom('ABC123')!)).resolves.toBeNull()
+    })
+
+    it('should not query rooms without a game session', async () => {
+      // Arrange
+      createGameRoom('XYZ789', 'admin1')
+
+      // Act & Assert
+      await expect(loadNextQuestion(getGameRoom('XYZ789')!)).resolves.toBeNull()
+      expect(mockPrisma.gameQuestion.findFirst).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('markQuestionDelivered', () => {
+    it('should stamp the start time, question index and usage count', async () => {
+      // Arrange
+      const gameRoom = getGameRoom('ABC123')!
+      gameRoom.currentQuestion = 4
+      mockPrisma.gameQuestion.findFirst.mockResolvedValue({ id: 'gq4' })
+
+      // Act
+      await markQuestionDelivered(gameRoom, 'q4')
+
+      // Assert
+      expect(mockPrisma.gameQuestion.update).toHaveBeenCalledWith({
+        where: { id: 'gq4' },
+        data: { startedAt: expect.any(Date) }
+      })
+      expect(mockPrisma.gameSession.update).toHaveBeenCalledWith({
+        where: { id: 'game1' },
+        data: { currentQuestionIndex: 4 }
+      })
+      expect(mockPrisma.question.update).toHaveBeenCalledWith({
+        where: { id: 'q4' },
+        data: { usageCount: { increment: 1 } }
+      })
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1)
+    })
+
+    it('should append final questions that are not in the question order', async () => {
+      // Arrange
+      mockPrisma.gameQuestion.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ questionOrder: 10 })
+      mockPrisma.gameQuestion.create.mockResolvedValue({ id: 'gq11' })
+
+      // Act
+      await markQuestionDelivered(getGameRoom('ABC123')!, 'final1')
+
+      // Assert
+      expect(mockPrisma.gameQuestion.create).toHaveBeenCalledWith({
+        data: { gameId: 'game1', questionId: 'final1', questionOrder: 11 },
+        select: { id: true }
+      })
+      expect(mockPrisma.gameQuestion.update).toHaveBeenCalledWith({
+        where: { id: 'gq11' },
+        data: { startedAt: expect.any(Date) }
+      })
+    })
+  })
+})
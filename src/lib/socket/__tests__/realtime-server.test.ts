@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for the Realtime Server
+ *
+ * Verifies the health endpoint, the node registration, that room updates
+ * published by other nodes reach the rooms this node runs and that players
+ * take their held seat back over a live connection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { get } from 'node:http'
+import { io as connectClient } from 'socket.io-client'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+vi.mock('../game-events', () => ({ recordGameEvent: vi.fn() }))
+vi.mock('../room-snapshot', async importOriginal => ({
+  ...await importOriginal<typeof import('../room-snapshot')>(),
+  saveRoomSnapshot: vi.fn().mockResolvedValue(undefined),
+  deleteRoomSnapshot: vi.fn().mockResolvedValue(undefined)
+}))
+
+import type { QuizClientSocket } from '../events'
+import { createGameRoom, gameRooms, getGameRoom } from '../game-rooms'
+import { clearReconnectTimers, issueResumeToken, markPlayerDisconnected } from '../reconnect'
+import type { JoinedGameData, StateSyncData } from '../types'
+import { startRealtimeServer, type RealtimeServer } from '../realtime-server'
+import { createMemoryRoomStore, type RoomStore } from '../room-store'
+
+const getJson = (url: string) => new Promise<{ status: number; body: unknown }>((resolve, reject) => {
+  get(url, response => {
+    let body = ''
+    response.on('data', chunk => { body += chunk })
+    response.on('end', () => resolve({ status: response.statusCode ?? 0, body: body ? JSON.parse(body) : null }))
+  }).on('error', reject)
+})
+
+const waitForDelivery = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('Realtime Server', () => {
+  let roomStore: RoomStore
+  let server: RealtimeServer
+
+  beforeEach(async () => {
+    gameRooms.clear()
+    roomStore = createMemoryRoomStore()
+    server = await startRealtimeServer({
+      port: 0,
+      host: '127.0.0.1',
+      roomStore,
+      recoverRooms: false,
+      handlers: {
+        authenticate: async () => ({ id: 'player1', name: 'Aiko', role: 'PLAYER' }),
+        authorizeJoin: async () => true
+      }
+    })
+  })
+
+  afterEach(async () => {
+    gameRooms.forEach(gameRoom => clearReconnectTimers(gameRoom))
+    await server.close()
+    gameRooms.clear()
+  })
+
+  it('should report the node and its rooms on /health', async () => {
+    // Arrange
+    createGameRoom('ABC123', 'admin1')
+
+    // Act
+    const health = await getJson(`${server.url}/health`)
+    const missing = await getJson(`${server.url}/status`)
+
+    // Assert
+    expect(health).toMatchObject({
+      status: 200,
+      body: { status: 'active', nodeId: server.nodeId, activeRooms: 1 }
+    })
+    expect(missing.status).toBe(404)
+  })
+
+  it('should register its URL for players sent from other nodes', async () => {
+    // Act
+    const url = await roomStore.getNodeUrl(server.nodeId)
+
+    // Assert
+    expect(url).toBe(server.url)
+  })
+
+  it('should apply room updates published by other nodes', async () => {
+    // Arrange
+    createGameRoom('ABC123', 'admin1', { status: 'in_progress' })
+
+    // Act
+    await roomStore.publish({
+      type: 'sync-room',
+      nodeId: 'next-app',
+      code: 'ABC123',
+      update: { status: 'PAUSED', reason: 'Break' }
+    })
+    await waitForDelivery()
+
+    // Assert
+    expect(getGameRoom('ABC123')?.status).toBe('paused')
+  })
+
+  it('should close rooms removed on another node but ignore its own messages', async () => {
+    // Arrange
+    createGameRoom('ABC123', 'admin1')
+    createGameRoom('XYZ789', 'admin1')
+
+    // Act
+    await roomStore.publish({ type: 'close-room', nodeId: server.nodeId, code: 'ABC123' })
+    await roomStore.publish({ type: 'close-room', nodeId: 'next-app', code: 'XYZ789' })
+    await waitForDelivery()
+
+    // Assert
+    expect(getGameRoom('ABC123')).toBeDefined()
+    expect(getGameRoom('XYZ789')).toBeUndefined()
+  })
+
+  it('should give a held seat back to its signed-in owner without the resume token', async () => {
+    // Arrange
+    createGameRoom('ABC123', 'admin1', { status: 'in_progress' })
+    const gameRoom = getGameRoom('ABC123')!
+    gameRoom.players.add('player1')
+    gameRoom.playerLives.set('player1', 1)
+    const lostToken = issueResumeToken(gameRoom, 'player1')
+    markPlayerDisconnected(gameRoom, 'player1', server.io)
+    const client: QuizClientSocket = connectClient(server.url, { transports: ['websocket'] })
+
+    // Act
+    const joinedGame = new Promise<JoinedGameData>(resolve => client.once('joined-game', resolve))
+    const stateSync = new Promise<StateSyncData>(resolve => client.once('state-sync', resolve))
+    client.emit('join-game', { gameCode: 'ABC123' })
+    const [joined, synced] = await Promise.all([joinedGame, stateSync])
+    client.disconnect()
+
+    // Assert
+    expect(joined.role).toBe('player')
+    expect(joined.resumeToken).toBeDefined()
+    expect(joined.resumeToken).not.toBe(lostToken)
+    expect(synced.playerId).toBe('player1')
+    expect(gameRoom.disconnectedPlayers.has('player1')).toBe(false)
+  })
+})
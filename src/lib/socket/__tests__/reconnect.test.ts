@@ -0,0 +1,229 @@
+/**
+ * Unit Tests for the Reconnect Grace Period
+ *
+ * Verifies that dropped players keep their seat for the grace window,
+ * reclaim it with their resume token and see the room as it is
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Server } from 'socket.io'
+
+const mockPrisma = vi.hoisted(() => ({
+  gameParticipant: {
+    updateMany: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+vi.mock('../game-events', () => ({ recordGameEvent: vi.fn() }))
+
+import { createGameRoom, gameRooms, getGameRoom, type GameRoom } from '../game-rooms'
+import { recordGameEvent } from '../game-events'
+import {
+  buildStateSync,
+  clearReconnectTimers,
+  eliminateAbsentPlayer,
+  findPlayerByResumeToken,
+  issueResumeToken,
+  markPlayerDisconnected,
+  reclaimPlayerSeat
+} from '../reconnect'
+
+const createMockIo = () => {
+  const emit = vi.fn()
+  const io = { to: vi.fn().mockReturnValue({ emit }) } as unknown as Server
+  return { io, emit }
+}
+
+const createRoom = (status: GameRoom['status']): GameRoom => {
+  createGameRoom('ABC123', 'admin1', { gameSessionId: 'game1', status, reconnectGraceMs: 10000 })
+  const gameRoom = getGameRoom('ABC123')!
+  ;['player1', 'player2', 'player3'].forEach(playerId => {
+    gameRoom.players.add(playerId)
+    gameRoom.playerLives.set(playerId, 2)
+  })
+  return gameRoom
+}
+
+describe('Reconnect Grace Period', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    gameRooms.clear()
+    mockPrisma.gameParticipant.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  afterEach(() => {
+    gameRooms.forEach(gameRoom => clearReconnectTimers(gameRoom))
+    gameRooms.clear()
+    vi.useRealTimers()
+  })
+
+  describe('resume tokens', () => {
+    it('should issue one token per player and find the player by it', () => {
+      // Arrange
+      const gameRoom = createRoom('waiting')
+
+      // Act
+      const token = issueResumeToken(gameRoom, 'player1')
+
+      // Assert
+      expect(issueResumeToken(gameRoom, 'player1')).toBe(token)
+      expect(issueResumeToken(gameRoom, 'player2')).not.toBe(token)
+      expect(findPlayerByResumeToken(gameRoom, token)).toBe('player1')
+      expect(findPlayerByResumeToken(gameRoom, 'unknown')).toBeNull()
+    })
+  })
+
+  describe('markPlayerDisconnected', () => {
+    it('should keep the seat and mark the participant disconnected', () => {
+      // Arrange
+      const gameRoom = createRoom('in_progress')
+      const { io, emit } = createMockIo()
+
+      // Act
+      markPlayerDisconnected(gameRoom, 'player1', io)
+
+      // Assert
+      expect(gameRoom.players.has('player1')).toBe(true)
+      expect(gameRoom.eliminatedPlayers.has('player1')).toBe(false)
+      expect(mockPrisma.gameParticipant.updateMany).toHaveBeenCalledWith({
+        where: { gameId: 'game1', playerId: 'player1' },
+        data: { status: 'DISCONNECTED' }
+      })
+      expect(emit).toHaveBeenCalledWith('player-disconnected', expect.objectContaining({
+        playerId: 'player1',
+        graceSeconds: 10
+      }))
+    })
+
+    it('should eliminate players who do not reconnect in time', () => {
+      // Arrange
+      const gameRoom = createRoom('in_progress')
+      const { io, emit } = createMockIo()
+      markPlayerDisconnected(gameRoom, 'player1', io)
+
+      // Act
+      vi.advanceTimersByTime(10000)
+
+      // Assert
+      expect(gameRoom.eliminatedPlayers.has('player1')).toBe(true)
+      expect(gameRoom.playerLives.get('player1')).toBe(0)
+      expect(gameRoom.disconnectedPlayers.size).toBe(0)
+      expect(emit).toHaveBeenCalledWith('reconnect-expired', expect.objectContaining({ playerId: 'player1' }))
+      expect(recordGameEvent).toHaveBeenCalledWith(gameRoom, { type: 'reconnect-expired', playerId: 'player1' })
+    })
+
+    it('should free lobby seats instead of eliminating', () => {
+      // Arrange
+      const gameRoom = createRoom('waiting')
+      const { io, emit } = createMockIo()
+      issueResumeToken(gameRoom, 'player1')
+      markPlayerDisconnected(gameRoom, 'player1', io)
+
+      // Act
+      vi.advanceTimersByTime(10000)
+
+      // Assert
+      expect(gameRoom.players.has('player1')).toBe(false)
+      expect(gameRoom.eliminatedPlayers.has('player1')).toBe(false)
+      expect(gameRoom.resumeTokens.has('player1')).toBe(false)
+      expect(emit).toHaveBeenCalledWith('player-left', { playerId: 'player1', playerCount: 2 })
+    })
+  })
+
+  describe('eliminateAbsentPlayer', () => {
+    it('should eliminate the player in the current round once', () => {
+      // Arrange
+      const gameRoom = createRoom('in_progress')
+      gameRoom.currentQuestion = 4
+
+      // Act
+      eliminateAbsentPlayer(gameRoom, 'player1')
+      eliminateAbsentPlayer(gameRoom, 'player1')
+
+      // Assert
+      expect(gameRoom.eliminatedPlayers.has('player1')).toBe(true)
+      expect(gameRoom.playerLives.get('player1')).toBe(0)
+      expect(mockPrisma.gameParticipant.updateMany).toHaveBeenCalledOnce()
+      expect(mockPrisma.gameParticipant.updateMany).toHaveBeenCalledWith({
+        where: { gameId: 'game1', playerId: 'player1' },
+        data: expect.objectContaining({ status: 'ELIMINATED', eliminatedRound: 4 })
+      })
+    })
+  })
+
+  describe('reclaimPlayerSeat', () => {
+    it('should stop the grace timer and restore the participant', () => {
+      // Arrange
+      const gameRoom = createRoom('in_progress')
+      const { io, emit } = createMockIo()
+      markPlayerDisconnected(gameRoom, 'player1', io)
+
+      // Act
+      reclaimPlayerSeat(gameRoom, 'player1', io)
+      vi.advanceTimersByTime(10000)
+
+      // Assert
+      expect(gameRoom.eliminatedPlayers.has('player1')).toBe(false)
+      expect(mockPrisma.gameParticipant.updateMany).toHaveBeenLastCalledWith({
+        where: { gameId: 'game1', playerId: 'player1' },
+        data: { status: 'ACTIVE' }
+      })
+      expect(emit).toHaveBeenCalledWith('player-reconnected', { playerId: 'player1', playerCount: 3 })
+    })
+  })
+
+  describe('buildStateSync', () => {
+    it('should include the open question, the time left and the player\'s answer', () => {
+      // Arrange
+      const gameRoom = createRoom('in_progress')
+      gameRoom.deliveredQuestion = {
+        questionNumber: 4,
+        question: { id: 'q4', text: 'Question 4', optionA: 'A', optionB: 'B', optionC: 'C', optionD: 'D' },
+        timeLimit: 10,
+        isFinalQuestion: false,
+        isFinalShowdown: false,
+        isSuddenDeath: false,
+        tiebreakPlayers: [],
+        activePlayersCount: 3,
+        startingLives: 2,
+        lives: { player1: 2, player2: 2, player3: 2 }
+      }
+      gameRoom.questionEndsAt = 7500
+      gameRoom.activeAnswers.set('player1', {
+        playerId: 'player1',
+        questionId: 'q4',
+        selectedAnswer: 'C',
+        responseTime: 1.5,
+        serverTimestamp: new Date()
+      })
+      gameRoom.playerScores.set('player1', { total: 180, streak: 1 })
+
+      // Act
+      const stateSync = buildStateSync(gameRoom, 'player1', 1000)
+
+      // Assert
+      expect(stateSync).toMatchObject({
+        status: 'in_progress',
+        question: { questionNumber: 4 },
+        remainingTime: 7,
+        selectedAnswer: 'C',
+        isEliminated: false,
+        lives: 2,
+        score: 180
+      })
+    })
+
+    it('should leave out the question between questions', () => {
+      // Arrange
+      const gameRoom = createRoom('paused')
+
+      // Act
+      const stateSync = buildStateSync(gameRoom, 'player2')
+
+      // Assert
+      expect(stateSync).toMatchObject({ status: 'paused', question: null, remainingTime: null })
+    })
+  })
+})
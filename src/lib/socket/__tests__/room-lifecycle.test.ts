@@ -0,0 +1,560 @@
+/**
+ * Unit Tests for Game Room Lifecycle
+ *
+ * Verifies that live rooms follow their GameSession records
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Server } from 'socket.io'
+
+const mockPrisma = vi.hoisted(() => ({
+  gameSession: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    update: vi.fn(),
+  },
+  systemSettings: {
+    findUnique: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+vi.mock('../game-events', () => ({ recordGameEvent: vi.fn() }))
+vi.mock('../game-persistence', async importOriginal => ({
+  ...await importOriginal<typeof import('../game-persistence')>(),
+  persistFinalRanking: vi.fn().mockResolvedValue([]),
+  persistTeamResults: vi.fn().mockResolvedValue(undefined)
+}))
+vi.mock('../room-snapshot', async importOriginal => ({
+  ...await importOriginal<typeof import('../room-snapshot')>(),
+  loadRoomSnapshot: vi.fn().mockResolvedValue(null),
+  saveRoomSnapshot: vi.fn().mockResolvedValue(undefined),
+  deleteRoomSnapshot: vi.fn().mockResolvedValue(undefined)
+}))
+
+import { toRoomStatus } from '../../game/game-state'
+import { gameRooms, getGameRoom, setSocketServer } from '../game-rooms'
+import { startQuestionTimer } from '../elimination-handler'
+import { recordGameEvent } from '../game-events'
+import { persistFinalRanking } from '../game-persistence'
+import { createRoomSnapshot, deleteRoomSnapshot, loadRoomSnapshot } from '../room-snapshot'
+import { createMemoryRoomStore, getRealtimeNodeId, setRoomStore, type RoomStore } from '../room-store'
+import {
+  closeGameRoom,
+  getRoomNodeUrl,
+  getRoomSettings,
+  hydrateGameRoom,
+  openGameRoom,
+  recoverGameRooms,
+  removeGameRoom,
+  resumeGameRoom,
+  syncGameRoom,
+  toScoreTable
+} from '../room-lifecycle'
+
+const createMockIo = () => {
+  const emit = vi.fn()
+  const io = { to: vi.fn().mockReturnValue({ emit }) } as unknown as Server
+  return { io, emit }
+}
+
+const session = {
+  id: 'game1',
+  code: 'ABC123',
+  adminId: 'admin1',
+  status: 'WAITING' as const,
+  maxPlayers: 8,
+  totalQuestions: 12
+}
+
+describe('Game Room Lifecycle', () => {
+  let roomStore: RoomStore
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    gameRooms.clear()
+    roomStore = createMemoryRoomStore()
+    setRoomStore(roomStore)
+  })
+
+  afterEach(() => {
+    gameRooms.clear()
+  })
+
+  describe('toRoomStatus', () => {
+    it('should map session statuses to room statuses', () => {
+      expect(toRoomStatus('WAITING')).toBe('waiting')
+      expect(toRoomStatus('STARTING')).toBe('starting')
+      expect(toRoomStatus('IN_PROGRESS')).toBe('in_progress')
+      expect(toRoomStatus('PAUSED')).toBe('paused')
+      expect(toRoomStatus('FINISHED')).toBe('finished')
+      expect(toRoomStatus('CANCELLED')).toBe('finished')
+    })
+  })
+
+  describe('toScoreTable', () => {
+    it('should build the point table from the session columns', () => {
+      expect(toScoreTable({
+        ...session,
+        pointsPerCorrect: 200,
+        speedBonusPoints: 0,
+        streakBonusPoints: 25,
+        easyMultiplier: 1,
+        mediumMultiplier: 2,
+        hardMultiplier: 3
+      })).toEqual({
+        pointsPerCorrect: 200,
+        speedBonusPoints: 0,
+        streakBonusPoints: 25,
+        difficultyMultipliers: { EASY: 1, MEDIUM: 2, HARD: 3 }
+      })
+    })
+
+    it('should leave the default table when the columns are missing', () => {
+      expect(toScoreTable(session)).toBeUndefined()
+    })
+  })
+
+  describe('openGameRoom', () => {
+    it('should create a room from the session settings', () => {
+      // Act
+      const gameRoom = openGameRoom({ ...session, questionTimeLimit: 20 })
+
+      // Assert
+      expect(gameRoom).toMatchObject({
+        code: 'ABC123',
+        gameSessionId: 'game1',
+        adminId: 'admin1',
+        maxPlayers: 8,
+        totalQuestions: 12,
+        questionTimeLimit: 20,
+        status: 'waiting'
+      })
+    })
+
+    it('should fall back to the default question count before questions are prepared', () => {
+      // Act
+      const gameRoom = openGameRoom({ ...session, totalQuestions: 0 })
+
+      // Assert
+      expect(gameRoom.totalQuestions).toBe(10)
+    })
+  })
+
+  describe('hydrateGameRoom', () => {
+    it('should return the in-memory room without querying', async () => {
+      // Arrange
+      const existing = openGameRoom(session)
+
+      // Act
+      const gameRoom = await hydrateGameRoom('ABC123')
+
+      // Assert
+      expect(gameRoom).toBe(existing)
+      expect(mockPrisma.gameSession.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should load the room and eliminated players from the database', async () => {
+      // Arrange
+      mockPrisma.gameSession.findUnique.mockResolvedValue({
+        ...session,
+        status: 'IN_PROGRESS',
+        currentQuestionIndex: 4,
+        participants: [
+          { playerId: 'player1', player: { name: 'Player 1' }, status: 'ACTIVE', livesRemaining: 2, score: 340 },
+          { playerId: 'player2', player: { name: 'Player 2' }, status: 'ELIMINATED', livesRemaining: 0, score: 90 }
+        ]
+      })
+
+      // Act
+      const gameRoom = await hydrateGameRoom('ABC123')
+
+      // Assert
+      expect(gameRoom).toMatchObject({
+        status: 'paused',
+        resumePending: true,
+        currentQuestion: 4,
+        gameSessionId: 'game1'
+      })
+      expect(gameRoom?.eliminatedPlayers.has('player2')).toBe(true)
+      expect(gameRoom?.playerLives.get('player1')).toBe(2)
+      expect(gameRoom?.playerScores.get('player1')).toEqual({ total: 340, streak: 0 })
+    })
+
+    it('should not seat the participants of a game still in its lobby', async () => {
+      // Arrange
+      mockPrisma.gameSession.findUnique.mockResolvedValue({
+        ...session,
+        participants: [
+          { playerId: 'player1', player: { name: 'Player 1' }, status: 'ACTIVE', livesRemaining: 1, score: 0 }
+        ]
+      })
+
+      // Act
+      const gameRoom = await hydrateGameRoom('ABC123')
+
+      // Assert
+      expect(gameRoom?.status).toBe('waiting')
+      expect(gameRoom?.playerLives.size).toBe(0)
+      expect(gameRoom?.playerNames.get('player1')).toBe('Player 1')
+    })
+
+    it('should leave a game claimed by another realtime node to that node', async () => {
+      // Arrange
+      mockPrisma.gameSession.findUnique.mockResolvedValue({ ...session, participants: [] })
+      await roomStore.claimRoom('ABC123', 'other-node', 30000)
+
+      // Act
+      const gameRoom = await hydrateGameRoom('ABC123')
+
+      // Assert
+      expect(gameRoom).toBeUndefined()
+      expect(getGameRoom('ABC123')).toBeUndefined()
+    })
+
+    it('should resume the final showdown when survivors are at the threshold', async () => {
+      // Arrange
+      mockPrisma.systemSettings.findUnique.mockResolvedValue({ finalQuestionThreshold: 2, tieToleranceMs: 0 })
+      mockPrisma.gameSession.findUnique.mockResolvedValue({
+        ...session,
+        status: 'IN_PROGRESS',
+        currentQuestionIndex: 6,
+        participants: [
+          { playerId: 'player1', player: { name: 'Player 1' }, status: 'ACTIVE', livesRemaining: 1, score: 0 },
+          { playerId: 'player2', player: { name: 'Player 2' }, status: 'ACTIVE', livesRemaining: 1, score: 0 },
+          { playerId: 'player3', player: { name: 'Player 3' }, status: 'ELIMINATED', livesRemaining: 0, score: 0 }
+        ]
+      })
+
+      // Act
+      const gameRoom = await hydrateGameRoom('ABC123')
+
+      // Assert
+      expect(gameRoom).toMatchObject({ finalQuestionThreshold: 2, phase: 'final_showdown' })
+    })
+
+    it('should restore the snapshot of a live game and hold it paused', async () => {
+      // Arrange
+      const snapshotRoom = openGameRoom({ ...session, status: 'IN_PROGRESS' })
+      snapshotRoom.currentQuestion = 5
+      snapshotRoom.phase = 'final_showdown'
+      snapshotRoom.playerLives.set('player1', 1)
+      snapshotRoom.playerScores.set('player1', { total: 420, streak: 3 })
+      snapshotRoom.currentQuestionId = 'q5'
+      snapshotRoom.currentQuestionData = { id: 'q5', correctAnswer: 'C', isFinalQuestion: true }
+      snapshotRoom.pausedRemainingMs = 6000
+      vi.mocked(loadRoomSnapshot).mockResolvedValueOnce(createRoomSnapshot(snapshotRoom))
+      gameRooms.clear()
+      mockPrisma.gameSession.findUnique.mockResolvedValue({
+        ...session,
+        status: 'IN_PROGRESS',
+        currentQuestionIndex: 4,
+        participants: [{ playerId: 'player1', player: { name: 'Player 1' }, status: 'ACTIVE', livesRemaining: 1, score: 300 }]
+      })
+
+      // Act
+      const gameRoom = await hydrateGameRoom('ABC123')
+
+      // Assert
+      expect(gameRoom).toMatchObject({
+        status: 'paused',
+        resumePending: true,
+        currentQuestion: 5,
+        phase: 'final_showdown',
+        currentQuestionId: 'q5',
+        pausedRemainingMs: 6000
+      })
+      expect(gameRoom?.playerScores.get('player1')).toEqual({ total: 420, streak: 3 })
+      expect(mockPrisma.gameSession.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'game1' },
+        data: { status: 'PAUSED' }
+      }))
+    })
+
+    it('should share one hydration between concurrent callers', async () => {
+      // Arrange
+      mockPrisma.gameSession.findUnique.mockResolvedValue({ ...session, participants: [] })
+
+      // Act
+      const [first, second] = await Promise.all([hydrateGameRoom('ABC123'), hydrateGameRoom('ABC123')])
+
+      // Assert
+      expect(first).toBe(second)
+      expect(mockPrisma.gameSession.findUnique).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not hydrate finished games', async () => {
+      // Arrange
+      mockPrisma.gameSession.findUnique.mockResolvedValue({
+        ...session,
+        status: 'FINISHED',
+        currentQuestionIndex: 10,
+        participants: []
+      })
+
+      // Act
+      const gameRoom = await hydrateGameRoom('ABC123')
+
+      // Assert
+      expect(gameRoom).toBeUndefined()
+      expect(getGameRoom('ABC123')).toBeUndefined()
+    })
+  })
+
+  describe('getRoomNodeUrl', () => {
+    it('should point to the node claiming the room', async () => {
+      // Arrange
+      await roomStore.registerNode('other-node', 'http://realtime-2:3002', 30000)
+      await roomStore.claimRoom('ABC123', 'other-node', 30000)
+
+      // Act
+      const url = await getRoomNodeUrl('ABC123')
+
+      // Assert
+      expect(url).toBe('http://realtime-2:3002')
+    })
+
+    it('should not point anywhere for unclaimed rooms or rooms on this node', async () => {
+      // Arrange
+      await roomStore.registerNode(getRealtimeNodeId(), 'http://realtime-1:3002', 30000)
+      await roomStore.claimRoom('OWN123', getRealtimeNodeId(), 30000)
+
+      // Act & Assert
+      expect(await getRoomNodeUrl('ABC123')).toBeNull()
+      expect(await getRoomNodeUrl('OWN123')).toBeNull()
+    })
+  })
+
+  describe('recoverGameRooms', () => {
+    it('should reopen every live game as resume-pending', async () => {
+      // Arrange
+      mockPrisma.gameSession.findMany.mockResolvedValue([{ code: 'ABC123' }, { code: 'GONE00' }])
+      mockPrisma.gameSession.findUnique.mockImplementation(({ where }) => Promise.resolve(
+        where.code === 'ABC123' ? { ...session, status: 'PAUSED', participants: [] } : null
+      ))
+
+      // Act
+      const recovered = await recoverGameRooms()
+
+      // Assert
+      expect(mockPrisma.gameSession.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: { in: ['IN_PROGRESS', 'PAUSED'] } }
+      }))
+      expect(recovered).toHaveLength(1)
+      expect(recovered[0]).toMatchObject({ code: 'ABC123', status: 'paused', resumePending: true })
+      expect(mockPrisma.gameSession.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resumeGameRoom', () => {
+    it('should clear the resume-pending flag', () => {
+      // Arrange
+      const gameRoom = openGameRoom({ ...session, status: 'PAUSED' })
+      gameRoom.resumePending = true
+
+      // Act
+      resumeGameRoom(gameRoom)
+
+      // Assert
+      expect(gameRoom).toMatchObject({ status: 'in_progress', resumePending: false })
+    })
+  })
+
+  describe('getRoomSettings', () => {
+    it('should read the threshold, tie tolerance and grace window from the system settings', async () => {
+      // Arrange
+      mockPrisma.systemSettings.findUnique.mockResolvedValue({
+        finalQuestionThreshold: 5,
+        tieToleranceMs: 20,
+        reconnectGraceMs: 15000
+      })
+
+      // Act & Assert
+      await expect(getRoomSettings()).resolves.toEqual({
+        finalQuestionThreshold: 5,
+        tieToleranceMs: 20,
+        reconnectGraceMs: 15000
+      })
+    })
+
+    it('should fall back to the defaults without system settings', async () => {
+      // Arrange
+      mockPrisma.systemSettings.findUnique.mockResolvedValue(null)
+
+      // Act & Assert
+      await expect(getRoomSettings()).resolves.toEqual({
+        finalQuestionThreshold: 3,
+        tieToleranceMs: 0,
+        reconnectGraceMs: 30000
+      })
+    })
+  })
+
+  describe('syncGameRoom', () => {
+    it('should update the room status and notify players', () => {
+      // Arrange
+      const { io, emit } = createMockIo()
+      setSocketServer(io)
+      openGameRoom(session)
+
+      // Act
+      syncGameRoom('ABC123', { status: 'STARTING', totalQuestions: 15 })
+
+      // Assert
+      expect(getGameRoom('ABC123')).toMatchObject({ status: 'starting', totalQuestions: 15 })
+      expect(emit).toHaveBeenCalledWith('game-starting', expect.any(Object))
+      expect(recordGameEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'ABC123' }),
+        { type: 'status-changed', status: 'starting' }
+      )
+    })
+
+    it('should close the room when the game is cancelled', () => {
+      // Arrange
+      const { io, emit } = createMockIo()
+      setSocketServer(io)
+      openGameRoom(session)
+
+      // Act
+      syncGameRoom('ABC123', { status: 'CANCELLED' })
+
+      // Assert
+      expect(getGameRoom('ABC123')).toBeUndefined()
+      expect(emit).toHaveBeenCalledWith('game-ended', { reason: 'Game cancelled by admin' })
+      expect(emit).toHaveBeenCalledWith('game-room-deleted', expect.any(Object))
+      expect(deleteRoomSnapshot).toHaveBeenCalledWith('game1')
+    })
+
+    it('should rank a running game before closing its room when it is finished', async () => {
+      // Arrange
+      const { io, emit } = createMockIo()
+      setSocketServer(io)
+      openGameRoom({ ...session, status: 'IN_PROGRESS' })
+      const gameRoom = getGameRoom('ABC123')!
+      gameRoom.players.add('player1')
+
+      // Act
+      syncGameRoom('ABC123', { status: 'FINISHED' })
+
+      // Assert
+      await vi.waitFor(() => expect(getGameRoom('ABC123')).toBeUndefined())
+      expect(persistFinalRanking).toHaveBeenCalledWith(gameRoom, 'player1')
+      expect(emit).toHaveBeenCalledWith('game-over', expect.objectContaining({ winnerId: 'player1' }))
+      expect(emit).toHaveBeenCalledWith('game-ended', { reason: 'Game ended by admin' })
+    })
+
+    it('should freeze the question timer when the game is paused', () => {
+      // Arrange
+      vi.useFakeTimers()
+      const { io, emit } = createMockIo()
+      setSocketServer(io)
+      const gameRoom = openGameRoom({ ...session, status: 'IN_PROGRESS' })
+      startQuestionTimer(gameRoom, { id: 'q1', correctAnswer: 'A' }, io)
+      vi.advanceTimersByTime(3000)
+
+      // Act
+      syncGameRoom('ABC123', { status: 'PAUSED', reason: 'Break' })
+
+      // Assert
+      expect(gameRoom.status).toBe('paused')
+      expect(gameRoom.pausedRemainingMs).toBe(7000)
+      expect(emit).toHaveBeenCalledWith('game-paused', { reason: 'Break', remainingTime: 7 })
+      vi.useRealTimers()
+    })
+
+    it('should resume the frozen question timer when the game continues', () => {
+      // Arrange
+      vi.useFakeTimers()
+      const { io, emit } = createMockIo()
+      setSocketServer(io)
+      const gameRoom = openGameRoom({ ...session, status: 'IN_PROGRESS' })
+      startQuestionTimer(gameRoom, { id: 'q1', correctAnswer: 'A' }, io)
+      vi.advanceTimersByTime(3000)
+      syncGameRoom('ABC123', { status: 'PAUSED' })
+
+      // Act
+      syncGameRoom('ABC123', { status: 'IN_PROGRESS' })
+
+      // Assert
+      expect(gameRoom.status).toBe('in_progress')
+      expect(gameRoom.questionTimer).not.toBeNull()
+      expect(emit).toHaveBeenCalledWith('game-resumed', { remainingTime: 7 })
+      closeGameRoom('ABC123')
+      vi.useRealTimers()
+    })
+
+    it('should keep the room status when the update conflicts with it', () => {
+      // Arrange
+      const { io, emit } = createMockIo()
+      setSocketServer(io)
+      const gameRoom = openGameRoom(session)
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      // Act
+      syncGameRoom('ABC123', { status: 'PAUSED' })
+
+      // Assert
+      expect(gameRoom.status).toBe('waiting')
+      expect(emit).not.toHaveBeenCalled()
+      expect(recordGameEvent).not.toHaveBeenCalled()
+    })
+
+    it('should publish the update for the node running the room', async () => {
+      // Arrange
+      const received = vi.fn()
+      await roomStore.subscribe(received)
+
+      // Act
+      syncGameRoom('NOPE00', { status: 'PAUSED', reason: 'Break' })
+      await Promise.resolve()
+      await Promise.resolve()
+
+      // Assert
+      expect(received).toHaveBeenCalledWith({
+        type: 'sync-room',
+        nodeId: getRealtimeNodeId(),
+        code: 'NOPE00',
+        update: { status: 'PAUSED', reason: 'Break' }
+      })
+    })
+
+    it('should ignore games without a live room', () => {
+      expect(() => syncGameRoom('NOPE00', { status: 'IN_PROGRESS' })).not.toThrow()
+    })
+  })
+
+  describe('removeGameRoom', () => {
+    it('should close the room, release its claim and tell the other nodes', async () => {
+      // Arrange
+      const received = vi.fn()
+      await roomStore.subscribe(received)
+      openGameRoom(session)
+      await roomStore.claimRoom('ABC123', getRealtimeNodeId(), 30000)
+
+      // Act
+      removeGameRoom('ABC123')
+      await Promise.resolve()
+      await Promise.resolve()
+
+      // Assert
+      expect(getGameRoom('ABC123')).toBeUndefined()
+      expect(await roomStore.getRoomOwner('ABC123')).toBeNull()
+      expect(received).toHaveBeenCalledWith({ type: 'close-room', nodeId: getRealtimeNodeId(), code: 'ABC123' })
+    })
+  })
+
+  describe('closeGameRoom', () => {
+    it('should clear timers and remove the room', () => {
+      // Arrange
+      const gameRoom = openGameRoom(session)
+      gameRoom.questionTimer = setTimeout(() => {}, 5000)
+
+      // Act
+      closeGameRoom('ABC123')
+
+      // Assert
+      expect(gameRoom.questionTimer).toBeNull()
+      expect(getGameRoom('ABC123')).toBeUndefined()
+    })
+  })
+})
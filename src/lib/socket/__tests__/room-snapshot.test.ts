@@ -0,0 +1,159 @@
+/**
+ * Unit Tests for Room Snapshots
+ *
+ * Verifies that a room's recoverable state survives a save and restore
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const mockPrisma = vi.hoisted(() => ({
+  roomSnapshot: {
+    upsert: vi.fn(),
+    findUnique: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+
+import { createGameRoom, gameRooms, getGameRoom } from '../game-rooms'
+import { createMemoryRoomStore, setRoomStore } from '../room-store'
+import {
+  applyRoomSnapshot,
+  createRoomSnapshot,
+  loadRoomSnapshot,
+  saveRoomSnapshot
+} from '../room-snapshot'
+
+const createLiveRoom = (code = 'ABC123', gameSessionId: string | null = 'game1') => {
+  createGameRoom(code, 'admin1', { ...(gameSessionId && { gameSessionId }), status: 'in_progress' })
+  const gameRoom = getGameRoom(code)!
+  gameRoom.currentQuestion = 3
+  gameRoom.eliminatedPlayers.add('player3')
+  gameRoom.playerLives.set('player1', 2)
+  gameRoom.playerLives.set('player2', 1)
+  gameRoom.playerScores.set('player1', { total: 250, streak: 2 })
+  gameRoom.currentQuestionId = 'q3'
+  gameRoom.currentQuestionData = { id: 'q3', correctAnswer: 'B', difficulty: 'HARD', isFinalQuestion: false }
+  gameRoom.questionEndsAt = 10000
+  gameRoom.activeAnswers.set('player1', {
+    playerId: 'player1',
+    questionId: 'q3',
+    selectedAnswer: 'B',
+    responseTime: 1.5,
+    serverTimestamp: new Date('2024-01-01T12:00:00Z')
+  })
+  return gameRoom
+}
+
+describe('Room Snapshots', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    gameRooms.clear()
+    setRoomStore(createMemoryRoomStore())
+  })
+
+  describe('createRoomSnapshot', () => {
+    it('should capture the time left on the open question', () => {
+      // Arrange
+      const gameRoom = createLiveRoom()
+
+      // Act
+      const snapshot = createRoomSnapshot(gameRoom, 4000)
+
+      // Assert
+      expect(snapshot).toMatchObject({
+        status: 'in_progress',
+        currentQuestion: 3,
+        eliminatedPlayers: ['player3'],
+        playerLives: { player1: 2, player2: 1 },
+        currentQuestionId: 'q3',
+        remainingMs: 6000
+      })
+    })
+
+    it('should not record remaining time between questions', () => {
+      // Arrange
+      const gameRoom = createLiveRoom()
+      gameRoom.questionEndsAt = null
+
+      // Act
+      const snapshot = createRoomSnapshot(gameRoom, 4000)
+
+      // Assert
+      expect(snapshot.remainingMs).toBeNull()
+    })
+  })
+
+  describe('applyRoomSnapshot', () => {
+    it('should restore a room from its JSON snapshot with the question frozen', () => {
+      // Arrange
+      const snapshot = JSON.parse(JSON.stringify(createRoomSnapshot(createLiveRoom(), 4000)))
+      createGameRoom('NEW001', 'admin1', { gameSessionId: 'game1' })
+      const restored = getGameRoom('NEW001')!
+
+      // Act
+      applyRoomSnapshot(restored, snapshot)
+
+      // Assert
+      expect(restored).toMatchObject({
+        currentQuestion: 3,
+        currentQuestionId: 'q3',
+        questionEndsAt: null,
+        pausedRemainingMs: 6000
+      })
+      expect(restored.eliminatedPlayers).toEqual(new Set(['player3']))
+      expect(restored.playerScores.get('player1')).toEqual({ total: 250, streak: 2 })
+      expect(restored.activeAnswers.get('player1')?.serverTimestamp).toEqual(new Date('2024-01-01T12:00:00Z'))
+    })
+  })
+
+  describe('saveRoomSnapshot', () => {
+    it('should upsert the snapshot for the game session', async () => {
+      // Arrange
+      const gameRoom = createLiveRoom()
+
+      // Act
+      await saveRoomSnapshot(gameRoom)
+
+      // Assert
+      expect(mockPrisma.roomSnapshot.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { gameId: 'game1' },
+        create: { gameId: 'game1', state: expect.stringContaining('"currentQuestionId":"q3"') }
+      }))
+    })
+
+    it('should skip rooms without a game session', async () => {
+      // Arrange
+      const gameRoom = createLiveRoom('XYZ789', null)
+
+      // Act
+      await saveRoomSnapshot(gameRoom)
+
+      // Assert
+      expect(mockPrisma.roomSnapshot.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('loadRoomSnapshot', () => {
+    it('should return null when the game has no snapshot', async () => {
+      // Arrange
+      mockPrisma.roomSnapshot.findUnique.mockResolvedValue(null)
+
+      // Act & Assert
+      expect(await loadRoomSnapshot('game1')).toBeNull()
+    })
+
+    it('should prefer the room store copy over the database row', async () => {
+      // Arrange
+      await saveRoomSnapshot(createLiveRoom())
+
+      // Act
+      const snapshot = await loadRoomSnapshot('game1')
+
+      // Assert
+      expect(snapshot).toMatchObject({ status: 'in_progress', currentQuestionId: 'q3' })
+      expect(mockPrisma.roomSnapshot.findUnique).not.toHaveBeenCalled()
+    })
+  })
+})
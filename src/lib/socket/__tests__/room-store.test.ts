@@ -0,0 +1,200 @@
+/**
+ * Unit Tests for the Room Store
+ *
+ * Runs the same contract against the in-memory store and the Redis room store,
+ * the latter on the local Redis protocol stand-in
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createRedisRoomStore } from '../redis-room-store'
+import { encodeRespCommand, parseRespReply } from '../resp-client'
+import { startRespStandIn, type RespStandIn } from '../resp-stand-in'
+import { createMemoryRoomStore, type RoomStore, type RoomStoreMessage } from '../room-store'
+import type { RoomSnapshot } from '../room-snapshot'
+
+const snapshot: RoomSnapshot = {
+  status: 'in_progress',
+  currentQuestion: 2,
+  eliminatedPlayers: ['player3'],
+  playerLives: { player1: 1 },
+  playerScores: { player1: { total: 120, streak: 1 } },
+  phase: 'normal',
+  tiebreakPlayers: [],
+  tiebreakRound: 0,
+  currentQuestionId: 'q2',
+  currentQuestionData: null,
+  remainingMs: null,
+  activeAnswers: [],
+  teamEliminations: {}
+}
+
+type StoreFixture = {
+  store: RoomStore
+  close: () => Promise<void>
+}
+
+// Claims expire against this clock in both stores
+let clock = 0
+const now = () => clock
+
+const stores: Array<[string, () => Promise<StoreFixture>]> = [
+  ['memory', async () => {
+    const store = createMemoryRoomStore(now)
+    return { store, close: () => store.close() }
+  }],
+  ['redis protocol', async () => {
+    const standIn: RespStandIn = await startRespStandIn(now)
+    const store = createRedisRoomStore({ url: standIn.url, keyPrefix: 'test' })
+    return {
+      store,
+      close: async () => {
+        await store.close()
+        await standIn.close()
+      }
+    }
+  }]
+]
+
+describe('RESP encoding', () => {
+  it('should round-trip a command and wait for partial replies', () => {
+    // Arrange
+    const encoded = Buffer.from(encodeRespCommand(['SET', 'key', 'ゲーム']))
+
+    // Act
+    const parsed = parseRespReply(encoded)
+
+    // Assert
+    expect(parsed).toEqual({ value: ['SET', 'key', 'ゲーム'], next: encoded.length })
+    expect(parseRespReply(encoded.subarray(0, encoded.length - 3))).toBeNull()
+    expect(parseRespReply(Buffer.from('$-1\r\n'))?.value).toBeNull()
+    expect(parseRespReply(Buffer.from('-ERR nope\r\n'))?.value).toEqual(new Error('ERR nope'))
+  })
+})
+
+describe.each(stores)('Room Store (%s)', (_name, createFixture) => {
+  let fixture: StoreFixture
+
+  beforeEach(async () => {
+    clock = 1000
+    fixture = await createFixture()
+  })
+
+  afterEach(async () => {
+    await fixture.close()
+  })
+
+  it('should save, load and delete room snapshots', async () => {
+    // Arrange
+    const { store } = fixture
+
+    // Act
+    await store.saveSnapshot('game1', snapshot)
+    const loaded = await store.getSnapshot('game1')
+    await store.deleteSnapshot('game1')
+
+    // Assert
+    expect(loaded).toEqual(snapshot)
+    expect(await store.getSnapshot('game1')).toBeNull()
+  })
+
+  it('should give a room to one node until its claim lapses', async () => {
+    // Arrange
+    const { store } = fixture
+
+    // Act & Assert
+    expect(await store.claimRoom('ABC123', 'node-a', 3000)).toBe(true)
+    expect(await store.claimRoom('ABC123', 'node-b', 3000)).toBe(false)
+    expect(await store.getRoomOwner('ABC123')).toBe('node-a')
+
+    // Renewing pushes the lapse back
+    clock += 2000
+    expect(await store.claimRoom('ABC123', 'node-a', 3000)).toBe(true)
+    clock += 2000
+    expect(await store.claimRoom('ABC123', 'node-b', 3000)).toBe(false)
+
+    clock += 1000
+    expect(await store.claimRoom('ABC123', 'node-b', 3000)).toBe(true)
+    expect(await store.getRoomOwner('ABC123')).toBe('node-b')
+  })
+
+  it('should only release a claim for the node holding it', async () => {
+    // Arrange
+    const { store } = fixture
+    await store.claimRoom('ABC123', 'node-a', 3000)
+
+    // Act
+    await store.releaseRoom('ABC123', 'node-b')
+    const ownerAfterForeignRelease = await store.getRoomOwner('ABC123')
+    await store.releaseRoom('ABC123', 'node-a')
+
+    // Assert
+    expect(ownerAfterForeignRelease).toBe('node-a')
+    expect(await store.getRoomOwner('ABC123')).toBeNull()
+  })
+
+  it('should keep a node URL until its registration lapses', async () => {
+    // Arrange
+    const { store } = fixture
+
+    // Act
+    await store.registerNode('node-a', 'http://realtime-a:3002', 3000)
+    const registered = await store.getNodeUrl('node-a')
+    clock += 3000
+
+    // Assert
+    expect(registered).toBe('http://realtime-a:3002')
+    expect(await store.getNodeUrl('node-a')).toBeNull()
+    expect(await store.getNodeUrl('node-b')).toBeNull()
+  })
+
+  it('should deliver published updates to subscribers', async () => {
+    // Arrange
+    const { store } = fixture
+    const message: RoomStoreMessage = {
+      type: 'sync-room',
+      nodeId: 'node-a',
+      code: 'ABC123',
+      update: { status: 'PAUSED', reason: 'Break' }
+    }
+    const received = new Promise<RoomStoreMessage>(resolve => {
+      store.subscribe(resolve)
+    })
+    // Let the subscription reach the store before publishing
+    await store.subscribe(() => {})
+
+    // Act
+    await store.publish(message)
+
+    // Assert
+    expect(await received).toEqual(message)
+  })
+})
+
+describe('Redis Room Store', () => {
+  it('should reconnect and subscribe again after losing the server', async () => {
+    // Arrange
+    const standIn = await startRespStandIn()
+    const store = createRedisRoomStore({ url: standIn.url, keyPrefix: 'test' })
+    const message: RoomStoreMessage = { type: 'close-room', nodeId: 'node-a', code: 'ABC123' }
+    const received: RoomStoreMessage[] = []
+    await store.subscribe(update => {
+      received.push(update)
+    })
+    await store.claimRoom('ABC123', 'node-a', 30000)
+
+    // Act
+    standIn.dropConnections()
+    await vi.waitFor(async () => {
+      expect(await store.getRoomOwner('ABC123')).toBe('node-a')
+    }, { timeout: 5000, interval: 100 })
+    await vi.waitFor(async () => {
+      await store.publish(message)
+      expect(received.length).toBeGreaterThan(0)
+    }, { timeout: 5000, interval: 100 })
+
+    // Assert
+    expect(received[0]).toEqual(message)
+    await store.close()
+    await standIn.close()
+  })
+})
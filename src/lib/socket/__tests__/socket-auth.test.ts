@@ -0,0 +1,148 @@
+/**
+ * Unit Tests for Socket Authentication
+ *
+ * Verifies that the handshake is tied to the NextAuth session and that
+ * admin actions are limited to the game's owner and super admins
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import type { Socket } from 'socket.io'
+
+const mockDecode = vi.hoisted(() => vi.fn())
+const mockPrisma = vi.hoisted(() => ({
+  gameParticipant: {
+    findUnique: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: mockPrisma }))
+vi.mock('next-auth/jwt', () => ({ decode: mockDecode }))
+
+import { createGameRoom, gameRooms, getGameRoom } from '../game-rooms'
+import {
+  authenticateSession,
+  canAdministerGame,
+  isGameParticipant,
+  parseCookieHeader,
+  readSessionToken,
+  type SocketHandshake
+} from '../socket-auth'
+
+const createHandshake = (headers: Record<string, string>): SocketHandshake => ({
+  headers,
+  auth: {}
+} as unknown as Socket['handshake'])
+
+describe('Socket Authentication', () => {
+  beforeEach(() => {
+    gameRooms.clear()
+    vi.clearAllMocks()
+    vi.stubEnv('NEXTAUTH_SECRET', 'secret')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe('parseCookieHeader', () => {
+    it('should read every cookie and decode its value', () => {
+      // Act
+      const cookies = parseCookieHeader('a=1; b=hello%20world;c=x=y')
+
+      // Assert
+      expect(cookies).toEqual({ a: '1', b: 'hello world', c: 'x=y' })
+      expect(parseCookieHeader(undefined)).toEqual({})
+    })
+  })
+
+  describe('readSessionToken', () => {
+    it('should read the session cookie, then a Bearer token', () => {
+      // Act & Assert
+      expect(readSessionToken(createHandshake({ cookie: 'theme=dark; next-auth.session-token=jwt' }))).toBe('jwt')
+      expect(readSessionToken(createHandshake({ authorization: 'Bearer token' }))).toBe('token')
+      expect(readSessionToken(createHandshake({ cookie: 'theme=dark' }))).toBeNull()
+    })
+
+    it('should join a session cookie split into chunks in order', () => {
+      // Arrange
+      const cookie = 'next-auth.session-token.1=def; next-auth.session-token.0=abc'
+
+      // Act & Assert
+      expect(readSessionToken(createHandshake({ cookie }))).toBe('abcdef')
+    })
+  })
+
+  describe('authenticateSession', () => {
+    it('should resolve the user, name and role from the session cookie', async () => {
+      // Arrange
+      mockDecode.mockResolvedValue({ id: 'user1', name: 'Aiko', role: 'ADMIN' })
+      const cookie = 'theme=dark; next-auth.session-token=jwt'
+
+      // Act
+      const user = await authenticateSession(createHandshake({ cookie }))
+
+      // Assert
+      expect(user).toEqual({ id: 'user1', name: 'Aiko', role: 'ADMIN' })
+      expect(mockDecode).toHaveBeenCalledWith({ token: 'jwt', secret: 'secret' })
+    })
+
+    it('should name users without a name after their ID', async () => {
+      // Arrange
+      mockDecode.mockResolvedValue({ id: 'user1', name: null, role: 'PLAYER' })
+
+      // Act
+      const user = await authenticateSession(createHandshake({ cookie: 'next-auth.session-token=jwt' }))
+
+      // Assert
+      expect(user).toEqual({ id: 'user1', name: 'user1', role: 'PLAYER' })
+    })
+
+    it('should refuse a handshake without a valid session', async () => {
+      // Arrange
+      mockDecode
+        .mockRejectedValueOnce(new Error('Invalid token'))
+        .mockResolvedValueOnce({ id: 'user1', role: 'OWNER' })
+      const handshake = createHandshake({ cookie: 'next-auth.session-token=jwt' })
+
+      // Act & Assert
+      expect(await authenticateSession(createHandshake({}))).toBeNull()
+      expect(await authenticateSession(handshake)).toBeNull()
+      expect(await authenticateSession(handshake)).toBeNull()
+      expect(mockDecode).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('isGameParticipant', () => {
+    it('should seat GameParticipants and the game\'s admin only', async () => {
+      // Arrange
+      createGameRoom('ABC123', 'admin1', { gameSessionId: 'game1' })
+      const gameRoom = getGameRoom('ABC123')!
+      mockPrisma.gameParticipant.findUnique.mockImplementation(({ where }) => Promise.resolve(
+        where.gameId_playerId.playerId === 'player1' ? { id: 'part1' } : null
+      ))
+
+      // Act & Assert
+      expect(await isGameParticipant({ id: 'player1', name: 'Aiko', role: 'PLAYER' }, gameRoom)).toBe(true)
+      expect(await isGameParticipant({ id: 'player2', name: 'Ben', role: 'PLAYER' }, gameRoom)).toBe(false)
+      expect(await isGameParticipant({ id: 'admin1', name: 'Host', role: 'ADMIN' }, gameRoom)).toBe(true)
+      expect(mockPrisma.gameParticipant.findUnique).toHaveBeenCalledWith({
+        where: { gameId_playerId: { gameId: 'game1', playerId: 'player1' } },
+        select: { id: true }
+      })
+    })
+  })
+
+  describe('canAdministerGame', () => {
+    it('should only let the owning admin or a super admin run the game', () => {
+      // Arrange
+      createGameRoom('ABC123', 'admin1')
+      const gameRoom = getGameRoom('ABC123')!
+
+      // Act & Assert
+      expect(canAdministerGame({ id: 'admin1', name: 'Host', role: 'ADMIN' }, gameRoom)).toBe(true)
+      expect(canAdministerGame({ id: 'admin2', name: 'Host', role: 'ADMIN' }, gameRoom)).toBe(false)
+      expect(canAdministerGame({ id: 'admin1', name: 'Host', role: 'PLAYER' }, gameRoom)).toBe(false)
+      expect(canAdministerGame({ id: 'root', name: 'Root', role: 'SUPER_ADMIN' }, gameRoom)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for Spectators
+ *
+ * Verifies who counts as a spectator and that shadow answers are accepted
+ * and scored apart from the players' scores
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createGameRoom, gameRooms, getGameRoom, type GameRoom } from '../game-rooms'
+import {
+  getSpectatorCount,
+  getSpectatorIds,
+  handleShadowAnswer,
+  isSpectator,
+  scoreShadowAnswers
+} from '../spectators'
+
+const createRoom = (): GameRoom => {
+  createGameRoom('ABC123', 'admin1', { status: 'in_progress' })
+  const gameRoom = getGameRoom('ABC123')!
+  ;['player1', 'player2', 'player3'].forEach(playerId => gameRoom.players.add(playerId))
+  gameRoom.eliminatedPlayers.add('player3')
+  gameRoom.spectators.add('latecomer')
+  gameRoom.currentQuestionId = 'q1'
+  gameRoom.questionEndsAt = Date.now() + 10000
+  return gameRoom
+}
+
+describe('Spectators', () => {
+  let gameRoom: GameRoom
+
+  beforeEach(() => {
+    gameRooms.clear()
+    gameRoom = createRoom()
+  })
+
+  describe('isSpectator', () => {
+    it('should count latecomers and eliminated players but not contenders', () => {
+      // Assert
+      expect(isSpectator(gameRoom, 'latecomer')).toBe(true)
+      expect(isSpectator(gameRoom, 'player3')).toBe(true)
+      expect(isSpectator(gameRoom, 'player1')).toBe(false)
+      expect(getSpectatorIds(gameRoom)).toEqual(['latecomer', 'player3'])
+      expect(getSpectatorCount(gameRoom)).toBe(2)
+    })
+  })
+
+  describe('handleShadowAnswer', () => {
+    it('should accept one answer per spectator to the open question', () => {
+      // Act
+      const accepted = handleShadowAnswer(gameRoom, 'latecomer', 'q1', 'A', 1.5)
+      const repeated = handleShadowAnswer(gameRoom, 'latecomer', 'q1', 'B', 2)
+
+      // Assert
+      expect(accepted).toBe(true)
+      expect(repeated).toBe(false)
+      expect(gameRoom.shadowAnswers.get('latecomer')?.selectedAnswer).toBe('A')
+      expect(gameRoom.activeAnswers.size).toBe(0)
+    })
+
+    it('should reject contenders, other questions and closed questions', () => {
+      // Act
+      const fromContender = handleShadowAnswer(gameRoom, 'player1', 'q1', 'A', 1)
+      const wrongQuestion = handleShadowAnswer(gameRoom, 'latecomer', 'q2', 'A', 1)
+      gameRoom.questionEndsAt = null
+      const closedQuestion = handleShadowAnswer(gameRoom, 'player3', 'q1', 'A', 1)
+
+      // Assert
+      expect(fromContender).toBe(false)
+      expect(wrongQuestion).toBe(false)
+      expect(closedQuestion).toBe(false)
+      expect(gameRoom.shadowAnswers.size).toBe(0)
+    })
+  })
+
+  describe('scoreShadowAnswers', () => {
+    it('should score spectators on their own table and clear the answers', () => {
+      // Arrange
+      gameRoom.playerScores.set('player3', { total: 500, streak: 3 })
+      handleShadowAnswer(gameRoom, 'latecomer', 'q1', 'A', 1)
+      handleShadowAnswer(gameRoom, 'player3', 'q1', 'B', 1)
+
+      // Act
+      const awards = scoreShadowAnswers(gameRoom, { id: 'q1', correctAnswer: 'A' }, 10)
+
+      // Assert
+      expect(awards).toEqual(expect.arrayContaining([
+        expect.objectContaining({ playerId: 'latecomer', streak: 1 }),
+        { playerId: 'player3', points: 0, total: 0, streak: 0 }
+      ]))
+      expect(gameRoom.shadowScores.get('latecomer')?.total).toBeGreaterThan(0)
+      expect(gameRoom.playerScores.get('player3')).toEqual({ total: 500, streak: 3 })
+      expect(gameRoom.playerScores.has('latecomer')).toBe(false)
+      expect(gameRoom.shadowAnswers.size).toBe(0)
+    })
+  })
+})
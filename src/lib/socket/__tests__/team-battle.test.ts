@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for Team Battles
+ *
+ * Verifies team assignment in live rooms and when a team battle is decided
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createGameRoom, gameRooms, getGameRoom, type GameRoom } from '../game-rooms'
+import {
+  assignPlayerTeam,
+  getTeamStandings,
+  isTeamBattleDecided,
+  markEliminatedTeams,
+  pickTeamBattleWinner
+} from '../team-battle'
+
+const createRoom = (teamScoring: GameRoom['teamScoring']): GameRoom => {
+  createGameRoom('ABC123', 'admin1', {
+    teamScoring,
+    teams: [
+      { id: 'red', name: 'Red', color: null },
+      { id: 'blue', name: 'Blue', color: null }
+    ]
+  })
+  return getGameRoom('ABC123')!
+}
+
+describe('Team Battles', () => {
+  beforeEach(() => {
+    gameRooms.clear()
+  })
+
+  describe('assignPlayerTeam', () => {
+    it('should balance players onto the smallest team', () => {
+      // Arrange
+      const gameRoom = createRoom('LAST_TEAM_STANDING')
+
+      // Act
+      const teamIds = ['player1', 'player2', 'player3'].map(playerId => assignPlayerTeam(gameRoom, playerId))
+
+      // Assert
+      expect(teamIds).toEqual(['red', 'blue', 'red'])
+    })
+
+    it('should honor a requested team and keep players on their team otherwise', () => {
+      // Arrange
+      const gameRoom = createRoom('SPEED_POINTS')
+
+      // Act
+      const requested = assignPlayerTeam(gameRoom, 'player1', 'blue')
+      const rejoined = assignPlayerTeam(gameRoom, 'player1')
+      const unknown = assignPlayerTeam(gameRoom, 'player1', 'purple')
+
+      // Assert
+      expect([requested, rejoined, unknown]).toEqual(['blue', 'blue', 'blue'])
+    })
+
+    it('should leave individual games without teams', () => {
+      // Arrange
+      const gameRoom = createRoom(null)
+
+      // Act & Assert
+      expect(assignPlayerTeam(gameRoom, 'player1')).toBeNull()
+      expect(gameRoom.playerTeams.size).toBe(0)
+      expect(getTeamStandings(gameRoom)).toEqual([])
+    })
+  })
+
+  describe('isTeamBattleDecided', () => {
+    it('should decide a last-team-standing battle once one team is left', () => {
+      // Arrange
+      const gameRoom = createRoom('LAST_TEAM_STANDING')
+      gameRoom.currentQuestion = 4
+      ;['player1', 'player2', 'player3', 'player4'].forEach(playerId => assignPlayerTeam(gameRoom, playerId))
+      gameRoom.eliminatedPlayers = new Set(['player1'])
+      markEliminatedTeams(gameRoom)
+      const beforeLastMember = isTeamBattleDecided(gameRoom)
+      gameRoom.eliminatedPlayers.add('player3')
+
+      // Act
+      const eliminatedTeams = markEliminatedTeams(gameRoom)
+
+      // Assert
+      expect(beforeLastMember).toBe(false)
+      expect(eliminatedTeams.map(team => team.id)).toEqual(['red'])
+      expect(gameRoom.teamEliminations.get('red')).toBe(4)
+      expect(isTeamBattleDecided(gameRoom)).toBe(true)
+      expect(markEliminatedTeams(gameRoom)).toEqual([])
+    })
+
+    it('should never decide a speed-points battle', () => {
+      // Arrange
+      const gameRoom = createRoom('SPEED_POINTS')
+      ;['player1', 'player2'].forEach(playerId => assignPlayerTeam(gameRoom, playerId))
+      gameRoom.eliminatedPlayers = new Set(['player1'])
+
+      // Act
+      markEliminatedTeams(gameRoom)
+
+      // Assert
+      expect(isTeamBattleDecided(gameRoom)).toBe(false)
+    })
+  })
+
+  describe('pickTeamBattleWinner', () => {
+    it('should pick the survivor with the most points', () => {
+      // Arrange
+      const gameRoom = createRoom('LAST_TEAM_STANDING')
+      gameRoom.playerScores.set('player2', { total: 300, streak: 2 })
+      gameRoom.playerScores.set('player4', { total: 120, streak: 0 })
+
+      // Act & Assert
+      expect(pickTeamBattleWinner(gameRoom, ['player4', 'player2'])).toBe('player2')
+      expect(pickTeamBattleWinner(gameRoom, [])).toBeNull()
+    })
+  })
+})
@@ -4,22 +4,24 @@
  * Manages WebSocket connections for real-time All Star Quiz functionality
  */
 
-import { io, Socket } from 'socket.io-client'
-import type { Question, Player, AdminPayload } from './types'
+import { io } from 'socket.io-client'
+import type { QuizClientSocket, ServerToClientEvents, ClientToServerEvents } from './events'
 
 // Socket.io client instance
-let socket: Socket | null = null
+let socket: QuizClientSocket | null = null
 
 // Socket connection configuration
 const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:3002'
 
 /**
- * Initialize Socket.io connection
+ * Initialize Socket.io connection, to the default realtime server unless a URL is given
  */
-export const initializeSocket = (): Socket => {
+export const initializeSocket = (url: string = SOCKET_URL): QuizClientSocket => {
   if (!socket) {
-    socket = io(SOCKET_URL, {
+    socket = io(url, {
       transports: ['websocket', 'polling'],
+      // Send the NextAuth session cookie; the server authenticates the handshake with it
+      withCredentials: true,
       autoConnect: false,
       reconnection: true,
       reconnectionDelay: 1000,
@@ -40,13 +42,18 @@ export const initializeSocket = (): Socket => {
       console.error('🔌 Socket.io connection error:', error)
     })
 
-    socket.on('reconnect', (attemptNumber) => {
+    socket.io.on('reconnect', (attemptNumber) => {
       console.log('🔌 Reconnected to Socket.io server, attempt:', attemptNumber)
     })
 
-    socket.on('reconnect_error', (error) => {
+    socket.io.on('reconnect_error', (error) => {
       console.error('🔌 Socket.io reconnection error:', error)
     })
+
+    // Acknowledge latency pings so the server can measure round-trip time
+    socket.on('latency-ping', (ack) => {
+      ack()
+    })
   }
 
   return socket
@@ -55,7 +62,7 @@ export const initializeSocket = (): Socket => {
 /**
  * Get the current socket instance
  */
-export const getSocket = (): Socket | null => {
+export const getSocket = (): QuizClientSocket | null => {
   return socket
 }
 
@@ -89,101 +96,15 @@ export const cleanupSocket = (): void => {
 }
 
 
-// Socket event types for type safety
-export interface GameEvents {
-  // Player events
-  'join-game': (data: { gameCode: string; playerId: string; playerName: string }) => void
-  'leave-game': (data: { gameCode: string; playerId: string }) => void
-  'submit-answer': (data: { 
-    gameCode: string
-    playerId: string
-    questionId: string
-    selectedAnswer: string
-    responseTime: number
-  }) => void
-
-  // Admin events
-  'admin-action': (data: {
-    action: 'start-game' | 'next-question' | 'end-game' | 'pause-game'
-    gameCode: string
-    adminId: string
-    payload?: AdminPayload
-  }) => void
-
-  // Server responses
-  'joined-game': (data: {
-    gameCode: string
-    playerCount: number
-    maxPlayers: number
-    status: string
-  }) => void
-
-  'player-joined': (data: {
-    playerId: string
-    playerName: string
-    playerCount: number
-    maxPlayers: number
-  }) => void
-
-  'player-left': (data: {
-    playerId: string
-    playerCount: number
-  }) => void
-
-  'player-disconnected': (data: {
-    playerId: string
-    playerCount: number
-  }) => void
-
-  'game-starting': (data: {
-    countdown: number
-    message: string
-  }) => void
-
-  'game-started': (data: {
-    currentQuestion: number
-    totalQuestions: number
-  }) => void
-
-  'next-question': (data: {
-    questionNumber: number
-    question: Question
-    timeLimit: number
-  }) => void
-
-  'answer-submitted': (data: {
-    playerId: string
-    questionId: string
-    selectedAnswer: string
-    responseTime: number
-    timestamp: string
-  }) => void
-
-  'game-ended': (data: {
-    winner: Player | null
-    finalScores: Player[]
-  }) => void
-
-  'game-paused': (data: {
-    reason: string
-  }) => void
-
-  'game-room-deleted': (data: {
-    message: string
-  }) => void
-
-  'error': (data: { message: string }) => void
-}
-
 /**
  * Type-safe socket event emitter
  */
-export const emitSocketEvent = <K extends keyof GameEvents>(
+export const emitSocketEvent = <K extends keyof ClientToServerEvents>(
   event: K,
-  data: Parameters<GameEvents[K]>[0]
+  ...args: Parameters<ClientToServerEvents[K]>
 ): void => {
   if (socket && socket.connected) {
-    socket.emit(event, data)
+    socket.emit(event, ...args)
   } else {
     console.warn('Socket not connected, cannot emit event:', event)
   }
@@ -192,27 +113,28 @@ export const emitSocketEvent = <K extends keyof GameEvents>(
 /**
  * Type-safe socket event listener
  */
-export const onSocketEvent = <K extends keyof GameEvents>(
+export const onSocketEvent = <K extends keyof ServerToClientEvents>(
   event: K,
-  listener: GameEvents[K]
+  listener: ServerToClientEvents[K]
 ): void => {
   if (socket) {
-    socket.on(event as string, listener as (...args: unknown[]) => void)
+    // Registered against every event name, which each event's own listener fits
+    socket.on<keyof ServerToClientEvents>(event, listener)
   }
 }
 
 /**
  * Remove socket event listener
  */
-export const offSocketEvent = <K extends keyof GameEvents>(
+export const offSocketEvent = <K extends keyof ServerToClientEvents>(
   event: K,
-  listener?: GameEvents[K]
+  listener?: ServerToClientEvents[K]
 ): void => {
   if (socket) {
     if (listener) {
-      socket.off(event as string, listener as (...args: unknown[]) => void)
+      socket.off<keyof ServerToClientEvents>(event, listener)
     } else {
-      socket.removeAllListeners(event as string)
+      socket.removeAllListeners(event)
     }
   }
-}
\ No newline at end of file
+}
@@ -6,14 +6,52 @@
 
 'use client'
 
-import { createContext, useContext, useEffect, useState, type FC, type ReactNode } from 'react'
-import { Socket } from 'socket.io-client'
+import { createContext, useContext, useEffect, useReducer, useRef, useState, type FC, type ReactNode } from 'react'
 import { initializeSocket, connectSocket, disconnectSocket, cleanupSocket } from './client'
-import type { AdminPayload, GameStatus, JoinedGameData, PlayerJoinedData, PlayerLeftData } from './types'
+import type { QuizClientSocket, ServerToClientEvents, SocketErrorData } from './events'
+import {
+  MONITOR_EVENTS,
+  applyMonitorEvent,
+  createMonitorState,
+  getMonitorScreen,
+  type MonitorEvent,
+  type MonitorEventName
+} from '../game/monitor-state'
+import type { Team } from '../game/teams'
+import type {
+  AdminActionRequest,
+  ChooseTeamRequest,
+  GameOverResult,
+  GameStatus,
+  JoinedGameData,
+  PlayerJoinedData,
+  PlayerAnswerSubmission,
+  PlayerLeftData,
+  RoomMovedData,
+  StateSyncData,
+  TeamAssignedData
+} from './types'
+
+// Resume tokens survive page reloads for the browser tab
+const RESUME_TOKEN_KEY_PREFIX = 'all-star-quiz:resume-token:'
+
+const loadResumeToken = (gameCode: string): string | null => {
+  if (typeof window === 'undefined') return null
+  return window.sessionStorage.getItem(RESUME_TOKEN_KEY_PREFIX + gameCode)
+}
+
+const saveResumeToken = (gameCode: string, resumeToken: string | null): void => {
+  if (typeof window === 'undefined') return
+  if (resumeToken) {
+    window.sessionStorage.setItem(RESUME_TOKEN_KEY_PREFIX + gameCode, resumeToken)
+  } else {
+    window.sessionStorage.removeItem(RESUME_TOKEN_KEY_PREFIX + gameCode)
+  }
+}
 
 // Socket context type
 interface SocketContextType {
-  socket: Socket | null
+  socket: QuizClientSocket | null
   isConnected: boolean
   connectionError: string | null
   connect: () => void
@@ -30,14 +68,17 @@ interface SocketProviderProps {
 
 // Socket provider component
 export const SocketProvider: FC<SocketProviderProps> = ({ children }) => {
-  const [socket, setSocket] = useState<Socket | null>(null)
+  const [socket, setSocket] = useState<QuizClientSocket | null>(null)
   const [isConnected, setIsConnected] = useState(false)
   const [connectionError, setConnectionError] = useState<string | null>(null)
+  // Realtime node to connect to; null for the default one
+  const [socketUrl, setSocketUrl] = useState<string | null>(null)
 
-  // Initialize socket on mount
+  // Initialize socket on mount, and again when a game moves to another node
   useEffect(() => {
-    const socketInstance = initializeSocket()
+    const socketInstance = socketUrl ? initializeSocket(socketUrl) : initializeSocket()
     setSocket(socketInstance)
+    setIsConnected(false)
 
     // Set up event listeners
     const handleConnect = () => {
@@ -59,20 +100,32 @@ export const SocketProvider: FC<SocketProviderProps> = ({ children }) => {
       setConnectionError(null)
     }
 
+    // The game runs on another node: switch to it, the game hooks send their requests again
+    const handleRoomMoved = (data: RoomMovedData) => {
+      setSocketUrl(data.url)
+    }
+
     socketInstance.on('connect', handleConnect)
     socketInstance.on('disconnect', handleDisconnect)
     socketInstance.on('connect_error', handleConnectError)
-    socketInstance.on('reconnect', handleReconnect)
+    socketInstance.io.on('reconnect', handleReconnect)
+    socketInstance.on('room-moved', handleRoomMoved)
+
+    // The previous socket was connected, so the new one connects right away
+    if (socketUrl) {
+      socketInstance.connect()
+    }
 
     // Cleanup on unmount
     return () => {
       socketInstance.off('connect', handleConnect)
       socketInstance.off('disconnect', handleDisconnect)
       socketInstance.off('connect_error', handleConnectError)
-      socketInstance.off('reconnect', handleReconnect)
+      socketInstance.io.off('reconnect', handleReconnect)
+      socketInstance.off('room-moved', handleRoomMoved)
       cleanupSocket()
     }
-  }, [])
+  }, [socketUrl])
 
   // Connect function
   const connect = () => {
@@ -124,31 +177,49 @@ export const useGameRoom = () => {
     playerCount: 0,
     maxPlayers: 20,
     status: 'waiting' as GameStatus,
-    isJoined: false
+    isJoined: false,
+    results: null as GameOverResult | null,
+    // Latest room state received after reclaiming a seat
+    stateSync: null as StateSyncData | null,
+    // Team battles: every team and the one this player plays for
+    teams: [] as Team[],
+    teamId: null as string | null
   })
+  // Last join request, replayed when a stored resume token is rejected
+  const joinRequest = useRef<{ gameCode: string; playerId: string } | null>(null)
 
-  // Join game function
-  const joinGame = (gameCode: string, playerId: string, playerName: string) => {
+  // Join game function: resumes the seat when this tab already holds a resume token
+  const joinGame = (gameCode: string, playerId: string) => {
     if (socket && isConnected) {
-      socket.emit('join-game', { gameCode, playerId, playerName })
+      joinRequest.current = { gameCode, playerId }
+      const resumeToken = loadResumeToken(gameCode)
+      if (resumeToken) {
+        socket.emit('resume-session', { gameCode, resumeToken })
+      } else {
+        socket.emit('join-game', { gameCode })
+      }
     }
   }
 
   // Leave game function
-  const leaveGame = (gameCode: string, playerId: string) => {
+  const leaveGame = (gameCode: string) => {
+    saveResumeToken(gameCode, null)
     if (socket && isConnected) {
-      socket.emit('leave-game', { gameCode, playerId })
+      socket.emit('leave-game', { gameCode })
+    }
+  }
+
+  // Switch teams in the lobby of a team battle
+  const chooseTeam = (teamId: string) => {
+    const request = joinRequest.current
+    if (socket && isConnected && request) {
+      const chooseTeamRequest: ChooseTeamRequest = { gameCode: request.gameCode, teamId }
+      socket.emit('choose-team', chooseTeamRequest)
     }
   }
 
   // Submit answer function
-  const submitAnswer = (data: {
-    gameCode: string
-    playerId: string
-    questionId: string
-    selectedAnswer: string
-    responseTime: number
-  }) => {
+  const submitAnswer = (data: PlayerAnswerSubmission) => {
     if (socket && isConnected) {
       socket.emit('submit-answer', data)
     }
@@ -158,17 +229,70 @@ export const useGameRoom = () => {
   useEffect(() => {
     if (!socket) return
 
+    // A new socket after the game moved to another node: take the seat there
+    const request = joinRequest.current
+    if (request) {
+      const resumeToken = loadResumeToken(request.gameCode)
+      if (resumeToken) {
+        socket.emit('resume-session', { gameCode: request.gameCode, resumeToken })
+      } else {
+        socket.emit('join-game', { gameCode: request.gameCode })
+      }
+    }
+
     const handleJoinedGame = (data: JoinedGameData) => {
+      saveResumeToken(data.gameCode, data.resumeToken ?? null)
+      setGameState(prev => ({
+        ...prev,
+        gameCode: data.gameCode,
+        playerCount: data.playerCount,
+        maxPlayers: data.maxPlayers,
+        status: data.status,
+        isJoined: true,
+        teams: data.teams,
+        teamId: data.teamId
+      }))
+    }
+
+    const handleTeamAssigned = (data: TeamAssignedData) => {
+      if (data.playerId !== joinRequest.current?.playerId) return
+
+      setGameState(prev => ({
+        ...prev,
+        teamId: data.teamId
+      }))
+    }
+
+    const handleStateSync = (data: StateSyncData) => {
       setGameState(prev => ({
         ...prev,
         gameCode: data.gameCode,
         playerCount: data.playerCount,
         maxPlayers: data.maxPlayers,
         status: data.status,
-        isJoined: true
+        isJoined: true,
+        stateSync: data
       }))
     }
 
+    // The seat is gone (e.g. the server restarted): join again as a returning player
+    const handleResumeFailed = () => {
+      const request = joinRequest.current
+      if (!request) return
+
+      saveResumeToken(request.gameCode, null)
+      socket.emit('join-game', { gameCode: request.gameCode })
+    }
+
+    // Reclaim the seat after the connection drops and comes back
+    const handleReconnect = () => {
+      const gameCode = joinRequest.current?.gameCode
+      const resumeToken = gameCode ? loadResumeToken(gameCode) : null
+      if (gameCode && resumeToken) {
+        socket.emit('resume-session', { gameCode, resumeToken })
+      }
+    }
+
     const handlePlayerJoined = (data: PlayerJoinedData) => {
       setGameState(prev => ({
         ...prev,
@@ -197,27 +321,55 @@ export const useGameRoom = () => {
       }))
     }
 
+    // The seat cannot be resumed once the game is over
+    const forgetResumeToken = () => {
+      if (joinRequest.current) {
+        saveResumeToken(joinRequest.current.gameCode, null)
+      }
+    }
+
     const handleGameEnded = () => {
+      forgetResumeToken()
       setGameState(prev => ({
         ...prev,
         status: 'finished'
       }))
     }
 
+    // Final ranking sent when the last question decides the game
+    const handleGameOver = (data: GameOverResult) => {
+      forgetResumeToken()
+      setGameState(prev => ({
+        ...prev,
+        status: 'finished',
+        results: data
+      }))
+    }
+
     socket.on('joined-game', handleJoinedGame)
+    socket.on('state-sync', handleStateSync)
+    socket.on('resume-failed', handleResumeFailed)
+    socket.io.on('reconnect', handleReconnect)
     socket.on('player-joined', handlePlayerJoined)
     socket.on('player-left', handlePlayerLeft)
+    socket.on('team-assigned', handleTeamAssigned)
     socket.on('game-starting', handleGameStarting)
     socket.on('game-started', handleGameStarted)
     socket.on('game-ended', handleGameEnded)
+    socket.on('game-over', handleGameOver)
 
     return () => {
       socket.off('joined-game', handleJoinedGame)
+      socket.off('state-sync', handleStateSync)
+      socket.off('resume-failed', handleResumeFailed)
+      socket.io.off('reconnect', handleReconnect)
       socket.off('player-joined', handlePlayerJoined)
       socket.off('player-left', handlePlayerLeft)
+      socket.off('team-assigned', handleTeamAssigned)
       socket.off('game-starting', handleGameStarting)
       socket.off('game-started', handleGameStarted)
       socket.off('game-ended', handleGameEnded)
+      socket.off('game-over', handleGameOver)
     }
   }, [socket])
 
@@ -225,6 +377,7 @@ export const useGameRoom = () => {
     gameState,
     joinGame,
     leaveGame,
+    chooseTeam,
     submitAnswer
   }
 }
@@ -235,12 +388,7 @@ export const useGameRoom = () => {
 export const useGameAdmin = () => {
   const { socket, isConnected } = useSocket()
 
-  const adminAction = (data: {
-    action: 'start-game' | 'next-question' | 'end-game' | 'pause-game'
-    gameCode: string
-    adminId: string
-    payload?: AdminPayload
-  }) => {
+  const adminAction = (data: AdminActionRequest) => {
     if (socket && isConnected) {
       socket.emit('admin-action', data)
     }
@@ -249,4 +397,84 @@ export const useGameAdmin = () => {
   return {
     adminAction
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Typed listeners that pass each followed server event to the monitor state
+ */
+const createMonitorListeners = (
+  dispatch: (event: MonitorEvent) => void
+): { [E in MonitorEventName]: ServerToClientEvents[E] } => ({
+  'monitor-state': data => dispatch({ type: 'monitor-state', data }),
+  'monitor-answer': data => dispatch({ type: 'monitor-answer', data }),
+  'player-joined': data => dispatch({ type: 'player-joined', data }),
+  'player-left': data => dispatch({ type: 'player-left', data }),
+  'player-disconnected': data => dispatch({ type: 'player-disconnected', data }),
+  'player-reconnected': data => dispatch({ type: 'player-reconnected', data }),
+  'reconnect-expired': data => dispatch({ type: 'reconnect-expired', data }),
+  'spectator-count': data => dispatch({ type: 'spectator-count', data }),
+  'team-assigned': data => dispatch({ type: 'team-assigned', data }),
+  'game-starting': data => dispatch({ type: 'game-starting', data }),
+  'game-started': data => dispatch({ type: 'game-started', data }),
+  'game-paused': data => dispatch({ type: 'game-paused', data }),
+  'game-resumed': data => dispatch({ type: 'game-resumed', data }),
+  'game-ended': data => dispatch({ type: 'game-ended', data }),
+  'game-over': data => dispatch({ type: 'game-over', data }),
+  'game-room-deleted': data => dispatch({ type: 'game-room-deleted', data }),
+  'next-question': data => dispatch({ type: 'next-question', data }),
+  'timer-update': data => dispatch({ type: 'timer-update', data }),
+  'question-result': data => dispatch({ type: 'question-result', data }),
+  'life-lost': data => dispatch({ type: 'life-lost', data }),
+  'player-eliminated': data => dispatch({ type: 'player-eliminated', data }),
+  'final-showdown': data => dispatch({ type: 'final-showdown', data }),
+  'sudden-death': data => dispatch({ type: 'sudden-death', data })
+})
+
+/**
+ * Hook for the big screen: follows a game read-only through the monitor channel
+ */
+export const useGameMonitor = (gameCode: string) => {
+  const { socket, isConnected } = useSocket()
+  const [monitorState, dispatch] = useReducer(applyMonitorEvent, undefined, createMonitorState)
+  const [monitorError, setMonitorError] = useState<string | null>(null)
+
+  // Join on connect and again after every reconnect; the server answers with the full state
+  useEffect(() => {
+    if (!socket || !isConnected || !gameCode) return
+
+    setMonitorError(null)
+    socket.emit('join-monitor', { gameCode })
+  }, [socket, isConnected, gameCode])
+
+  useEffect(() => {
+    if (!socket) return
+
+    const handleError = (data: SocketErrorData) => {
+      if (data.event === 'join-monitor') {
+        setMonitorError(data.message)
+      }
+    }
+
+    const listeners = createMonitorListeners(dispatch)
+    MONITOR_EVENTS.forEach(event => socket.on<MonitorEventName>(event, listeners[event]))
+    socket.on('error', handleError)
+    return () => {
+      MONITOR_EVENTS.forEach(event => socket.off<MonitorEventName>(event, listeners[event]))
+      socket.off('error', handleError)
+    }
+  }, [socket])
+
+  // The server only announces the countdown, so the monitor counts it down itself
+  useEffect(() => {
+    if (!monitorState.countdown) return
+
+    const timeout = setTimeout(() => dispatch({ type: 'countdown-tick' }), 1000)
+    return () => clearTimeout(timeout)
+  }, [monitorState.countdown])
+
+  return {
+    monitorState,
+    screen: getMonitorScreen(monitorState),
+    monitorError
+  }
+}
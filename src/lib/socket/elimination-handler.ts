@@ -4,54 +4,72 @@
  * Handles question timing, answer collection, and elimination processing
  */
 
-import type { Server } from 'socket.io'
+import type { QuizServer } from './events'
 import {
   processAnswersAndDetermineElimination,
-  createPlayerAnswer
+  createPlayerAnswer,
+  type EliminationResult
 } from '../game/elimination-logic'
+import type { AnswerTiming } from '../game/latency'
+import { isAnswerCorrect, type QuestionFormat } from '../game/question-formats'
+import { applyLifeLosses, forfeitLives } from '../game/lives'
+import { scoreQuestion, type QuestionDifficulty } from '../game/scoring'
+import { shouldStartFinalShowdown } from '../game/final-showdown'
+import { checkTransition, toSessionStatus, type GameTransitionEffect } from '../game/game-state'
 import type {
   QuestionResult,
   GameOverResult,
-  TimerUpdate
+  TimerUpdate,
+  FinalShowdownData,
+  SuddenDeathData,
+  SpectatorCountData,
+  TeamEliminatedData
 } from './types'
-import type { GameRoom } from './game-rooms'
-
-
-const QUESTION_TIME_LIMIT = 10 // seconds
+import { getContenderIds, type GameRoom } from './game-rooms'
+import {
+  persistFinalRanking,
+  persistQuestionResults,
+  persistRoomStatus,
+  persistTeamResults
+} from './game-persistence'
+import { recordGameStatistics } from './game-statistics'
+import { recordGameEvent } from './game-events'
+import { saveRoomSnapshot } from './room-snapshot'
+import { getSpectatorCount, scoreShadowAnswers } from './spectators'
+import {
+  getTeamStandings,
+  isTeamBattleDecided,
+  markEliminatedTeams,
+  pickTeamBattleWinner
+} from './team-battle'
+import { getWinningTeamId } from '../game/teams'
+
+type TimedQuestion = {
+  id: string
+  correctAnswer: string
+  format?: QuestionFormat
+  explanation?: string
+  difficulty?: QuestionDifficulty
+}
 
 /**
- * Start question timer and handle elimination when time expires
+ * Schedule the countdown and the expiry of the current question
  */
-export const startQuestionTimer = (
+const runQuestionTimer = (
   gameRoom: GameRoom,
-  question: {
-    id: string
-    correctAnswer: string
-    explanation?: string
-  },
-  io: Server,
-  isFinalQuestion = false
+  question: TimedQuestion,
+  io: QuizServer,
+  isFinalQuestion: boolean,
+  remainingMs: number
 ): void => {
-  // Clear any existing timers
-  clearQuestionTimers(gameRoom)
-
-  // Reset answers for new question
-  gameRoom.activeAnswers.clear()
-  gameRoom.currentQuestionId = question.id
-
-  // Store current question data for elimination processing
-  gameRoom.currentQuestionData = {
-    id: question.id,
-    correctAnswer: question.correctAnswer,
-    ...(question.explanation && { explanation: question.explanation }),
-    isFinalQuestion
-  }
-
-  let remainingTime = QUESTION_TIME_LIMIT
+  const endsAt = Date.now() + remainingMs
+  gameRoom.questionEndsAt = endsAt
+  gameRoom.pausedRemainingMs = null
+  gameRoom.questionPausedAt = null
 
   // Start countdown timer
   gameRoom.timerInterval = setInterval(() => {
-    remainingTime -= 1
+    const remainingTime = Math.max(Math.ceil((endsAt - Date.now()) / 1000), 0)
 
     const timerUpdate: TimerUpdate = {
       remainingTime,
@@ -70,31 +88,118 @@ export const startQuestionTimer = (
 
   // Main timer that triggers elimination
   gameRoom.questionTimer = setTimeout(() => {
+    recordGameEvent(gameRoom, {
+      type: 'timer-boundary',
+      questionId: question.id,
+      boundary: 'expired',
+      remainingMs: 0
+    })
     processQuestionResults(gameRoom, question, io, isFinalQuestion).catch(error => {
       console.error('Error processing question results:', error)
     })
-  }, QUESTION_TIME_LIMIT * 1000)
+  }, remainingMs)
 
   // Send initial timer update
   io.to(gameRoom.code).emit('timer-update', {
-    remainingTime: QUESTION_TIME_LIMIT,
-    isUrgent: false
+    remainingTime: Math.ceil(remainingMs / 1000),
+    isUrgent: remainingMs <= 3000
   } as TimerUpdate)
 }
 
+/**
+ * Start question timer and handle elimination when time expires
+ */
+export const startQuestionTimer = (
+  gameRoom: GameRoom,
+  question: TimedQuestion,
+  io: QuizServer,
+  isFinalQuestion = false
+): void => {
+  // Clear any existing timers
+  clearQuestionTimers(gameRoom)
+
+  // Reset answers for new question
+  gameRoom.activeAnswers.clear()
+  gameRoom.shadowAnswers.clear()
+  gameRoom.currentQuestionId = question.id
+
+  // Store current question data for elimination processing
+  gameRoom.currentQuestionData = {
+    id: question.id,
+    correctAnswer: question.correctAnswer,
+    ...(question.format && { format: question.format }),
+    ...(question.explanation && { explanation: question.explanation }),
+    ...(question.difficulty && { difficulty: question.difficulty }),
+    isFinalQuestion
+  }
+
+  runQuestionTimer(gameRoom, question, io, isFinalQuestion, gameRoom.questionTimeLimit * 1000)
+  recordGameEvent(gameRoom, {
+    type: 'timer-boundary',
+    questionId: question.id,
+    boundary: 'started',
+    remainingMs: gameRoom.questionTimeLimit * 1000
+  })
+}
+
+/**
+ * Freeze the running question timer, keeping the exact remaining time.
+ * Returns the remaining milliseconds, or null when no question is running.
+ */
+export const pauseQuestionTimer = (gameRoom: GameRoom): number | null => {
+  if (!gameRoom.questionTimer || gameRoom.questionEndsAt === null) return null
+
+  const remainingMs = Math.max(gameRoom.questionEndsAt - Date.now(), 0)
+  clearQuestionTimers(gameRoom)
+  gameRoom.pausedRemainingMs = remainingMs
+  gameRoom.questionPausedAt = Date.now()
+  if (gameRoom.currentQuestionId) {
+    recordGameEvent(gameRoom, {
+      type: 'timer-boundary',
+      questionId: gameRoom.currentQuestionId,
+      boundary: 'paused',
+      remainingMs
+    })
+  }
+
+  return remainingMs
+}
+
+/**
+ * Resume a paused question timer with the remaining time it was frozen at.
+ * Returns the remaining milliseconds, or null when no question was paused.
+ */
+export const resumeQuestionTimer = (gameRoom: GameRoom, io: QuizServer): number | null => {
+  const remainingMs = gameRoom.pausedRemainingMs
+  const question = gameRoom.currentQuestionData
+  if (remainingMs === null || !question) return null
+
+  // Answers are timed from delivery: move the delivery stamps past the pause
+  if (gameRoom.questionPausedAt !== null) {
+    const pausedMs = Date.now() - gameRoom.questionPausedAt
+    gameRoom.questionDeliveries.forEach((deliveredAtMs, playerId) => {
+      gameRoom.questionDeliveries.set(playerId, deliveredAtMs + pausedMs)
+    })
+  }
+
+  runQuestionTimer(gameRoom, question, io, question.isFinalQuestion, remainingMs)
+  recordGameEvent(gameRoom, { type: 'timer-boundary', questionId: question.id, boundary: 'resumed', remainingMs })
+  return remainingMs
+}
+
 /**
  * Process answers and determine elimination/winner
  */
 export const processQuestionResults = async (
   gameRoom: GameRoom,
-  question: {
-    id: string
-    correctAnswer: string
-    explanation?: string
-  },
-  io: Server,
+  question: TimedQuestion,
+  io: QuizServer,
   isFinalQuestion = false
 ): Promise<void> => {
+  // The timer, its countdown and the last answer may all close the same question
+  if (gameRoom.processedQuestionIds.has(question.id)) return
+  gameRoom.processedQuestionIds.add(question.id)
+
   // Clear timers
   clearQuestionTimers(gameRoom)
 
@@ -102,133 +207,325 @@ export const processQuestionResults = async (
   const answers = Array.from(gameRoom.activeAnswers.values())
     .filter(answer => answer.questionId === question.id)
 
-  // Process elimination logic
-  const eliminationResult = processAnswersAndDetermineElimination(
+  // Disconnected players who missed the question are out; the rules judge everyone else
+  const missedPlayerIds = getContenderIds(gameRoom).filter(playerId =>
+    gameRoom.disconnectedPlayers.has(playerId) && !answers.some(answer => answer.playerId === playerId)
+  )
+
+  // Process elimination logic with the game's rule set
+  const ruleResult = processAnswersAndDetermineElimination(
     answers,
     question.correctAnswer,
-    isFinalQuestion
+    isFinalQuestion,
+    {
+      rule: gameRoom.eliminationRule,
+      eliminationCount: gameRoom.eliminationCount,
+      activePlayerIds: getContenderIds(gameRoom).filter(playerId => !missedPlayerIds.includes(playerId)),
+      tieToleranceMs: gameRoom.tieToleranceMs,
+      ...(question.format && { format: question.format })
+    }
+  )
+
+  // Each penalty costs a life; players are only eliminated at zero lives
+  const lifeOutcome = forfeitLives(
+    applyLifeLosses(ruleResult.eliminations, gameRoom.playerLives, gameRoom.startingLives),
+    missedPlayerIds
+  )
+  const eliminationResult: EliminationResult = {
+    ...ruleResult,
+    eliminations: lifeOutcome.eliminations,
+    eliminatedPlayerId: lifeOutcome.eliminations[0]?.playerId ?? null
+  }
+
+  // Award points to every contender, weighted by speed, difficulty and streak
+  const scoreAwards = scoreQuestion(
+    eliminationResult.allAnswers,
+    getContenderIds(gameRoom),
+    gameRoom.playerScores,
+    {
+      timeLimit: gameRoom.questionTimeLimit,
+      difficulty: question.difficulty,
+      table: gameRoom.scoreTable
+    }
   )
 
-  // TODO: Save all answers to database
-  // Note: This requires implementing full game session management with proper
-  // gameId, participantId, and gameQuestionId relationships
-  // For now, we'll skip database persistence and focus on real-time game logic
+  // Spectators' shadow answers are scored on their own table
+  const shadowScores = scoreShadowAnswers(gameRoom, question, gameRoom.questionTimeLimit)
+
+  // Save all answers, question statistics and eliminations to the database
   try {
     if (eliminationResult.allAnswers.length > 0) {
       console.log(`📊 Question results: ${eliminationResult.allAnswers.length} answers processed`)
       console.log(`✅ Correct: ${eliminationResult.correctAnswerers.length}, ❌ Incorrect: ${eliminationResult.incorrectAnswerers.length}`)
-      if (eliminationResult.eliminatedPlayerId) {
-        console.log(`🚫 Eliminated: ${eliminationResult.eliminatedPlayerId}`)
-      }
+      eliminationResult.eliminations.forEach(elimination => {
+        console.log(`🚫 Eliminated: ${elimination.playerId} (${elimination.reason})`)
+      })
       if (eliminationResult.winnerId) {
         console.log(`🏆 Winner: ${eliminationResult.winnerId}`)
       }
-
-      // Database save will be implemented when game session management is complete
-      // await prisma.playerAnswer.createMany({
-      //   data: eliminationResult.allAnswers.map(answer => ({
-      //     gameId: gameRoom.gameSessionId, // Required field not yet available
-      //     participantId: answer.playerId, // Need to map player ID to participant ID
-      //     questionId: answer.questionId,
-      //     gameQuestionId: answer.gameQuestionId, // Required field not yet available
-      //     selectedAnswer: answer.selectedAnswer,
-      //     responseTime: answer.responseTime,
-      //     isCorrect: answer.isCorrect || false,
-      //     isTimeout: answer.selectedAnswer === '',
-      //     answeredAt: answer.serverTimestamp
-      //   })),
-      //   skipDuplicates: true
-      // })
     }
+
+    await persistQuestionResults(
+      gameRoom,
+      question.id,
+      eliminationResult,
+      lifeOutcome.lifeLosses,
+      scoreAwards
+    )
   } catch (error) {
-    console.error('Error processing question results:', error)
-    // Continue with game logic even if processing fails
+    console.error('Error saving question results:', error)
+    // Continue with game logic even if persistence fails
   }
 
-  // Update eliminated players set
-  if (eliminationResult.eliminatedPlayerId) {
-    gameRoom.eliminatedPlayers.add(eliminationResult.eliminatedPlayerId)
-  }
+  // Update scores, remaining lives and eliminated players set
+  scoreAwards.forEach(({ playerId, total, streak }) => {
+    gameRoom.playerScores.set(playerId, { total, streak })
+  })
+  lifeOutcome.lifeLosses.forEach(loss => {
+    gameRoom.playerLives.set(loss.playerId, loss.livesRemaining)
+  })
+  eliminationResult.eliminations.forEach(elimination => {
+    gameRoom.eliminatedPlayers.add(elimination.playerId)
+  })
 
   // Calculate survivors (active players who are not eliminated)
   const survivors = Array.from(gameRoom.players).filter(
     playerId => !gameRoom.eliminatedPlayers.has(playerId)
   )
 
+  // Team battles: teams whose last member was just eliminated are out
+  const eliminatedTeams = markEliminatedTeams(gameRoom)
+
   // Prepare question result
   const questionResult: QuestionResult = {
     questionId: question.id,
     correctAnswer: question.correctAnswer,
     explanation: question.explanation || undefined,
     eliminatedPlayerId: eliminationResult.eliminatedPlayerId,
+    eliminations: eliminationResult.eliminations,
     winnerId: eliminationResult.winnerId,
     correctAnswerers: eliminationResult.correctAnswerers,
     incorrectAnswerers: eliminationResult.incorrectAnswerers,
     survivors,
+    lifeLosses: lifeOutcome.lifeLosses,
+    lives: getPlayerLives(gameRoom),
+    scores: scoreAwards,
+    shadowScores,
+    teamStandings: getTeamStandings(gameRoom),
+    numericRanking: eliminationResult.numericRanking,
     isFinalQuestion
   }
 
   // Broadcast question results
   io.to(gameRoom.code).emit('question-result', questionResult)
+  recordGameEvent(gameRoom, {
+    type: 'question-result',
+    questionId: question.id,
+    correctAnswerers: questionResult.correctAnswerers,
+    incorrectAnswerers: questionResult.incorrectAnswerers,
+    survivors,
+    lives: questionResult.lives,
+    scores: Object.fromEntries(scoreAwards.map(award => [award.playerId, award.total]))
+  })
+
+  // Send life loss notifications for players who are still in the game
+  lifeOutcome.lifeLosses
+    .filter(loss => loss.livesRemaining > 0)
+    .forEach(loss => {
+      io.to(gameRoom.code).emit('life-lost', {
+        playerId: loss.playerId,
+        reason: loss.reason,
+        livesRemaining: loss.livesRemaining,
+        questionId: question.id
+      })
+    })
 
-  // Send individual elimination notification
-  if (eliminationResult.eliminatedPlayerId) {
+  // Eliminated players join the spectators
+  if (eliminationResult.eliminations.length > 0) {
+    const spectatorCount: SpectatorCountData = { spectatorCount: getSpectatorCount(gameRoom) }
+    io.to(gameRoom.code).emit('spectator-count', spectatorCount)
+  }
+
+  // Send individual elimination notifications
+  eliminationResult.eliminations.forEach(elimination => {
     io.to(gameRoom.code).emit('player-eliminated', {
-      playerId: eliminationResult.eliminatedPlayerId,
+      playerId: elimination.playerId,
+      reason: elimination.reason,
       questionId: question.id,
       correctAnswer: question.correctAnswer
     })
-  }
+    recordGameEvent(gameRoom, {
+      type: 'player-eliminated',
+      playerId: elimination.playerId,
+      questionId: question.id,
+      reason: elimination.reason
+    })
+  })
+
+  eliminatedTeams.forEach(team => {
+    const teamEliminated: TeamEliminatedData = { teamId: team.id, name: team.name, questionId: question.id }
+    io.to(gameRoom.code).emit('team-eliminated', teamEliminated)
+  })
 
   // Check for game end conditions
-  if (isFinalQuestion || eliminationResult.winnerId || survivors.length <= 1) {
-    handleGameEnd(gameRoom, eliminationResult.winnerId || survivors[0] || null, io)
+  if (eliminationResult.winnerId || survivors.length <= 1) {
+    await handleGameEnd(gameRoom, eliminationResult.winnerId || survivors[0] || null, io)
+    return
+  }
+
+  // A last-team-standing battle ends once a single team has members left
+  if (isTeamBattleDecided(gameRoom)) {
+    await handleGameEnd(gameRoom, pickTeamBattleWinner(gameRoom, survivors), io)
+    return
+  }
+
+  // A final question without a single winner continues in sudden death
+  if (isFinalQuestion && eliminationResult.tiedPlayers.length > 1 && eliminationResult.tiebreakReason) {
+    gameRoom.phase = 'sudden_death'
+    gameRoom.tiebreakPlayers = eliminationResult.tiedPlayers
+    gameRoom.tiebreakRound += 1
+
+    const suddenDeath: SuddenDeathData = {
+      players: eliminationResult.tiedPlayers,
+      round: gameRoom.tiebreakRound,
+      reason: eliminationResult.tiebreakReason
+    }
+    io.to(gameRoom.code).emit('sudden-death', suddenDeath)
+    recordGameEvent(gameRoom, {
+      type: 'phase-changed',
+      phase: gameRoom.phase,
+      tiebreakPlayers: gameRoom.tiebreakPlayers,
+      tiebreakRound: gameRoom.tiebreakRound
+    })
+    saveRoomSnapshot(gameRoom).catch(error => {
+      console.error('Error saving room snapshot:', error)
+    })
+    return
   }
+
+  if (isFinalQuestion) {
+    await handleGameEnd(gameRoom, survivors[0] || null, io)
+    return
+  }
+
+  // Switch to the final showdown once survivors drop to the threshold
+  if (shouldStartFinalShowdown(gameRoom.phase, survivors.length, gameRoom.finalQuestionThreshold)) {
+    gameRoom.phase = 'final_showdown'
+
+    const finalShowdown: FinalShowdownData = {
+      survivors,
+      threshold: gameRoom.finalQuestionThreshold,
+      message: 'Final showdown! The fastest correct answer wins.'
+    }
+    io.to(gameRoom.code).emit('final-showdown', finalShowdown)
+    recordGameEvent(gameRoom, {
+      type: 'phase-changed',
+      phase: gameRoom.phase,
+      tiebreakPlayers: gameRoom.tiebreakPlayers,
+      tiebreakRound: gameRoom.tiebreakRound
+    })
+  }
+
+  saveRoomSnapshot(gameRoom).catch(error => {
+    console.error('Error saving room snapshot:', error)
+  })
 }
 
 /**
- * Handle game end and send final results
+ * Handle game end once the last question decided it
  */
-const handleGameEnd = (
+const handleGameEnd = async (
   gameRoom: GameRoom,
   winnerId: string | null,
-  io: Server
-): void => {
+  io: QuizServer
+): Promise<void> => {
+  const transition = checkTransition(toSessionStatus(gameRoom.status), 'FINISHED')
+  // Games the admin already ended were ranked then
+  if (!transition.allowed) return
+
   gameRoom.status = 'finished'
+  await finishGame(gameRoom, winnerId, io, transition.effects)
+}
 
-  // Create final ranking (simplified for now)
-  const finalRanking = [
-    {
-      playerId: winnerId || 'unknown',
-      playerName: `Player ${winnerId || 'unknown'}`, // Would need to get actual name
-      rank: 1,
-      questionsAnswered: gameRoom.currentQuestion
-    }
-  ]
+/**
+ * Finish a game that just moved to FINISHED: save its status, then rank
+ * every participant and send the final results
+ */
+export const finishGame = async (
+  gameRoom: GameRoom,
+  winnerId: string | null,
+  io: QuizServer,
+  effects: GameTransitionEffect[]
+): Promise<void> => {
+  const gameSessionId = gameRoom.gameSessionId
+  persistRoomStatus(gameRoom, 'FINISHED', effects)
+    .then(() => gameSessionId && effects.includes('record-statistics') ? recordGameStatistics(gameSessionId) : null)
+    .catch(error => {
+      console.error('Error saving game status and statistics:', error)
+    })
+
+  await announceFinalResults(gameRoom, winnerId, io)
+}
+
+/**
+ * Rank every participant of a finished game and send the final results
+ */
+export const announceFinalResults = async (
+  gameRoom: GameRoom,
+  winnerId: string | null,
+  io: QuizServer
+): Promise<void> => {
+  let finalRanking: GameOverResult['finalRanking'] = []
+  try {
+    finalRanking = await persistFinalRanking(gameRoom, winnerId)
+  } catch (error) {
+    console.error('Error saving final ranking:', error)
+  }
+
+  const teamStandings = getTeamStandings(gameRoom, winnerId)
+  try {
+    await persistTeamResults(gameRoom, teamStandings)
+  } catch (error) {
+    console.error('Error saving team results:', error)
+  }
 
   const gameOverResult: GameOverResult = {
     winnerId: winnerId || 'unknown',
-    finalRanking
+    finalRanking,
+    questionsPlayed: gameRoom.currentQuestion,
+    teamStandings,
+    winningTeamId: getWinningTeamId(teamStandings)
   }
 
   io.to(gameRoom.code).emit('game-over', gameOverResult)
+  recordGameEvent(gameRoom, {
+    type: 'game-over',
+    winnerId,
+    questionsPlayed: gameOverResult.questionsPlayed
+  })
 }
 
 /**
- * Handle answer submission
+ * Handle answer submission.
+ * Server-measured timing, when given, replaces the client-reported response time.
  */
 export const handleAnswerSubmission = (
   gameRoom: GameRoom,
   playerId: string,
   questionId: string,
   selectedAnswer: string,
-  responseTime: number
+  responseTime: number,
+  timing?: AnswerTiming
 ): boolean => {
   // Validate submission
+  // A closed question (timer expired or every answer in) takes no more answers
   if (
+    gameRoom.status === 'paused' ||
     gameRoom.currentQuestionId !== questionId ||
+    gameRoom.questionEndsAt === null ||
     gameRoom.eliminatedPlayers.has(playerId) ||
-    gameRoom.activeAnswers.has(playerId)
+    gameRoom.activeAnswers.has(playerId) ||
+    (gameRoom.phase === 'sudden_death' && !gameRoom.tiebreakPlayers.includes(playerId))
   ) {
     return false
   }
@@ -238,15 +535,28 @@ export const handleAnswerSubmission = (
     playerId,
     questionId,
     selectedAnswer,
-    responseTime
+    responseTime,
+    timing
   )
 
   gameRoom.activeAnswers.set(playerId, playerAnswer)
-
-  // Check if all active players have answered
-  const activePlayersCount = getActivePlayersCount(gameRoom)
-
-  if (gameRoom.activeAnswers.size >= activePlayersCount) {
+  recordGameEvent(gameRoom, {
+    type: 'answer-received',
+    playerId,
+    questionId,
+    selectedAnswer,
+    responseTime: playerAnswer.responseTime,
+    isCorrect: !!gameRoom.currentQuestionData && isAnswerCorrect(
+      gameRoom.currentQuestionData.format,
+      selectedAnswer,
+      gameRoom.currentQuestionData.correctAnswer
+    )
+  })
+
+  // Check if all players who may answer have answered
+  const contenderCount = getContenderIds(gameRoom).length
+
+  if (gameRoom.activeAnswers.size >= contenderCount) {
     // All active players have answered - trigger immediate processing
     clearQuestionTimers(gameRoom)
 
@@ -262,6 +572,10 @@ export const handleAnswerSubmission = (
  * Clear all timers for a game room
  */
 export const clearQuestionTimers = (gameRoom: GameRoom): void => {
+  gameRoom.questionEndsAt = null
+  gameRoom.pausedRemainingMs = null
+  gameRoom.questionPausedAt = null
+
   if (gameRoom.questionTimer) {
     clearTimeout(gameRoom.questionTimer)
     gameRoom.questionTimer = null
@@ -281,3 +595,14 @@ export const getActivePlayersCount = (gameRoom: GameRoom): number => {
     playerId => !gameRoom.eliminatedPlayers.has(playerId)
   ).length
 }
+
+/**
+ * Get remaining lives for every player still in the game
+ */
+export const getPlayerLives = (gameRoom: GameRoom): Record<string, number> => {
+  return Object.fromEntries(
+    Array.from(gameRoom.players)
+      .filter(playerId => !gameRoom.eliminatedPlayers.has(playerId))
+      .map(playerId => [playerId, gameRoom.playerLives.get(playerId) ?? gameRoom.startingLives])
+  )
+}
@@ -0,0 +1,177 @@
+/**
+ * Socket.io Event Contract
+ *
+ * The one description of every event between the quiz server and its clients.
+ * Client-to-server payloads come from the zod schemas in @/schemas/socketSchemas
+ * and are parsed at runtime; server-to-client payloads use the types in ./types.
+ * Both the server `io` and the client `Socket` are typed with these maps.
+ */
+
+import type { Server, Socket as ServerSocket } from 'socket.io'
+import type { Socket as ClientSocket } from 'socket.io-client'
+import type { z } from 'zod'
+import { clientEventSchemas } from '@/schemas/socketSchemas'
+import type { AppErrorCode } from '@/lib/trpc/errors'
+import type { SocketData } from './socket-auth'
+import type {
+  AnswerReceivedData,
+  FinalShowdownData,
+  GameEndedData,
+  GameOverResult,
+  GamePausedData,
+  GameResumedData,
+  GameRoomDeletedData,
+  GameStartedData,
+  GameStartingData,
+  JoinedGameData,
+  LifeLostData,
+  MonitorAnswerData,
+  MonitorStateData,
+  NextQuestionData,
+  PlayerDisconnectedData,
+  PlayerEliminatedData,
+  PlayerJoinedData,
+  PlayerLeftData,
+  PlayerReconnectedData,
+  QuestionResult,
+  ReconnectExpiredData,
+  ResumeFailedData,
+  RoomMovedData,
+  ShadowAnswerReceivedData,
+  SpectatorCountData,
+  StateSyncData,
+  SuddenDeathData,
+  TeamAssignedData,
+  TeamEliminatedData,
+  TimerUpdate
+} from './types'
+
+export type ClientEventName = keyof typeof clientEventSchemas
+
+export type ClientEventPayload<E extends ClientEventName> = z.infer<typeof clientEventSchemas[E]>
+
+export type ClientToServerEvents = {
+  [E in ClientEventName]: (data: ClientEventPayload<E>) => void
+}
+
+export const SOCKET_ERROR_CODES = [
+  'INVALID_PAYLOAD',
+  'NOT_FOUND',
+  'FORBIDDEN',
+  'INVALID_STATE',
+  'INTERNAL_ERROR'
+] as const
+
+export type SocketErrorCode = typeof SOCKET_ERROR_CODES[number]
+
+export type SocketErrorIssue = {
+  // Dotted path of the offending field, e.g. "payload.reason"
+  path: string
+  message: string
+}
+
+export type SocketErrorData = {
+  code: SocketErrorCode
+  message: string
+  // Client event that was rejected, when the error answers one
+  event?: ClientEventName
+  // Invalid payloads: what failed validation
+  issues?: SocketErrorIssue[]
+  // Refusals shared with the tRPC API, e.g. a conflicting game status transition
+  appErrorCode?: AppErrorCode
+}
+
+export type ServerToClientEvents = {
+  // Joining and reconnecting
+  'joined-game': (data: JoinedGameData) => void
+  'state-sync': (data: StateSyncData) => void
+  'resume-failed': (data: ResumeFailedData) => void
+  'room-moved': (data: RoomMovedData) => void
+  'player-joined': (data: PlayerJoinedData) => void
+  'player-left': (data: PlayerLeftData) => void
+  'player-disconnected': (data: PlayerDisconnectedData) => void
+  'player-reconnected': (data: PlayerReconnectedData) => void
+  'reconnect-expired': (data: ReconnectExpiredData) => void
+  'spectator-count': (data: SpectatorCountData) => void
+  'team-assigned': (data: TeamAssignedData) => void
+
+  // Monitors (the big screen)
+  'monitor-state': (data: MonitorStateData) => void
+  'monitor-answer': (data: MonitorAnswerData) => void
+
+  // Game flow
+  'game-starting': (data: GameStartingData) => void
+  'game-started': (data: GameStartedData) => void
+  'game-paused': (data: GamePausedData) => void
+  'game-resumed': (data: GameResumedData) => void
+  'game-ended': (data: GameEndedData) => void
+  'game-over': (data: GameOverResult) => void
+  'game-room-deleted': (data: GameRoomDeletedData) => void
+
+  // Questions and answers
+  'next-question': (data: NextQuestionData) => void
+  'timer-update': (data: TimerUpdate) => void
+  'answer-received': (data: AnswerReceivedData) => void
+  'shadow-answer-received': (data: ShadowAnswerReceivedData) => void
+  'question-result': (data: QuestionResult) => void
+
+  // Eliminations
+  'life-lost': (data: LifeLostData) => void
+  'player-eliminated': (data: PlayerEliminatedData) => void
+  'team-eliminated': (data: TeamEliminatedData) => void
+  'sudden-death': (data: SuddenDeathData) => void
+  'final-showdown': (data: FinalShowdownData) => void
+
+  // Acknowledged so the server can measure round-trip latency
+  'latency-ping': (ack: () => void) => void
+  'error': (data: SocketErrorData) => void
+}
+
+export type InterServerEvents = Record<string, never>
+
+export type QuizServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+
+export type QuizServerSocket = ServerSocket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>
+
+export type QuizClientSocket = ClientSocket<ServerToClientEvents, ClientToServerEvents>
+
+export type ClientPayloadResult<E extends ClientEventName> =
+  | { success: true; data: ClientEventPayload<E> }
+  | { success: false; error: SocketErrorData }
+
+/**
+ * Build the error sent to a socket whose request was refused
+ */
+export const createSocketError = (
+  code: SocketErrorCode,
+  message: string,
+  event?: ClientEventName
+): SocketErrorData => ({
+  code,
+  message,
+  ...(event && { event })
+})
+
+/**
+ * Parse an inbound payload against its event's schema
+ */
+export const parseClientPayload = <E extends ClientEventName>(
+  event: E,
+  data: unknown
+): ClientPayloadResult<E> => {
+  const result = clientEventSchemas[event].safeParse(data)
+  if (result.success) {
+    return { success: true, data: result.data as ClientEventPayload<E> }
+  }
+
+  return {
+    success: false,
+    error: {
+      ...createSocketError('INVALID_PAYLOAD', 'Invalid request payload', event),
+      issues: result.error.issues.map(issue => ({
+        path: issue.path.map(String).join('.'),
+        message: issue.message
+      }))
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Game Event Recorder
+ *
+ * Appends room transitions to the GameEvent log in the order they happen and
+ * replays the log to rebuild a room at any event index. Rooms that are not
+ * bound to a GameSession are not logged.
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  replayGameEvents,
+  type GameLogEvent,
+  type LoggedGameEvent,
+  type ReplayState
+} from '../game/event-log'
+import type { GameRoom } from './game-rooms'
+
+export type GameReplay = {
+  totalEvents: number
+  // Index of the last applied event (-1 before the first event)
+  eventIndex: number
+  event: LoggedGameEvent | null
+  state: ReplayState
+}
+
+// Pending appends by game ID, resolving to the next free sequence number.
+// Chaining every append keeps the log in call order.
+const appendQueues = new Map<string, Promise<number>>()
+
+const loadNextSequence = async (gameId: string): Promise<number> => {
+  const last = await prisma.gameEvent.aggregate({
+    where: { gameId },
+    _max: { sequence: true }
+  })
+
+  return (last._max.sequence ?? -1) + 1
+}
+
+/**
+ * Append an event to a room's log.
+ * Never rejects: a failed append is logged and the next append re-reads the sequence.
+ */
+export const recordGameEvent = (gameRoom: GameRoom, event: GameLogEvent): Promise<void> => {
+  const gameId = gameRoom.gameSessionId
+  if (!gameId) return Promise.resolve()
+
+  const appended = (appendQueues.get(gameId) ?? loadNextSequence(gameId)).then(async sequence => {
+    await prisma.gameEvent.create({
+      data: {
+        gameId,
+        sequence,
+        type: event.type,
+        playerId: 'playerId' in event ? event.playerId : null,
+        payload: JSON.stringify(event)
+      }
+    })
+    return sequence + 1
+  })
+
+  const queue = appended.catch(() => loadNextSequence(gameId))
+  appendQueues.set(gameId, queue)
+
+  return appended.then(
+    () => {
+      // Nothing is logged after the game is over
+      if (event.type === 'game-over' && appendQueues.get(gameId) === queue) {
+        appendQueues.delete(gameId)
+      }
+    },
+    error => {
+      console.error(`Error recording ${event.type} event:`, error)
+    }
+  )
+}
+
+/**
+ * Load a game's event log in order
+ */
+export const loadGameEvents = async (gameId: string): Promise<LoggedGameEvent[]> => {
+  const events = await prisma.gameEvent.findMany({
+    where: { gameId },
+    orderBy: { sequence: 'asc' },
+    select: { sequence: true, payload: true, createdAt: true }
+  })
+
+  return events.map(({ sequence, payload, createdAt }) => ({
+    sequence,
+    createdAt,
+    event: JSON.parse(payload) as GameLogEvent
+  }))
+}
+
+/**
+ * Rebuild a game's room state after the event at the given index,
+ * or after the last event when no index is given
+ */
+export const replayGame = async (
+  gameId: string,
+  startingLives: number,
+  eventIndex?: number
+): Promise<GameReplay> => {
+  const events = await loadGameEvents(gameId)
+  const lastIndex = Math.min(eventIndex ?? events.length - 1, events.length - 1)
+
+  return {
+    totalEvents: events.length,
+    eventIndex: lastIndex,
+    event: events[lastIndex] ?? null,
+    state: replayGameEvents(events.map(logged => logged.event), startingLives, lastIndex)
+  }
+}
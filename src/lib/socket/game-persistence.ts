@@ -0,0 +1,474 @@
+/**
+ * Game Persistence for Socket.io
+ *
+ * Writes the outcome of each socket-driven question to the database:
+ * player answers, per-question statistics (including sudden-death tiebreak rounds),
+ * participant scores and elimination state, plus socket-driven GameSession status changes
+ * and the final ranking
+ */
+
+import type { GameStatus as SessionStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { EliminationResult } from '../game/elimination-logic'
+import { buildStatusUpdate, type GameTransitionEffect } from '../game/game-state'
+import type { EliminationReason } from '../game/elimination-rules'
+import type { LifeLoss } from '../game/lives'
+import { buildFinalRanking, type RankingCandidate, type RankingEntry } from '../game/ranking'
+import type { ScoreAward } from '../game/scoring'
+import type { TeamStanding } from '../game/teams'
+import { getContenderIds, type GameRoom } from './game-rooms'
+import { recordGameEvent } from './game-events'
+import { deleteRoomSnapshot, saveRoomSnapshot } from './room-snapshot'
+
+export type ResponseTimeSummary = {
+  average: number | null
+  fastest: number | null
+  slowest: number | null
+}
+
+type AnswerRecord = {
+  playerId: string
+  participantId: string
+  selectedAnswer: string | null
+  isCorrect: boolean
+  isTimeout: boolean
+  responseTime: number | null
+  answeredAt: Date | null
+  clientResponseTime: number | null
+  latencyCompensationMs: number | null
+  wasEliminated: boolean
+  lifeLost: boolean
+  livesRemaining: number | null
+  eliminationReason: EliminationReason | null
+}
+
+/**
+ * Summarize a list of response times (in seconds)
+ */
+export const summarizeResponseTimes = (times: number[]): ResponseTimeSummary => {
+  if (times.length === 0) {
+    return { average: null, fastest: null, slowest: null }
+  }
+
+  return {
+    average: times.reduce((sum, time) => sum + time, 0) / times.length,
+    fastest: Math.min(...times),
+    slowest: Math.max(...times)
+  }
+}
+
+/**
+ * Build one answer record per player who was still in the game when the
+ * question closed. Players who never answered are recorded as timeouts.
+ */
+export const buildAnswerRecords = (
+  contenders: string[],
+  participantIds: Map<string, string>,
+  eliminationResult: EliminationResult,
+  lifeLosses: LifeLoss[] = []
+): AnswerRecord[] => {
+  const answersByPlayer = new Map(
+    eliminationResult.allAnswers.map(answer => [answer.playerId, answer])
+  )
+  const eliminationReasons = new Map(
+    eliminationResult.eliminations.map(elimination => [elimination.playerId, elimination.reason])
+  )
+  const lifeLossesByPlayer = new Map(lifeLosses.map(loss => [loss.playerId, loss]))
+
+  return contenders.flatMap(playerId => {
+    const participantId = participantIds.get(playerId)
+    if (!participantId) return []
+
+    const answer = answersByPlayer.get(playerId)
+    const isTimeout = !answer || answer.selectedAnswer === ''
+    const eliminationReason = eliminationReasons.get(playerId) ?? null
+    const lifeLoss = lifeLossesByPlayer.get(playerId)
+
+    return [{
+      playerId,
+      participantId,
+      selectedAnswer: isTimeout ? null : answer.selectedAnswer,
+      isCorrect: !isTimeout && (answer.isCorrect ?? false),
+      isTimeout,
+      responseTime: isTimeout ? null : answer.responseTime,
+      answeredAt: answer?.serverTimestamp ?? null,
+      clientResponseTime: answer?.clientResponseTime ?? null,
+      latencyCompensationMs: answer?.latencyCompensationMs ?? null,
+      wasEliminated: eliminationReason !== null,
+      lifeLost: !!lifeLoss && lifeLoss.livesRemaining > 0,
+      livesRemaining: lifeLoss?.livesRemaining ?? null,
+      // Reason for the elimination, or for the life lost in survival mode
+      eliminationReason: eliminationReason ?? lifeLoss?.reason ?? null
+    }]
+  })
+}
+
+/**
+ * Find the GameQuestion row for a question in this game, creating one at the
+ * end of the order if the question was not part of the prepared set
+ */
+export const resolveGameQuestion = async (gameId: string, questionId: string) => {
+  const existing = await prisma.gameQuestion.findFirst({
+    where: { gameId, questionId },
+    orderBy: { questionOrder: 'desc' },
+    select: { id: true }
+  })
+
+  if (existing) return existing
+
+  const last = await prisma.gameQuestion.findFirst({
+    where: { gameId },
+    orderBy: { questionOrder: 'desc' },
+    select: { questionOrder: true }
+  })
+
+  return prisma.gameQuestion.create({
+    data: {
+      gameId,
+      questionId,
+      questionOrder: (last?.questionOrder ?? 0) + 1
+    },
+    select: { id: true }
+  })
+}
+
+/**
+ * Persist answers, question statistics and eliminations for a finished question.
+ * Must be called before the eliminated player is added to the room's eliminated set.
+ */
+export const persistQuestionResults = async (
+  gameRoom: GameRoom,
+  questionId: string,
+  eliminationResult: EliminationResult,
+  lifeLosses: LifeLoss[] = [],
+  scoreAwards: ScoreAward[] = []
+): Promise<void> => {
+  const gameId = gameRoom.gameSessionId
+  if (!gameId) return
+
+  const contenders = getContenderIds(gameRoom)
+
+  const participants = await prisma.gameParticipant.findMany({
+    where: { gameId, playerId: { in: contenders } },
+    select: { id: true, playerId: true }
+  })
+  const participantIds = new Map(participants.map(p => [p.playerId, p.id]))
+
+  const records = buildAnswerRecords(contenders, participantIds, eliminationResult, lifeLosses)
+  const gameQuestion = await resolveGameQuestion(gameId, questionId)
+  const round = gameRoom.currentQuestion
+  const now = new Date()
+
+  // Nobody to record: only close the question
+  if (records.length === 0) {
+    await prisma.gameQuestion.update({
+      where: { id: gameQuestion.id },
+      data: { endedAt: now }
+    })
+    return
+  }
+
+  const times = records
+    .map(record => record.responseTime)
+    .filter((time): time is number => time !== null)
+  const questionTimes = summarizeResponseTimes(times)
+  const pointsByPlayer = new Map(scoreAwards.map(award => [award.playerId, award.points]))
+
+  await prisma.$transaction(async (tx) => {
+    for (const record of records) {
+      const data = {
+        selectedAnswer: record.selectedAnswer,
+        isCorrect: record.isCorrect,
+        isTimeout: record.isTimeout,
+        responseTime: record.responseTime,
+        answeredAt: record.answeredAt,
+        clientResponseTime: record.clientResponseTime,
+        latencyCompensationMs: record.latencyCompensationMs,
+        pointsAwarded: pointsByPlayer.get(record.playerId) ?? 0,
+        wasEliminated: record.wasEliminated,
+        lifeLost: record.lifeLost,
+        eliminationReason: record.eliminationReason
+      }
+
+      await tx.playerAnswer.upsert({
+        where: {
+          participantId_gameQuestionId: {
+            participantId: record.participantId,
+            gameQuestionId: gameQuestion.id
+          }
+        },
+        create: {
+          gameId,
+          participantId: record.participantId,
+          questionId,
+          gameQuestionId: gameQuestion.id,
+          ...data
+        },
+        update: data
+      })
+    }
+
+    await tx.gameQuestion.update({
+      where: { id: gameQuestion.id },
+      data: {
+        endedAt: now,
+        totalAnswers: records.length,
+        correctAnswers: records.filter(r => r.isCorrect).length,
+        incorrectAnswers: records.filter(r => !r.isCorrect && !r.isTimeout).length,
+        timeoutAnswers: records.filter(r => r.isTimeout).length,
+        averageResponseTime: questionTimes.average,
+        fastestResponseTime: questionTimes.fastest,
+        slowestResponseTime: questionTimes.slowest,
+        ...(gameRoom.phase === 'sudden_death' && {
+          tiebreakRound: gameRoom.tiebreakRound,
+          tiebreakPlayerIds: gameRoom.tiebreakPlayers.join(',')
+        })
+      }
+    })
+
+    // Recompute timing statistics from every answer the participant has given in this game
+    const timingStats = await tx.playerAnswer.groupBy({
+      by: ['participantId'],
+      where: {
+        gameId,
+        participantId: { in: records.map(r => r.participantId) },
+        responseTime: { not: null }
+      },
+      _avg: { responseTime: true },
+      _min: { responseTime: true },
+      _max: { responseTime: true }
+    })
+    const timingByParticipant = new Map(timingStats.map(stat => [stat.participantId, stat]))
+
+    for (const record of records) {
+      const timing = timingByParticipant.get(record.participantId)
+      const points = pointsByPlayer.get(record.playerId) ?? 0
+
+      await tx.gameParticipant.update({
+        where: { id: record.participantId },
+        data: {
+          ...(record.isCorrect
+            ? { correctAnswers: { increment: 1 } }
+            : { incorrectAnswers: { increment: 1 } }),
+          ...(timing && {
+            averageResponseTime: timing._avg.responseTime,
+            fastestResponse: timing._min.responseTime,
+            slowestResponse: timing._max.responseTime
+          }),
+          ...(points > 0 && { score: { increment: points } }),
+          ...(record.livesRemaining !== null && { livesRemaining: record.livesRemaining }),
+          ...(record.wasEliminated && {
+            status: 'ELIMINATED' as const,
+            eliminatedAt: now,
+            eliminatedRound: round
+          })
+        }
+      })
+
+      if (points > 0) {
+        await tx.user.update({
+          where: { id: record.playerId },
+          data: { totalScore: { increment: points } }
+        })
+      }
+    }
+  })
+}
+
+/**
+ * Write a socket-driven status change back to the room's GameSession,
+ * append it to the game's event log and refresh the room snapshot.
+ * Timestamps are written for the transition effects that call for them.
+ */
+export const persistRoomStatus = async (
+  gameRoom: GameRoom,
+  status: SessionStatus,
+  effects: GameTransitionEffect[] = []
+): Promise<void> => {
+  if (!gameRoom.gameSessionId) return
+
+  recordGameEvent(gameRoom, { type: 'status-changed', status: gameRoom.status })
+
+  await prisma.gameSession.update({
+    where: { id: gameRoom.gameSessionId },
+    data: buildStatusUpdate(status, effects)
+  })
+
+  // Ended games have nothing left to recover
+  if (status === 'FINISHED' || status === 'CANCELLED') {
+    await deleteRoomSnapshot(gameRoom.gameSessionId)
+  } else {
+    await saveRoomSnapshot(gameRoom)
+  }
+}
+
+/**
+ * Write a player's connection state to their GameParticipant record.
+ * Players eliminated for not reconnecting lose their remaining lives.
+ */
+export const persistParticipantStatus = async (
+  gameRoom: GameRoom,
+  playerId: string,
+  status: 'ACTIVE' | 'DISCONNECTED' | 'ELIMINATED'
+): Promise<void> => {
+  if (!gameRoom.gameSessionId) return
+
+  await prisma.gameParticipant.updateMany({
+    where: { gameId: gameRoom.gameSessionId, playerId },
+    data: {
+      status,
+      ...(status === 'ELIMINATED' && {
+        livesRemaining: 0,
+        eliminatedAt: new Date(),
+        eliminatedRound: gameRoom.currentQuestion
+      })
+    }
+  })
+}
+
+/**
+ * Record the team a player plays for on their GameParticipant record
+ */
+export const persistTeamAssignment = async (
+  gameRoom: GameRoom,
+  playerId: string,
+  teamId: string
+): Promise<void> => {
+  if (!gameRoom.gameSessionId) return
+
+  await prisma.gameParticipant.updateMany({
+    where: { gameId: gameRoom.gameSessionId, playerId },
+    data: { teamId }
+  })
+}
+
+/**
+ * Write the final team standings of a finished team battle to its GameTeam records
+ */
+export const persistTeamResults = async (
+  gameRoom: GameRoom,
+  standings: TeamStanding[]
+): Promise<void> => {
+  if (!gameRoom.gameSessionId || standings.length === 0) return
+
+  await prisma.$transaction(async (tx) => {
+    for (const standing of standings) {
+      await tx.gameTeam.update({
+        where: { id: standing.id },
+        data: {
+          score: standing.score,
+          finalRank: standing.rank,
+          eliminatedRound: standing.eliminatedRound
+        }
+      })
+    }
+  })
+}
+
+/**
+ * Build ranking candidates from the room alone, for rooms without a game session.
+ * Only the elimination order and scores are known, so names fall back to player IDs.
+ */
+const getRoomRankingCandidates = (gameRoom: GameRoom): RankingCandidate[] => {
+  const eliminationOrder = Array.from(gameRoom.eliminatedPlayers)
+
+  return Array.from(gameRoom.players).map(playerId => {
+    const eliminatedIndex = eliminationOrder.indexOf(playerId)
+
+    return {
+      playerId,
+      playerName: playerId,
+      eliminatedRound: eliminatedIndex === -1 ? null : eliminatedIndex + 1,
+      correctAnswers: 0,
+      questionsAnswered: 0,
+      averageResponseTime: null,
+      score: gameRoom.playerScores.get(playerId)?.total ?? 0
+    }
+  })
+}
+
+// Registered players who never took part (no-shows) answered nothing and were never eliminated
+const hasPlayedGame = (candidate: RankingCandidate, winnerId: string | null): boolean =>
+  candidate.playerId === winnerId || candidate.eliminatedRound !== null || candidate.questionsAnswered > 0
+
+/**
+ * Rank every participant who played a finished game and write the result back
+ * to the GameSession winner fields and to each GameParticipant. Participants
+ * who never played are left unranked and the game does not count for them.
+ * A game is written once: a game already ranked keeps its ranks and player totals.
+ */
+export const persistFinalRanking = async (
+  gameRoom: GameRoom,
+  winnerId: string | null
+): Promise<RankingEntry[]> => {
+  const gameId = gameRoom.gameSessionId
+  if (!gameId) {
+    return buildFinalRanking(getRoomRankingCandidates(gameRoom), winnerId)
+  }
+
+  const participants = await prisma.gameParticipant.findMany({
+    where: { gameId },
+    select: {
+      id: true,
+      playerId: true,
+      eliminatedRound: true,
+      correctAnswers: true,
+      incorrectAnswers: true,
+      averageResponseTime: true,
+      score: true,
+      player: { select: { name: true } }
+    }
+  })
+
+  const candidates: RankingCandidate[] = participants.map(participant => ({
+    playerId: participant.playerId,
+    playerName: participant.player.name ?? participant.playerId,
+    eliminatedRound: participant.eliminatedRound,
+    correctAnswers: participant.correctAnswers,
+    questionsAnswered: participant.correctAnswers + participant.incorrectAnswers,
+    averageResponseTime: participant.averageResponseTime,
+    score: participant.score
+  }))
+  const ranking = buildFinalRanking(
+    candidates.filter(candidate => hasPlayedGame(candidate, winnerId)),
+    winnerId
+  )
+
+  const participantIds = new Map(participants.map(p => [p.playerId, p.id]))
+  const winner = ranking.find(entry => entry.playerId === winnerId)
+
+  await prisma.$transaction(async (tx) => {
+    const rankedCount = await tx.gameParticipant.count({ where: { gameId, finalRank: { not: null } } })
+    if (rankedCount > 0) return
+
+    for (const entry of ranking) {
+      const isWinner = entry.playerId === winnerId
+
+      await tx.gameParticipant.update({
+        where: { id: participantIds.get(entry.playerId)! },
+        data: {
+          finalRank: entry.rank,
+          ...(isWinner && { status: 'WINNER' as const })
+        }
+      })
+
+      await tx.user.update({
+        where: { id: entry.playerId },
+        data: {
+          gamesPlayed: { increment: 1 },
+          ...(isWinner && { gamesWon: { increment: 1 } })
+        }
+      })
+    }
+
+    await tx.gameSession.update({
+      where: { id: gameId },
+      data: {
+        winnerId: winner?.playerId ?? null,
+        winnerScore: winner?.score ?? null
+      }
+    })
+  })
+
+  return ranking
+}
@@ -4,32 +4,104 @@
  * Centralized management for Socket.io game rooms and player sessions
  */
 
-import type { Server } from 'socket.io'
+import type { QuizServer } from './events'
+import type { EliminationRule } from '../game/elimination-rules'
+import type { RoomStatus } from '../game/game-state'
+import { DEFAULT_FINAL_QUESTION_THRESHOLD, type GamePhase } from '../game/final-showdown'
+import { DEFAULT_TIE_TOLERANCE_MS } from '../game/tiebreak'
+import {
+  DEFAULT_SCORE_TABLE,
+  type PlayerScore,
+  type QuestionDifficulty,
+  type ScoreTable
+} from '../game/scoring'
+import type { QuestionFormat } from '../game/question-formats'
+import type { Team, TeamScoring } from '../game/teams'
+import type { NextQuestionData } from './types'
+
+export const DEFAULT_RECONNECT_GRACE_MS = 30000
+
+// Seconds players get to answer a question when the game does not set its own limit
+export const DEFAULT_QUESTION_TIME_LIMIT = 10
 
 // Game room management types
-export type GameRoomStatus = 'waiting' | 'starting' | 'in_progress' | 'finished'
+// Room statuses are a projection of the GameSession status (see ../game/game-state)
+export type GameRoomStatus = RoomStatus
 
 export type GameRoom = {
   code: string
+  // GameSession record backing this room (null for rooms not yet bound to the database)
+  gameSessionId: string | null
   adminId: string
   players: Set<string>
+  // Display name of each player by player ID, as given on join
+  playerNames: Map<string, string>
   status: GameRoomStatus
   currentQuestion: number
   maxPlayers: number
   // New fields for elimination system
   activeAnswers: Map<string, import('../game/elimination-logic').PlayerAnswer>
+  // When the current question was delivered to each player (ms since epoch)
+  questionDeliveries: Map<string, number>
   questionTimer: NodeJS.Timeout | null
   timerInterval: NodeJS.Timeout | null
+  // When the running question expires, and the time left on a paused question (ms)
+  questionEndsAt: number | null
+  pausedRemainingMs: number | null
+  // When the running question was paused (ms since epoch)
+  questionPausedAt: number | null
+  // Set when the room was recovered after a restart and waits for the host to resume
+  resumePending: boolean
+  // Disconnected players keep their seat this long; grace timers by player ID
+  reconnectGraceMs: number
+  disconnectedPlayers: Map<string, NodeJS.Timeout>
+  // Tokens issued on join that let a new socket reclaim a player's seat, by player ID
+  resumeTokens: Map<string, string>
   eliminatedPlayers: Set<string>
   currentQuestionId: string | null
+  // Questions whose results were already applied, so each is scored and judged once
+  processedQuestionIds: Set<string>
   totalQuestions: number
+  // Seconds players get to answer each question
+  questionTimeLimit: number
+  // Elimination rule set chosen for this game
+  eliminationRule: EliminationRule
+  eliminationCount: number
+  // Lives per player (1 = classic elimination) and remaining lives by player ID
+  startingLives: number
+  playerLives: Map<string, number>
+  // Final showdown starts once survivors drop to the threshold
+  phase: GamePhase
+  finalQuestionThreshold: number
+  // Sudden-death tiebreak: players still tied and the current round (0 before any tiebreak)
+  tieToleranceMs: number
+  tiebreakPlayers: string[]
+  tiebreakRound: number
+  // Point table for this game and running score and streak by player ID
+  scoreTable: ScoreTable
+  playerScores: Map<string, PlayerScore>
+  // Latecomers watching the game; with eliminated players they send shadow answers,
+  // scored separately by player ID
+  spectators: Set<string>
+  shadowAnswers: Map<string, import('../game/elimination-logic').PlayerAnswer>
+  shadowScores: Map<string, PlayerScore>
+  // Team battle (teamScoring null = individual game): team ID by player ID,
+  // and the round each team went out in by team ID
+  teamScoring: TeamScoring | null
+  teams: Team[]
+  playerTeams: Map<string, string>
+  teamEliminations: Map<string, number>
   // Current question details for elimination processing
   currentQuestionData: {
     id: string
     correctAnswer: string
+    format?: QuestionFormat
     explanation?: string
+    difficulty?: QuestionDifficulty
     isFinalQuestion: boolean
   } | null
+  // The question as last sent to players, replayed to reconnecting sockets
+  deliveredQuestion: NextQuestionData | null
 }
 
 export type PlayerSession = {
@@ -39,27 +111,100 @@ export type PlayerSession = {
   isActive: boolean
 }
 
+export type CreateGameRoomOptions = {
+  gameSessionId?: string | null
+  maxPlayers?: number
+  totalQuestions?: number
+  questionTimeLimit?: number
+  eliminationRule?: EliminationRule
+  eliminationCount?: number
+  startingLives?: number
+  finalQuestionThreshold?: number
+  tieToleranceMs?: number
+  reconnectGraceMs?: number
+  scoreTable?: ScoreTable
+  teamScoring?: TeamScoring | null
+  teams?: Team[]
+  phase?: GamePhase
+  status?: GameRoomStatus
+  currentQuestion?: number
+}
+
 // Global state management
-export const gameRooms = new Map<string, GameRoom>()
-export const playerSessions = new Map<string, PlayerSession>()
+// Stored on globalThis so the socket server and tRPC routes share one registry
+const globalForSocket = globalThis as unknown as {
+  gameRooms: Map<string, GameRoom> | undefined
+  playerSessions: Map<string, PlayerSession> | undefined
+  socketServer: QuizServer | undefined
+}
+
+export const gameRooms = globalForSocket.gameRooms ?? new Map<string, GameRoom>()
+export const playerSessions = globalForSocket.playerSessions ?? new Map<string, PlayerSession>()
+
+globalForSocket.gameRooms = gameRooms
+globalForSocket.playerSessions = playerSessions
+
+// Socket.io server registry
+export const setSocketServer = (io: QuizServer): void => {
+  globalForSocket.socketServer = io
+}
+
+export const getSocketServer = (): QuizServer | undefined => {
+  return globalForSocket.socketServer
+}
 
 // Game room management functions
-export const createGameRoom = (code: string, adminId: string, maxPlayers: number = 20): { success: boolean; gameCode: string } => {
+export const createGameRoom = (
+  code: string,
+  adminId: string,
+  options: CreateGameRoomOptions = {}
+): { success: boolean; gameCode: string } => {
   gameRooms.set(code, {
     code,
+    gameSessionId: options.gameSessionId ?? null,
     adminId,
     players: new Set(),
-    status: 'waiting',
-    currentQuestion: 0,
-    maxPlayers,
+    playerNames: new Map(),
+    status: options.status ?? 'waiting',
+    currentQuestion: options.currentQuestion ?? 0,
+    maxPlayers: options.maxPlayers ?? 20,
     // Initialize new elimination system fields
     activeAnswers: new Map(),
+    questionDeliveries: new Map(),
     questionTimer: null,
     timerInterval: null,
+    questionEndsAt: null,
+    pausedRemainingMs: null,
+    questionPausedAt: null,
+    resumePending: false,
+    reconnectGraceMs: options.reconnectGraceMs ?? DEFAULT_RECONNECT_GRACE_MS,
+    disconnectedPlayers: new Map(),
+    resumeTokens: new Map(),
     eliminatedPlayers: new Set(),
     currentQuestionId: null,
-    totalQuestions: 10,
-    currentQuestionData: null
+    processedQuestionIds: new Set(),
+    totalQuestions: options.totalQuestions ?? 10,
+    questionTimeLimit: options.questionTimeLimit ?? DEFAULT_QUESTION_TIME_LIMIT,
+    eliminationRule: options.eliminationRule ?? 'SLOWEST_CORRECT',
+    eliminationCount: options.eliminationCount ?? 1,
+    startingLives: options.startingLives ?? 1,
+    playerLives: new Map(),
+    phase: options.phase ?? 'normal',
+    finalQuestionThreshold: options.finalQuestionThreshold ?? DEFAULT_FINAL_QUESTION_THRESHOLD,
+    tieToleranceMs: options.tieToleranceMs ?? DEFAULT_TIE_TOLERANCE_MS,
+    tiebreakPlayers: [],
+    tiebreakRound: 0,
+    scoreTable: options.scoreTable ?? DEFAULT_SCORE_TABLE,
+    playerScores: new Map(),
+    spectators: new Set(),
+    shadowAnswers: new Map(),
+    shadowScores: new Map(),
+    teamScoring: options.teamScoring ?? null,
+    teams: options.teams ?? [],
+    playerTeams: new Map(),
+    teamEliminations: new Map(),
+    currentQuestionData: null,
+    deliveredQuestion: null
   })
   
   return { success: true, gameCode: code }
@@ -69,7 +214,7 @@ export const getGameRoom = (code: string): GameRoom | undefined => {
   return gameRooms.get(code)
 }
 
-export const deleteGameRoom = (code: string, io?: Server): { success: boolean; error?: string } => {
+export const deleteGameRoom = (code: string, io?: QuizServer): { success: boolean; error?: string } => {
   const gameRoom = gameRooms.get(code)
   if (gameRoom) {
     // Notify all players that the game room is being deleted
@@ -87,6 +232,37 @@ export const deleteGameRoom = (code: string, io?: Server): { success: boolean; e
   return { success: false, error: 'Game room not found' }
 }
 
+// Players who may answer the current question: the tied players during sudden death,
+// otherwise everyone not eliminated
+export const getContenderIds = (gameRoom: GameRoom): string[] => {
+  const remaining = Array.from(gameRoom.players).filter(
+    playerId => !gameRoom.eliminatedPlayers.has(playerId)
+  )
+
+  if (gameRoom.phase === 'sudden_death') {
+    return remaining.filter(playerId => gameRoom.tiebreakPlayers.includes(playerId))
+  }
+
+  return remaining
+}
+
+// The winner of a game ended before its last question: its sole remaining contender, if any
+export const getSoleContenderId = (gameRoom: GameRoom): string | null => {
+  const contenders = getContenderIds(gameRoom)
+  return contenders.length === 1 ? contenders[0]! : null
+}
+
+// The winner on the current standings: the contender with the highest score, unless the lead is shared
+export const getLeadingContenderId = (gameRoom: GameRoom): string | null => {
+  const standings = getContenderIds(gameRoom)
+    .map(playerId => ({ playerId, total: gameRoom.playerScores.get(playerId)?.total ?? 0 }))
+    .sort((a, b) => b.total - a.total)
+
+  const [leader, runnerUp] = standings
+  if (!leader || (runnerUp && runnerUp.total === leader.total)) return null
+  return leader.playerId
+}
+
 export const getAllActiveRooms = (): GameRoom[] => {
   return Array.from(gameRooms.values())
 }
@@ -0,0 +1,60 @@
+/**
+ * Game Statistics Recorder
+ *
+ * Fills the GameStatistics row for a game from its PlayerAnswer and
+ * GameQuestion records. Runs when a game finishes, over sockets or tRPC,
+ * and can be re-run at any time to recalculate historical games.
+ */
+
+import type { GameStatistics } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { summarizeGameStatistics } from '../game/statistics'
+
+/**
+ * Calculate and store the statistics for a game.
+ * Returns null when the game does not exist.
+ */
+export const recordGameStatistics = async (gameId: string): Promise<GameStatistics | null> => {
+  const game = await prisma.gameSession.findUnique({
+    where: { id: gameId },
+    select: {
+      startedAt: true,
+      endedAt: true,
+      _count: { select: { participants: true } }
+    }
+  })
+
+  if (!game) return null
+
+  const [askedQuestions, answers] = await Promise.all([
+    // Questions whose results were recorded; prepared but unasked questions are skipped
+    prisma.gameQuestion.findMany({
+      where: { gameId, endedAt: { not: null } },
+      select: { question: { select: { difficulty: true } } }
+    }),
+    prisma.playerAnswer.findMany({
+      where: { gameId },
+      select: {
+        isCorrect: true,
+        isTimeout: true,
+        responseTime: true,
+        wasEliminated: true,
+        eliminationReason: true
+      }
+    })
+  ])
+
+  const summary = summarizeGameStatistics({
+    totalPlayers: game._count.participants,
+    startedAt: game.startedAt,
+    endedAt: game.endedAt ?? new Date(),
+    askedQuestions: askedQuestions.map(asked => asked.question.difficulty),
+    answers
+  })
+
+  return prisma.gameStatistics.upsert({
+    where: { gameId },
+    create: { gameId, ...summary },
+    update: { ...summary, calculatedAt: new Date() }
+  })
+}
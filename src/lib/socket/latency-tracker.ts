@@ -0,0 +1,99 @@
+/**
+ * Latency Tracker for Socket.io
+ *
+ * Measures each socket's round-trip time with ping acknowledgements and
+ * turns question delivery and answer arrival times into compensated answer timing
+ */
+
+import {
+  addLatencySample,
+  computeAnswerTiming,
+  estimateRoundTripLatency,
+  type AnswerTiming
+} from '../game/latency'
+import type { QuizServerSocket } from './events'
+import type { GameRoom } from './game-rooms'
+
+const LATENCY_PING_INTERVAL_MS = 5000
+const LATENCY_PING_TIMEOUT_MS = 2000
+
+// Round-trip samples by socket ID
+const latencySamples = new Map<string, number[]>()
+
+/**
+ * Record a round-trip sample for a socket
+ */
+export const recordLatencySample = (socketId: string, roundTripMs: number): void => {
+  latencySamples.set(socketId, addLatencySample(latencySamples.get(socketId) ?? [], roundTripMs))
+}
+
+/**
+ * Get the estimated round-trip latency of a socket in milliseconds
+ */
+export const getSocketLatency = (socketId: string): number => {
+  return estimateRoundTripLatency(latencySamples.get(socketId) ?? [])
+}
+
+/**
+ * Ping a socket periodically and record the round trips.
+ * Returns a function that stops pinging and forgets the socket's samples.
+ */
+export const startLatencyPings = (socket: QuizServerSocket): (() => void) => {
+  const ping = () => {
+    const sentAt = Date.now()
+    socket.timeout(LATENCY_PING_TIMEOUT_MS).emit('latency-ping', (error: Error | null) => {
+      if (!error) {
+        recordLatencySample(socket.id, Date.now() - sentAt)
+      }
+    })
+  }
+
+  ping()
+  const interval = setInterval(ping, LATENCY_PING_INTERVAL_MS)
+
+  return () => {
+    clearInterval(interval)
+    latencySamples.delete(socket.id)
+  }
+}
+
+/**
+ * Stamp when the current question was delivered to a player
+ */
+export const recordQuestionDelivery = (
+  gameRoom: GameRoom,
+  playerId: string,
+  deliveredAtMs = Date.now()
+): void => {
+  gameRoom.questionDeliveries.set(playerId, deliveredAtMs)
+}
+
+/**
+ * When the running question opened by the server's timer, shifted by any pause.
+ * Null while no question is running.
+ */
+const getQuestionOpenedAt = (gameRoom: GameRoom): number | null => {
+  if (gameRoom.questionEndsAt === null || !gameRoom.deliveredQuestion) return null
+  return gameRoom.questionEndsAt - gameRoom.deliveredQuestion.timeLimit * 1000
+}
+
+/**
+ * Compute the compensated timing of a player's answer arriving now.
+ * Players without a delivery stamp are timed from the earliest delivery of the question,
+ * or from when the server's timer opened it. Returns null when the question was never
+ * delivered and no question timer is running.
+ */
+export const resolveAnswerTiming = (
+  gameRoom: GameRoom,
+  playerId: string,
+  socketId: string,
+  receivedAtMs = Date.now()
+): AnswerTiming | null => {
+  const deliveries = Array.from(gameRoom.questionDeliveries.values())
+  const deliveredAtMs = gameRoom.questionDeliveries.get(playerId) ??
+    (deliveries.length > 0 ? Math.min(...deliveries) : getQuestionOpenedAt(gameRoom))
+
+  if (deliveredAtMs === null) return null
+
+  return computeAnswerTiming(deliveredAtMs, receivedAtMs, getSocketLatency(socketId))
+}
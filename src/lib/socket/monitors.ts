@@ -0,0 +1,81 @@
+/**
+ * Monitors
+ *
+ * The big screen follows a game read-only. A monitor socket joins the game's
+ * room, so it receives every phase event the players do, plus a monitor room
+ * for what players must not see while a question is open: each answer as it
+ * comes in. On join it is sent the full room state. Only the game's
+ * administrators may open a monitor.
+ */
+
+import type { PlayerAnswer } from '../game/elimination-logic'
+import type { QuizServer } from './events'
+import type { GameRoom } from './game-rooms'
+import { getSpectatorCount } from './spectators'
+import { getTeamStandings } from './team-battle'
+import type { MonitorAnswerData, MonitorPlayer, MonitorStateData } from './types'
+
+/**
+ * Socket.io room of a game's monitors
+ */
+export const getMonitorRoom = (gameCode: string): string => `monitor:${gameCode}`
+
+const getMonitorPlayerStatus = (gameRoom: GameRoom, playerId: string): MonitorPlayer['status'] => {
+  if (gameRoom.eliminatedPlayers.has(playerId)) return 'eliminated'
+  if (gameRoom.disconnectedPlayers.has(playerId)) return 'disconnected'
+  return 'active'
+}
+
+const toMonitorAnswer = (answer: PlayerAnswer): MonitorAnswerData => ({
+  playerId: answer.playerId,
+  questionId: answer.questionId,
+  selectedAnswer: answer.selectedAnswer,
+  responseTime: answer.responseTime
+})
+
+/**
+ * Capture everything the big screen shows, e.g. for a monitor joining mid-game
+ */
+export const buildMonitorState = (gameRoom: GameRoom, nowMs = Date.now()): MonitorStateData => {
+  const remainingMs = gameRoom.pausedRemainingMs ??
+    (gameRoom.questionEndsAt === null ? null : Math.max(gameRoom.questionEndsAt - nowMs, 0))
+  const question = remainingMs === null ? null : gameRoom.deliveredQuestion
+  // Players eliminated and gone from the room still belong on the screen
+  const playerIds = [...new Set([...gameRoom.players, ...gameRoom.eliminatedPlayers])]
+
+  return {
+    gameCode: gameRoom.code,
+    status: gameRoom.status,
+    phase: gameRoom.phase,
+    players: playerIds.map(playerId => ({
+      playerId,
+      playerName: gameRoom.playerNames.get(playerId) ?? playerId,
+      status: getMonitorPlayerStatus(gameRoom, playerId),
+      lives: gameRoom.playerLives.get(playerId) ?? 0,
+      score: gameRoom.playerScores.get(playerId)?.total ?? 0,
+      teamId: gameRoom.playerTeams.get(playerId) ?? null
+    })),
+    eliminatedPlayers: Array.from(gameRoom.eliminatedPlayers),
+    spectatorCount: getSpectatorCount(gameRoom),
+    startingLives: gameRoom.startingLives,
+    currentQuestion: gameRoom.currentQuestion,
+    totalQuestions: gameRoom.totalQuestions,
+    question,
+    remainingTime: question && remainingMs !== null ? Math.ceil(remainingMs / 1000) : null,
+    answers: question ? Array.from(gameRoom.activeAnswers.values(), toMonitorAnswer) : [],
+    tiebreakPlayers: gameRoom.tiebreakPlayers,
+    tiebreakRound: gameRoom.tiebreakRound,
+    teams: gameRoom.teams,
+    teamStandings: getTeamStandings(gameRoom)
+  }
+}
+
+/**
+ * Show a player's accepted answer on the game's monitors
+ */
+export const emitMonitorAnswer = (io: QuizServer, gameRoom: GameRoom, playerId: string): void => {
+  const answer = gameRoom.activeAnswers.get(playerId)
+  if (!answer) return
+
+  io.to(getMonitorRoom(gameRoom.code)).emit('monitor-answer', toMonitorAnswer(answer))
+}
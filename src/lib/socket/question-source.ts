@@ -0,0 +1,153 @@
+/**
+ * Question Source for Socket.io Game Rooms
+ *
+ * Loads questions for a live room from the database. The answer key never
+ * comes from the admin client: prepared questions are read from the game's
+ * GameQuestion rows and final questions from the question bank.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { QuestionFormat } from '../game/question-formats'
+import type { QuestionDifficulty } from '../game/scoring'
+import type { GameRoom } from './game-rooms'
+import { resolveGameQuestion } from './game-persistence'
+import type { Question } from './types'
+
+const QUESTION_SELECT = {
+  id: true,
+  text: true,
+  format: true,
+  optionA: true,
+  optionB: true,
+  optionC: true,
+  optionD: true,
+  unit: true,
+  correctAnswer: true,
+  explanation: true,
+  difficulty: true
+} as const
+
+type QuestionRecord = {
+  id: string
+  text: string
+  format: QuestionFormat
+  optionA: string | null
+  optionB: string | null
+  optionC: string | null
+  optionD: string | null
+  unit: string | null
+  correctAnswer: string
+  explanation: string | null
+  difficulty: QuestionDifficulty
+}
+
+type FinalQuestionOptions = {
+  // Also draw HARD questions (used for sudden-death tiebreaks)
+  includeHard?: boolean
+}
+
+const toQuestion = ({ explanation, ...question }: QuestionRecord): Question => ({
+  ...question,
+  ...(explanation && { explanation })
+})
+
+/**
+ * Pick a random active FINAL question that has not been asked in this game yet.
+ * Once the FINAL pool is used up, any question not asked yet keeps the showdown going.
+ * Returns null when the room is not bound to a game session or no question is left.
+ */
+export const loadFinalQuestion = async (
+  gameRoom: GameRoom,
+  options: FinalQuestionOptions = {}
+): Promise<Question | null> => {
+  const gameId = gameRoom.gameSessionId
+  if (!gameId) return null
+
+  const askedQuestions = await prisma.gameQuestion.findMany({
+    where: { gameId },
+    select: { questionId: true }
+  })
+
+  const unasked = { isActive: true, id: { notIn: askedQuestions.map(asked => asked.questionId) } }
+
+  const finalCandidates = await prisma.question.findMany({
+    where: {
+      ...(options.includeHard
+        ? { OR: [{ type: 'FINAL' as const }, { difficulty: 'HARD' as const }] }
+        : { type: 'FINAL' as const }),
+      ...unasked
+    },
+    select: QUESTION_SELECT
+  })
+  const candidates = finalCandidates.length > 0
+    ? finalCandidates
+    : await prisma.question.findMany({ where: unasked, select: QUESTION_SELECT })
+
+  const picked = candidates[Math.floor(Math.random() * candidates.length)]
+  return picked ? toQuestion(picked) : null
+}
+
+/**
+ * Load the prepared question at the room's current position in the question order.
+ * Returns null when the room is not bound to a game session or the question set is exhausted.
+ */
+export const loadNextQuestion = async (gameRoom: GameRoom): Promise<Question | null> => {
+  const gameId = gameRoom.gameSessionId
+  if (!gameId) return null
+
+  const gameQuestion = await prisma.gameQuestion.findFirst({
+    where: { gameId, questionOrder: gameRoom.currentQuestion },
+    select: { question: { select: QUESTION_SELECT } }
+  })
+
+  return gameQuestion ? toQuestion(gameQuestion.question) : null
+}
+
+/**
+ * Load a single question by ID, e.g. to send an open question again after a restart
+ */
+export const loadQuestionById = async (questionId: string): Promise<Question | null> => {
+  const question = await prisma.question.findUnique({
+    where: { id: questionId },
+    select: QUESTION_SELECT
+  })
+
+  return question ? toQuestion(question) : null
+}
+
+/**
+ * Load the question for the room's current position. The final showdown draws FINAL
+ * questions from the question bank, sudden death also falls back to HARD questions.
+ */
+export const loadRoomQuestion = async (gameRoom: GameRoom): Promise<Question | null> => {
+  if (gameRoom.phase === 'normal') return loadNextQuestion(gameRoom)
+
+  return loadFinalQuestion(gameRoom, { includeHard: gameRoom.phase === 'sudden_death' })
+}
+
+/**
+ * Record that a question was sent to the players: stamp GameQuestion.startedAt,
+ * advance the session's question index and count the question's usage
+ */
+export const markQuestionDelivered = async (gameRoom: GameRoom, questionId: string): Promise<void> => {
+  const gameId = gameRoom.gameSessionId
+  if (!gameId) return
+
+  // Final and sudden-death questions are appended to the game's question order
+  const gameQuestion = await resolveGameQuestion(gameId, questionId)
+
+  await prisma.$transaction([
+    prisma.gameQuestion.update({
+      where: { id: gameQuestion.id },
+      data: { startedAt: new Date() }
+    }),
+    prisma.gameSession.update({
+      where: { id: gameId },
+      data: { currentQuestionIndex: gameRoom.currentQuestion }
+    }),
+    prisma.question.update({
+      where: { id: questionId },
+      data: { usageCount: { increment: 1 } }
+    })
+  ])
+}
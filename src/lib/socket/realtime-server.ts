@@ -0,0 +1,189 @@
+/**
+ * Realtime Server
+ *
+ * Boots the Socket.io quiz server on its own HTTP port, outside the Next app.
+ * Started by scripts/realtime-server.ts and by the game simulator. Each node
+ * registers its URL and keeps the claims on its rooms alive in the room store,
+ * so other nodes can send players to it, applies room updates
+ * published by the Next app and other nodes, and answers GET /health for the
+ * load balancer.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Server, type ServerOptions } from 'socket.io'
+import type {
+  ClientToServerEvents,
+  InterServerEvents,
+  QuizServer,
+  ServerToClientEvents
+} from './events'
+import { getActivePlayersCount, getAllActiveRooms } from './game-rooms'
+import { applyGameRoomSync, closeGameRoom, recoverGameRooms } from './room-lifecycle'
+import {
+  ROOM_CLAIM_TTL_MS,
+  getRealtimeNodeId,
+  getRoomStore,
+  setRoomStore,
+  type RoomStore,
+  type RoomStoreMessage
+} from './room-store'
+import { registerSocketHandlers, type SocketServerOptions } from './server'
+import type { SocketData } from './socket-auth'
+
+export type RealtimeServerOptions = {
+  port: number
+  host?: string
+  // Origin allowed to open connections, e.g. the Next app's URL
+  corsOrigin?: string
+  // URL players reach this node at, where other nodes send its rooms' players; the listening URL by default
+  publicUrl?: string
+  transports?: ServerOptions['transports']
+  // Shared store for several nodes; the process-wide store by default
+  roomStore?: RoomStore
+  // Reopen games that were live before a restart (on by default)
+  recoverRooms?: boolean
+  handlers?: SocketServerOptions
+}
+
+export type RealtimeServer = {
+  io: QuizServer
+  url: string
+  nodeId: string
+  close: () => Promise<void>
+}
+
+const writeHealth = (nodeId: string) => (request: IncomingMessage, response: ServerResponse): void => {
+  // Socket.io answers its own path before this handler runs
+  if (request.method !== 'GET' || request.url !== '/health') {
+    response.writeHead(404).end()
+    return
+  }
+
+  response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+    status: 'active',
+    nodeId,
+    activeRooms: getAllActiveRooms().length,
+    activePlayers: getActivePlayersCount(),
+    timestamp: new Date().toISOString()
+  }))
+}
+
+/**
+ * Claim this node's rooms and its URL again before they lapse
+ */
+const renewRoomClaims = (store: RoomStore, nodeId: string, url: string): void => {
+  store.registerNode(nodeId, url, ROOM_CLAIM_TTL_MS).catch(error => {
+    console.error('Error registering node:', error)
+  })
+
+  getAllActiveRooms().forEach(gameRoom => {
+    store.claimRoom(gameRoom.code, nodeId, ROOM_CLAIM_TTL_MS)
+      .then(claimed => {
+        if (!claimed) {
+          console.warn(`⚠️ Game ${gameRoom.code} is claimed by another node`)
+        }
+      })
+      .catch(error => {
+        console.error('Error renewing room claim:', error)
+      })
+  })
+}
+
+/**
+ * Apply an update published by the Next app or another node
+ */
+const handleRoomStoreMessage = (nodeId: string) => (message: RoomStoreMessage): void => {
+  if (message.nodeId === nodeId) return
+
+  switch (message.type) {
+    case 'sync-room':
+      applyGameRoomSync(message.code, message.update)
+      break
+
+    case 'close-room':
+      closeGameRoom(message.code)
+      break
+  }
+}
+
+/**
+ * Start the quiz server and resolve once it is listening
+ */
+export const startRealtimeServer = async ({
+  port,
+  host,
+  corsOrigin,
+  publicUrl,
+  transports = ['websocket', 'polling'],
+  roomStore,
+  recoverRooms = true,
+  handlers = {}
+}: RealtimeServerOptions): Promise<RealtimeServer> => {
+  if (roomStore) {
+    setRoomStore(roomStore)
+  }
+  const store = getRoomStore()
+  const nodeId = getRealtimeNodeId()
+
+  const httpServer = createServer(writeHealth(nodeId))
+  const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(httpServer, {
+    ...(corsOrigin && {
+      cors: {
+        origin: corsOrigin,
+        methods: ['GET', 'POST'],
+        credentials: true
+      }
+    }),
+    transports
+  })
+
+  registerSocketHandlers(io, handlers)
+  const unsubscribe = await store.subscribe(handleRoomStoreMessage(nodeId))
+
+  if (recoverRooms) {
+    // Reopen games that were live before a restart, waiting for the host to resume
+    recoverGameRooms()
+      .then(recovered => {
+        if (recovered.length > 0) {
+          console.log(`♻️ Recovered ${recovered.length} game room(s) awaiting resume`)
+        }
+      })
+      .catch(error => {
+        console.error('Error recovering game rooms:', error)
+      })
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject)
+    httpServer.listen(port, host, () => resolve())
+  })
+  const address = httpServer.address() as AddressInfo
+  const url = `http://${host ?? 'localhost'}:${address.port}`
+  const nodeUrl = publicUrl ?? url
+
+  await store.registerNode(nodeId, nodeUrl, ROOM_CLAIM_TTL_MS)
+  const claimRenewal = setInterval(() => renewRoomClaims(store, nodeId, nodeUrl), ROOM_CLAIM_TTL_MS / 3)
+  claimRenewal.unref()
+
+  const close = async (): Promise<void> => {
+    clearInterval(claimRenewal)
+    unsubscribe()
+
+    // Hand the rooms over: another node may hydrate them from their snapshots
+    await Promise.all(getAllActiveRooms().map(gameRoom =>
+      store.releaseRoom(gameRoom.code, nodeId).catch(error => {
+        console.error('Error releasing room claim:', error)
+      })
+    ))
+
+    await new Promise<void>(resolve => io.close(() => resolve()))
+  }
+
+  return {
+    io,
+    url,
+    nodeId,
+    close
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Reconnect Grace Period
+ *
+ * A dropped connection does not end a player's game. The player is marked
+ * disconnected and keeps their seat for the room's grace window; a new socket
+ * reclaims the seat with the resume token issued on join and is sent a
+ * state-sync. Players are eliminated when the window expires, or when a
+ * question closes while they are away (see processQuestionResults).
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { QuizServer } from './events'
+import { getContenderIds, type GameRoom } from './game-rooms'
+import { getActivePlayersCount, processQuestionResults } from './elimination-handler'
+import { persistParticipantStatus } from './game-persistence'
+import { recordGameEvent } from './game-events'
+import { isSpectator } from './spectators'
+import type {
+  PlayerDisconnectedData,
+  PlayerLeftData,
+  PlayerReconnectedData,
+  ReconnectExpiredData,
+  StateSyncData
+} from './types'
+
+const savePlayerStatus = (
+  gameRoom: GameRoom,
+  playerId: string,
+  status: 'ACTIVE' | 'DISCONNECTED' | 'ELIMINATED'
+): void => {
+  persistParticipantStatus(gameRoom, playerId, status).catch(error => {
+    console.error('Error saving participant status:', error)
+  })
+}
+
+/**
+ * Get the player's resume token, issuing one on first join
+ */
+export const issueResumeToken = (gameRoom: GameRoom, playerId: string): string => {
+  const existing = gameRoom.resumeTokens.get(playerId)
+  if (existing) return existing
+
+  const token = randomUUID()
+  gameRoom.resumeTokens.set(playerId, token)
+  return token
+}
+
+/**
+ * Find the player a resume token was issued to
+ */
+export const findPlayerByResumeToken = (gameRoom: GameRoom, token: string): string | null => {
+  const entry = Array.from(gameRoom.resumeTokens).find(([, playerToken]) => playerToken === token)
+  return entry ? entry[0] : null
+}
+
+/**
+ * Eliminate a player who is gone from a running game, so they rank by when they left
+ */
+export const eliminateAbsentPlayer = (gameRoom: GameRoom, playerId: string): void => {
+  if (gameRoom.eliminatedPlayers.has(playerId)) return
+
+  gameRoom.eliminatedPlayers.add(playerId)
+  gameRoom.playerLives.set(playerId, 0)
+  savePlayerStatus(gameRoom, playerId, 'ELIMINATED')
+}
+
+/**
+ * Close the open question early if everyone left in it has answered
+ */
+export const closeAnsweredQuestion = (gameRoom: GameRoom, io: QuizServer): void => {
+  const question = gameRoom.currentQuestionData
+  if (
+    gameRoom.status === 'in_progress' &&
+    question &&
+    gameRoom.questionEndsAt !== null &&
+    gameRoom.activeAnswers.size >= getContenderIds(gameRoom).length
+  ) {
+    processQuestionResults(gameRoom, question, io, question.isFinalQuestion).catch(error => {
+      console.error('Error processing question results:', error)
+    })
+  }
+}
+
+/**
+ * Release the seat of a player who did not reconnect in time.
+ * Lobby seats are freed; in a running game the player is eliminated.
+ */
+const expireDisconnectedPlayer = (gameRoom: GameRoom, playerId: string, io: QuizServer): void => {
+  gameRoom.disconnectedPlayers.delete(playerId)
+  if (gameRoom.status === 'finished') return
+
+  recordGameEvent(gameRoom, { type: 'reconnect-expired', playerId })
+
+  if (gameRoom.status === 'waiting') {
+    gameRoom.players.delete(playerId)
+    gameRoom.playerLives.delete(playerId)
+    gameRoom.resumeTokens.delete(playerId)
+    gameRoom.playerTeams.delete(playerId)
+
+    const data: PlayerLeftData = { playerId, playerCount: gameRoom.players.size }
+    io.to(gameRoom.code).emit('player-left', data)
+    return
+  }
+
+  eliminateAbsentPlayer(gameRoom, playerId)
+
+  const data: ReconnectExpiredData = {
+    playerId,
+    playerCount: gameRoom.players.size,
+    activePlayersCount: getActivePlayersCount(gameRoom)
+  }
+  io.to(gameRoom.code).emit('reconnect-expired', data)
+  closeAnsweredQuestion(gameRoom, io)
+}
+
+/**
+ * Hold a disconnected player's seat for the room's grace window
+ */
+export const markPlayerDisconnected = (gameRoom: GameRoom, playerId: string, io: QuizServer): void => {
+  clearTimeout(gameRoom.disconnectedPlayers.get(playerId))
+  gameRoom.disconnectedPlayers.set(
+    playerId,
+    setTimeout(() => expireDisconnectedPlayer(gameRoom, playerId, io), gameRoom.reconnectGraceMs)
+  )
+
+  recordGameEvent(gameRoom, { type: 'player-disconnected', playerId })
+  if (!gameRoom.eliminatedPlayers.has(playerId)) {
+    savePlayerStatus(gameRoom, playerId, 'DISCONNECTED')
+  }
+
+  const data: PlayerDisconnectedData = {
+    playerId,
+    playerCount: gameRoom.players.size,
+    activePlayersCount: getActivePlayersCount(gameRoom),
+    graceSeconds: Math.ceil(gameRoom.reconnectGraceMs / 1000)
+  }
+  io.to(gameRoom.code).emit('player-disconnected', data)
+}
+
+/**
+ * Give a reconnecting player their seat back and stop the grace timer
+ */
+export const reclaimPlayerSeat = (gameRoom: GameRoom, playerId: string, io: QuizServer): void => {
+  const graceTimer = gameRoom.disconnectedPlayers.get(playerId)
+  clearTimeout(graceTimer)
+  gameRoom.disconnectedPlayers.delete(playerId)
+
+  gameRoom.players.add(playerId)
+  if (!gameRoom.playerLives.has(playerId) && !gameRoom.eliminatedPlayers.has(playerId)) {
+    gameRoom.playerLives.set(playerId, gameRoom.startingLives)
+  }
+
+  if (!graceTimer) return
+
+  recordGameEvent(gameRoom, { type: 'player-reconnected', playerId })
+  if (!gameRoom.eliminatedPlayers.has(playerId)) {
+    savePlayerStatus(gameRoom, playerId, 'ACTIVE')
+  }
+
+  const data: PlayerReconnectedData = { playerId, playerCount: gameRoom.players.size }
+  io.to(gameRoom.code).emit('player-reconnected', data)
+}
+
+/**
+ * Stop every grace timer of a room that is closing
+ */
+export const clearReconnectTimers = (gameRoom: GameRoom): void => {
+  gameRoom.disconnectedPlayers.forEach(timer => clearTimeout(timer))
+  gameRoom.disconnectedPlayers.clear()
+}
+
+/**
+ * Describe the room from a player's point of view, including the open question
+ * and the time left on it
+ */
+export const buildStateSync = (gameRoom: GameRoom, playerId: string, nowMs = Date.now()): StateSyncData => {
+  const remainingMs = gameRoom.pausedRemainingMs ??
+    (gameRoom.questionEndsAt === null ? null : Math.max(gameRoom.questionEndsAt - nowMs, 0))
+  const question = remainingMs === null ? null : gameRoom.deliveredQuestion
+  // Spectators see their shadow answer and score
+  const spectating = isSpectator(gameRoom, playerId)
+  const answers = spectating ? gameRoom.shadowAnswers : gameRoom.activeAnswers
+  const scores = spectating ? gameRoom.shadowScores : gameRoom.playerScores
+
+  return {
+    gameCode: gameRoom.code,
+    playerId,
+    status: gameRoom.status,
+    playerCount: gameRoom.players.size,
+    maxPlayers: gameRoom.maxPlayers,
+    totalQuestions: gameRoom.totalQuestions,
+    question,
+    remainingTime: question && remainingMs !== null ? Math.ceil(remainingMs / 1000) : null,
+    selectedAnswer: question ? answers.get(playerId)?.selectedAnswer ?? null : null,
+    isEliminated: gameRoom.eliminatedPlayers.has(playerId),
+    isSpectator: spectating,
+    lives: gameRoom.playerLives.get(playerId) ?? (spectating ? 0 : gameRoom.startingLives),
+    score: scores.get(playerId)?.total ?? 0
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Redis Room Store
+ *
+ * A RoomStore on any server that speaks the Redis protocol, shared by every
+ * realtime node behind the load balancer. Keys:
+ *   <prefix>:snapshot:<gameId>  room snapshot (JSON), dropped a day after its last save
+ *   <prefix>:owner:<code>       node ID of the node running the room, expiring with the claim
+ *   <prefix>:node:<nodeId>      URL players reach the node at, expiring unless renewed
+ * Updates are published on the <prefix>:rooms channel.
+ */
+
+import { createRespConnection, type RespConnection } from './resp-client'
+import type { RoomStore, RoomStoreMessage, RoomStoreMessageHandler } from './room-store'
+import type { RoomSnapshot } from './room-snapshot'
+
+// Snapshots of games abandoned without ending are not kept forever
+const SNAPSHOT_TTL_MS = 24 * 60 * 60 * 1000
+
+export type RedisRoomStoreOptions = {
+  url: string
+  keyPrefix?: string
+}
+
+/**
+ * Create a store on the Redis-protocol server at a redis:// URL
+ */
+export const createRedisRoomStore = ({ url, keyPrefix = 'quiz' }: RedisRoomStoreOptions): RoomStore => {
+  const connection = createRespConnection(url)
+  const channel = `${keyPrefix}:rooms`
+  const handlers = new Set<RoomStoreMessageHandler>()
+  // Subscribed connections only receive messages, so they get their own connection
+  let subscriber: Promise<RespConnection> | null = null
+
+  const snapshotKey = (gameId: string) => `${keyPrefix}:snapshot:${gameId}`
+  const ownerKey = (code: string) => `${keyPrefix}:owner:${code}`
+  const nodeKey = (nodeId: string) => `${keyPrefix}:node:${nodeId}`
+
+  const getString = async (key: string): Promise<string | null> => {
+    const reply = await connection.command('GET', key)
+    return typeof reply === 'string' ? reply : null
+  }
+
+  const onMessage = (_channel: string, message: string): void => {
+    let parsed: RoomStoreMessage
+    try {
+      parsed = JSON.parse(message) as RoomStoreMessage
+    } catch (error) {
+      console.error('Ignoring malformed room store message:', error)
+      return
+    }
+    handlers.forEach(handler => handler(parsed))
+  }
+
+  const subscribeChannel = async (): Promise<RespConnection> => {
+    // Subscribed again whenever the connection is reopened
+    const subscribed = createRespConnection(url, { channels: [channel], onMessage })
+    try {
+      await subscribed.ready
+    } catch (error) {
+      await subscribed.close()
+      throw error
+    }
+    return subscribed
+  }
+
+  return {
+    getSnapshot: async (gameId) => {
+      const snapshot = await getString(snapshotKey(gameId))
+      return snapshot ? JSON.parse(snapshot) as RoomSnapshot : null
+    },
+
+    saveSnapshot: async (gameId, snapshot) => {
+      await connection.command('SET', snapshotKey(gameId), JSON.stringify(snapshot), 'PX', String(SNAPSHOT_TTL_MS))
+    },
+
+    deleteSnapshot: async (gameId) => {
+      await connection.command('DEL', snapshotKey(gameId))
+    },
+
+    claimRoom: async (code, nodeId, ttlMs) => {
+      const key = ownerKey(code)
+      const claimed = await connection.command('SET', key, nodeId, 'NX', 'PX', String(ttlMs))
+      if (claimed === 'OK') return true
+
+      // Renew our own claim. Nodes renew well before a claim lapses, so it
+      // cannot change hands between these two commands.
+      if (await getString(key) !== nodeId) return false
+      await connection.command('PEXPIRE', key, String(ttlMs))
+      return true
+    },
+
+    releaseRoom: async (code, nodeId) => {
+      const key = ownerKey(code)
+      if (await getString(key) === nodeId) {
+        await connection.command('DEL', key)
+      }
+    },
+
+    getRoomOwner: async (code) => {
+      return getString(ownerKey(code))
+    },
+
+    registerNode: async (nodeId, url, ttlMs) => {
+      await connection.command('SET', nodeKey(nodeId), url, 'PX', String(ttlMs))
+    },
+
+    getNodeUrl: async (nodeId) => {
+      return getString(nodeKey(nodeId))
+    },
+
+    publish: async (message) => {
+      await connection.command('PUBLISH', channel, JSON.stringify(message))
+    },
+
+    subscribe: async (handler) => {
+      // A failed subscription is retried by the next subscriber
+      subscriber ??= subscribeChannel().catch(error => {
+        subscriber = null
+        throw error
+      })
+      await subscriber
+      handlers.add(handler)
+      return () => {
+        handlers.delete(handler)
+      }
+    },
+
+    close: async () => {
+      handlers.clear()
+      await Promise.all([
+        connection.close(),
+        subscriber?.then(subscribed => subscribed.close())
+      ])
+    }
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Redis Protocol (RESP) Client
+ *
+ * A minimal client for servers that speak the Redis serialization protocol:
+ * Redis, Valkey, KeyDB, or the local stand-in used by tests. It sends commands
+ * in order over one TCP connection and matches each reply to its command.
+ * A connection that subscribes to channels only receives pushed messages.
+ * Lost connections are reopened with a growing delay, then authenticated and
+ * subscribed again; commands sent while reconnecting fail straight away.
+ */
+
+import { createConnection, type Socket } from 'node:net'
+
+export type RespReply = string | number | null | Error | RespReply[]
+
+type ParsedReply = { value: RespReply; next: number }
+
+type PendingCommand = {
+  resolve: (reply: RespReply) => void
+  reject: (error: Error) => void
+}
+
+export type RespConnectionOptions = {
+  // Channels to subscribe to, again after every reconnect
+  channels?: string[]
+  // Called with messages published to the subscribed channels
+  onMessage?: (channel: string, message: string) => void
+}
+
+export type RespConnection = {
+  command: (...args: string[]) => Promise<RespReply>
+  // Settles once the first connection is authenticated and subscribed
+  ready: Promise<void>
+  close: () => Promise<void>
+}
+
+const CRLF = '\r\n'
+
+// Delay before reopening a lost connection, doubled after each failed attempt
+const RECONNECT_DELAY_MS = 250
+const MAX_RECONNECT_DELAY_MS = 10000
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export const encodeRespCommand = (args: string[]): string => {
+  return `*${args.length}${CRLF}` + args
+    .map(arg => `$${Buffer.byteLength(arg)}${CRLF}${arg}${CRLF}`)
+    .join('')
+}
+
+/**
+ * Parse one reply starting at offset. Returns null until the buffer holds the whole reply.
+ */
+export const parseRespReply = (buffer: Buffer, offset = 0): ParsedReply | null => {
+  const lineEnd = buffer.indexOf(CRLF, offset)
+  if (lineEnd < 0) return null
+
+  const type = String.fromCharCode(buffer[offset] ?? 0)
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + CRLF.length
+
+  switch (type) {
+    case '+':
+      return { value: line, next }
+
+    case '-':
+      return { value: new Error(line), next }
+
+    case ':':
+      return { value: Number(line), next }
+
+    case '$': {
+      const length = Number(line)
+      if (length < 0) return { value: null, next }
+      if (buffer.length < next + length + CRLF.length) return null
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + CRLF.length }
+    }
+
+    case '*': {
+      const count = Number(line)
+      if (count < 0) return { value: null, next }
+
+      const items: RespReply[] = []
+      let position = next
+      for (let index = 0; index < count; index++) {
+        const item = parseRespReply(buffer, position)
+        if (!item) return null
+        items.push(item.value)
+        position = item.next
+      }
+      return { value: items, next: position }
+    }
+
+    default:
+      throw new Error(`Unexpected RESP reply type "${type}"`)
+  }
+}
+
+const isPushedMessage = (reply: RespReply): reply is [string, string, string] => {
+  return Array.isArray(reply) && reply.length === 3 && reply[0] === 'message'
+}
+
+/**
+ * Open a connection to a redis:// URL, authenticating and selecting the database it names
+ */
+export const createRespConnection = (
+  url: string,
+  { channels = [], onMessage }: RespConnectionOptions = {}
+): RespConnection => {
+  const { hostname, port, username, password, pathname } = new URL(url)
+  const database = pathname.slice(1)
+  const pending: PendingCommand[] = []
+  let buffer = Buffer.alloc(0)
+  let socket: Socket
+  let closed = false
+  let reconnectTimer: NodeJS.Timeout | null = null
+  let reconnectDelay = RECONNECT_DELAY_MS
+
+  const failPending = (error: Error): void => {
+    pending.splice(0).forEach(command => command.reject(error))
+  }
+
+  const handleData = (chunk: Buffer): void => {
+    buffer = Buffer.concat([buffer, chunk])
+
+    let parsed = parseRespReply(buffer)
+    while (parsed) {
+      buffer = buffer.subarray(parsed.next)
+
+      if (onMessage && isPushedMessage(parsed.value)) {
+        onMessage(parsed.value[1], parsed.value[2])
+      } else {
+        const command = pending.shift()
+        if (parsed.value instanceof Error) {
+          command?.reject(parsed.value)
+        } else {
+          command?.resolve(parsed.value)
+        }
+      }
+
+      parsed = parseRespReply(buffer)
+    }
+  }
+
+  const send = (args: string[]): Promise<RespReply> => {
+    return new Promise((resolve, reject) => {
+      pending.push({ resolve, reject })
+      // Writes made before the socket connects are buffered by Node
+      socket.write(encodeRespCommand(args))
+    })
+  }
+
+  // Written ahead of any other command on each connection
+  const setUp = async (): Promise<void> => {
+    await Promise.all([
+      ...(password ? [send(['AUTH', ...(username ? [decodeURIComponent(username)] : []), decodeURIComponent(password)])] : []),
+      ...(database ? [send(['SELECT', database])] : []),
+      ...channels.map(channel => send(['SUBSCRIBE', channel]))
+    ])
+  }
+
+  const connect = (): Promise<void> => {
+    buffer = Buffer.alloc(0)
+    socket = createConnection({ host: hostname, port: Number(port || 6379) })
+
+    socket.on('data', handleData)
+
+    socket.on('connect', () => {
+      reconnectDelay = RECONNECT_DELAY_MS
+    })
+
+    socket.on('error', error => {
+      console.error('Room store connection error:', error)
+    })
+
+    socket.on('close', () => {
+      failPending(new Error('Room store connection closed'))
+      if (closed) return
+
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null
+        connect().catch(error => {
+          console.error('Room store connection setup failed:', error)
+        })
+      }, reconnectDelay)
+      reconnectTimer.unref()
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS)
+    })
+
+    return setUp()
+  }
+
+  const command = (...args: string[]): Promise<RespReply> => {
+    if (closed) {
+      return Promise.reject(new Error('Room store connection closed'))
+    }
+    if (reconnectTimer) {
+      return Promise.reject(new Error('Room store connection lost; reconnecting'))
+    }
+
+    return send(args)
+  }
+
+  const ready = connect()
+  ready.catch(error => {
+    console.error('Room store connection setup failed:', error)
+  })
+
+  const close = (): Promise<void> => {
+    if (closed) return Promise.resolve()
+    closed = true
+
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer)
+      reconnectTimer = null
+    }
+    if (socket.destroyed) return Promise.resolve()
+
+    return new Promise(resolve => {
+      socket.once('close', () => resolve())
+      socket.end()
+    })
+  }
+
+  return { command, ready, close }
+}
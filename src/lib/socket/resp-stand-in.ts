@@ -0,0 +1,167 @@
+/**
+ * Local Redis Protocol Stand-in
+ *
+ * An in-process server that answers the handful of Redis commands the room
+ * store uses (GET, SET with NX/XX/PX/EX, DEL, PEXPIRE, PUBLISH, SUBSCRIBE),
+ * so tests and local runs can exercise the Redis room store without a Redis
+ * server. Data lives in memory and is lost when the stand-in closes.
+ */
+
+import { createServer, type AddressInfo, type Socket } from 'node:net'
+import { parseRespReply, type RespReply } from './resp-client'
+
+export type RespStandIn = {
+  url: string
+  // Cut every client connection, as a restarting server would; data is kept
+  dropConnections: () => void
+  close: () => Promise<void>
+}
+
+type StoredValue = { value: string; expiresAt: number | null }
+
+const CRLF = '\r\n'
+
+const simple = (value: string) => `+${value}${CRLF}`
+const error = (message: string) => `-ERR ${message}${CRLF}`
+const integer = (value: number) => `:${value}${CRLF}`
+const bulk = (value: string | null) => value === null
+  ? `$-1${CRLF}`
+  : `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`
+const array = (items: string[]) => `*${items.length}${CRLF}${items.join('')}`
+
+/**
+ * Start a stand-in on a free local port
+ */
+export const startRespStandIn = async (now: () => number = Date.now): Promise<RespStandIn> => {
+  const values = new Map<string, StoredValue>()
+  const subscribers = new Map<string, Set<Socket>>()
+  const sockets = new Set<Socket>()
+
+  const read = (key: string): string | null => {
+    const stored = values.get(key)
+    if (!stored) return null
+    if (stored.expiresAt !== null && stored.expiresAt <= now()) {
+      values.delete(key)
+      return null
+    }
+    return stored.value
+  }
+
+  const set = (args: string[]): string => {
+    const [key, value, ...options] = args
+    if (key === undefined || value === undefined) return error('wrong number of arguments for \'set\'')
+
+    let expiresAt: number | null = null
+    let condition: 'NX' | 'XX' | null = null
+    for (let index = 0; index < options.length; index++) {
+      const option = options[index]?.toUpperCase()
+      if (option === 'NX' || option === 'XX') {
+        condition = option
+      } else if (option === 'PX' || option === 'EX') {
+        const amount = Number(options[++index])
+        expiresAt = now() + (option === 'EX' ? amount * 1000 : amount)
+      } else {
+        return error('syntax error')
+      }
+    }
+
+    const exists = read(key) !== null
+    if ((condition === 'NX' && exists) || (condition === 'XX' && !exists)) {
+      return bulk(null)
+    }
+
+    values.set(key, { value, expiresAt })
+    return simple('OK')
+  }
+
+  const subscribe = (socket: Socket, channels: string[]): string => {
+    return channels.map((channel, index) => {
+      const channelSubscribers = subscribers.get(channel) ?? new Set()
+      channelSubscribers.add(socket)
+      subscribers.set(channel, channelSubscribers)
+      return array([bulk('subscribe'), bulk(channel), integer(index + 1)])
+    }).join('')
+  }
+
+  const execute = (socket: Socket, [name = '', ...args]: string[]): string => {
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return simple('PONG')
+
+      case 'AUTH':
+      case 'SELECT':
+        return simple('OK')
+
+      case 'GET':
+        return bulk(read(args[0] ?? ''))
+
+      case 'SET':
+        return set(args)
+
+      case 'DEL':
+        return integer(args.filter(key => read(key) !== null && values.delete(key)).length)
+
+      case 'PEXPIRE': {
+        const [key = '', ttlMs] = args
+        const value = read(key)
+        if (value === null) return integer(0)
+        values.set(key, { value, expiresAt: now() + Number(ttlMs) })
+        return integer(1)
+      }
+
+      case 'PUBLISH': {
+        const [channel = '', message = ''] = args
+        const receivers = subscribers.get(channel) ?? new Set()
+        receivers.forEach(receiver => {
+          receiver.write(array([bulk('message'), bulk(channel), bulk(message)]))
+        })
+        return integer(receivers.size)
+      }
+
+      case 'SUBSCRIBE':
+        return subscribe(socket, args)
+
+      default:
+        return error(`unknown command '${name}'`)
+    }
+  }
+
+  const server = createServer(socket => {
+    sockets.add(socket)
+    let buffer = Buffer.alloc(0)
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk])
+
+      let parsed = parseRespReply(buffer)
+      while (parsed) {
+        buffer = buffer.subarray(parsed.next)
+        const command = parsed.value as RespReply[]
+        socket.write(execute(socket, command.map(String)))
+        parsed = parseRespReply(buffer)
+      }
+    })
+
+    socket.on('close', () => {
+      sockets.delete(socket)
+      subscribers.forEach(channelSubscribers => channelSubscribers.delete(socket))
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(0, '127.0.0.1', () => resolve())
+  })
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    dropConnections: () => {
+      sockets.forEach(socket => socket.destroy())
+    },
+    close: () => new Promise(resolve => {
+      sockets.forEach(socket => socket.destroy())
+      server.close(() => resolve())
+    })
+  }
+}
@@ -0,0 +1,497 @@
+/**
+ * Game Room Lifecycle
+ *
+ * Keeps in-memory Socket.io game rooms in sync with their GameSession records.
+ * Rooms are opened and hydrated from the database, and tRPC status changes
+ * are pushed to the live room, through the room store when another realtime
+ * node runs it.
+ */
+
+import type { GameStatus as SessionStatus, EliminationRule } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  DEFAULT_RECONNECT_GRACE_MS,
+  createGameRoom,
+  deleteGameRoom,
+  getGameRoom,
+  getSocketServer,
+  getSoleContenderId,
+  type GameRoom
+} from './game-rooms'
+import {
+  announceFinalResults,
+  clearQuestionTimers,
+  pauseQuestionTimer,
+  resumeQuestionTimer
+} from './elimination-handler'
+import { DEFAULT_FINAL_QUESTION_THRESHOLD, shouldStartFinalShowdown } from '../game/final-showdown'
+import {
+  checkTransition,
+  toRoomStatus,
+  toSessionStatus,
+  type GameTransitionCheck,
+  type GameTransitionContext
+} from '../game/game-state'
+import { DEFAULT_TIE_TOLERANCE_MS } from '../game/tiebreak'
+import type { ScoreTable } from '../game/scoring'
+import type { Team, TeamScoring } from '../game/teams'
+import type { GamePausedData, GameResumedData } from './types'
+import { recordGameEvent } from './game-events'
+import { clearReconnectTimers } from './reconnect'
+import { persistRoomStatus } from './game-persistence'
+import { applyRoomSnapshot, deleteRoomSnapshot, loadRoomSnapshot, saveRoomSnapshot } from './room-snapshot'
+import { ROOM_CLAIM_TTL_MS, getRealtimeNodeId, getRoomStore, type RoomSyncUpdate } from './room-store'
+
+// Used until games.start has prepared the question set
+const DEFAULT_TOTAL_QUESTIONS = 10
+
+type SessionRoomData = {
+  id: string
+  code: string
+  adminId: string
+  status: SessionStatus
+  maxPlayers: number
+  totalQuestions: number
+  questionTimeLimit?: number
+  eliminationRule?: EliminationRule
+  eliminationCount?: number
+  startingLives?: number
+  finalQuestionThreshold?: number
+  tieToleranceMs?: number
+  reconnectGraceMs?: number
+  currentQuestionIndex?: number
+  // Team battle columns
+  teamScoring?: TeamScoring | null
+  teams?: Team[]
+  // Point table columns
+  pointsPerCorrect?: number
+  speedBonusPoints?: number
+  streakBonusPoints?: number
+  easyMultiplier?: number
+  mediumMultiplier?: number
+  hardMultiplier?: number
+}
+
+// Hydrations in flight by game code, so concurrent joins share one room
+const pendingHydrations = new Map<string, Promise<GameRoom | undefined>>()
+
+type RoomSettings = {
+  finalQuestionThreshold: number
+  tieToleranceMs: number
+  reconnectGraceMs: number
+}
+
+/**
+ * Read the final showdown threshold, tie tolerance and reconnect grace window
+ * from the system settings
+ */
+export const getRoomSettings = async (): Promise<RoomSettings> => {
+  const settings = await prisma.systemSettings.findUnique({
+    where: { id: 'system' },
+    select: { finalQuestionThreshold: true, tieToleranceMs: true, reconnectGraceMs: true }
+  })
+
+  return {
+    finalQuestionThreshold: settings?.finalQuestionThreshold ?? DEFAULT_FINAL_QUESTION_THRESHOLD,
+    tieToleranceMs: settings?.tieToleranceMs ?? DEFAULT_TIE_TOLERANCE_MS,
+    reconnectGraceMs: settings?.reconnectGraceMs ?? DEFAULT_RECONNECT_GRACE_MS
+  }
+}
+
+/**
+ * Build the point table from a GameSession's scoring columns.
+ * Returns undefined when the session does not carry them, so the room uses the defaults.
+ */
+export const toScoreTable = (session: SessionRoomData): ScoreTable | undefined => {
+  const {
+    pointsPerCorrect,
+    speedBonusPoints,
+    streakBonusPoints,
+    easyMultiplier,
+    mediumMultiplier,
+    hardMultiplier
+  } = session
+
+  if (
+    pointsPerCorrect === undefined ||
+    speedBonusPoints === undefined ||
+    streakBonusPoints === undefined ||
+    easyMultiplier === undefined ||
+    mediumMultiplier === undefined ||
+    hardMultiplier === undefined
+  ) {
+    return undefined
+  }
+
+  return {
+    pointsPerCorrect,
+    speedBonusPoints,
+    streakBonusPoints,
+    difficultyMultipliers: {
+      EASY: easyMultiplier,
+      MEDIUM: mediumMultiplier,
+      HARD: hardMultiplier
+    }
+  }
+}
+
+/**
+ * Create a live room from a GameSession record, replacing any stale room with the same code
+ */
+export const openGameRoom = (session: SessionRoomData): GameRoom => {
+  const existing = getGameRoom(session.code)
+  if (existing) {
+    clearQuestionTimers(existing)
+  }
+
+  const scoreTable = toScoreTable(session)
+
+  createGameRoom(session.code, session.adminId, {
+    gameSessionId: session.id,
+    maxPlayers: session.maxPlayers,
+    totalQuestions: session.totalQuestions > 0 ? session.totalQuestions : DEFAULT_TOTAL_QUESTIONS,
+    ...(session.questionTimeLimit && { questionTimeLimit: session.questionTimeLimit }),
+    ...(session.eliminationRule && { eliminationRule: session.eliminationRule }),
+    ...(session.eliminationCount && { eliminationCount: session.eliminationCount }),
+    ...(session.startingLives && { startingLives: session.startingLives }),
+    ...(session.finalQuestionThreshold && { finalQuestionThreshold: session.finalQuestionThreshold }),
+    ...(session.tieToleranceMs !== undefined && { tieToleranceMs: session.tieToleranceMs }),
+    ...(session.reconnectGraceMs !== undefined && { reconnectGraceMs: session.reconnectGraceMs }),
+    ...(scoreTable && { scoreTable }),
+    ...(session.teamScoring && { teamScoring: session.teamScoring }),
+    ...(session.teams && { teams: session.teams }),
+    status: toRoomStatus(session.status),
+    currentQuestion: session.currentQuestionIndex ?? 0
+  })
+
+  return getGameRoom(session.code)!
+}
+
+/**
+ * Load the room for a game code, hydrating it from the database when it is not in memory.
+ * Finished and cancelled games are never hydrated. Games that were live are
+ * restored from their snapshot and held paused until the host resumes them.
+ */
+export const hydrateGameRoom = async (code: string): Promise<GameRoom | undefined> => {
+  const existing = getGameRoom(code)
+  if (existing) return existing
+
+  const pending = pendingHydrations.get(code)
+  if (pending) return pending
+
+  const hydration = loadGameRoom(code).finally(() => {
+    pendingHydrations.delete(code)
+  })
+  pendingHydrations.set(code, hydration)
+
+  return hydration
+}
+
+const loadGameRoom = async (code: string): Promise<GameRoom | undefined> => {
+  const session = await prisma.gameSession.findUnique({
+    where: { code },
+    select: {
+      id: true,
+      code: true,
+      adminId: true,
+      status: true,
+      maxPlayers: true,
+      totalQuestions: true,
+      questionTimeLimit: true,
+      eliminationRule: true,
+      eliminationCount: true,
+      startingLives: true,
+      currentQuestionIndex: true,
+      pointsPerCorrect: true,
+      speedBonusPoints: true,
+      streakBonusPoints: true,
+      easyMultiplier: true,
+      mediumMultiplier: true,
+      hardMultiplier: true,
+      teamScoring: true,
+      teams: {
+        select: { id: true, name: true, color: true },
+        orderBy: { order: 'asc' }
+      },
+      participants: {
+        select: {
+          playerId: true,
+          teamId: true,
+          status: true,
+          livesRemaining: true,
+          score: true,
+          player: { select: { name: true } }
+        }
+      }
+    }
+  })
+
+  if (!session || session.status === 'FINISHED' || session.status === 'CANCELLED') {
+    return undefined
+  }
+
+  // Another realtime node runs this game; its players are routed there
+  if (!await getRoomStore().claimRoom(code, getRealtimeNodeId(), ROOM_CLAIM_TTL_MS)) {
+    return undefined
+  }
+
+  const gameRoom = openGameRoom({
+    ...session,
+    ...await getRoomSettings()
+  })
+  // Only a game under way has seats to return to; lobby participants join as usual
+  const isUnderWay = session.status === 'IN_PROGRESS' || session.status === 'PAUSED'
+  session.participants.forEach(participant => {
+    // Streaks are not persisted and restart after a reload
+    gameRoom.playerScores.set(participant.playerId, { total: participant.score, streak: 0 })
+    if (participant.player.name) {
+      gameRoom.playerNames.set(participant.playerId, participant.player.name)
+    }
+    if (participant.teamId) {
+      gameRoom.playerTeams.set(participant.playerId, participant.teamId)
+    }
+
+    if (participant.status === 'ELIMINATED') {
+      gameRoom.eliminatedPlayers.add(participant.playerId)
+    } else if (isUnderWay) {
+      gameRoom.playerLives.set(participant.playerId, participant.livesRemaining)
+    }
+  })
+
+  // Resume in the final showdown if the survivors had already dropped to the threshold
+  if (
+    gameRoom.status === 'in_progress' &&
+    shouldStartFinalShowdown(gameRoom.phase, gameRoom.playerLives.size, gameRoom.finalQuestionThreshold)
+  ) {
+    gameRoom.phase = 'final_showdown'
+  }
+
+  if (isUnderWay) {
+    const snapshot = await loadRoomSnapshot(session.id)
+    if (snapshot) {
+      applyRoomSnapshot(gameRoom, snapshot)
+    }
+
+    // Players have lost their connections: wait for the host to resume
+    gameRoom.status = 'paused'
+    gameRoom.resumePending = true
+    if (session.status === 'IN_PROGRESS') {
+      await persistRoomStatus(gameRoom, 'PAUSED')
+    }
+  }
+
+  return gameRoom
+}
+
+/**
+ * URL of the other realtime node running a game's room, or null when no other node claims it
+ */
+export const getRoomNodeUrl = async (code: string): Promise<string | null> => {
+  const store = getRoomStore()
+  const owner = await store.getRoomOwner(code)
+  if (!owner || owner === getRealtimeNodeId()) return null
+
+  return store.getNodeUrl(owner)
+}
+
+/**
+ * Reopen every game that was live when the server stopped, e.g. after a crash.
+ * The rooms wait in the paused state for players to reconnect.
+ */
+export const recoverGameRooms = async (): Promise<GameRoom[]> => {
+  const sessions = await prisma.gameSession.findMany({
+    where: { status: { in: ['IN_PROGRESS', 'PAUSED'] } },
+    select: { code: true }
+  })
+
+  const gameRooms = await Promise.all(sessions.map(session => hydrateGameRoom(session.code)))
+  return gameRooms.filter((gameRoom): gameRoom is GameRoom => gameRoom !== undefined)
+}
+
+/**
+ * Push a tRPC-driven GameSession update to the game's live room, on this
+ * process and on whichever realtime node runs it
+ */
+export const syncGameRoom = (code: string, update: RoomSyncUpdate): void => {
+  applyGameRoomSync(code, update)
+
+  getRoomStore()
+    .publish({ type: 'sync-room', nodeId: getRealtimeNodeId(), code, update })
+    .catch(error => {
+      console.error('Error publishing room update:', error)
+    })
+}
+
+/**
+ * Apply a GameSession update to the live room in this process, if one exists.
+ * Finished and cancelled games close the room.
+ */
+export const applyGameRoomSync = (code: string, update: RoomSyncUpdate): void => {
+  const gameRoom = getGameRoom(code)
+  if (!gameRoom) return
+
+  const io = getSocketServer()
+
+  if (update.totalQuestions) {
+    gameRoom.totalQuestions = update.totalQuestions
+  }
+
+  if (update.status === 'FINISHED' || update.status === 'CANCELLED') {
+    // A game still running is ranked before its room closes
+    const isRanked = update.status === 'FINISHED' &&
+      checkTransition(toSessionStatus(gameRoom.status), 'FINISHED').allowed
+    if (update.status === 'FINISHED') {
+      recordGameEvent(gameRoom, { type: 'status-changed', status: 'finished' })
+    }
+    if (gameRoom.gameSessionId) {
+      deleteRoomSnapshot(gameRoom.gameSessionId).catch(error => {
+        console.error('Error deleting room snapshot:', error)
+      })
+    }
+
+    if (isRanked && io) {
+      clearQuestionTimers(gameRoom)
+      gameRoom.status = 'finished'
+      announceFinalResults(gameRoom, getSoleContenderId(gameRoom), io)
+        .catch(error => {
+          console.error('Error announcing final results:', error)
+        })
+        .finally(() => {
+          io.to(code).emit('game-ended', { reason: update.reason || 'Game ended by admin' })
+          closeGameRoom(code)
+        })
+      return
+    }
+
+    io?.to(code).emit('game-ended', {
+      reason: update.reason || (update.status === 'CANCELLED' ? 'Game cancelled by admin' : 'Game ended by admin')
+    })
+    closeGameRoom(code)
+    return
+  }
+
+  const roomStatus = toRoomStatus(update.status)
+  if (roomStatus === gameRoom.status) return
+
+  // A room that has moved on since the session was read keeps its own status
+  const transition = transitionGameRoom(gameRoom, update.status, {
+    ...(update.reason && { reason: update.reason })
+  })
+  if (!transition.allowed) {
+    console.warn(`Ignoring status ${update.status} for game ${code}: ${transition.message}`)
+    return
+  }
+  recordGameEvent(gameRoom, { type: 'status-changed', status: roomStatus })
+
+  switch (roomStatus) {
+    case 'starting':
+      io?.to(code).emit('game-starting', {
+        countdown: 5,
+        message: 'Game starting in 5 seconds!'
+      })
+      break
+
+    case 'in_progress':
+      // Resumed games were announced when their timer restarted
+      if (!transition.effects.includes('resume-timer')) {
+        io?.to(code).emit('game-started', {
+          currentQuestion: gameRoom.currentQuestion,
+          totalQuestions: gameRoom.totalQuestions
+        })
+      }
+      break
+  }
+
+  saveRoomSnapshot(gameRoom).catch(error => {
+    console.error('Error saving room snapshot:', error)
+  })
+}
+
+/**
+ * Move a live room through the game state machine and apply the transition's
+ * effects on the room. Refused transitions leave the room as it was.
+ */
+export const transitionGameRoom = (
+  gameRoom: GameRoom,
+  to: SessionStatus,
+  { reason, ...context }: GameTransitionContext & { reason?: string } = {}
+): GameTransitionCheck => {
+  const transition = checkTransition(toSessionStatus(gameRoom.status), to, context)
+  if (!transition.allowed) return transition
+
+  if (transition.effects.includes('clear-timers')) {
+    clearQuestionTimers(gameRoom)
+  }
+
+  if (transition.effects.includes('freeze-timer')) {
+    pauseGameRoom(gameRoom, reason)
+  } else if (transition.effects.includes('resume-timer')) {
+    resumeGameRoom(gameRoom)
+  } else {
+    gameRoom.status = toRoomStatus(to)
+  }
+
+  return transition
+}
+
+const toSeconds = (remainingMs: number | null): number | null => {
+  return remainingMs === null ? null : Math.ceil(remainingMs / 1000)
+}
+
+/**
+ * Pause a room: freeze the running question timer and notify players
+ */
+export const pauseGameRoom = (gameRoom: GameRoom, reason?: string): void => {
+  gameRoom.status = 'paused'
+  const remainingMs = pauseQuestionTimer(gameRoom)
+
+  const data: GamePausedData = {
+    reason: reason || 'Game paused by admin',
+    remainingTime: toSeconds(remainingMs)
+  }
+  getSocketServer()?.to(gameRoom.code).emit('game-paused', data)
+}
+
+/**
+ * Resume a paused room: restart the frozen question timer with its remaining time
+ */
+export const resumeGameRoom = (gameRoom: GameRoom): void => {
+  gameRoom.status = 'in_progress'
+  gameRoom.resumePending = false
+  const io = getSocketServer()
+  const remainingMs = io ? resumeQuestionTimer(gameRoom, io) : null
+
+  const data: GameResumedData = {
+    remainingTime: toSeconds(remainingMs)
+  }
+  io?.to(gameRoom.code).emit('game-resumed', data)
+}
+
+/**
+ * Stop timers and remove the live room for a game code
+ */
+export const closeGameRoom = (code: string): void => {
+  const gameRoom = getGameRoom(code)
+  if (!gameRoom) return
+
+  clearQuestionTimers(gameRoom)
+  clearReconnectTimers(gameRoom)
+  deleteGameRoom(code, getSocketServer())
+
+  getRoomStore().releaseRoom(code, getRealtimeNodeId()).catch(error => {
+    console.error('Error releasing room claim:', error)
+  })
+}
+
+/**
+ * Close a game's room on this process and on whichever realtime node runs it
+ */
+export const removeGameRoom = (code: string): void => {
+  closeGameRoom(code)
+
+  getRoomStore()
+    .publish({ type: 'close-room', nodeId: getRealtimeNodeId(), code })
+    .catch(error => {
+      console.error('Error publishing room removal:', error)
+    })
+}
@@ -0,0 +1,137 @@
+/**
+ * Room Snapshots for Crash Recovery
+ *
+ * Saves the game state of a live room to its RoomSnapshot row at each phase
+ * boundary: questions sent, results processed and status changes. After a
+ * restart the snapshot restores what GameParticipant rows cannot: the phase,
+ * streaks, the open question with its remaining time and the answers received.
+ * Player connections are not saved; players rejoin after a restart.
+ * The room store keeps a copy for the node that takes over a room; the
+ * RoomSnapshot row outlives a store that is restarted.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { PlayerAnswer } from '../game/elimination-logic'
+import type { GamePhase } from '../game/final-showdown'
+import type { PlayerScore } from '../game/scoring'
+import type { GameRoom, GameRoomStatus } from './game-rooms'
+import { getRoomStore } from './room-store'
+
+type SnapshotAnswer = Omit<PlayerAnswer, 'serverTimestamp'> & {
+  serverTimestamp: string
+}
+
+export type RoomSnapshot = {
+  status: GameRoomStatus
+  currentQuestion: number
+  eliminatedPlayers: string[]
+  playerLives: Record<string, number>
+  playerScores: Record<string, PlayerScore>
+  phase: GamePhase
+  tiebreakPlayers: string[]
+  tiebreakRound: number
+  currentQuestionId: string | null
+  currentQuestionData: GameRoom['currentQuestionData']
+  // Time left on the open question when the snapshot was taken (null between questions)
+  remainingMs: number | null
+  activeAnswers: SnapshotAnswer[]
+  // Round each team went out in, by team ID
+  teamEliminations: Record<string, number>
+}
+
+const getRemainingMs = (gameRoom: GameRoom, nowMs: number): number | null => {
+  if (gameRoom.pausedRemainingMs !== null) return gameRoom.pausedRemainingMs
+  if (gameRoom.questionEndsAt !== null) return Math.max(gameRoom.questionEndsAt - nowMs, 0)
+  return null
+}
+
+/**
+ * Capture the recoverable state of a room
+ */
+export const createRoomSnapshot = (gameRoom: GameRoom, nowMs = Date.now()): RoomSnapshot => ({
+  status: gameRoom.status,
+  currentQuestion: gameRoom.currentQuestion,
+  eliminatedPlayers: Array.from(gameRoom.eliminatedPlayers),
+  playerLives: Object.fromEntries(gameRoom.playerLives),
+  playerScores: Object.fromEntries(gameRoom.playerScores),
+  phase: gameRoom.phase,
+  tiebreakPlayers: [...gameRoom.tiebreakPlayers],
+  tiebreakRound: gameRoom.tiebreakRound,
+  currentQuestionId: gameRoom.currentQuestionId,
+  currentQuestionData: gameRoom.currentQuestionData,
+  remainingMs: gameRoom.currentQuestionData ? getRemainingMs(gameRoom, nowMs) : null,
+  activeAnswers: Array.from(gameRoom.activeAnswers.values(), answer => ({
+    ...answer,
+    serverTimestamp: answer.serverTimestamp.toISOString()
+  })),
+  teamEliminations: Object.fromEntries(gameRoom.teamEliminations)
+})
+
+/**
+ * Restore a snapshot into a freshly hydrated room.
+ * The open question is left frozen with its remaining time, ready to resume.
+ */
+export const applyRoomSnapshot = (gameRoom: GameRoom, snapshot: RoomSnapshot): void => {
+  gameRoom.currentQuestion = snapshot.currentQuestion
+  gameRoom.eliminatedPlayers = new Set(snapshot.eliminatedPlayers)
+  gameRoom.playerLives = new Map(Object.entries(snapshot.playerLives))
+  gameRoom.playerScores = new Map(Object.entries(snapshot.playerScores))
+  gameRoom.phase = snapshot.phase
+  gameRoom.tiebreakPlayers = snapshot.tiebreakPlayers
+  gameRoom.tiebreakRound = snapshot.tiebreakRound
+  gameRoom.currentQuestionId = snapshot.currentQuestionId
+  gameRoom.currentQuestionData = snapshot.currentQuestionData
+  gameRoom.questionEndsAt = null
+  gameRoom.pausedRemainingMs = snapshot.remainingMs
+  gameRoom.activeAnswers = new Map(snapshot.activeAnswers.map(answer => [
+    answer.playerId,
+    { ...answer, serverTimestamp: new Date(answer.serverTimestamp) }
+  ]))
+  // Snapshots saved before team battles existed carry no team eliminations
+  gameRoom.teamEliminations = new Map(Object.entries(snapshot.teamEliminations ?? {}))
+}
+
+/**
+ * Save a room's snapshot. Rooms without a game session are not saved.
+ */
+export const saveRoomSnapshot = async (gameRoom: GameRoom): Promise<void> => {
+  const gameId = gameRoom.gameSessionId
+  if (!gameId) return
+
+  const snapshot = createRoomSnapshot(gameRoom)
+  const state = JSON.stringify(snapshot)
+
+  await Promise.all([
+    getRoomStore().saveSnapshot(gameId, snapshot),
+    prisma.roomSnapshot.upsert({
+      where: { gameId },
+      create: { gameId, state },
+      update: { state }
+    })
+  ])
+}
+
+/**
+ * Load the last snapshot of a game, if any, preferring the room store's copy
+ */
+export const loadRoomSnapshot = async (gameId: string): Promise<RoomSnapshot | null> => {
+  const stored = await getRoomStore().getSnapshot(gameId)
+  if (stored) return stored
+
+  const snapshot = await prisma.roomSnapshot.findUnique({
+    where: { gameId },
+    select: { state: true }
+  })
+
+  return snapshot ? JSON.parse(snapshot.state) as RoomSnapshot : null
+}
+
+/**
+ * Drop the snapshot of a game that has ended
+ */
+export const deleteRoomSnapshot = async (gameId: string): Promise<void> => {
+  await Promise.all([
+    getRoomStore().deleteSnapshot(gameId),
+    prisma.roomSnapshot.deleteMany({ where: { gameId } })
+  ])
+}
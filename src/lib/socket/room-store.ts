@@ -0,0 +1,184 @@
+/**
+ * Room Store
+ *
+ * The room state shared between realtime nodes. Each live room runs on one
+ * node, which claims it in the store and renews the claim while the room is
+ * open; players who reach another node are redirected to the URL the owner
+ * registered. The store also holds the latest room snapshots and carries room
+ * updates from the Next app (tRPC) to whichever node runs the room.
+ *
+ * The in-memory store serves a single process, such as the game simulator or
+ * the Next dev server hosting the realtime server itself. When the Next app
+ * and the realtime server are separate processes, they share a store that
+ * speaks the Redis protocol (see ./redis-room-store), named by ROOM_STORE_URL.
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { GameStatus } from '@/schemas/gameSchemas'
+import type { RoomSnapshot } from './room-snapshot'
+import { createRedisRoomStore } from './redis-room-store'
+
+// A claim lapses this long after its node stops renewing it
+export const ROOM_CLAIM_TTL_MS = 30000
+
+export type RoomSyncUpdate = {
+  status: GameStatus
+  totalQuestions?: number
+  reason?: string
+}
+
+// Updates published to every node; nodeId is the node that published it
+export type RoomStoreMessage =
+  | { type: 'sync-room'; nodeId: string; code: string; update: RoomSyncUpdate }
+  | { type: 'close-room'; nodeId: string; code: string }
+
+export type RoomStoreMessageHandler = (message: RoomStoreMessage) => void
+
+export type RoomStore = {
+  // Latest snapshot of a game's room, by game session ID
+  getSnapshot: (gameId: string) => Promise<RoomSnapshot | null>
+  saveSnapshot: (gameId: string, snapshot: RoomSnapshot) => Promise<void>
+  deleteSnapshot: (gameId: string) => Promise<void>
+  // Claim a room for a node, or renew the node's claim; false while another node holds it
+  claimRoom: (code: string, nodeId: string, ttlMs: number) => Promise<boolean>
+  releaseRoom: (code: string, nodeId: string) => Promise<void>
+  getRoomOwner: (code: string) => Promise<string | null>
+  // URL players reach a node at, registered by the node and renewed with its claims
+  registerNode: (nodeId: string, url: string, ttlMs: number) => Promise<void>
+  getNodeUrl: (nodeId: string) => Promise<string | null>
+  publish: (message: RoomStoreMessage) => Promise<void>
+  // Returns a function that stops the handler
+  subscribe: (handler: RoomStoreMessageHandler) => Promise<() => void>
+  close: () => Promise<void>
+}
+
+/**
+ * Create a store for a single process
+ */
+export const createMemoryRoomStore = (now: () => number = Date.now): RoomStore => {
+  // Snapshots are kept serialized so readers never share objects with the room
+  const snapshots = new Map<string, string>()
+  const claims = new Map<string, { nodeId: string; expiresAt: number }>()
+  const nodes = new Map<string, { url: string; expiresAt: number }>()
+  const handlers = new Set<RoomStoreMessageHandler>()
+
+  const getClaim = (code: string) => {
+    const claim = claims.get(code)
+    if (claim && claim.expiresAt <= now()) {
+      claims.delete(code)
+      return undefined
+    }
+    return claim
+  }
+
+  return {
+    getSnapshot: async (gameId) => {
+      const snapshot = snapshots.get(gameId)
+      return snapshot ? JSON.parse(snapshot) as RoomSnapshot : null
+    },
+
+    saveSnapshot: async (gameId, snapshot) => {
+      snapshots.set(gameId, JSON.stringify(snapshot))
+    },
+
+    deleteSnapshot: async (gameId) => {
+      snapshots.delete(gameId)
+    },
+
+    claimRoom: async (code, nodeId, ttlMs) => {
+      const claim = getClaim(code)
+      if (claim && claim.nodeId !== nodeId) return false
+
+      claims.set(code, { nodeId, expiresAt: now() + ttlMs })
+      return true
+    },
+
+    releaseRoom: async (code, nodeId) => {
+      if (getClaim(code)?.nodeId === nodeId) {
+        claims.delete(code)
+      }
+    },
+
+    getRoomOwner: async (code) => {
+      return getClaim(code)?.nodeId ?? null
+    },
+
+    registerNode: async (nodeId, url, ttlMs) => {
+      nodes.set(nodeId, { url, expiresAt: now() + ttlMs })
+    },
+
+    getNodeUrl: async (nodeId) => {
+      const node = nodes.get(nodeId)
+      return node && node.expiresAt > now() ? node.url : null
+    },
+
+    publish: async (message) => {
+      // Delivered asynchronously, as a shared store would
+      queueMicrotask(() => handlers.forEach(handler => handler(message)))
+    },
+
+    subscribe: async (handler) => {
+      handlers.add(handler)
+      return () => {
+        handlers.delete(handler)
+      }
+    },
+
+    close: async () => {
+      handlers.clear()
+    }
+  }
+}
+
+/**
+ * Create the store named by a URL: redis:// URLs use the Redis protocol,
+ * anything else keeps rooms in this process
+ */
+export const createRoomStore = (url: string | undefined): RoomStore => {
+  if (url?.startsWith('redis://')) {
+    return createRedisRoomStore({ url })
+  }
+
+  return createMemoryRoomStore()
+}
+
+// Stored on globalThis so the socket server and tRPC routes share one store
+const globalForRoomStore = globalThis as unknown as {
+  roomStore: RoomStore | undefined
+  realtimeNodeId: string | undefined
+}
+
+export const getRoomStore = (): RoomStore => {
+  globalForRoomStore.roomStore ??= createRoomStore(process.env.ROOM_STORE_URL)
+  return globalForRoomStore.roomStore
+}
+
+export const setRoomStore = (store: RoomStore): void => {
+  globalForRoomStore.roomStore = store
+}
+
+/**
+ * Whether ROOM_STORE_URL names a store shared with other processes
+ */
+export const hasSharedRoomStore = (): boolean => {
+  return process.env.ROOM_STORE_URL?.startsWith('redis://') ?? false
+}
+
+/**
+ * The store for a process that shares rooms with another: the Next app and a
+ * standalone realtime server only reach each other's rooms through ROOM_STORE_URL
+ */
+export const requireSharedRoomStore = (): RoomStore => {
+  if (!hasSharedRoomStore()) {
+    throw new Error('ROOM_STORE_URL must name the redis:// room store shared by the Next app and the realtime server')
+  }
+  return getRoomStore()
+}
+
+/**
+ * Name of this process in room claims and published updates
+ */
+export const getRealtimeNodeId = (): string => {
+  globalForRoomStore.realtimeNodeId ??= process.env.REALTIME_NODE_ID || `node-${randomUUID()}`
+  return globalForRoomStore.realtimeNodeId
+}
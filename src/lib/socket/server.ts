@@ -0,0 +1,850 @@
+/**
+ * Socket.io Server Handlers
+ *
+ * Registers the real-time quiz event handlers on a Socket.io server.
+ * Used by the API route and by the in-process game simulator.
+ * Every socket acts for the user authenticated during its handshake.
+ */
+
+import {
+  gameRooms,
+  playerSessions,
+  updatePlayerSession,
+  removePlayerSession,
+  getPlayerSession,
+  setSocketServer,
+  getContenderIds,
+  getLeadingContenderId,
+  getSoleContenderId,
+  type GameRoom
+} from './game-rooms'
+import { getRoomNodeUrl, hydrateGameRoom, transitionGameRoom } from './room-lifecycle'
+import { persistRoomStatus, persistTeamAssignment } from './game-persistence'
+import { recordGameEvent } from './game-events'
+import { loadQuestionById, loadRoomQuestion, markQuestionDelivered } from './question-source'
+import { saveRoomSnapshot } from './room-snapshot'
+import { getSpectatorCount, handleShadowAnswer, isSpectator } from './spectators'
+import { buildMonitorState, emitMonitorAnswer, getMonitorRoom } from './monitors'
+import { assignPlayerTeam } from './team-battle'
+import {
+  applySocketAuthentication,
+  authenticateSession,
+  canAdministerGame,
+  getSocketUser,
+  isGameParticipant,
+  type JoinAuthorizer,
+  type SocketAuthenticator
+} from './socket-auth'
+import {
+  buildStateSync,
+  closeAnsweredQuestion,
+  eliminateAbsentPlayer,
+  findPlayerByResumeToken,
+  issueResumeToken,
+  markPlayerDisconnected,
+  reclaimPlayerSeat
+} from './reconnect'
+import {
+  recordQuestionDelivery,
+  resolveAnswerTiming,
+  startLatencyPings
+} from './latency-tracker'
+import type { GameTransitionRefusal } from '../game/game-state'
+import type { AppErrorCode } from '../trpc/errors'
+import {
+  startQuestionTimer,
+  handleAnswerSubmission,
+  getActivePlayersCount,
+  getPlayerLives,
+  processQuestionResults,
+  finishGame
+} from './elimination-handler'
+import {
+  createSocketError,
+  parseClientPayload,
+  type ClientEventName,
+  type ClientEventPayload,
+  type QuizServer,
+  type QuizServerSocket,
+  type SocketErrorCode
+} from './events'
+import type {
+  AnswerReceivedData,
+  GameEndedData,
+  GameStartedData,
+  GameStartingData,
+  JoinedGameData,
+  NextQuestionData,
+  PlayerJoinedData,
+  PlayerLeftData,
+  Question,
+  ShadowAnswerReceivedData,
+  SpectatorCountData,
+  TeamAssignedData
+} from './types'
+
+const DEFAULT_START_COUNTDOWN_MS = 5000
+
+export type QuestionLoader = (gameRoom: GameRoom) => Promise<Question | null>
+
+export type SocketServerOptions = {
+  // Source of the question for the room's current position, the database by default
+  loadQuestion?: QuestionLoader
+  // Delay between start-game and the game starting
+  startCountdownMs?: number
+  // Resolves the user behind each connection, the NextAuth session by default
+  authenticate?: SocketAuthenticator
+  // Decides who may take a seat, GameParticipants by default
+  authorizeJoin?: JoinAuthorizer
+}
+
+/**
+ * Send a question to each player socket in the room, stamping when it was delivered
+ */
+const deliverQuestion = async (
+  io: QuizServer,
+  gameRoom: GameRoom,
+  question: Question,
+  { isFinalQuestion, timeLimit }: { isFinalQuestion: boolean; timeLimit: number }
+): Promise<void> => {
+  const nextQuestion: NextQuestionData = {
+    questionNumber: gameRoom.currentQuestion,
+    question: {
+      id: question.id,
+      text: question.text,
+      ...(question.format && { format: question.format }),
+      optionA: question.optionA,
+      optionB: question.optionB,
+      optionC: question.optionC,
+      optionD: question.optionD,
+      ...(question.unit && { unit: question.unit }),
+      ...(question.difficulty && { difficulty: question.difficulty })
+    },
+    timeLimit,
+    isFinalQuestion,
+    isFinalShowdown: gameRoom.phase !== 'normal',
+    isSuddenDeath: gameRoom.phase === 'sudden_death',
+    tiebreakPlayers: gameRoom.tiebreakPlayers,
+    activePlayersCount: getActivePlayersCount(gameRoom),
+    startingLives: gameRoom.startingLives,
+    lives: getPlayerLives(gameRoom)
+  }
+
+  gameRoom.deliveredQuestion = nextQuestion
+  gameRoom.questionDeliveries.clear()
+  const roomSockets = await io.in(gameRoom.code).fetchSockets()
+  roomSockets.forEach(roomSocket => {
+    roomSocket.emit('next-question', nextQuestion)
+
+    const roomPlayerSession = getPlayerSession(roomSocket.id)
+    if (roomPlayerSession) {
+      recordQuestionDelivery(gameRoom, roomPlayerSession.playerId)
+    }
+  })
+}
+
+/**
+ * Drop the sessions of a player's earlier sockets, so their late disconnects
+ * do not mark the player as disconnected again
+ */
+const releaseStaleSessions = (playerId: string, socketId: string): void => {
+  playerSessions.forEach((playerSession, sessionSocketId) => {
+    if (playerSession.playerId === playerId && sessionSocketId !== socketId) {
+      removePlayerSession(sessionSocketId)
+    }
+  })
+}
+
+/**
+ * Tell the room (and its monitor) how many spectators are watching
+ */
+const emitSpectatorCount = (io: QuizServer, gameRoom: GameRoom): void => {
+  const data: SpectatorCountData = { spectatorCount: getSpectatorCount(gameRoom) }
+  io.to(gameRoom.code).emit('spectator-count', data)
+}
+
+/**
+ * Put a player on a team and record it on their GameParticipant record.
+ * Returns null in individual games.
+ */
+const joinTeam = (gameRoom: GameRoom, playerId: string, requestedTeamId?: string | null): string | null => {
+  const teamId = assignPlayerTeam(gameRoom, playerId, requestedTeamId)
+  if (teamId) {
+    persistTeamAssignment(gameRoom, playerId, teamId).catch(error => {
+      console.error('Error saving team assignment:', error)
+    })
+  }
+  return teamId
+}
+
+/**
+ * Listen for a client event, validating its payload against the event contract first.
+ * Invalid payloads are refused with an INVALID_PAYLOAD error and never reach the handler.
+ */
+const onClientEvent = <E extends ClientEventName>(
+  socket: QuizServerSocket,
+  event: E,
+  handler: (data: ClientEventPayload<E>) => void | Promise<void>
+): void => {
+  const listener = (data: unknown) => {
+    const result = parseClientPayload(event, data)
+    if (!result.success) {
+      socket.emit('error', result.error)
+      return
+    }
+
+    void handler(result.data)
+  }
+
+  // The listener takes any payload, so it fits the listener of every client event
+  socket.on<ClientEventName>(event, listener)
+}
+
+/**
+ * Register the quiz event handlers on a Socket.io server
+ */
+export const registerSocketHandlers = (
+  io: QuizServer,
+  {
+    loadQuestion = loadRoomQuestion,
+    startCountdownMs = DEFAULT_START_COUNTDOWN_MS,
+    authenticate = authenticateSession,
+    authorizeJoin = isGameParticipant
+  }: SocketServerOptions = {}
+): void => {
+  setSocketServer(io)
+  applySocketAuthentication(io, authenticate)
+  const countdownSeconds = Math.ceil(startCountdownMs / 1000)
+
+  io.on('connection', (socket) => {
+    // The player and admin identity always comes from the session, never from event payloads
+    const user = getSocketUser(socket)
+    console.log(`🔌 User connected: ${socket.id} (${user.id})`)
+
+    // Measure round-trip latency for answer timing compensation
+    const stopLatencyPings = startLatencyPings(socket)
+
+    // Refuse a client request with a structured error
+    const refuse = (
+      event: ClientEventName,
+      code: SocketErrorCode,
+      message: string,
+      appErrorCode?: AppErrorCode
+    ): void => {
+      socket.emit('error', {
+        ...createSocketError(code, message, event),
+        ...(appErrorCode && { appErrorCode })
+      })
+    }
+
+    // Send the client to the node running a room this node could not load
+    const redirectToRoomNode = async (gameCode: string): Promise<boolean> => {
+      const url = await getRoomNodeUrl(gameCode)
+      if (!url) return false
+
+      socket.emit('room-moved', { gameCode, url })
+      return true
+    }
+
+    // Refuse an admin action the game state machine does not allow
+    const refuseTransition = ({ errorCode, message }: GameTransitionRefusal): void => {
+      refuse('admin-action', 'INVALID_STATE', message, errorCode)
+    }
+
+    // Handle player joining a game room
+    onClientEvent(socket, 'join-game', async (data) => {
+      const { gameCode } = data
+      const playerId = user.id
+      const playerName = user.name
+      
+      try {
+        // Check if game room exists, loading it from its GameSession if needed
+        const gameRoom = await hydrateGameRoom(gameCode)
+        if (!gameRoom) {
+          if (!await redirectToRoomNode(gameCode)) {
+            refuse('join-game', 'NOT_FOUND', 'Game room not found')
+          }
+          return
+        }
+
+        // Players already in the game may rejoin, e.g. after a server restart
+        const isReturningPlayer = gameRoom.playerLives.has(playerId) || gameRoom.eliminatedPlayers.has(playerId)
+
+        // The signed-in owner of a held seat takes it back even without the tab's resume token
+        if (gameRoom.disconnectedPlayers.has(playerId)) {
+          releaseStaleSessions(playerId, socket.id)
+          await socket.join(gameCode)
+          reclaimPlayerSeat(gameRoom, playerId, io)
+          updatePlayerSession(socket.id, {
+            playerId,
+            gameCode,
+            socketId: socket.id,
+            isActive: true
+          })
+
+          // The old token may sit in a tab that is gone: issue a new one
+          gameRoom.resumeTokens.delete(playerId)
+          const joinedGame: JoinedGameData = {
+            gameCode,
+            playerCount: gameRoom.players.size,
+            maxPlayers: gameRoom.maxPlayers,
+            status: gameRoom.status,
+            role: 'player',
+            resumeToken: issueResumeToken(gameRoom, playerId),
+            teams: gameRoom.teams,
+            teamId: gameRoom.playerTeams.get(playerId) ?? null
+          }
+          socket.emit('joined-game', joinedGame)
+          socket.emit('state-sync', buildStateSync(gameRoom, playerId))
+
+          console.log(`🔄 Player ${playerName} reclaimed their seat in game ${gameCode}`)
+          return
+        }
+
+        if (!isReturningPlayer && gameRoom.status === 'finished') {
+          refuse('join-game', 'INVALID_STATE', 'Game has already finished')
+          return
+        }
+
+        // Latecomers watch the running game as spectators
+        if (!isReturningPlayer && gameRoom.status !== 'waiting') {
+          await socket.join(gameCode)
+          gameRoom.spectators.add(playerId)
+          updatePlayerSession(socket.id, {
+            playerId,
+            gameCode,
+            socketId: socket.id,
+            isActive: true
+          })
+
+          const joinedGame: JoinedGameData = {
+            gameCode,
+            playerCount: gameRoom.players.size,
+            maxPlayers: gameRoom.maxPlayers,
+            status: gameRoom.status,
+            role: 'spectator',
+            teams: gameRoom.teams,
+            teamId: null
+          }
+          socket.emit('joined-game', joinedGame)
+          socket.emit('state-sync', buildStateSync(gameRoom, playerId))
+          emitSpectatorCount(io, gameRoom)
+
+          console.log(`👀 Spectator ${playerName} joined game ${gameCode}`)
+          return
+        }
+
+        if (!isReturningPlayer && !await authorizeJoin(user, gameRoom)) {
+          refuse('join-game', 'FORBIDDEN', 'Join the game before entering its room')
+          return
+        }
+
+        // Check if room is full
+        if (!isReturningPlayer && gameRoom.players.size >= gameRoom.maxPlayers) {
+          refuse('join-game', 'INVALID_STATE', 'Game room is full')
+          return
+        }
+
+        // Add player to room
+        await socket.join(gameCode)
+        gameRoom.players.add(playerId)
+        gameRoom.playerNames.set(playerId, playerName)
+        if (!gameRoom.playerLives.has(playerId)) {
+          gameRoom.playerLives.set(playerId, gameRoom.startingLives)
+        }
+        recordGameEvent(gameRoom, { type: 'player-joined', playerId, playerName })
+
+        // Team battles: players pick a team in the lobby or are balanced onto the smallest one
+        const teamId = joinTeam(gameRoom, playerId, gameRoom.status === 'waiting' ? data.teamId : null)
+        
+        // Update player session
+        updatePlayerSession(socket.id, {
+          playerId,
+          gameCode,
+          socketId: socket.id,
+          isActive: true
+        })
+
+        // Notify all players in the room
+        const playerJoined: PlayerJoinedData = {
+          playerId,
+          playerName,
+          playerCount: gameRoom.players.size,
+          maxPlayers: gameRoom.maxPlayers,
+          teamId
+        }
+        io.to(gameCode).emit('player-joined', playerJoined)
+
+        // Send room info to the joining player
+        const joinedGame: JoinedGameData = {
+          gameCode,
+          playerCount: gameRoom.players.size,
+          maxPlayers: gameRoom.maxPlayers,
+          status: gameRoom.status,
+          role: 'player',
+          resumeToken: issueResumeToken(gameRoom, playerId),
+          teams: gameRoom.teams,
+          teamId
+        }
+        socket.emit('joined-game', joinedGame)
+        if (isReturningPlayer) {
+          socket.emit('state-sync', buildStateSync(gameRoom, playerId))
+        }
+
+        console.log(`👤 Player ${playerName} joined game ${gameCode}`)
+      } catch (error) {
+        console.error('Error joining game:', error)
+        refuse('join-game', 'INTERNAL_ERROR', 'Failed to join game')
+      }
+    })
+
+    // Handle a reconnecting socket reclaiming a player's seat
+    onClientEvent(socket, 'resume-session', async (data) => {
+      const { gameCode, resumeToken } = data
+
+      try {
+        const gameRoom = await hydrateGameRoom(gameCode)
+        if (!gameRoom && await redirectToRoomNode(gameCode)) return
+
+        const playerId = gameRoom ? findPlayerByResumeToken(gameRoom, resumeToken) : null
+        // A resume token only reclaims the signed-in user's own seat
+        if (!gameRoom || !playerId || playerId !== user.id) {
+          socket.emit('resume-failed', { message: 'Session cannot be resumed' })
+          return
+        }
+
+        releaseStaleSessions(playerId, socket.id)
+        await socket.join(gameCode)
+        reclaimPlayerSeat(gameRoom, playerId, io)
+        updatePlayerSession(socket.id, {
+          playerId,
+          gameCode,
+          socketId: socket.id,
+          isActive: true
+        })
+
+        // Answers keep being timed from the original delivery of the open question
+        socket.emit('state-sync', buildStateSync(gameRoom, playerId))
+
+        console.log(`🔄 Player ${playerId} resumed game ${gameCode}`)
+      } catch (error) {
+        console.error('Error resuming session:', error)
+        socket.emit('resume-failed', { message: 'Failed to resume session' })
+      }
+    })
+
+    // Handle the big screen following a game read-only
+    onClientEvent(socket, 'join-monitor', async (data) => {
+      const { gameCode } = data
+
+      try {
+        const gameRoom = await hydrateGameRoom(gameCode)
+        if (!gameRoom) {
+          if (!await redirectToRoomNode(gameCode)) {
+            refuse('join-monitor', 'NOT_FOUND', 'Game room not found')
+          }
+          return
+        }
+
+        // Monitors see answers as they come in, so only the game's administrators may open one
+        if (!canAdministerGame(user, gameRoom)) {
+          refuse('join-monitor', 'FORBIDDEN', 'Unauthorized monitor')
+          return
+        }
+
+        // Monitors hold no player session: they never answer and never count as players
+        await socket.join([gameCode, getMonitorRoom(gameCode)])
+        socket.emit('monitor-state', buildMonitorState(gameRoom))
+
+        console.log(`🖥️ Monitor joined game ${gameCode}`)
+      } catch (error) {
+        console.error('Error joining monitor:', error)
+        refuse('join-monitor', 'INTERNAL_ERROR', 'Failed to join monitor')
+      }
+    })
+
+    // Handle a player switching teams in the lobby
+    onClientEvent(socket, 'choose-team', (data) => {
+      const { gameCode, teamId } = data
+      const playerId = user.id
+
+      const gameRoom = gameRooms.get(gameCode)
+      if (
+        !gameRoom ||
+        gameRoom.status !== 'waiting' ||
+        !gameRoom.players.has(playerId) ||
+        !gameRoom.teams.some(team => team.id === teamId)
+      ) {
+        refuse('choose-team', 'INVALID_STATE', 'Cannot choose this team')
+        return
+      }
+
+      joinTeam(gameRoom, playerId, teamId)
+      const teamAssigned: TeamAssignedData = { playerId, teamId }
+      io.to(gameCode).emit('team-assigned', teamAssigned)
+    })
+
+    // Handle player leaving a game room
+    onClientEvent(socket, 'leave-game', async (data) => {
+      const { gameCode } = data
+      const playerId = user.id
+      
+      try {
+        const gameRoom = gameRooms.get(gameCode)
+        if (gameRoom && gameRoom.spectators.has(playerId)) {
+          await socket.leave(gameCode)
+          gameRoom.spectators.delete(playerId)
+          emitSpectatorCount(io, gameRoom)
+        } else if (gameRoom) {
+          await socket.leave(gameCode)
+          // Leaving a running game forfeits it
+          const isRunning = gameRoom.status === 'in_progress' || gameRoom.status === 'paused'
+          if (isRunning) {
+            eliminateAbsentPlayer(gameRoom, playerId)
+          }
+          gameRoom.players.delete(playerId)
+          gameRoom.resumeTokens.delete(playerId)
+          gameRoom.playerTeams.delete(playerId)
+          recordGameEvent(gameRoom, { type: 'player-left', playerId })
+          
+          // Notify remaining players
+          const playerLeft: PlayerLeftData = { playerId, playerCount: gameRoom.players.size }
+          io.to(gameCode).emit('player-left', playerLeft)
+          if (gameRoom.eliminatedPlayers.has(playerId)) {
+            emitSpectatorCount(io, gameRoom)
+          }
+          if (isRunning) {
+            closeAnsweredQuestion(gameRoom, io)
+          }
+        }
+
+        // Clean up player session
+        removePlayerSession(socket.id)
+        
+        console.log(`👤 Player ${playerId} left game ${gameCode}`)
+      } catch (error) {
+        console.error('Error leaving game:', error)
+      }
+    })
+
+    // Handle quiz answer submission with elimination logic
+    onClientEvent(socket, 'submit-answer', async (data) => {
+      const { gameCode, questionId, selectedAnswer, responseTime } = data
+      const playerId = user.id
+      const receivedAt = Date.now()
+      
+      try {
+        const gameRoom = gameRooms.get(gameCode)
+        if (!gameRoom) {
+          refuse('submit-answer', 'NOT_FOUND', 'Game room not found')
+          return
+        }
+
+        // Validate that game is in progress
+        if (gameRoom.status === 'paused') {
+          refuse('submit-answer', 'INVALID_STATE', 'Game is paused')
+          return
+        }
+
+        if (gameRoom.status !== 'in_progress') {
+          refuse('submit-answer', 'INVALID_STATE', 'Game is not in progress')
+          return
+        }
+
+        // Time the answer on the server; the client-reported response time is kept for auditing only
+        const timing = resolveAnswerTiming(gameRoom, playerId, socket.id, receivedAt)
+        if (!timing) {
+          refuse('submit-answer', 'INVALID_STATE', 'No question is open')
+          return
+        }
+
+        // Spectators' shadow answers are scored separately and never close the question
+        if (isSpectator(gameRoom, playerId)) {
+          const accepted = handleShadowAnswer(
+            gameRoom,
+            playerId,
+            questionId,
+            selectedAnswer,
+            responseTime,
+            timing
+          )
+
+          if (accepted) {
+            const shadowAnswerReceived: ShadowAnswerReceivedData = { questionId }
+            socket.emit('shadow-answer-received', shadowAnswerReceived)
+          } else {
+            refuse('submit-answer', 'INVALID_STATE', 'Invalid answer submission')
+          }
+          return
+        }
+
+        // Handle answer submission through elimination system
+        const success = handleAnswerSubmission(
+          gameRoom,
+          playerId,
+          questionId,
+          selectedAnswer,
+          responseTime,
+          timing
+        )
+
+        if (!success) {
+          refuse('submit-answer', 'INVALID_STATE', 'Invalid answer submission')
+          return
+        }
+
+        // Broadcast that answer was received (without revealing the answer)
+        const answerReceived: AnswerReceivedData = {
+          playerId,
+          questionId,
+          timestamp: new Date().toISOString(),
+          activeAnswersCount: gameRoom.activeAnswers.size,
+          totalActivePlayers: getActivePlayersCount(gameRoom)
+        }
+        io.to(gameCode).emit('answer-received', answerReceived)
+        emitMonitorAnswer(io, gameRoom, playerId)
+
+        // Check if all players who may answer have answered
+        if (
+          gameRoom.activeAnswers.size >= getContenderIds(gameRoom).length &&
+          gameRoom.currentQuestionData
+        ) {
+          // All players have answered - trigger immediate processing
+          processQuestionResults(
+            gameRoom,
+            gameRoom.currentQuestionData,
+            io,
+            gameRoom.currentQuestionData.isFinalQuestion
+          ).catch(error => {
+            console.error('Error processing immediate question results:', error)
+          })
+        }
+
+        console.log(`📝 Answer submitted: Player ${playerId} in game ${gameCode}`)
+      } catch (error) {
+        console.error('Error submitting answer:', error)
+        refuse('submit-answer', 'INTERNAL_ERROR', 'Failed to submit answer')
+      }
+    })
+
+    // Handle game admin actions
+    onClientEvent(socket, 'admin-action', async (data) => {
+      const { action, gameCode, payload } = data
+      
+      try {
+        // Only an admin who owns the game (or a super admin) may run it
+        const gameRoom = await hydrateGameRoom(gameCode)
+        if (!gameRoom && await redirectToRoomNode(gameCode)) return
+
+        if (!gameRoom || !canAdministerGame(user, gameRoom)) {
+          refuse('admin-action', 'FORBIDDEN', 'Unauthorized admin action')
+          return
+        }
+
+        recordGameEvent(gameRoom, {
+          type: 'admin-action',
+          action,
+          adminId: user.id,
+          ...(payload?.reason && { reason: payload.reason })
+        })
+
+        switch (action) {
+          case 'start-game': {
+            // games.start may already have moved the room to STARTING; the host still runs the countdown
+            if (gameRoom.status !== 'starting') {
+              const transition = transitionGameRoom(gameRoom, 'STARTING', { playerCount: gameRoom.players.size })
+              if (!transition.allowed) {
+                refuseTransition(transition)
+                return
+              }
+              await persistRoomStatus(gameRoom, 'STARTING', transition.effects)
+            }
+
+            const gameStarting: GameStartingData = {
+              countdown: countdownSeconds,
+              message: `Game starting in ${countdownSeconds} seconds!`
+            }
+            io.to(gameCode).emit('game-starting', gameStarting)
+            
+            // Start the game after countdown
+            setTimeout(() => {
+              // The game may have been ended or already started during the countdown
+              const transition = transitionGameRoom(gameRoom, 'IN_PROGRESS')
+              if (!transition.allowed) return
+
+              // The first next-question action delivers question 1
+              gameRoom.currentQuestion = 0
+              persistRoomStatus(gameRoom, 'IN_PROGRESS', transition.effects).catch(error => {
+                console.error('Error saving game status:', error)
+              })
+              const gameStarted: GameStartedData = {
+                currentQuestion: gameRoom.currentQuestion,
+                totalQuestions: gameRoom.totalQuestions
+              }
+              io.to(gameCode).emit('game-started', gameStarted)
+            }, startCountdownMs)
+            break
+          }
+
+          case 'next-question': {
+            if (gameRoom.status === 'paused') {
+              refuse('admin-action', 'INVALID_STATE', 'Game is paused')
+              return
+            }
+
+            if (gameRoom.status !== 'in_progress') {
+              refuse('admin-action', 'INVALID_STATE', 'Game is not in progress', 'GAME_NOT_STARTED')
+              return
+            }
+
+            gameRoom.currentQuestion += 1
+
+            const isFinalShowdown = gameRoom.phase !== 'normal'
+            // Questions and their answer keys always come from the question source,
+            // never from the admin's payload
+            const question = await loadQuestion(gameRoom)
+
+            if (!question) {
+              gameRoom.currentQuestion -= 1
+
+              // The showdown ran out of questions: settle it on the current standings
+              const transition = isFinalShowdown ? transitionGameRoom(gameRoom, 'FINISHED') : null
+              if (transition?.allowed) {
+                await finishGame(gameRoom, getLeadingContenderId(gameRoom), io, transition.effects)
+                return
+              }
+
+              refuse('admin-action', 'NOT_FOUND', 'No question available')
+              return
+            }
+
+            await markQuestionDelivered(gameRoom, question.id)
+
+            const isFinalQuestion = isFinalShowdown || gameRoom.currentQuestion >= gameRoom.totalQuestions
+
+            recordGameEvent(gameRoom, {
+              type: 'question-sent',
+              questionNumber: gameRoom.currentQuestion,
+              question: {
+                id: question.id,
+                text: question.text,
+                ...(question.format && { format: question.format }),
+                optionA: question.optionA,
+                optionB: question.optionB,
+                optionC: question.optionC,
+                optionD: question.optionD,
+                ...(question.unit && { unit: question.unit }),
+                correctAnswer: question.correctAnswer,
+                ...(question.difficulty && { difficulty: question.difficulty })
+              },
+              phase: gameRoom.phase,
+              isFinalQuestion,
+              tiebreakPlayers: gameRoom.tiebreakPlayers
+            })
+
+            await deliverQuestion(io, gameRoom, question, {
+              isFinalQuestion,
+              timeLimit: gameRoom.questionTimeLimit
+            })
+
+            // Start the elimination timer
+            startQuestionTimer(gameRoom, question, io, isFinalQuestion)
+            saveRoomSnapshot(gameRoom).catch(error => {
+              console.error('Error saving room snapshot:', error)
+            })
+            break
+          }
+
+          case 'end-game': {
+            // Games ended before they start are cancelled; ending clears any active timers
+            const status = gameRoom.status === 'waiting' ? 'CANCELLED' : 'FINISHED'
+            const transition = transitionGameRoom(gameRoom, status)
+            if (!transition.allowed) {
+              refuseTransition(transition)
+              return
+            }
+
+            if (status === 'FINISHED') {
+              // Games ended mid-way are still ranked and counted in the players' totals
+              await finishGame(gameRoom, getSoleContenderId(gameRoom), io, transition.effects)
+            } else {
+              await persistRoomStatus(gameRoom, status, transition.effects)
+            }
+            const gameEnded: GameEndedData = { reason: payload?.reason || 'Game ended by admin' }
+            io.to(gameCode).emit('game-ended', gameEnded)
+            break
+          }
+
+          case 'pause-game': {
+            // Freezes the question timer so nobody is eliminated while paused
+            const transition = transitionGameRoom(gameRoom, 'PAUSED', {
+              ...(payload?.reason && { reason: payload.reason })
+            })
+            if (!transition.allowed) {
+              refuseTransition(transition)
+              return
+            }
+
+            await persistRoomStatus(gameRoom, 'PAUSED', transition.effects)
+            break
+          }
+
+          case 'resume-game': {
+            if (gameRoom.status !== 'paused') {
+              refuse('admin-action', 'INVALID_STATE', 'Game is not paused', 'INVALID_STATE_TRANSITION')
+              return
+            }
+
+            // Players rejoining after a restart never received the open question: send it again
+            const recoveredQuestion = gameRoom.resumePending ? gameRoom.currentQuestionData : null
+            const remainingMs = gameRoom.pausedRemainingMs
+            if (recoveredQuestion && remainingMs !== null) {
+              const question = await loadQuestionById(recoveredQuestion.id)
+              if (question) {
+                await deliverQuestion(io, gameRoom, question, {
+                  isFinalQuestion: recoveredQuestion.isFinalQuestion,
+                  timeLimit: Math.ceil(remainingMs / 1000)
+                })
+              }
+            }
+
+            // Restarts the frozen question timer
+            const transition = transitionGameRoom(gameRoom, 'IN_PROGRESS')
+            if (!transition.allowed) {
+              refuseTransition(transition)
+              return
+            }
+
+            await persistRoomStatus(gameRoom, 'IN_PROGRESS', transition.effects)
+            break
+          }
+        }
+
+        console.log(`🎮 Admin action: ${action} in game ${gameCode}`)
+      } catch (error) {
+        console.error('Error handling admin action:', error)
+        refuse('admin-action', 'INTERNAL_ERROR', 'Failed to run admin action')
+      }
+    })
+
+    // Handle disconnection
+    socket.on('disconnect', () => {
+      stopLatencyPings()
+      const playerSession = getPlayerSession(socket.id)
+      if (playerSession && playerSession.gameCode) {
+        const gameRoom = gameRooms.get(playerSession.gameCode)
+        if (gameRoom && gameRoom.spectators.has(playerSession.playerId)) {
+          // Spectators hold no seat
+          gameRoom.spectators.delete(playerSession.playerId)
+          emitSpectatorCount(io, gameRoom)
+        } else if (gameRoom && gameRoom.status !== 'finished') {
+          // Hold the seat for the grace window instead of eliminating the player
+          markPlayerDisconnected(gameRoom, playerSession.playerId, io)
+        }
+      }
+      
+      removePlayerSession(socket.id)
+      console.log(`🔌 User disconnected: ${socket.id}`)
+    })
+  })
+}
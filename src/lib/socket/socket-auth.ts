@@ -0,0 +1,152 @@
+/**
+ * Socket.io Authentication
+ *
+ * Verifies the NextAuth session JWT during the connection handshake and
+ * attaches the signed-in user to the socket. Handlers act for this user only;
+ * identities sent in event payloads are never trusted.
+ */
+
+import type { Socket } from 'socket.io'
+import { decode } from 'next-auth/jwt'
+import { prisma } from '@/lib/prisma'
+import { UserRoleSchema, type UserRole } from '@/schemas/gameSchemas'
+import type { QuizServer, QuizServerSocket } from './events'
+import type { GameRoom } from './game-rooms'
+
+export type SocketUser = {
+  id: string
+  // Display name shown to the other players
+  name: string
+  role: UserRole
+}
+
+// Per-socket data set by the handshake middleware
+export type SocketData = {
+  user: SocketUser
+}
+
+export type SocketHandshake = Socket['handshake']
+
+// Resolves the user a connecting socket acts for, null to refuse the connection
+export type SocketAuthenticator = (handshake: SocketHandshake) => Promise<SocketUser | null>
+
+// Decides whether a user may take a seat in a game's room
+export type JoinAuthorizer = (user: SocketUser, gameRoom: GameRoom) => Promise<boolean>
+
+export const UNAUTHORIZED_MESSAGE = 'Unauthorized'
+
+const BEARER_PREFIX = 'Bearer '
+
+/**
+ * Read a Cookie header into name/value pairs
+ */
+export const parseCookieHeader = (header: string | undefined): Record<string, string> => {
+  if (!header) return {}
+
+  return Object.fromEntries(
+    header
+      .split(';')
+      .map(pair => pair.trim())
+      .filter(pair => pair.includes('='))
+      .map(pair => {
+        const separator = pair.indexOf('=')
+        return [pair.slice(0, separator), decodeURIComponent(pair.slice(separator + 1))]
+      })
+  )
+}
+
+// NextAuth prefixes its session cookie when the site is served over HTTPS
+const getSessionCookieName = (): string => process.env.NEXTAUTH_URL?.startsWith('https://')
+  ? '__Secure-next-auth.session-token'
+  : 'next-auth.session-token'
+
+/**
+ * Read the session JWT sent with the handshake: the NextAuth session cookie,
+ * joined back together when NextAuth split it into chunks, or a Bearer token
+ */
+export const readSessionToken = (handshake: SocketHandshake): string | null => {
+  const cookies = parseCookieHeader(handshake.headers.cookie)
+  const cookieName = getSessionCookieName()
+  const chunkIndex = (name: string) => Number(name.slice(cookieName.length + 1))
+  const chunks = Object.keys(cookies)
+    .filter(name => name.startsWith(`${cookieName}.`))
+    .sort((a, b) => chunkIndex(a) - chunkIndex(b))
+    .map(name => cookies[name])
+  const sessionCookie = cookies[cookieName] ?? chunks.join('')
+  if (sessionCookie) return sessionCookie
+
+  const authorization = handshake.headers.authorization
+  return authorization?.startsWith(BEARER_PREFIX) ? authorization.slice(BEARER_PREFIX.length) : null
+}
+
+/**
+ * Authenticate with the NextAuth session cookie (or a Bearer token) sent with the handshake
+ */
+export const authenticateSession: SocketAuthenticator = async (handshake) => {
+  const sessionToken = readSessionToken(handshake)
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!sessionToken || !secret) return null
+
+  // Tokens that fail to decrypt are refused like a missing session
+  const token = await decode({ token: sessionToken, secret }).catch(() => null)
+  const role = UserRoleSchema.safeParse(token?.role)
+  if (!token?.id || !role.success) return null
+
+  return { id: token.id, name: token.name || token.id, role: role.data }
+}
+
+/**
+ * Refuse connections the authenticator does not accept and store the user on the socket
+ */
+export const applySocketAuthentication = (io: QuizServer, authenticate: SocketAuthenticator): void => {
+  io.use((socket, next) => {
+    authenticate(socket.handshake)
+      .then(user => {
+        if (!user) {
+          next(new Error(UNAUTHORIZED_MESSAGE))
+          return
+        }
+
+        socket.data = { user }
+        next()
+      })
+      .catch(error => {
+        console.error('Error authenticating socket:', error)
+        next(new Error(UNAUTHORIZED_MESSAGE))
+      })
+  })
+}
+
+/**
+ * Get the user a connected socket acts for
+ */
+export const getSocketUser = (socket: QuizServerSocket): SocketUser => {
+  return socket.data.user
+}
+
+export const isAdminRole = (role: UserRole): boolean => {
+  return role === 'ADMIN' || role === 'SUPER_ADMIN'
+}
+
+/**
+ * Admins run their own games; super admins may run any game
+ */
+export const canAdministerGame = (user: SocketUser, gameRoom: GameRoom): boolean => {
+  if (user.role === 'SUPER_ADMIN') return true
+  return isAdminRole(user.role) && gameRoom.adminId === user.id
+}
+
+/**
+ * Players take a seat once the API has recorded them as a GameParticipant;
+ * the game's admins may always join
+ */
+export const isGameParticipant: JoinAuthorizer = async (user, gameRoom) => {
+  if (canAdministerGame(user, gameRoom)) return true
+  if (!gameRoom.gameSessionId) return false
+
+  const participant = await prisma.gameParticipant.findUnique({
+    where: { gameId_playerId: { gameId: gameRoom.gameSessionId, playerId: user.id } },
+    select: { id: true }
+  })
+  return participant !== null
+}
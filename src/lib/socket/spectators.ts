@@ -0,0 +1,91 @@
+/**
+ * Spectators
+ *
+ * Eliminated players and latecomers who join after the start watch the game as
+ * spectators. They receive questions, timers and results like everyone else and
+ * may send shadow answers, which are scored on a separate table and never
+ * affect elimination.
+ */
+
+import { createPlayerAnswer, judgeAnswers } from '../game/elimination-logic'
+import type { AnswerTiming } from '../game/latency'
+import type { QuestionFormat } from '../game/question-formats'
+import { scoreQuestion, type QuestionDifficulty, type ScoreAward } from '../game/scoring'
+import type { GameRoom } from './game-rooms'
+
+/**
+ * Check whether a player only watches: a latecomer or an eliminated player
+ */
+export const isSpectator = (gameRoom: GameRoom, playerId: string): boolean => {
+  return gameRoom.spectators.has(playerId) || gameRoom.eliminatedPlayers.has(playerId)
+}
+
+/**
+ * Get every spectator: latecomers first, then eliminated players still in the room
+ */
+export const getSpectatorIds = (gameRoom: GameRoom): string[] => {
+  const eliminated = Array.from(gameRoom.players).filter(playerId => gameRoom.eliminatedPlayers.has(playerId))
+  return [...gameRoom.spectators, ...eliminated]
+}
+
+export const getSpectatorCount = (gameRoom: GameRoom): number => {
+  return getSpectatorIds(gameRoom).length
+}
+
+/**
+ * Record a spectator's shadow answer to the open question.
+ * Returns false for non-spectators, closed or paused questions and repeat answers.
+ */
+export const handleShadowAnswer = (
+  gameRoom: GameRoom,
+  playerId: string,
+  questionId: string,
+  selectedAnswer: string,
+  responseTime: number,
+  timing?: AnswerTiming
+): boolean => {
+  if (
+    !isSpectator(gameRoom, playerId) ||
+    gameRoom.status !== 'in_progress' ||
+    gameRoom.currentQuestionId !== questionId ||
+    gameRoom.questionEndsAt === null ||
+    gameRoom.shadowAnswers.has(playerId)
+  ) {
+    return false
+  }
+
+  gameRoom.shadowAnswers.set(
+    playerId,
+    createPlayerAnswer(playerId, questionId, selectedAnswer, responseTime, timing)
+  )
+  return true
+}
+
+/**
+ * Score the spectators' shadow answers to a closed question with the game's point table
+ * and update their shadow totals
+ */
+export const scoreShadowAnswers = (
+  gameRoom: GameRoom,
+  question: { id: string; correctAnswer: string; format?: QuestionFormat; difficulty?: QuestionDifficulty },
+  timeLimit: number
+): ScoreAward[] => {
+  const { answers } = judgeAnswers(
+    Array.from(gameRoom.shadowAnswers.values()).filter(answer => answer.questionId === question.id),
+    question.correctAnswer,
+    question.format
+  )
+
+  const awards = scoreQuestion(answers, getSpectatorIds(gameRoom), gameRoom.shadowScores, {
+    timeLimit,
+    difficulty: question.difficulty,
+    table: gameRoom.scoreTable
+  })
+
+  awards.forEach(({ playerId, total, streak }) => {
+    gameRoom.shadowScores.set(playerId, { total, streak })
+  })
+  gameRoom.shadowAnswers.clear()
+
+  return awards
+}
@@ -0,0 +1,94 @@
+/**
+ * Team Battles
+ *
+ * Team assignment and team-level outcomes for live rooms. Players keep being
+ * eliminated one by one; on top of that a last-team-standing battle ends once a
+ * single team has members left, and every team battle reports team standings.
+ * Rooms without a team scoring play as individuals.
+ */
+
+import {
+  buildTeamStandings,
+  findEliminatedTeams,
+  getTeamMembers,
+  pickBalancedTeam,
+  type Team,
+  type TeamStanding
+} from '../game/teams'
+import type { GameRoom } from './game-rooms'
+
+export const isTeamGame = (gameRoom: GameRoom): boolean => {
+  return gameRoom.teamScoring !== null && gameRoom.teams.length > 0
+}
+
+/**
+ * Put a player on a team: the requested team when it exists, otherwise the
+ * player's current team or the smallest team. Returns null in individual games.
+ */
+export const assignPlayerTeam = (
+  gameRoom: GameRoom,
+  playerId: string,
+  requestedTeamId?: string | null
+): string | null => {
+  if (!isTeamGame(gameRoom)) return null
+
+  const requested = gameRoom.teams.find(team => team.id === requestedTeamId)
+  const teamId = requested?.id ??
+    gameRoom.playerTeams.get(playerId) ??
+    pickBalancedTeam(gameRoom.teams, gameRoom.playerTeams)
+
+  if (teamId) {
+    gameRoom.playerTeams.set(playerId, teamId)
+  }
+  return teamId
+}
+
+/**
+ * Record the teams whose last member has just been eliminated and return them
+ */
+export const markEliminatedTeams = (gameRoom: GameRoom): Team[] => {
+  if (!isTeamGame(gameRoom)) return []
+
+  const teamIds = findEliminatedTeams(gameRoom.teams, gameRoom.playerTeams, gameRoom.eliminatedPlayers)
+    .filter(teamId => !gameRoom.teamEliminations.has(teamId))
+  teamIds.forEach(teamId => gameRoom.teamEliminations.set(teamId, gameRoom.currentQuestion))
+
+  return gameRoom.teams.filter(team => teamIds.includes(team.id))
+}
+
+/**
+ * Check whether a last-team-standing battle is decided: of the teams that
+ * played, at most one has members left
+ */
+export const isTeamBattleDecided = (gameRoom: GameRoom): boolean => {
+  if (!isTeamGame(gameRoom) || gameRoom.teamScoring !== 'LAST_TEAM_STANDING') return false
+
+  const playingTeams = gameRoom.teams.filter(team => getTeamMembers(team.id, gameRoom.playerTeams).length > 0)
+  const survivingTeams = playingTeams.filter(team => !gameRoom.teamEliminations.has(team.id))
+
+  return playingTeams.length > 1 && survivingTeams.length <= 1
+}
+
+/**
+ * Pick the individual winner of a decided team battle: the survivor with the most points
+ */
+export const pickTeamBattleWinner = (gameRoom: GameRoom, survivors: string[]): string | null => {
+  const score = (playerId: string) => gameRoom.playerScores.get(playerId)?.total ?? 0
+  const [best] = [...survivors].sort((a, b) => score(b) - score(a))
+  return best ?? null
+}
+
+/**
+ * Rank the room's teams; empty in individual games
+ */
+export const getTeamStandings = (gameRoom: GameRoom, winnerId: string | null = null): TeamStanding[] => {
+  if (!isTeamGame(gameRoom) || !gameRoom.teamScoring) return []
+
+  return buildTeamStandings(gameRoom.teams, gameRoom.teamScoring, {
+    playerTeams: gameRoom.playerTeams,
+    eliminatedPlayers: gameRoom.eliminatedPlayers,
+    playerScores: gameRoom.playerScores,
+    teamEliminations: gameRoom.teamEliminations,
+    winnerId
+  })
+}
@@ -3,17 +3,33 @@
  * Shared between client and context
  */
 
-export type GameStatus = 'waiting' | 'starting' | 'in_progress' | 'finished'
+import type { PlayerElimination } from '../game/elimination-rules'
+import type { GamePhase } from '../game/final-showdown'
+import type { RoomStatus } from '../game/game-state'
+import type { LifeLoss } from '../game/lives'
+import type { NumericRankingEntry } from '../game/numeric-answers'
+import type { QuestionFormat } from '../game/question-formats'
+import type { RankingEntry } from '../game/ranking'
+import type { QuestionDifficulty, ScoreAward } from '../game/scoring'
+import type { Team, TeamStanding } from '../game/teams'
+import type { TiebreakReason } from '../game/tiebreak'
+
+export type GameStatus = RoomStatus
 
 export type Question = {
   id: string
   text: string
-  optionA: string
-  optionB: string
-  optionC: string
-  optionD: string
+  // How the question is answered (multiple choice when absent)
+  format?: QuestionFormat
+  optionA: string | null
+  optionB: string | null
+  optionC: string | null
+  optionD: string | null
+  // Numeric questions: unit shown after the guesses
+  unit?: string | null
   correctAnswer: string
   explanation?: string
+  difficulty?: QuestionDifficulty
 }
 
 export type Player = {
@@ -24,18 +40,142 @@ export type Player = {
   isConnected?: boolean
 }
 
-export type AdminPayload = 
-  | { type: 'start-game'; countdown?: number }
-  | { type: 'next-question'; questionId?: string }
-  | { type: 'end-game'; reason?: string }
-  | { type: 'pause-game'; reason?: string }
-  | Record<string, unknown>
+// Client requests are validated with the schemas in @/schemas/socketSchemas
+export type {
+  AdminActionPayload,
+  AdminActionRequest,
+  AdminActionType,
+  ChooseTeamRequest,
+  JoinGameRequest,
+  JoinMonitorRequest,
+  LeaveGameRequest,
+  PlayerAnswerSubmission,
+  ResumeSessionRequest
+} from '@/schemas/socketSchemas'
 
 export type JoinedGameData = {
   gameCode: string
   playerCount: number
   maxPlayers: number
   status: GameStatus
+  // Latecomers join a started game as spectators
+  role: 'player' | 'spectator'
+  // Presented with resume-session to reclaim the seat after a dropped connection (players only)
+  resumeToken?: string
+  // Team battles: every team and the one the player plays for
+  teams: Team[]
+  teamId: string | null
+}
+
+export type TeamAssignedData = {
+  playerId: string
+  teamId: string
+}
+
+export type ResumeFailedData = {
+  message: string
+}
+
+// The game runs on another realtime node: connect there and send the request again
+export type RoomMovedData = {
+  gameCode: string
+  url: string
+}
+
+export type NextQuestionData = {
+  questionNumber: number
+  question: Omit<Question, 'correctAnswer' | 'explanation'>
+  timeLimit: number
+  isFinalQuestion: boolean
+  isFinalShowdown: boolean
+  isSuddenDeath: boolean
+  tiebreakPlayers: string[]
+  activePlayersCount: number
+  startingLives: number
+  lives: Record<string, number>
+}
+
+// Sent to a socket that reclaimed a seat, so the player picks up where the room is
+export type StateSyncData = {
+  gameCode: string
+  playerId: string
+  status: GameStatus
+  playerCount: number
+  maxPlayers: number
+  totalQuestions: number
+  // The open question and the seconds left on it (null between questions)
+  question: NextQuestionData | null
+  remainingTime: number | null
+  // Answer already submitted for the open question
+  selectedAnswer: string | null
+  isEliminated: boolean
+  isSpectator: boolean
+  lives: number
+  score: number
+}
+
+export type MonitorPlayer = {
+  playerId: string
+  playerName: string
+  status: 'active' | 'eliminated' | 'disconnected'
+  lives: number
+  score: number
+  teamId: string | null
+}
+
+// Sent to monitors as each answer comes in; players only learn that someone answered
+export type MonitorAnswerData = {
+  playerId: string
+  questionId: string
+  selectedAnswer: string
+  // Server-measured response time in seconds
+  responseTime: number
+}
+
+// Sent to a monitor when it joins, so the big screen picks up where the room is
+export type MonitorStateData = {
+  gameCode: string
+  status: GameStatus
+  phase: GamePhase
+  // Players in join order, and the eliminated ones in elimination order
+  players: MonitorPlayer[]
+  eliminatedPlayers: string[]
+  spectatorCount: number
+  startingLives: number
+  currentQuestion: number
+  totalQuestions: number
+  // The open question, the seconds left on it and its answers so far (null between questions)
+  question: NextQuestionData | null
+  remainingTime: number | null
+  answers: MonitorAnswerData[]
+  tiebreakPlayers: string[]
+  tiebreakRound: number
+  // Team battles: every team and the current standings (empty in individual games)
+  teams: Team[]
+  teamStandings: TeamStanding[]
+}
+
+export type PlayerDisconnectedData = {
+  playerId: string
+  playerCount: number
+  activePlayersCount: number
+  // Seconds the player has to reconnect before losing the seat
+  graceSeconds: number
+}
+
+export type PlayerReconnectedData = {
+  playerId: string
+  playerCount: number
+}
+
+export type SpectatorCountData = {
+  spectatorCount: number
+}
+
+export type ReconnectExpiredData = {
+  playerId: string
+  playerCount: number
+  activePlayersCount: number
 }
 
 export type PlayerJoinedData = {
@@ -43,6 +183,8 @@ export type PlayerJoinedData = {
   playerName: string
   playerCount: number
   maxPlayers: number
+  // Team battles: the team the player was put on
+  teamId: string | null
 }
 
 export type PlayerLeftData = {
@@ -56,21 +198,71 @@ export type QuestionResult = {
   correctAnswer: string
   explanation?: string | undefined
   eliminatedPlayerId: string | null
+  eliminations: PlayerElimination[]
   winnerId: string | null
   correctAnswerers: string[]
   incorrectAnswerers: string[]
   survivors: string[]
+  lifeLosses: LifeLoss[]
+  // Remaining lives for every surviving player
+  lives: Record<string, number>
+  // Points scored this question and running totals for every contender
+  scores: ScoreAward[]
+  // Spectators' shadow answers, scored separately from the game
+  shadowScores: ScoreAward[]
+  // Team battles: current team standings (empty in individual games)
+  teamStandings: TeamStanding[]
+  // Numeric questions: every guess ranked by distance to the target (empty otherwise)
+  numericRanking: NumericRankingEntry[]
   isFinalQuestion: boolean
 }
 
 export type GameOverResult = {
   winnerId: string
-  finalRanking: Array<{
-    playerId: string
-    playerName: string
-    rank: number
-    questionsAnswered: number
-  }>
+  // Every participant, ordered by elimination round
+  finalRanking: RankingEntry[]
+  questionsPlayed: number
+  // Team battles: final team standings and the team that won outright
+  teamStandings: TeamStanding[]
+  winningTeamId: string | null
+}
+
+export type TeamEliminatedData = {
+  teamId: string
+  name: string
+  questionId: string
+}
+
+export type PlayerEliminatedData = PlayerElimination & {
+  questionId: string
+  correctAnswer: string
+}
+
+export type LifeLostData = LifeLoss & {
+  questionId: string
+}
+
+export type FinalShowdownData = {
+  survivors: string[]
+  threshold: number
+  message: string
+}
+
+export type SuddenDeathData = {
+  // Tied players who answer the next question
+  players: string[]
+  round: number
+  reason: TiebreakReason
+}
+
+export type GamePausedData = {
+  reason: string
+  // Seconds left on the frozen question (null between questions)
+  remainingTime: number | null
+}
+
+export type GameResumedData = {
+  remainingTime: number | null
 }
 
 export type TimerUpdate = {
@@ -78,10 +270,36 @@ export type TimerUpdate = {
   isUrgent: boolean
 }
 
-export type PlayerAnswerSubmission = {
-  gameCode: string
+// Broadcast when a player answers, without revealing the answer
+export type AnswerReceivedData = {
   playerId: string
   questionId: string
-  selectedAnswer: string
-  responseTime: number
-}
\ No newline at end of file
+  timestamp: string
+  activeAnswersCount: number
+  totalActivePlayers: number
+}
+
+// Sent to a spectator whose shadow answer was accepted
+export type ShadowAnswerReceivedData = {
+  questionId: string
+}
+
+export type GameStartingData = {
+  // Seconds until the game starts
+  countdown: number
+  message: string
+}
+
+export type GameStartedData = {
+  currentQuestion: number
+  totalQuestions: number
+}
+
+// The game was stopped before a winner was decided (see GameOverResult otherwise)
+export type GameEndedData = {
+  reason: string
+}
+
+export type GameRoomDeletedData = {
+  message: string
+}
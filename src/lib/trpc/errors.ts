@@ -26,6 +26,7 @@ export const APP_ERROR_CODES = {
   GAME_ALREADY_ENDED: 'GAME_ALREADY_ENDED',
   INVALID_GAME_CODE: 'INVALID_GAME_CODE',
   INSUFFICIENT_PLAYERS: 'INSUFFICIENT_PLAYERS',
+  INVALID_STATE_TRANSITION: 'INVALID_STATE_TRANSITION',
   
   // Question-related errors
   QUESTION_NOT_FOUND: 'QUESTION_NOT_FOUND',
@@ -70,6 +71,7 @@ export const ERROR_MESSAGES: Record<AppErrorCode, string> = {
   GAME_ALREADY_ENDED: 'This game has already ended',
   INVALID_GAME_CODE: 'Invalid game code',
   INSUFFICIENT_PLAYERS: 'Not enough players to start the game',
+  INVALID_STATE_TRANSITION: 'The game cannot move to the requested status',
   
   // Question-related errors
   QUESTION_NOT_FOUND: 'Question not found',
@@ -112,6 +114,7 @@ export const TRPC_ERROR_CODE_MAP: Record<AppErrorCode, TRPC_ERROR_CODE_KEY> = {
   GAME_ALREADY_ENDED: 'CONFLICT',
   INVALID_GAME_CODE: 'NOT_FOUND',
   INSUFFICIENT_PLAYERS: 'BAD_REQUEST',
+  INVALID_STATE_TRANSITION: 'CONFLICT',
   
   // Question-related errors
   QUESTION_NOT_FOUND: 'NOT_FOUND',
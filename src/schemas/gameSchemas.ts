@@ -1,4 +1,7 @@
 import { z } from 'zod'
+import { MAX_ANSWER_LENGTH, OPTION_LETTERS, QUESTION_FORMATS } from '@/lib/game/question-formats'
+import { MAX_TEAMS } from '@/lib/game/teams'
+import { refineQuestionAnswer } from './questionSchemas'
 
 // ============================================================================
 // User Schemas
@@ -31,32 +34,39 @@ export const UserStatsSchema = z.object({
 
 export const QuestionTypeSchema = z.enum(['NORMAL', 'FINAL'])
 export const QuestionDifficultySchema = z.enum(['EASY', 'MEDIUM', 'HARD'])
-export const AnswerOptionSchema = z.enum(['A', 'B', 'C', 'D'])
+export const QuestionFormatSchema = z.enum(QUESTION_FORMATS)
+export const AnswerOptionSchema = z.enum(OPTION_LETTERS)
+// An answer in the question format's notation (see lib/game/question-formats)
+export const AnswerSchema = z.string().min(1).max(MAX_ANSWER_LENGTH)
 
 export const CreateQuestionSchema = z.object({
   text: z.string().min(10, 'Question must be at least 10 characters').max(1000),
   type: QuestionTypeSchema.default('NORMAL'),
+  format: QuestionFormatSchema.default('MULTIPLE_CHOICE'),
   difficulty: QuestionDifficultySchema.default('MEDIUM'),
-  optionA: z.string().min(1, 'Option A is required').max(200),
-  optionB: z.string().min(1, 'Option B is required').max(200),
-  optionC: z.string().min(1, 'Option C is required').max(200),
-  optionD: z.string().min(1, 'Option D is required').max(200),
-  correctAnswer: AnswerOptionSchema,
+  optionA: z.string().max(200).nullish(),
+  optionB: z.string().max(200).nullish(),
+  optionC: z.string().max(200).nullish(),
+  optionD: z.string().max(200).nullish(),
+  correctAnswer: AnswerSchema,
+  unit: z.string().max(20).nullish(),
   explanation: z.string().max(500).optional(),
   category: z.string().max(100).optional(),
   tags: z.array(z.string().max(50)).default([]),
-})
+}).superRefine(refineQuestionAnswer)
 
 export const UpdateQuestionSchema = z.object({
   id: z.string().cuid(),
   text: z.string().min(10).max(1000).optional(),
   type: QuestionTypeSchema.optional(),
+  format: QuestionFormatSchema.optional(),
   difficulty: QuestionDifficultySchema.optional(),
-  optionA: z.string().min(1).max(200).optional(),
-  optionB: z.string().min(1).max(200).optional(),
-  optionC: z.string().min(1).max(200).optional(),
-  optionD: z.string().min(1).max(200).optional(),
-  correctAnswer: AnswerOptionSchema.optional(),
+  optionA: z.string().max(200).nullish(),
+  optionB: z.string().max(200).nullish(),
+  optionC: z.string().max(200).nullish(),
+  optionD: z.string().max(200).nullish(),
+  correctAnswer: AnswerSchema.optional(),
+  unit: z.string().max(20).nullish(),
   explanation: z.string().max(500).optional(),
   category: z.string().max(100).optional(),
   tags: z.array(z.string().max(50)).optional(),
@@ -65,6 +75,7 @@ export const UpdateQuestionSchema = z.object({
 
 export const QuestionFilterSchema = z.object({
   type: QuestionTypeSchema.optional(),
+  format: QuestionFormatSchema.optional(),
   difficulty: QuestionDifficultySchema.optional(),
   category: z.string().optional(),
   tags: z.array(z.string()).optional(),
@@ -87,12 +98,47 @@ export const GameStatusSchema = z.enum([
   'CANCELLED'
 ])
 
+export const EliminationRuleSchema = z.enum([
+  'SLOWEST_CORRECT',
+  'ALL_WRONG_OUT',
+  'BOTTOM_N',
+  'WRONG_OR_TIMEOUT_OUT'
+])
+
+export const TeamScoringSchema = z.enum([
+  'LAST_TEAM_STANDING',
+  'SPEED_POINTS'
+])
+
+export const TeamInputSchema = z.object({
+  name: z.string().min(1, 'Team name is required').max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex code').optional(),
+})
+
+export const EliminationReasonSchema = z.enum([
+  'wrong_answer',
+  'timeout',
+  'slowest_correct',
+  'fastest_incorrect'
+])
+
 export const CreateGameSessionSchema = z.object({
   name: z.string().min(1, 'Game name is required').max(100),
   maxPlayers: z.number().int().min(2).max(50).default(20),
   questionTimeLimit: z.number().int().min(5).max(60).default(10),
   isPublic: z.boolean().default(true),
   totalQuestions: z.number().int().min(5).max(50).default(10),
+  eliminationRule: EliminationRuleSchema.default('SLOWEST_CORRECT'),
+  eliminationCount: z.number().int().min(1).max(10).default(1),
+  startingLives: z.number().int().min(1).max(5).default(1),
+  pointsPerCorrect: z.number().int().min(0).max(1000).default(100),
+  speedBonusPoints: z.number().int().min(0).max(1000).default(50),
+  streakBonusPoints: z.number().int().min(0).max(1000).default(10),
+  easyMultiplier: z.number().min(0).max(10).default(1),
+  mediumMultiplier: z.number().min(0).max(10).default(1.5),
+  hardMultiplier: z.number().min(0).max(10).default(2),
+  teamScoring: TeamScoringSchema.optional(),
+  teams: z.array(TeamInputSchema).max(MAX_TEAMS).default([]),
 })
 
 export const UpdateGameSessionSchema = z.object({
@@ -102,6 +148,15 @@ export const UpdateGameSessionSchema = z.object({
   maxPlayers: z.number().int().min(2).max(50).optional(),
   questionTimeLimit: z.number().int().min(5).max(60).optional(),
   isPublic: z.boolean().optional(),
+  eliminationRule: EliminationRuleSchema.optional(),
+  eliminationCount: z.number().int().min(1).max(10).optional(),
+  startingLives: z.number().int().min(1).max(5).optional(),
+  pointsPerCorrect: z.number().int().min(0).max(1000).optional(),
+  speedBonusPoints: z.number().int().min(0).max(1000).optional(),
+  streakBonusPoints: z.number().int().min(0).max(1000).optional(),
+  easyMultiplier: z.number().min(0).max(10).optional(),
+  mediumMultiplier: z.number().min(0).max(10).optional(),
+  hardMultiplier: z.number().min(0).max(10).optional(),
   winnerId: z.string().cuid().optional(),
   winnerScore: z.number().int().min(0).optional(),
 })
@@ -140,7 +195,7 @@ export const UpdateParticipantSchema = z.object({
 export const SubmitAnswerSchema = z.object({
   gameId: z.string().cuid(),
   gameQuestionId: z.string().cuid(),
-  selectedAnswer: AnswerOptionSchema.optional(), // null for timeout
+  selectedAnswer: AnswerSchema.optional(), // null for timeout
   responseTime: z.number().min(0).max(60), // seconds
 })
 
@@ -148,8 +203,8 @@ export const AnswerResultSchema = z.object({
   isCorrect: z.boolean(),
   isTimeout: z.boolean(),
   wasEliminated: z.boolean(),
-  eliminationReason: z.string().optional(),
-  correctAnswer: AnswerOptionSchema,
+  eliminationReason: EliminationReasonSchema.optional(),
+  correctAnswer: AnswerSchema,
   explanation: z.string().optional(),
 })
 
@@ -180,6 +235,7 @@ export const UpdateSystemSettingsSchema = z.object({
   maximumPlayers: z.number().int().min(10).max(100).optional(),
   questionsPerGame: z.number().int().min(5).max(50).optional(),
   finalQuestionThreshold: z.number().int().min(2).max(10).optional(),
+  tieToleranceMs: z.number().int().min(0).max(1000).optional(),
   maintenanceMode: z.boolean().optional(),
   allowPublicGames: z.boolean().optional(),
   allowGuestPlayers: z.boolean().optional(),
@@ -218,6 +274,7 @@ export type CreateUser = z.infer<typeof CreateUserSchema>
 export type UpdateUser = z.infer<typeof UpdateUserSchema>
 
 export type QuestionType = z.infer<typeof QuestionTypeSchema>
+export type QuestionFormat = z.infer<typeof QuestionFormatSchema>
 export type QuestionDifficulty = z.infer<typeof QuestionDifficultySchema>
 export type AnswerOption = z.infer<typeof AnswerOptionSchema>
 export type CreateQuestion = z.infer<typeof CreateQuestionSchema>
@@ -225,6 +282,8 @@ export type UpdateQuestion = z.infer<typeof UpdateQuestionSchema>
 export type QuestionFilter = z.infer<typeof QuestionFilterSchema>
 
 export type GameStatus = z.infer<typeof GameStatusSchema>
+export type EliminationRule = z.infer<typeof EliminationRuleSchema>
+export type EliminationReason = z.infer<typeof EliminationReasonSchema>
 export type CreateGameSession = z.infer<typeof CreateGameSessionSchema>
 export type UpdateGameSession = z.infer<typeof UpdateGameSessionSchema>
 export type JoinGame = z.infer<typeof JoinGameSchema>
@@ -5,6 +5,117 @@
  */
 
 import { z } from 'zod'
+import {
+  MAX_ANSWER_LENGTH,
+  OPTION_LETTERS,
+  QUESTION_FORMATS,
+  TRUE_FALSE_ANSWERS,
+  getOptionLetters,
+  parseAnswerList,
+  type QuestionFormat,
+} from '@/lib/game/question-formats'
+import { MAX_NUMERIC_ANSWER_LENGTH, parseNumericAnswer } from '@/lib/game/numeric-answers'
+
+export const questionFormatSchema = z.enum(QUESTION_FORMATS)
+
+// Options each format needs: every choice, at least three items to pick or order, or none
+const REQUIRED_OPTIONS: Record<QuestionFormat, readonly string[]> = {
+  MULTIPLE_CHOICE: OPTION_LETTERS,
+  TRUE_FALSE: [],
+  MULTI_SELECT: ['A', 'B', 'C'],
+  ORDERING: ['A', 'B', 'C'],
+  FREE_TEXT: [],
+  NUMERIC: [],
+}
+
+// Unit shown after a numeric answer, e.g. "m" or "年"
+export const questionUnitSchema = z
+  .string()
+  .max(20, '単位は20文字以内で入力してください')
+  .nullish()
+
+const optionSchema = (letter: string) => z
+  .string()
+  .max(100, `選択肢${letter}は100文字以内で入力してください`)
+  .nullish()
+
+type QuestionAnswerFields = {
+  format: QuestionFormat
+  optionA?: string | null | undefined
+  optionB?: string | null | undefined
+  optionC?: string | null | undefined
+  optionD?: string | null | undefined
+  correctAnswer: string
+}
+
+/**
+ * Validate a question's options and answer key against its format
+ */
+export const refineQuestionAnswer = (question: QuestionAnswerFields, ctx: z.RefinementCtx) => {
+  const { format, correctAnswer } = question
+  const letters: string[] = getOptionLetters(question)
+
+  REQUIRED_OPTIONS[format]
+    .filter(letter => !letters.includes(letter))
+    .forEach(letter => ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [`option${letter}`],
+      message: `選択肢${letter}は必須です`,
+    }))
+
+  const addAnswerIssue = (message: string) => ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    path: ['correctAnswer'],
+    message,
+  })
+
+  switch (format) {
+    case 'MULTIPLE_CHOICE':
+      if (!letters.includes(correctAnswer)) addAnswerIssue('正解を選択してください')
+      break
+    case 'TRUE_FALSE':
+      if (!(TRUE_FALSE_ANSWERS as readonly string[]).includes(correctAnswer)) addAnswerIssue('〇か×を選択してください')
+      break
+    case 'MULTI_SELECT': {
+      const selected = parseAnswerList(correctAnswer)
+      if (selected.length === 0 || selected.some(letter => !letters.includes(letter))) {
+        addAnswerIssue('正解の選択肢を1つ以上選択してください')
+      } else if (new Set(selected).size !== selected.length) {
+        addAnswerIssue('正解の選択肢が重複しています')
+      }
+      break
+    }
+    case 'ORDERING': {
+      const sequence = parseAnswerList(correctAnswer)
+      const isPermutation = sequence.length === letters.length &&
+        letters.every(letter => sequence.includes(letter))
+      if (!isPermutation) addAnswerIssue('すべての項目を正しい順番に並べてください')
+      break
+    }
+    case 'FREE_TEXT':
+      if (!correctAnswer.trim()) {
+        addAnswerIssue('正解の文字列を入力してください')
+      } else if (correctAnswer.length > MAX_ANSWER_LENGTH) {
+        addAnswerIssue(`正解は${MAX_ANSWER_LENGTH}文字以内で入力してください`)
+      }
+      break
+    case 'NUMERIC':
+      if (correctAnswer.length > MAX_NUMERIC_ANSWER_LENGTH || parseNumericAnswer(correctAnswer) === null) {
+        addAnswerIssue('正解の数値を入力してください')
+      }
+      break
+  }
+}
+
+// Options and answer key on their own, e.g. to check a partial update merged with the stored question
+export const questionAnswerSchema = z.object({
+  format: questionFormatSchema,
+  optionA: optionSchema('A'),
+  optionB: optionSchema('B'),
+  optionC: optionSchema('C'),
+  optionD: optionSchema('D'),
+  correctAnswer: z.string(),
+}).superRefine(refineQuestionAnswer)
 
 export const questionFormSchema = z.object({
   text: z
@@ -12,27 +123,16 @@ export const questionFormSchema = z.object({
     .min(10, '問題文は10文字以上で入力してください')
     .max(500, '問題文は500文字以内で入力してください'),
   
-  optionA: z
-    .string()
-    .min(1, '選択肢Aは必須です')
-    .max(100, '選択肢Aは100文字以内で入力してください'),
+  format: questionFormatSchema.default('MULTIPLE_CHOICE'),
   
-  optionB: z
-    .string()
-    .min(1, '選択肢Bは必須です')
-    .max(100, '選択肢Bは100文字以内で入力してください'),
+  optionA: optionSchema('A'),
+  optionB: optionSchema('B'),
+  optionC: optionSchema('C'),
+  optionD: optionSchema('D'),
   
-  optionC: z
-    .string()
-    .min(1, '選択肢Cは必須です')
-    .max(100, '選択肢Cは100文字以内で入力してください'),
-  
-  optionD: z
-    .string()
-    .min(1, '選択肢Dは必須です')
-    .max(100, '選択肢Dは100文字以内で入力してください'),
+  unit: questionUnitSchema,
   
-  correctAnswer: z.enum(['A', 'B', 'C', 'D'], {
+  correctAnswer: z.string({
     message: '正解を選択してください',
   }),
   
@@ -53,7 +153,7 @@ export const questionFormSchema = z.object({
   isActive: z.boolean().optional().default(true),
   
   type: z.enum(['NORMAL', 'FINAL']).optional().default('NORMAL'),
-})
+}).superRefine(refineQuestionAnswer)
 
 export type QuestionFormData = z.infer<typeof questionFormSchema>
 
@@ -64,6 +164,7 @@ export const questionFilterSchema = z.object({
   category: z.string().optional(),
   isActive: z.boolean().optional(),
   type: z.enum(['NORMAL', 'FINAL']).optional(),
+  format: questionFormatSchema.optional(),
   page: z.number().min(1).default(1),
   limit: z.number().min(1).max(100).default(20),
 })
@@ -73,11 +174,13 @@ export type QuestionFilterData = z.infer<typeof questionFilterSchema>
 // Question preview schema
 export const questionPreviewSchema = z.object({
   text: z.string(),
-  optionA: z.string(),
-  optionB: z.string(),
-  optionC: z.string(),
-  optionD: z.string(),
-  correctAnswer: z.enum(['A', 'B', 'C', 'D']),
+  format: questionFormatSchema,
+  optionA: z.string().nullable(),
+  optionB: z.string().nullable(),
+  optionC: z.string().nullable(),
+  optionD: z.string().nullable(),
+  unit: z.string().nullable(),
+  correctAnswer: z.string(),
   difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']),
   type: z.enum(['NORMAL', 'FINAL']),
 })
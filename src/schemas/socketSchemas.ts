@@ -0,0 +1,90 @@
+/**
+ * Socket Event Validation Schemas
+ *
+ * Zod schemas for the payloads clients send over Socket.io. The server parses
+ * every inbound event with these before acting on it. Requests carry no player
+ * or admin ID, nor a player name: the server acts for the socket's signed-in user.
+ */
+
+import { z } from 'zod'
+import { MAX_ANSWER_LENGTH } from '@/lib/game/question-formats'
+
+// Game codes: six characters for real games, longer for simulated ones
+export const SocketGameCodeSchema = z.string().min(1).max(16)
+
+export const JoinGameRequestSchema = z.object({
+  gameCode: SocketGameCodeSchema,
+  // Team battles: the team picked in the lobby
+  teamId: z.string().min(1).optional(),
+})
+
+export const LeaveGameRequestSchema = z.object({
+  gameCode: SocketGameCodeSchema,
+})
+
+export const ChooseTeamRequestSchema = z.object({
+  gameCode: SocketGameCodeSchema,
+  teamId: z.string().min(1),
+})
+
+export const ResumeSessionRequestSchema = z.object({
+  gameCode: SocketGameCodeSchema,
+  resumeToken: z.string().min(1),
+})
+
+// The big screen follows a game read-only
+export const JoinMonitorRequestSchema = z.object({
+  gameCode: SocketGameCodeSchema,
+})
+
+export const PlayerAnswerSubmissionSchema = z.object({
+  gameCode: SocketGameCodeSchema,
+  questionId: z.string().min(1),
+  // An empty answer is a timeout
+  selectedAnswer: z.string().max(MAX_ANSWER_LENGTH),
+  // Seconds, as measured by the client (kept for auditing only)
+  responseTime: z.number().min(0).max(600),
+})
+
+export const AdminActionTypeSchema = z.enum([
+  'start-game',
+  'next-question',
+  'end-game',
+  'pause-game',
+  'resume-game'
+])
+
+export const AdminActionPayloadSchema = z.object({
+  reason: z.string().max(200).optional(),
+})
+
+export const AdminActionRequestSchema = z.object({
+  action: AdminActionTypeSchema,
+  gameCode: SocketGameCodeSchema,
+  payload: AdminActionPayloadSchema.optional(),
+})
+
+// Schema of every event a client may send, by event name
+export const clientEventSchemas = {
+  'join-game': JoinGameRequestSchema,
+  'leave-game': LeaveGameRequestSchema,
+  'choose-team': ChooseTeamRequestSchema,
+  'resume-session': ResumeSessionRequestSchema,
+  'join-monitor': JoinMonitorRequestSchema,
+  'submit-answer': PlayerAnswerSubmissionSchema,
+  'admin-action': AdminActionRequestSchema,
+} as const
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type JoinGameRequest = z.infer<typeof JoinGameRequestSchema>
+export type LeaveGameRequest = z.infer<typeof LeaveGameRequestSchema>
+export type ChooseTeamRequest = z.infer<typeof ChooseTeamRequestSchema>
+export type ResumeSessionRequest = z.infer<typeof ResumeSessionRequestSchema>
+export type JoinMonitorRequest = z.infer<typeof JoinMonitorRequestSchema>
+export type PlayerAnswerSubmission = z.infer<typeof PlayerAnswerSubmissionSchema>
+export type AdminActionType = z.infer<typeof AdminActionTypeSchema>
+export type AdminActionPayload = z.infer<typeof AdminActionPayloadSchema>
+export type AdminActionRequest = z.infer<typeof AdminActionRequestSchema>
@@ -229,6 +229,8 @@ describe('Questions tRPC Router', () => {
           explanation: 'Basic arithmetic',
           tags: 'math,basic', // Should be converted to comma-separated string
           type: 'NORMAL',
+          format: 'MULTIPLE_CHOICE',
+          unit: null,
           createdBy: 'test-user-id',
         },
         select: {
@@ -293,6 +295,81 @@ describe('Questions tRPC Router', () => {
       await expect(caller.create(invalidData as never)).rejects.toThrow()
     })
 
+    it('should store a true/false question without options', async () => {
+      // Arrange
+      mockPrisma.question.create.mockResolvedValue({ id: 'new-q', tags: null })
+      const caller = createCaller()
+
+      // Act
+      await caller.create({
+        text: 'Mount Fuji is the highest mountain in Japan.',
+        format: 'TRUE_FALSE',
+        optionA: '',
+        correctAnswer: 'TRUE',
+        tags: [],
+      })
+
+      // Assert
+      expect(mockPrisma.question.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          format: 'TRUE_FALSE',
+          optionA: null,
+          optionB: null,
+          optionC: null,
+          optionD: null,
+          correctAnswer: 'TRUE',
+        }),
+        select: expect.any(Object),
+      })
+    })
+
+    it('should store a numeric question with its target and unit', async () => {
+      // Arrange
+      mockPrisma.question.create.mockResolvedValue({ id: 'new-q', tags: null })
+      const caller = createCaller()
+
+      // Act
+      await caller.create({
+        text: 'How tall is Mount Fuji in meters?',
+        type: 'FINAL',
+        format: 'NUMERIC',
+        correctAnswer: '3776',
+        unit: ' m ',
+        tags: [],
+      })
+
+      // Assert
+      expect(mockPrisma.question.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          format: 'NUMERIC',
+          optionA: null,
+          correctAnswer: '3776',
+          unit: 'm',
+        }),
+        select: expect.any(Object),
+      })
+      await expect(caller.create({
+        text: 'How tall is Mount Fuji in meters?',
+        format: 'NUMERIC',
+        correctAnswer: 'about 3776',
+        tags: [],
+      })).rejects.toThrow()
+    })
+
+    it('should reject answer keys that do not fit the format', async () => {
+      // Arrange
+      const caller = createCaller()
+      const orderingQuestion = {
+        ...validQuestionData,
+        format: 'ORDERING' as const,
+      }
+
+      // Act & Assert
+      await expect(caller.create({ ...orderingQuestion, correctAnswer: 'B,A,C' })).rejects.toThrow()
+      await expect(caller.create({ ...validQuestionData, format: 'MULTI_SELECT', correctAnswer: 'A,E' })).rejects.toThrow()
+      expect(mockPrisma.question.create).not.toHaveBeenCalled()
+    })
+
     it('should handle null explanation and category', async () => {
       // Arrange
       const questionWithNulls = {
@@ -399,6 +476,24 @@ describe('Questions tRPC Router', () => {
       expect(updateCall?.data).toHaveProperty('text', 'New text that is long enough to pass validation')
     })
 
+    it('should validate a changed answer key against the stored question', async () => {
+      // Arrange
+      mockPrisma.question.findUnique.mockResolvedValue({
+        format: 'MULTI_SELECT',
+        optionA: 'Tokyo',
+        optionB: 'Osaka',
+        optionC: 'Paris',
+        optionD: null,
+        correctAnswer: 'A,B',
+      })
+      const caller = createCaller()
+
+      // Act & Assert
+      await expect(caller.update({ id: 'cm12345678901234567890', correctAnswer: 'A,D' }))
+        .rejects.toThrow('正解の選択肢を1つ以上選択してください')
+      expect(mockPrisma.question.update).not.toHaveBeenCalled()
+    })
+
     it('should handle empty tags in update', async () => {
       // Arrange
       const updateWithEmptyTags = {
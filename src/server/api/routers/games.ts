@@ -17,12 +17,44 @@ import {
   protectedProcedure,
   adminProcedure,
 } from '@/server/api/trpc'
+import { AnswerSchema, EliminationRuleSchema, TeamInputSchema, TeamScoringSchema } from '@/schemas/gameSchemas'
+import {
+  syncGameRoom,
+  removeGameRoom,
+} from '@/lib/socket/room-lifecycle'
+import { recordGameStatistics } from '@/lib/socket/game-statistics'
+import { createAppError } from '@/lib/trpc/errors'
+import {
+  buildStatusUpdate,
+  checkTransition,
+  type GameTransitionContext,
+  type GameTransitionEffect,
+} from '@/lib/game/game-state'
+import type { GameStatus } from '@/schemas/gameSchemas'
+import { loadGameEvents, replayGame } from '@/lib/socket/game-events'
+import { DEFAULT_STARTING_LIVES, MAX_STARTING_LIVES } from '@/lib/game/lives'
+import { isAnswerCorrect } from '@/lib/game/question-formats'
+import { DEFAULT_SCORE_TABLE } from '@/lib/game/scoring'
+import { MAX_TEAMS } from '@/lib/game/teams'
 
 // Helper function to generate game code
 const generateGameCode = (): string => {
   return Math.random().toString(36).substring(2, 8).toUpperCase()
 }
 
+// Run a status change through the game state machine, refusing conflicting transitions
+const assertGameTransition = (
+  from: GameStatus,
+  to: GameStatus,
+  context?: GameTransitionContext
+): GameTransitionEffect[] => {
+  const check = checkTransition(from, to, context)
+  if (!check.allowed) {
+    throw createAppError(check.errorCode, check.message)
+  }
+  return check.effects
+}
+
 export const gamesRouter = createTRPCRouter({
   // Create a new game session
   create: protectedProcedure
@@ -32,7 +64,28 @@ export const gamesRouter = createTRPCRouter({
         maxPlayers: z.number().min(2).max(50).default(20),
         questionTimeLimit: z.number().min(5).max(60).default(10),
         isPublic: z.boolean().default(true),
+        eliminationRule: EliminationRuleSchema.default('SLOWEST_CORRECT'),
+        eliminationCount: z.number().min(1).max(10).default(1),
+        startingLives: z.number().min(1).max(MAX_STARTING_LIVES).default(DEFAULT_STARTING_LIVES),
+        // Point table
+        pointsPerCorrect: z.number().int().min(0).max(1000).default(DEFAULT_SCORE_TABLE.pointsPerCorrect),
+        speedBonusPoints: z.number().int().min(0).max(1000).default(DEFAULT_SCORE_TABLE.speedBonusPoints),
+        streakBonusPoints: z.number().int().min(0).max(1000).default(DEFAULT_SCORE_TABLE.streakBonusPoints),
+        easyMultiplier: z.number().min(0).max(10).default(DEFAULT_SCORE_TABLE.difficultyMultipliers.EASY),
+        mediumMultiplier: z.number().min(0).max(10).default(DEFAULT_SCORE_TABLE.difficultyMultipliers.MEDIUM),
+        hardMultiplier: z.number().min(0).max(10).default(DEFAULT_SCORE_TABLE.difficultyMultipliers.HARD),
+        // Team battle: teams compete under the chosen scoring (omit for an individual game)
+        teamScoring: TeamScoringSchema.optional(),
+        teams: z.array(TeamInputSchema).max(MAX_TEAMS).default([]),
       })
+        .refine((input) => !input.teamScoring || input.teams.length >= 2, {
+          message: 'A team battle needs at least two teams',
+          path: ['teams'],
+        })
+        .refine((input) => new Set(input.teams.map((team) => team.name)).size === input.teams.length, {
+          message: 'Team names must be unique',
+          path: ['teams'],
+        })
     )
     .mutation(async ({ ctx, input }) => {
       // Generate unique game code
@@ -64,6 +117,25 @@ export const gamesRouter = createTRPCRouter({
           maxPlayers: input.maxPlayers,
           questionTimeLimit: input.questionTimeLimit,
           isPublic: input.isPublic,
+          eliminationRule: input.eliminationRule,
+          eliminationCount: input.eliminationCount,
+          startingLives: input.startingLives,
+          pointsPerCorrect: input.pointsPerCorrect,
+          speedBonusPoints: input.speedBonusPoints,
+          streakBonusPoints: input.streakBonusPoints,
+          easyMultiplier: input.easyMultiplier,
+          mediumMultiplier: input.mediumMultiplier,
+          hardMultiplier: input.hardMultiplier,
+          teamScoring: input.teamScoring ?? null,
+          ...(input.teamScoring && {
+            teams: {
+              create: input.teams.map((team, index) => ({
+                name: team.name,
+                color: team.color ?? null,
+                order: index,
+              })),
+            },
+          }),
         },
         select: {
           id: true,
@@ -73,10 +145,25 @@ export const gamesRouter = createTRPCRouter({
           maxPlayers: true,
           questionTimeLimit: true,
           isPublic: true,
+          eliminationRule: true,
+          eliminationCount: true,
+          startingLives: true,
+          pointsPerCorrect: true,
+          speedBonusPoints: true,
+          streakBonusPoints: true,
+          easyMultiplier: true,
+          mediumMultiplier: true,
+          hardMultiplier: true,
+          teamScoring: true,
+          teams: {
+            select: { id: true, name: true, color: true },
+            orderBy: { order: 'asc' },
+          },
           createdAt: true,
         },
       })
 
+      // The realtime server opens the live room when the first player joins
       return game
     }),
 
@@ -139,6 +226,7 @@ export const gamesRouter = createTRPCRouter({
         data: {
           gameId: game.id,
           playerId: ctx.session.user.id,
+          livesRemaining: game.startingLives,
         },
       })
 
@@ -248,23 +336,13 @@ export const gamesRouter = createTRPCRouter({
         })
       }
 
-      if (game.status !== 'WAITING') {
-        throw new TRPCError({
-          code: 'CONFLICT',
-          message: 'Game has already started',
-        })
-      }
-
-      if (game.participants.length < 2) {
-        throw new TRPCError({
-          code: 'BAD_REQUEST',
-          message: 'At least 2 players are required to start the game',
-        })
-      }
+      const effects = assertGameTransition(game.status, 'STARTING', {
+        playerCount: game.participants.length,
+      })
 
-      // Get random questions
+      // Get random questions; FINAL questions are kept for the final showdown
       const questions = await ctx.prisma.question.findMany({
-        where: { isActive: true },
+        where: { isActive: true, type: 'NORMAL' },
         take: input.questionCount * 2, // Get extra for randomization
         orderBy: { createdAt: 'desc' },
       })
@@ -287,8 +365,7 @@ export const gamesRouter = createTRPCRouter({
         await tx.gameSession.update({
           where: { id: input.gameId },
           data: {
-            status: 'STARTING',
-            startedAt: new Date(),
+            ...buildStatusUpdate('STARTING', effects),
             totalQuestions: input.questionCount,
           },
         })
@@ -313,6 +390,11 @@ export const gamesRouter = createTRPCRouter({
         })
       })
 
+      syncGameRoom(game.code, {
+        status: 'STARTING',
+        totalQuestions: input.questionCount,
+      })
+
       return updatedGame
     }),
 
@@ -322,7 +404,7 @@ export const gamesRouter = createTRPCRouter({
       z.object({
         gameId: z.string().cuid(),
         questionOrder: z.number().min(1),
-        selectedAnswer: z.enum(['A', 'B', 'C', 'D']),
+        selectedAnswer: AnswerSchema,
         responseTime: z.number().min(0).max(60), // seconds
       })
     )
@@ -342,6 +424,7 @@ export const gamesRouter = createTRPCRouter({
           },
           question: {
             select: {
+              format: true,
               correctAnswer: true,
             },
           },
@@ -394,7 +477,11 @@ export const gamesRouter = createTRPCRouter({
         })
       }
 
-      const isCorrect = input.selectedAnswer === gameQuestion.question.correctAnswer
+      const isCorrect = isAnswerCorrect(
+        gameQuestion.question.format,
+        input.selectedAnswer,
+        gameQuestion.question.correctAnswer
+      )
 
       // Create answer record
       const answer = await ctx.prisma.playerAnswer.create({
@@ -572,7 +659,12 @@ export const gamesRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const game = await ctx.prisma.gameSession.findUnique({
         where: { id: input.gameId },
-        select: { id: true, status: true, adminId: true },
+        select: {
+          id: true,
+          status: true,
+          adminId: true,
+          _count: { select: { participants: true } },
+        },
       })
 
       if (!game) {
@@ -582,13 +674,13 @@ export const gamesRouter = createTRPCRouter({
         })
       }
 
+      const effects = assertGameTransition(game.status, input.status, {
+        playerCount: game._count.participants,
+      })
+
       const updatedGame = await ctx.prisma.gameSession.update({
         where: { id: input.gameId },
-        data: {
-          status: input.status,
-          ...(input.status === 'FINISHED' && !game.adminId && { endedAt: new Date() }),
-          ...(input.status === 'CANCELLED' && { endedAt: new Date() }),
-        },
+        data: buildStatusUpdate(input.status, effects),
         select: {
           id: true,
           name: true,
@@ -598,6 +690,16 @@ export const gamesRouter = createTRPCRouter({
         },
       })
 
+      // Push the change to the live room (finished and cancelled games close it)
+      syncGameRoom(updatedGame.code, {
+        status: updatedGame.status,
+        ...(input.reason && { reason: input.reason }),
+      })
+
+      if (effects.includes('record-statistics')) {
+        await recordGameStatistics(updatedGame.id)
+      }
+
       return updatedGame
     }),
 
@@ -635,6 +737,8 @@ export const gamesRouter = createTRPCRouter({
         where: { id: input.gameId },
       })
 
+      removeGameRoom(game.code)
+
       return { success: true }
     }),
 
@@ -677,6 +781,103 @@ export const gamesRouter = createTRPCRouter({
     }
   }),
 
+  // Admin: Get the recorded statistics of a single game
+  getStatistics: adminProcedure
+    .input(z.object({ gameId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const game = await ctx.prisma.gameSession.findUnique({
+        where: { id: input.gameId },
+        select: { id: true, status: true },
+      })
+
+      if (!game) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Game not found',
+        })
+      }
+
+      const statistics = await ctx.prisma.gameStatistics.findUnique({
+        where: { gameId: input.gameId },
+      })
+
+      // Finished games recorded before statistics existed are calculated on first read
+      if (!statistics && game.status === 'FINISHED') {
+        return recordGameStatistics(game.id)
+      }
+
+      return statistics
+    }),
+
+  // Admin: Recalculate the statistics of a game from its answers
+  recalculateStatistics: adminProcedure
+    .input(z.object({ gameId: z.string().cuid() }))
+    .mutation(async ({ input }) => {
+      const statistics = await recordGameStatistics(input.gameId)
+
+      if (!statistics) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Game not found',
+        })
+      }
+
+      return statistics
+    }),
+
+  // Admin: Get the ordered event log of a game
+  getEventLog: adminProcedure
+    .input(z.object({ gameId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const game = await ctx.prisma.gameSession.findUnique({
+        where: { id: input.gameId },
+        select: { id: true },
+      })
+
+      if (!game) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Game not found',
+        })
+      }
+
+      return loadGameEvents(game.id)
+    }),
+
+  // Admin: Rebuild a game's room state at an event index for playback
+  replayGame: adminProcedure
+    .input(
+      z.object({
+        gameId: z.string().cuid(),
+        // Defaults to the last event
+        eventIndex: z.number().int().min(-1).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const game = await ctx.prisma.gameSession.findUnique({
+        where: { id: input.gameId },
+        select: {
+          id: true,
+          code: true,
+          name: true,
+          status: true,
+          totalQuestions: true,
+          startingLives: true,
+        },
+      })
+
+      if (!game) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Game not found',
+        })
+      }
+
+      const replay = await replayGame(game.id, game.startingLives, input.eventIndex)
+
+      return { game, ...replay }
+    }),
+
   // Get public game list
   getPublicGames: publicProcedure
     .input(
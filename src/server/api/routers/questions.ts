@@ -17,6 +17,15 @@ import {
   protectedProcedure,
   adminProcedure,
 } from '@/server/api/trpc'
+import {
+  questionAnswerSchema,
+  questionFormatSchema,
+  questionUnitSchema,
+  refineQuestionAnswer,
+} from '@/schemas/questionSchemas'
+
+// Unused options are stored as null
+const toOptionValue = (option: string | null | undefined) => option?.trim() || null
 
 export const questionsRouter = createTRPCRouter({
   // Get random questions for a game
@@ -63,12 +72,14 @@ export const questionsRouter = createTRPCRouter({
           id: true,
           text: true,
           type: true,
+          format: true,
           difficulty: true,
           optionA: true,
           optionB: true,
           optionC: true,
           optionD: true,
           correctAnswer: true,
+          unit: true,
           explanation: true,
           category: true,
           tags: true,
@@ -131,21 +142,28 @@ export const questionsRouter = createTRPCRouter({
       z.object({
         text: z.string().min(10, 'Question text must be at least 10 characters'),
         type: z.enum(['NORMAL', 'FINAL']).default('NORMAL'),
+        format: questionFormatSchema.default('MULTIPLE_CHOICE'),
         difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']).default('MEDIUM'),
-        optionA: z.string().min(1, 'Option A is required'),
-        optionB: z.string().min(1, 'Option B is required'),
-        optionC: z.string().min(1, 'Option C is required'),
-        optionD: z.string().min(1, 'Option D is required'),
-        correctAnswer: z.enum(['A', 'B', 'C', 'D']),
+        optionA: z.string().nullish(),
+        optionB: z.string().nullish(),
+        optionC: z.string().nullish(),
+        optionD: z.string().nullish(),
+        correctAnswer: z.string().min(1, 'Correct answer is required'),
+        unit: questionUnitSchema,
         explanation: z.string().optional(),
         category: z.string().optional(),
         tags: z.array(z.string()).default([]),
-      })
+      }).superRefine(refineQuestionAnswer)
     )
     .mutation(async ({ ctx, input }) => {
       // Convert undefined to null for nullable fields to satisfy Prisma types
       const questionData = {
         ...input,
+        optionA: toOptionValue(input.optionA),
+        optionB: toOptionValue(input.optionB),
+        optionC: toOptionValue(input.optionC),
+        optionD: toOptionValue(input.optionD),
+        unit: input.unit?.trim() || null,
         explanation: input.explanation ?? null,
         category: input.category ?? null,
         tags: input.tags.length > 0 ? input.tags.join(',') : null, // Convert array to comma-separated string
@@ -178,12 +196,14 @@ export const questionsRouter = createTRPCRouter({
         id: z.string().cuid(),
         text: z.string().min(10).optional(),
         type: z.enum(['NORMAL', 'FINAL']).optional(),
+        format: questionFormatSchema.optional(),
         difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']).optional(),
-        optionA: z.string().min(1).optional(),
-        optionB: z.string().min(1).optional(),
-        optionC: z.string().min(1).optional(),
-        optionD: z.string().min(1).optional(),
-        correctAnswer: z.enum(['A', 'B', 'C', 'D']).optional(),
+        optionA: z.string().nullish(),
+        optionB: z.string().nullish(),
+        optionC: z.string().nullish(),
+        optionD: z.string().nullish(),
+        correctAnswer: z.string().min(1).optional(),
+        unit: questionUnitSchema,
         explanation: z.string().optional(),
         category: z.string().optional(),
         tags: z.array(z.string()).optional(),
@@ -193,6 +213,45 @@ export const questionsRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const { id, ...updateData } = input
 
+      // Options and answer key must still fit the format once merged with the stored question
+      const answerFields = ['format', 'optionA', 'optionB', 'optionC', 'optionD', 'correctAnswer'] as const
+      if (answerFields.some(field => updateData[field] !== undefined)) {
+        const current = await ctx.prisma.question.findUnique({
+          where: { id },
+          select: {
+            format: true,
+            optionA: true,
+            optionB: true,
+            optionC: true,
+            optionD: true,
+            correctAnswer: true,
+          },
+        })
+
+        if (!current) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Question not found',
+          })
+        }
+
+        const merged = questionAnswerSchema.safeParse({
+          format: updateData.format ?? current.format,
+          optionA: updateData.optionA !== undefined ? updateData.optionA : current.optionA,
+          optionB: updateData.optionB !== undefined ? updateData.optionB : current.optionB,
+          optionC: updateData.optionC !== undefined ? updateData.optionC : current.optionC,
+          optionD: updateData.optionD !== undefined ? updateData.optionD : current.optionD,
+          correctAnswer: updateData.correctAnswer ?? current.correctAnswer,
+        })
+
+        if (!merged.success) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: merged.error.issues[0]?.message ?? 'Invalid answer for the question format',
+          })
+        }
+      }
+
       // Convert undefined to null for nullable fields and filter out undefined properties
       const filteredData = Object.fromEntries(
         Object.entries(updateData).filter(([_, value]) => value !== undefined)
@@ -200,6 +259,12 @@ export const questionsRouter = createTRPCRouter({
 
       const questionUpdateData = {
         ...filteredData,
+        ...Object.fromEntries(
+          (['optionA', 'optionB', 'optionC', 'optionD'] as const)
+            .filter(option => updateData[option] !== undefined)
+            .map(option => [option, toOptionValue(updateData[option])])
+        ),
+        ...(updateData.unit !== undefined && { unit: updateData.unit?.trim() || null }),
         ...(updateData.explanation !== undefined && { explanation: updateData.explanation ?? null }),
         ...(updateData.category !== undefined && { category: updateData.category ?? null }),
         ...(updateData.tags !== undefined && { 
@@ -260,6 +325,7 @@ export const questionsRouter = createTRPCRouter({
         search: z.string().optional(),
         difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']).optional(),
         type: z.enum(['NORMAL', 'FINAL']).optional(),
+        format: questionFormatSchema.optional(),
         category: z.string().optional(),
         isActive: z.boolean().optional(),
       })
@@ -276,6 +342,7 @@ export const questionsRouter = createTRPCRouter({
         }),
         ...(input.difficulty && { difficulty: input.difficulty }),
         ...(input.type && { type: input.type }),
+        ...(input.format && { format: input.format }),
         ...(input.category && { category: input.category }),
         ...(input.isActive !== undefined && { isActive: input.isActive }),
       }
@@ -287,6 +354,7 @@ export const questionsRouter = createTRPCRouter({
             id: true,
             text: true,
             type: true,
+            format: true,
             difficulty: true,
             category: true,
             tags: true,
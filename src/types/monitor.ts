@@ -4,24 +4,34 @@
  * Type definitions for monitor display system
  */
 
+import type { QuestionFormat } from '@/lib/game/question-formats'
+
 // Basic game types for monitor display
 export type GamePlayer = {
   userId: string
   userName: string
   status: 'ACTIVE' | 'ELIMINATED' | 'DISCONNECTED' | 'WINNER'
   eliminationOrder?: number
+  // Remaining lives in survival mode
+  lives?: number
+  maxLives?: number
 }
 
 export type Question = {
   id: string
   text: string
-  optionA: string
-  optionB: string
-  optionC: string
-  optionD: string
-  correctAnswer: 'A' | 'B' | 'C' | 'D'
+  // How the question is answered (multiple choice when absent)
+  format?: QuestionFormat
+  optionA: string | null
+  optionB: string | null
+  optionC: string | null
+  optionD: string | null
+  // Numeric questions: unit shown after the guesses
+  unit?: string | null
+  correctAnswer: string
   type: 'NORMAL' | 'FINAL'
-  difficulty: 'EASY' | 'MEDIUM' | 'HARD'
+  // Unknown for questions recorded without it
+  difficulty?: 'EASY' | 'MEDIUM' | 'HARD'
   explanation?: string
   category?: string
   questionNumber?: number
@@ -35,6 +45,6 @@ export type PlayerResult = {
 }
 
 export type QuestionResult = {
-  correctAnswer: 'A' | 'B' | 'C' | 'D'
+  correctAnswer: string
   results: PlayerResult[]
 }
\ No newline at end of file